@@ -6,6 +6,13 @@ import { GitHubRepoBrowser } from "./components/GitHubRepoBrowser";
 import { TestWorkflow } from "./components/TestWorkflow/index";
 import { TestButton } from "./components/TestButton";
 import { WorkflowBundle } from "./types/workflow";
+import { ValidationReport } from "./lib/workflow-validation";
+import { ValidationReportPanel } from "./components/ValidationReportPanel";
+import {
+  BundleComparison,
+  BundleDiff,
+  BundleDiffUpload,
+} from "./components/BundleDiff";
 import { Moon, Sun } from "lucide-react";
 import { Button } from "./components/ui/button";
 import "./styles/globals.css";
@@ -18,6 +25,9 @@ const SHOW_BUTTON_TEST = false;
 
 function App() {
   const [template, setTemplate] = useState<WorkflowBundle | null>(null);
+  const [validationReport, setValidationReport] =
+    useState<ValidationReport | null>(null);
+  const [comparison, setComparison] = useState<BundleComparison | null>(null);
   const [darkMode, setDarkMode] = useState(true); // Default to dark mode
 
   // Initialize dark mode based on localStorage or use dark mode as default
@@ -47,15 +57,22 @@ function App() {
     setDarkMode(!darkMode);
   };
 
-  const handleFileUpload = (data: WorkflowBundle) => {
+  const handleFileUpload = (data: WorkflowBundle, report: ValidationReport) => {
     console.log("Uploaded template:", data);
     setTemplate(data);
+    // Keep the warnings visible next to the loaded workflow
+    setValidationReport(report.issues.length > 0 ? report : null);
     // Don't hide the browser when a workflow is loaded
     // This allows users to easily go back to browsing after viewing a workflow
   };
 
+  const handleCompare = (next: BundleComparison) => {
+    setComparison(next);
+  };
+
   const handleBackClick = () => {
     setTemplate(null);
+    setValidationReport(null);
   };
 
   // Use the test workflow component for debugging
@@ -103,8 +120,18 @@ function App() {
         </div>
 
         <div className="flex flex-col gap-8">
+          {/* Diff of two exports, in place of the loaded workflow */}
+          {comparison && (
+            <div className="grid grid-cols-1 gap-8">
+              <BundleDiff
+                comparison={comparison}
+                onClose={() => setComparison(null)}
+              />
+            </div>
+          )}
+
           {/* Top: File upload when no template is loaded */}
-          {!template && (
+          {!comparison && !template && (
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
               <div className="lg:col-span-12 space-y-8">
                 {/* File Upload with toggle button */}
@@ -128,19 +155,35 @@ function App() {
                     <FileUpload onFileUpload={handleFileUpload} />
                   </div>
                 </div>
+
+                {/* Two exports to compare */}
+                <div className="bg-[hsl(var(--card))] rounded-lg shadow-lg">
+                  <BundleDiffUpload onCompare={handleCompare} />
+                </div>
               </div>
               {/* GitHub Browser Component - Always shown */}
               {
                 <div className="lg:col-span-12 bg-[hsl(var(--card))] rounded-lg shadow-lg p-4">
-                  <GitHubRepoBrowser onWorkflowSelect={handleFileUpload} />
+                  <GitHubRepoBrowser
+                    onWorkflowSelect={handleFileUpload}
+                    onCompareRevisions={handleCompare}
+                  />
                 </div>
               }
             </div>
           )}
 
           {/* Workflow visualization */}
-          {template && (
+          {!comparison && template && (
             <div className="grid grid-cols-1 gap-8">
+              {/* Warnings found while validating the bundle */}
+              {validationReport && (
+                <ValidationReportPanel
+                  report={validationReport}
+                  onDismiss={() => setValidationReport(null)}
+                />
+              )}
+
               {/* Canvas at the top */}
               <div className="bg-[hsl(var(--card))] rounded-lg shadow-lg h-[700px] flex flex-col">
                 <div className="p-4 border-b border-[hsl(var(--border))]">
@@ -173,7 +216,10 @@ function App() {
               {/* GitHub browser below the canvas */}
               {
                 <div className="bg-[hsl(var(--card))] rounded-lg shadow-lg p-4">
-                  <GitHubRepoBrowser onWorkflowSelect={handleFileUpload} />
+                  <GitHubRepoBrowser
+                    onWorkflowSelect={handleFileUpload}
+                    onCompareRevisions={handleCompare}
+                  />
                 </div>
               }
             </div>
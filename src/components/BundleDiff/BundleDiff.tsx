@@ -0,0 +1,93 @@
+import { useMemo } from "react";
+import { ReactFlowProvider } from "reactflow";
+import { buildDiffOverlay, diffWorkflowBundles } from "@/lib/workflow-diff";
+import { WorkflowViewer } from "@/components/workflow/viewer";
+import { DIFF_STATUS_CLASSES } from "@/components/workflow/shared/constants";
+import { cn } from "@/lib/utils";
+import { BUNDLE_DIFF_CONSTANTS } from "./constants";
+import { BundleDiffProps } from "./types";
+
+/**
+ * BundleDiff Component
+ *
+ * Shows the semantic diff of two exports of a bundle. The newer export is
+ * drawn on the canvas with the removed tasks and transitions added back, and
+ * the tasks and transitions coloured by how they changed.
+ *
+ * @example
+ * ```tsx
+ * <BundleDiff comparison={comparison} onClose={() => setComparison(null)} />
+ * ```
+ */
+export function BundleDiff({ comparison, onClose }: BundleDiffProps) {
+  const { before, after, beforeLabel, afterLabel } = comparison;
+
+  const diff = useMemo(
+    () => diffWorkflowBundles(before, after),
+    [before, after]
+  );
+  const overlay = useMemo(
+    () => buildDiffOverlay(before, after, diff),
+    [before, after, diff]
+  );
+
+  const changedWorkflows = diff.workflows.filter(
+    (workflow) => workflow.status !== "unchanged"
+  );
+
+  return (
+    <div className="bg-[hsl(var(--card))] rounded-lg shadow-lg h-[700px] flex flex-col">
+      <div className="p-4 border-b border-[hsl(var(--border))] space-y-2">
+        <div className="flex justify-between items-center gap-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-[hsl(var(--muted))] hover:bg-[hsl(var(--muted))]/80
+                      text-foreground rounded-md transition-colors"
+          >
+            ← Back
+          </button>
+          <div className="text-sm text-right">
+            <span className="text-red-500">{beforeLabel}</span>
+            {" → "}
+            <span className="text-green-500">{afterLabel}</span>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {changedWorkflows.length === 0 && (
+            <span className="text-[hsl(var(--muted-foreground))]">
+              {BUNDLE_DIFF_CONSTANTS.UI_TEXT.NO_CHANGES}
+            </span>
+          )}
+          {(["added", "removed", "modified"] as const).map(
+            (status) =>
+              diff.summary[status] > 0 && (
+                <span
+                  key={status}
+                  className={cn(
+                    "px-1.5 rounded-full border",
+                    DIFF_STATUS_CLASSES[status]
+                  )}
+                >
+                  {diff.summary[status]} tasks {status}
+                </span>
+              )
+          )}
+          {changedWorkflows.map((workflow) => (
+            <span
+              key={workflow.workflowId}
+              className={cn(
+                "px-1.5 rounded border",
+                DIFF_STATUS_CLASSES[workflow.status]
+              )}
+            >
+              {workflow.name}
+            </span>
+          ))}
+        </div>
+      </div>
+      <ReactFlowProvider>
+        <WorkflowViewer template={overlay.bundle} diff={overlay} />
+      </ReactFlowProvider>
+    </div>
+  );
+}
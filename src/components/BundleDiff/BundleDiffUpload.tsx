@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { GitCompare, Upload } from "lucide-react";
+import {
+  ValidationReport,
+  createValidationReport,
+  validateWorkflowBundle,
+} from "@/lib/workflow-validation";
+import { ValidationReportPanel } from "@/components/ValidationReportPanel";
+import { WorkflowBundle } from "@/types/workflow";
+import { BUNDLE_DIFF_CONSTANTS } from "./constants";
+import { BundleDiffUploadProps } from "./types";
+
+/**
+ * A loaded export and the name of its file
+ */
+interface LoadedExport {
+  bundle: WorkflowBundle;
+  fileName: string;
+}
+
+/**
+ * BundleDiffUpload Component
+ *
+ * Lets users pick an older and a newer export of a bundle to compare. Both
+ * files are validated the same way as a single upload.
+ *
+ * @example
+ * ```tsx
+ * <BundleDiffUpload onCompare={(comparison) => setComparison(comparison)} />
+ * ```
+ */
+export function BundleDiffUpload({ onCompare }: BundleDiffUploadProps) {
+  const [before, setBefore] = useState<LoadedExport | null>(null);
+  const [after, setAfter] = useState<LoadedExport | null>(null);
+  // Report of the last rejected file
+  const [report, setReport] = useState<ValidationReport | null>(null);
+
+  /**
+   * Reads and validates a picked file
+   * @param setExport Setter for the side the file was picked for
+   */
+  const handleFileChange =
+    (setExport: (loaded: LoadedExport | null) => void) =>
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        let data: unknown;
+        try {
+          data = JSON.parse(e.target?.result as string);
+        } catch (error) {
+          console.error("Error parsing workflow template:", error);
+          setExport(null);
+          setReport(
+            createValidationReport([
+              {
+                path: "$",
+                severity: "error",
+                message: BUNDLE_DIFF_CONSTANTS.ERROR_MESSAGES.PARSING_ERROR(
+                  file.name
+                ),
+              },
+            ])
+          );
+          return;
+        }
+
+        const validationReport = validateWorkflowBundle(data);
+        if (!validationReport.valid) {
+          console.error("Invalid workflow template:", validationReport.issues);
+          setExport(null);
+          setReport(validationReport);
+          return;
+        }
+
+        setReport(null);
+        setExport({ bundle: data as WorkflowBundle, fileName: file.name });
+      };
+      reader.readAsText(file);
+
+      // Allow selecting the same file again after fixing it
+      event.target.value = "";
+    };
+
+  const renderPicker = (
+    label: string,
+    loaded: LoadedExport | null,
+    setExport: (loaded: LoadedExport | null) => void
+  ) => (
+    <label
+      className="flex-1 flex items-center gap-2 px-4 py-3 border-2 border-border border-dashed
+                rounded-lg cursor-pointer bg-[hsl(var(--muted))] hover:bg-[hsl(var(--muted))]/80
+                transition-colors duration-200 text-sm"
+    >
+      <Upload className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+      <span className="font-semibold">{label}:</span>
+      <span className="truncate text-muted-foreground">
+        {loaded ? loaded.fileName : "None"}
+      </span>
+      <input
+        type="file"
+        className="hidden"
+        accept={BUNDLE_DIFF_CONSTANTS.ACCEPTED_FILE_TYPES}
+        onChange={handleFileChange(setExport)}
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col w-full p-8 gap-4">
+      <div>
+        <h2 className="text-lg font-semibold text-foreground">
+          {BUNDLE_DIFF_CONSTANTS.UI_TEXT.TITLE}
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          {BUNDLE_DIFF_CONSTANTS.UI_TEXT.DESCRIPTION}
+        </p>
+      </div>
+      <div className="flex flex-col md:flex-row gap-4">
+        {renderPicker(
+          BUNDLE_DIFF_CONSTANTS.UI_TEXT.BEFORE_LABEL,
+          before,
+          setBefore
+        )}
+        {renderPicker(
+          BUNDLE_DIFF_CONSTANTS.UI_TEXT.AFTER_LABEL,
+          after,
+          setAfter
+        )}
+        <button
+          onClick={() =>
+            before &&
+            after &&
+            onCompare({
+              before: before.bundle,
+              after: after.bundle,
+              beforeLabel: before.fileName,
+              afterLabel: after.fileName,
+            })
+          }
+          disabled={!before || !after}
+          className="flex items-center justify-center gap-2 px-4 py-2 rounded-md
+                    bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))]
+                    disabled:opacity-50 transition-colors"
+        >
+          <GitCompare className="w-4 h-4" />
+          {BUNDLE_DIFF_CONSTANTS.UI_TEXT.COMPARE_BUTTON}
+        </button>
+      </div>
+      {report && (
+        <ValidationReportPanel
+          report={report}
+          onDismiss={() => setReport(null)}
+        />
+      )}
+    </div>
+  );
+}
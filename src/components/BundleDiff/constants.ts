@@ -0,0 +1,31 @@
+/**
+ * Constants for the BundleDiff components
+ */
+
+export const BUNDLE_DIFF_CONSTANTS = {
+  /**
+   * Accepted file types for the file inputs
+   */
+  ACCEPTED_FILE_TYPES: ".json",
+
+  /**
+   * Error messages for loading the exports
+   */
+  ERROR_MESSAGES: {
+    PARSING_ERROR: (fileName: string) =>
+      `Error parsing ${fileName}. Please ensure it is a valid JSON file.`,
+  },
+
+  /**
+   * UI text for the bundle diff components
+   */
+  UI_TEXT: {
+    TITLE: "Compare two exports",
+    DESCRIPTION:
+      "Pick an older and a newer export of the same bundle to see what changed.",
+    BEFORE_LABEL: "Older export",
+    AFTER_LABEL: "Newer export",
+    COMPARE_BUTTON: "Compare",
+    NO_CHANGES: "The exports are the same",
+  },
+};
@@ -0,0 +1,7 @@
+export { BundleDiff } from "./BundleDiff";
+export { BundleDiffUpload } from "./BundleDiffUpload";
+export type {
+  BundleComparison,
+  BundleDiffProps,
+  BundleDiffUploadProps,
+} from "./types";
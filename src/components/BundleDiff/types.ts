@@ -0,0 +1,41 @@
+import { WorkflowBundle } from "@/types/workflow";
+
+/**
+ * Two exports of a bundle to compare
+ */
+export interface BundleComparison {
+  /** The older export */
+  before: WorkflowBundle;
+  /** The newer export */
+  after: WorkflowBundle;
+  /** Where the older export came from, e.g. a file name or commit */
+  beforeLabel: string;
+  /** Where the newer export came from */
+  afterLabel: string;
+}
+
+/**
+ * Props for the BundleDiff component
+ */
+export interface BundleDiffProps {
+  /**
+   * The exports to compare
+   */
+  comparison: BundleComparison;
+
+  /**
+   * Callback function that is called when the diff is closed
+   */
+  onClose: () => void;
+}
+
+/**
+ * Props for the BundleDiffUpload component
+ */
+export interface BundleDiffUploadProps {
+  /**
+   * Callback function that is called once both files are loaded and valid
+   * @param comparison The exports to compare
+   */
+  onCompare: (comparison: BundleComparison) => void;
+}
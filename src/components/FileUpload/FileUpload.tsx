@@ -1,15 +1,22 @@
-import React, { useCallback } from "react";
+import React, { useCallback, useState } from "react";
 import { Upload } from "lucide-react";
-import { isValidWorkflowBundle } from "@/lib/workflow-validation";
+import {
+  ValidationReport,
+  createValidationReport,
+  validateWorkflowBundle,
+} from "@/lib/workflow-validation";
+import { ValidationReportPanel } from "@/components/ValidationReportPanel";
 import { FILE_UPLOAD_CONSTANTS } from "./constants";
 import { FileUploadProps } from "./types";
+import { WorkflowBundle } from "@/types/workflow";
 
 /**
  * FileUpload Component
  *
  * A component that allows users to upload Rewst workflow JSON templates.
  * It provides a drag-and-drop interface and validates that the uploaded
- * file contains a valid workflow bundle.
+ * file contains a valid workflow bundle, listing any errors that prevent
+ * it from loading.
  *
  * @example
  * ```tsx
@@ -17,9 +24,13 @@ import { FileUploadProps } from "./types";
  * ```
  */
 export function FileUpload({ onFileUpload }: FileUploadProps) {
+  // Report of the last rejected file
+  const [report, setReport] = useState<ValidationReport | null>(null);
+
   /**
    * Handles file selection from the input element
    * Reads the file, validates it as a workflow bundle, and calls the onFileUpload callback
+   * Bundles with only warnings are still loaded, the report is passed along
    */
   const handleFileChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -28,33 +39,44 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
 
       const reader = new FileReader();
       reader.onload = (e) => {
+        let data: unknown;
         try {
-          const data = JSON.parse(e.target?.result as string);
-
-          // Validate that the data is a valid WorkflowBundle
-          if (!isValidWorkflowBundle(data)) {
-            throw new Error(
-              FILE_UPLOAD_CONSTANTS.ERROR_MESSAGES.INVALID_FORMAT
-            );
-          }
-
-          onFileUpload(data);
+          data = JSON.parse(e.target?.result as string);
         } catch (error) {
           console.error("Error parsing workflow template:", error);
-          alert(
-            error instanceof Error
-              ? error.message
-              : FILE_UPLOAD_CONSTANTS.ERROR_MESSAGES.PARSING_ERROR
+          setReport(
+            createValidationReport([
+              {
+                path: "$",
+                severity: "error",
+                message: FILE_UPLOAD_CONSTANTS.ERROR_MESSAGES.PARSING_ERROR,
+              },
+            ])
           );
+          return;
+        }
+
+        // Validate that the data is a valid WorkflowBundle
+        const validationReport = validateWorkflowBundle(data);
+        if (!validationReport.valid) {
+          console.error("Invalid workflow template:", validationReport.issues);
+          setReport(validationReport);
+          return;
         }
+
+        setReport(null);
+        onFileUpload(data as WorkflowBundle, validationReport);
       };
       reader.readAsText(file);
+
+      // Allow selecting the same file again after fixing it
+      event.target.value = "";
     },
     [onFileUpload]
   );
 
   return (
-    <div className="flex items-center justify-center w-full p-8">
+    <div className="flex flex-col items-center justify-center w-full p-8 gap-4">
       <label
         className="flex flex-col items-center justify-center w-full h-64 
                         border-2 border-border border-dashed rounded-lg 
@@ -80,6 +102,14 @@ export function FileUpload({ onFileUpload }: FileUploadProps) {
           onChange={handleFileChange}
         />
       </label>
+      {report && (
+        <div className="w-full">
+          <ValidationReportPanel
+            report={report}
+            onDismiss={() => setReport(null)}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -12,8 +12,6 @@ export const FILE_UPLOAD_CONSTANTS = {
    * Error messages for file upload validation
    */
   ERROR_MESSAGES: {
-    INVALID_FORMAT:
-      "Invalid workflow format. The file does not contain a valid Rewst workflow.",
     PARSING_ERROR:
       "Error parsing workflow template. Please ensure it is a valid JSON file.",
   },
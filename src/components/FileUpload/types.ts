@@ -1,4 +1,5 @@
 import { WorkflowBundle } from "@/types/workflow";
+import { ValidationReport } from "@/lib/workflow-validation";
 
 /**
  * Props for the FileUpload component
@@ -7,6 +8,7 @@ export interface FileUploadProps {
   /**
    * Callback function that is called when a file is successfully uploaded and parsed
    * @param template The parsed workflow bundle
+   * @param report The validation report, which may contain warnings
    */
-  onFileUpload: (template: WorkflowBundle) => void;
+  onFileUpload: (template: WorkflowBundle, report: ValidationReport) => void;
 }
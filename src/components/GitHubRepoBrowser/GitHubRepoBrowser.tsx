@@ -8,9 +8,14 @@ import {
   Info,
   User,
   RefreshCw,
+  GitCompare,
 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
-import { isValidWorkflowBundle } from "@/lib/workflow-validation";
+import {
+  ValidationReport,
+  validateWorkflowBundle,
+} from "@/lib/workflow-validation";
+import { ValidationReportPanel } from "@/components/ValidationReportPanel";
 import {
   GitHubRepoBrowserProps,
   GitHubUser,
@@ -18,6 +23,7 @@ import {
   RepoContent,
   BreadcrumbItem,
   GitHubRepo,
+  GitHubCommit,
 } from "./types";
 import {
   FEATURED_USERS,
@@ -32,6 +38,8 @@ import {
   clearGitHubCache,
   findBundleDirectories,
   searchRewstRepos,
+  fetchFileCommits,
+  loadWorkflowAtRevision,
 } from "./utils/githubFetchUtils";
 
 /**
@@ -43,6 +51,7 @@ import {
  * - Navigate through repository folders
  * - View README files
  * - Load and visualize workflow bundles
+ * - Compare two revisions of a workflow bundle
  *
  * @example
  * ```tsx
@@ -51,6 +60,7 @@ import {
  */
 export function GitHubRepoBrowser({
   onWorkflowSelect,
+  onCompareRevisions,
 }: GitHubRepoBrowserProps) {
   // State for selected user and repository
   const [selectedUser, setSelectedUser] = useState<GitHubUser | null>(null);
@@ -70,6 +80,14 @@ export function GitHubRepoBrowser({
   // State for loading and error handling
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationReport, setValidationReport] =
+    useState<ValidationReport | null>(null);
+
+  // State for comparing revisions of a workflow file
+  const [revisionItem, setRevisionItem] = useState<RepoItem | null>(null);
+  const [commits, setCommits] = useState<GitHubCommit[]>([]);
+  const [beforeSha, setBeforeSha] = useState("");
+  const [afterSha, setAfterSha] = useState("");
 
   /**
    * Fetches repository contents from GitHub API
@@ -81,6 +99,7 @@ export function GitHubRepoBrowser({
 
       setLoading(true);
       setError(null);
+      setValidationReport(null);
       try {
         // If we're at the root directory and not in a Rewst repo, filter for bundle directories
         if (!path && !selectedRewstRepo) {
@@ -157,16 +176,20 @@ export function GitHubRepoBrowser({
 
       setLoading(true);
       setError(null);
+      setValidationReport(null);
       try {
         // Use the cached version when available
         const data = await loadWorkflowWithCache(item);
 
         // Validate that the data is a valid WorkflowBundle
-        if (!isValidWorkflowBundle(data)) {
-          throw new Error(ERROR_MESSAGES.INVALID_WORKFLOW);
+        const report = validateWorkflowBundle(data);
+        if (!report.valid) {
+          console.error("Invalid workflow:", report.issues);
+          setValidationReport(report);
+          return;
         }
 
-        onWorkflowSelect(data);
+        onWorkflowSelect(data, report);
       } catch (err) {
         setError(
           ERROR_MESSAGES.LOAD_WORKFLOW(
@@ -181,6 +204,105 @@ export function GitHubRepoBrowser({
     [onWorkflowSelect]
   );
 
+  /**
+   * Lists the revisions of a workflow file to pick two to compare
+   * @param item - Repository item representing the workflow file
+   */
+  const openRevisions = useCallback(
+    async (item: RepoItem) => {
+      if (!selectedUser) return;
+
+      setLoading(true);
+      setError(null);
+      setValidationReport(null);
+      try {
+        const history = await fetchFileCommits(
+          selectedUser.username,
+          selectedRewstRepo || repoName,
+          item.path
+        );
+        if (history.length < 2) {
+          setError(ERROR_MESSAGES.NOT_ENOUGH_REVISIONS);
+          return;
+        }
+
+        // Default to the latest change
+        setRevisionItem(item);
+        setCommits(history);
+        setAfterSha(history[0].sha);
+        setBeforeSha(history[1].sha);
+      } catch (err) {
+        setError(
+          ERROR_MESSAGES.FETCH_COMMITS(
+            err instanceof Error ? err.message : String(err)
+          )
+        );
+        console.error("Error fetching file history:", err);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [selectedUser, selectedRewstRepo, repoName]
+  );
+
+  /**
+   * Loads the two picked revisions and compares them
+   */
+  const compareRevisions = useCallback(async () => {
+    if (!selectedUser || !revisionItem || !onCompareRevisions) return;
+
+    setLoading(true);
+    setError(null);
+    setValidationReport(null);
+    try {
+      const [before, after] = await Promise.all(
+        [beforeSha, afterSha].map((sha) =>
+          loadWorkflowAtRevision(
+            selectedUser.username,
+            selectedRewstRepo || repoName,
+            revisionItem.path,
+            sha
+          )
+        )
+      );
+
+      // Validate both revisions the same way as a single workflow
+      for (const data of [before, after]) {
+        const report = validateWorkflowBundle(data);
+        if (!report.valid) {
+          console.error("Invalid workflow:", report.issues);
+          setValidationReport(report);
+          return;
+        }
+      }
+
+      onCompareRevisions({
+        before,
+        after,
+        beforeLabel: `${revisionItem.name}@${beforeSha.slice(0, 7)}`,
+        afterLabel: `${revisionItem.name}@${afterSha.slice(0, 7)}`,
+      });
+      setRevisionItem(null);
+    } catch (err) {
+      setError(
+        ERROR_MESSAGES.LOAD_WORKFLOW(
+          err instanceof Error ? err.message : String(err)
+        )
+      );
+      console.error("Error loading workflow revisions:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    selectedUser,
+    selectedRewstRepo,
+    repoName,
+    revisionItem,
+    beforeSha,
+    afterSha,
+    onCompareRevisions,
+  ]);
+
   /**
    * Navigates to a directory in the repository
    * @param path - Path to navigate to
@@ -282,6 +404,7 @@ export function GitHubRepoBrowser({
     setRewstRepos([]);
     setSelectedRewstRepo(null);
     setShowRewstRepos(false);
+    setRevisionItem(null);
   }, []);
 
   /**
@@ -294,6 +417,7 @@ export function GitHubRepoBrowser({
     setRewstRepos([]);
     setSelectedRewstRepo(null);
     setShowRewstRepos(false);
+    setRevisionItem(null);
   }, []);
 
   /**
@@ -575,6 +699,66 @@ export function GitHubRepoBrowser({
             </div>
           )}
 
+          {/* Validation report of a rejected workflow */}
+          {validationReport && (
+            <div className="mb-4">
+              <ValidationReportPanel
+                report={validationReport}
+                onDismiss={() => setValidationReport(null)}
+              />
+            </div>
+          )}
+
+          {/* Revision picker for comparing a workflow file */}
+          {revisionItem && (
+            <div className={CSS_CLASSES.REVISION_PICKER}>
+              {[
+                {
+                  label: UI_TEXT.REVISION_BEFORE,
+                  value: beforeSha,
+                  onChange: setBeforeSha,
+                },
+                {
+                  label: UI_TEXT.REVISION_AFTER,
+                  value: afterSha,
+                  onChange: setAfterSha,
+                },
+              ].map(({ label, value, onChange }) => (
+                <label key={label} className="flex-1 min-w-0">
+                  <span className={CSS_CLASSES.REPO_LABEL}>
+                    {label} of {revisionItem.name}
+                  </span>
+                  <select
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className={CSS_CLASSES.REVISION_SELECT}
+                  >
+                    {commits.map((commit) => (
+                      <option key={commit.sha} value={commit.sha}>
+                        {commit.sha.slice(0, 7)}{" "}
+                        {new Date(commit.date).toLocaleDateString()} -{" "}
+                        {commit.message}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <button
+                onClick={compareRevisions}
+                disabled={loading || beforeSha === afterSha}
+                className={CSS_CLASSES.LOAD_BUTTON}
+              >
+                {UI_TEXT.COMPARE_BUTTON}
+              </button>
+              <button
+                onClick={() => setRevisionItem(null)}
+                className="self-end px-4 py-2 bg-[hsl(var(--background))] text-foreground rounded-md hover:opacity-90 transition-colors"
+              >
+                {UI_TEXT.CANCEL_BUTTON}
+              </button>
+            </div>
+          )}
+
           {/* Loading state */}
           {loading && (
             <div className={CSS_CLASSES.LOADING_CONTAINER}>
@@ -615,6 +799,22 @@ export function GitHubRepoBrowser({
                         : UI_TEXT.ITEM_TYPES.FILE}
                     </p>
                   </div>
+                  {onCompareRevisions &&
+                    item.type === "file" &&
+                    isWorkflowBundle(item.name) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openRevisions(item);
+                        }}
+                        className={CSS_CLASSES.EXTERNAL_LINK}
+                        title={UI_TEXT.COMPARE_REVISIONS}
+                      >
+                        <GitCompare
+                          className={CSS_CLASSES.EXTERNAL_LINK_ICON}
+                        />
+                      </button>
+                    )}
                   <a
                     href={item.html_url}
                     target="_blank"
@@ -70,9 +70,10 @@ export const ERROR_MESSAGES = {
   FETCH_REPO_CONTENTS: (message: string) =>
     `Failed to fetch repository contents: ${message}`,
   FETCH_WORKFLOW: (status: number) => `Failed to fetch workflow: ${status}`,
-  INVALID_WORKFLOW:
-    "Invalid workflow format. The file does not contain a valid Rewst workflow.",
   LOAD_WORKFLOW: (message: string) => `Failed to load workflow: ${message}`,
+  FETCH_COMMITS: (message: string) =>
+    `Failed to fetch the file history: ${message}`,
+  NOT_ENOUGH_REVISIONS: "This file has only one revision to compare",
 };
 
 /**
@@ -94,6 +95,11 @@ export const UI_TEXT = {
     FILE: "File",
   },
   VIEW_ON_GITHUB: "View on GitHub",
+  COMPARE_REVISIONS: "Compare revisions",
+  REVISION_BEFORE: "Older revision",
+  REVISION_AFTER: "Newer revision",
+  COMPARE_BUTTON: "Compare",
+  CANCEL_BUTTON: "Cancel",
 };
 
 /**
@@ -148,6 +154,10 @@ export const CSS_CLASSES = {
   EXTERNAL_LINK:
     "text-muted-foreground hover:text-foreground transition-colors",
   EXTERNAL_LINK_ICON: "w-4 h-4",
+  REVISION_PICKER:
+    "mb-4 p-4 bg-[hsl(var(--muted))] rounded-md flex flex-col md:flex-row md:items-end gap-2",
+  REVISION_SELECT:
+    "w-full px-3 py-2 rounded-md bg-[hsl(var(--background))] border border-[hsl(var(--border))] text-foreground text-sm",
   README_CONTAINER: "mt-8 border-t border-[hsl(var(--border))] pt-6",
   README_TITLE: "text-lg font-semibold mb-4",
   README_CONTENT: "prose prose-invert max-w-none",
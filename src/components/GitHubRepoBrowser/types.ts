@@ -1,4 +1,6 @@
 import { WorkflowBundle } from "@/types/workflow";
+import { ValidationReport } from "@/lib/workflow-validation";
+import { BundleComparison } from "@/components/BundleDiff";
 
 /**
  * GitHub repository information
@@ -40,6 +42,20 @@ export interface RepoContent {
   readme?: string;
 }
 
+/**
+ * A commit that changed a file
+ */
+export interface GitHubCommit {
+  /** SHA of the commit */
+  sha: string;
+  /** First line of the commit message */
+  message: string;
+  /** Commit timestamp */
+  date: string;
+  /** Name of the commit author */
+  author: string;
+}
+
 /**
  * GitHub user information
  */
@@ -63,8 +79,16 @@ export interface GitHubRepoBrowserProps {
   /**
    * Callback function that is called when a workflow file is selected
    * @param data The parsed workflow bundle
+   * @param report The validation report, which may contain warnings
+   */
+  onWorkflowSelect: (data: WorkflowBundle, report: ValidationReport) => void;
+
+  /**
+   * Optional callback function that is called to compare two revisions of a
+   * workflow file. The compare button is only shown when this is provided
+   * @param comparison The revisions to compare
    */
-  onWorkflowSelect: (data: WorkflowBundle) => void;
+  onCompareRevisions?: (comparison: BundleComparison) => void;
 }
 
 /**
@@ -1,4 +1,4 @@
-import { RepoItem, RepoContent, GitHubRepo } from "../types";
+import { RepoItem, RepoContent, GitHubRepo, GitHubCommit } from "../types";
 import { WORKFLOW_FILE_EXTENSIONS } from "../constants";
 import { WorkflowBundle } from "@/types/workflow";
 
@@ -68,6 +68,7 @@ export const clearGitHubCache = (): void => {
       if (
         key.startsWith("github_cache_") ||
         key.startsWith("github_file_") ||
+        key.startsWith("github_commits_") ||
         key.startsWith("github_bundle_check_") ||
         key.startsWith("github_bundle_dirs_") ||
         key.startsWith("github_rewst_repos_")
@@ -216,6 +217,143 @@ export const loadWorkflowWithCache = async (
   }
 };
 
+/**
+ * Lists the commits that changed a file, newest first
+ * @param username GitHub username
+ * @param repo Repository name
+ * @param path Path of the file
+ * @returns Promise that resolves to the commits
+ */
+export const fetchFileCommits = async (
+  username: string,
+  repo: string,
+  path: string
+): Promise<GitHubCommit[]> => {
+  const cacheKey = `github_commits_${username}_${repo}_${path}`;
+
+  // Check cache first
+  try {
+    const cachedData = localStorage.getItem(cacheKey);
+    if (cachedData) {
+      const cacheEntry = JSON.parse(cachedData);
+      if (Date.now() - cacheEntry.timestamp < CACHE_EXPIRATION) {
+        console.log("Using cached commits for", path);
+        return cacheEntry.data;
+      }
+      // Remove expired cache
+      localStorage.removeItem(cacheKey);
+    }
+  } catch (error) {
+    console.warn("Failed to retrieve commits from cache:", error);
+  }
+
+  try {
+    const apiUrl = `https://api.github.com/repos/${username}/${repo}/commits?path=${encodeURIComponent(
+      path
+    )}&per_page=30`;
+    const response = await fetch(apiUrl);
+
+    if (!response.ok) {
+      throw new Error(`GitHub API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const commits: GitHubCommit[] = data.map(
+      (commit: {
+        sha: string;
+        commit: {
+          message: string;
+          author?: { name?: string; date?: string };
+        };
+      }) => ({
+        sha: commit.sha,
+        message: commit.commit.message.split("\n")[0],
+        date: commit.commit.author?.date || "",
+        author: commit.commit.author?.name || "",
+      })
+    );
+
+    // Save to cache
+    try {
+      localStorage.setItem(
+        cacheKey,
+        JSON.stringify({
+          timestamp: Date.now(),
+          data: commits,
+        })
+      );
+    } catch (error) {
+      console.warn("Failed to cache commits:", error);
+    }
+
+    return commits;
+  } catch (error) {
+    console.error("Error fetching file commits:", error);
+    throw error;
+  }
+};
+
+/**
+ * Load a workflow file as it was at a commit, with caching
+ * A commit's content never changes, but the cache still expires to keep
+ * localStorage small
+ * @param username GitHub username
+ * @param repo Repository name
+ * @param path Path of the file
+ * @param sha SHA of the commit
+ * @returns Promise that resolves to the workflow bundle
+ */
+export const loadWorkflowAtRevision = async (
+  username: string,
+  repo: string,
+  path: string,
+  sha: string
+): Promise<WorkflowBundle> => {
+  const cacheKey = `github_file_${username}_${repo}_${sha}_${path}`;
+
+  try {
+    // Check cache first
+    const cachedData = localStorage.getItem(cacheKey);
+    if (cachedData) {
+      const cacheEntry = JSON.parse(cachedData);
+      if (Date.now() - cacheEntry.timestamp < CACHE_EXPIRATION) {
+        console.log("Using cached workflow data for", path, "at", sha);
+        return cacheEntry.data;
+      }
+      // Remove expired cache
+      localStorage.removeItem(cacheKey);
+    }
+
+    // Use the raw URL instead of API
+    const response = await fetch(
+      `https://raw.githubusercontent.com/${username}/${repo}/${sha}/${path}`
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to fetch workflow: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    // Save to cache
+    try {
+      localStorage.setItem(
+        cacheKey,
+        JSON.stringify({
+          timestamp: Date.now(),
+          data,
+        })
+      );
+    } catch (error) {
+      console.warn("Failed to cache workflow data:", error);
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error loading workflow revision:", error);
+    throw error;
+  }
+};
+
 /**
  * Checks if a file is a workflow bundle based on its extension
  */
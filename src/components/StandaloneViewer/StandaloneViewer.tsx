@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { ReactFlowProvider } from "reactflow";
+import { Moon, Sun } from "lucide-react";
+import { WorkflowViewer } from "../workflow/viewer";
+import { Button } from "../ui/button";
+import { StandaloneViewerProps } from "./types";
+
+/**
+ * StandaloneViewer Component
+ *
+ * Shows the workflow embedded in an exported HTML file, with no upload or
+ * GitHub browser as the file works offline. The theme starts as the one the
+ * file was exported in.
+ *
+ * @example
+ * ```tsx
+ * <StandaloneViewer {...readEmbeddedWorkflow(document)} />
+ * ```
+ */
+export function StandaloneViewer({
+  bundle,
+  title,
+  isRedacted,
+}: StandaloneViewerProps) {
+  const [darkMode, setDarkMode] = useState(() =>
+    document.documentElement.classList.contains("dark")
+  );
+
+  const toggleDarkMode = () => {
+    document.documentElement.classList.toggle("dark", !darkMode);
+    setDarkMode(!darkMode);
+  };
+
+  return (
+    <div className="min-h-screen bg-[hsl(var(--background))] p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">{title}</h1>
+            {isRedacted && (
+              <p className="text-sm text-[hsl(var(--muted-foreground))]">
+                Inputs, parameter defaults and trigger parameters were redacted
+              </p>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={toggleDarkMode}
+            className="rounded-full"
+            title={darkMode ? "Switch to light mode" : "Switch to dark mode"}
+          >
+            {darkMode ? (
+              <Sun className="h-5 w-5 text-yellow-500" />
+            ) : (
+              <Moon className="h-5 w-5 text-slate-700" />
+            )}
+            <span className="sr-only">Toggle theme</span>
+          </Button>
+        </div>
+
+        <div className="bg-[hsl(var(--card))] rounded-lg shadow-lg h-[700px] flex flex-col">
+          <ReactFlowProvider>
+            <WorkflowViewer template={bundle} />
+          </ReactFlowProvider>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { StandaloneViewer } from "./StandaloneViewer";
+export type { StandaloneViewerProps } from "./types";
@@ -0,0 +1,7 @@
+import { EmbeddedWorkflow } from "@/lib/standalone-html";
+
+/**
+ * Props for the StandaloneViewer component, the workflow embedded in the
+ * exported HTML file
+ */
+export type StandaloneViewerProps = EmbeddedWorkflow;
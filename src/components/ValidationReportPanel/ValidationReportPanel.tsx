@@ -0,0 +1,81 @@
+import { AlertCircle, AlertTriangle, X } from "lucide-react";
+import { VALIDATION_REPORT_CONSTANTS } from "./constants";
+import { ValidationReportPanelProps } from "./types";
+
+/**
+ * ValidationReportPanel Component
+ *
+ * Lists the problems found while validating a workflow bundle, each with
+ * its severity, message and JSON path. Used by the file upload and GitHub
+ * flows both when a bundle is rejected and when it loads with warnings.
+ *
+ * @example
+ * ```tsx
+ * <ValidationReportPanel report={validateWorkflowBundle(data)} />
+ * ```
+ */
+export function ValidationReportPanel({
+  report,
+  title,
+  onDismiss,
+}: ValidationReportPanelProps) {
+  const { UI_TEXT, CSS_CLASSES } = VALIDATION_REPORT_CONSTANTS;
+
+  if (report.issues.length === 0) return null;
+
+  const errorCount = report.issues.filter(
+    (issue) => issue.severity === "error"
+  ).length;
+  const warningCount = report.issues.length - errorCount;
+  const classes = CSS_CLASSES[report.valid ? "warning" : "error"];
+
+  // Show errors first, keeping the validator's order otherwise
+  const issues = [...report.issues].sort(
+    (a, b) => Number(b.severity === "error") - Number(a.severity === "error")
+  );
+
+  return (
+    <div className={classes.CONTAINER} role="alert">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div>
+          <p className="font-semibold">
+            {title ||
+              (report.valid ? UI_TEXT.WARNINGS_TITLE : UI_TEXT.INVALID_TITLE)}
+          </p>
+          <p className="text-xs opacity-80">
+            {UI_TEXT.SUMMARY(errorCount, warningCount)}
+          </p>
+        </div>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="p-1 rounded hover:bg-[hsl(var(--muted))]/50 transition-colors"
+            title={UI_TEXT.DISMISS}
+          >
+            <X className="w-4 h-4" />
+            <span className="sr-only">{UI_TEXT.DISMISS}</span>
+          </button>
+        )}
+      </div>
+      <ul className="space-y-2 max-h-60 overflow-y-auto text-sm">
+        {issues.map((issue, index) => {
+          const Icon = issue.severity === "error" ? AlertCircle : AlertTriangle;
+          return (
+            <li
+              key={`${issue.path}-${index}`}
+              className="flex items-start gap-2"
+            >
+              <Icon className={CSS_CLASSES[issue.severity].ICON} />
+              <div className="min-w-0">
+                <p className="text-foreground">{issue.message}</p>
+                <code className="block text-xs text-muted-foreground break-all">
+                  {issue.path}
+                </code>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Constants for the ValidationReportPanel component
+ */
+
+export const VALIDATION_REPORT_CONSTANTS = {
+  /**
+   * UI text for the validation report panel
+   */
+  UI_TEXT: {
+    INVALID_TITLE: "The workflow could not be loaded",
+    WARNINGS_TITLE: "The workflow was loaded with warnings",
+    DISMISS: "Dismiss",
+    SUMMARY: (errors: number, warnings: number) =>
+      [
+        errors > 0 && `${errors} error${errors === 1 ? "" : "s"}`,
+        warnings > 0 && `${warnings} warning${warnings === 1 ? "" : "s"}`,
+      ]
+        .filter(Boolean)
+        .join(", "),
+  },
+
+  /**
+   * CSS classes for the panel, one set per severity
+   */
+  CSS_CLASSES: {
+    error: {
+      CONTAINER:
+        "bg-red-500/10 border border-red-500/50 rounded-md p-4 text-red-500",
+      ICON: "w-4 h-4 mt-0.5 flex-shrink-0 text-red-500",
+    },
+    warning: {
+      CONTAINER:
+        "bg-yellow-500/10 border border-yellow-500/50 rounded-md p-4 text-yellow-600 dark:text-yellow-400",
+      ICON: "w-4 h-4 mt-0.5 flex-shrink-0 text-yellow-500",
+    },
+  },
+};
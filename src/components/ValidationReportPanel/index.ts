@@ -0,0 +1,2 @@
+export { ValidationReportPanel } from "./ValidationReportPanel";
+export type { ValidationReportPanelProps } from "./types";
@@ -0,0 +1,22 @@
+import { ValidationReport } from "@/lib/workflow-validation";
+
+/**
+ * Props for the ValidationReportPanel component
+ */
+export interface ValidationReportPanelProps {
+  /**
+   * The validation report to display
+   */
+  report: ValidationReport;
+
+  /**
+   * Optional title shown above the issue list
+   */
+  title?: string;
+
+  /**
+   * Callback function that is called when the panel is dismissed
+   * The dismiss button is only shown when this is provided
+   */
+  onDismiss?: () => void;
+}
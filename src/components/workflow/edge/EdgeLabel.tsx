@@ -0,0 +1,100 @@
+/**
+ * EdgeLabel Component
+ *
+ * Renders the label of a transition edge on the canvas, with the full
+ * condition and published variables in a popover on hover.
+ *
+ * @module components/workflow/edge
+ */
+import { useState } from "react";
+import { EdgeLabelRenderer } from "reactflow";
+import { JinjaHighlight } from "../node/components/JinjaHighlight";
+import { TransitionEdgeData } from "./types";
+
+interface EdgeLabelProps {
+  /** The label text */
+  label: string;
+  /** Center of the label, in flow coordinates */
+  x: number;
+  y: number;
+  /** Border color, the color of the edge */
+  color?: string;
+  /** The transition's data, shown in the popover */
+  data?: TransitionEdgeData;
+}
+
+/**
+ * EdgeLabel component for rendering transition labels
+ *
+ * @param {EdgeLabelProps} props - Component props
+ * @returns {JSX.Element} The rendered label
+ */
+export function EdgeLabel({ label, x, y, color, data }: EdgeLabelProps) {
+  const [isHovered, setIsHovered] = useState(false);
+  const hasDetails = Boolean(
+    data?.condition || (data?.publish && data.publish.length > 0)
+  );
+
+  return (
+    <EdgeLabelRenderer>
+      <div
+        className="nodrag nopan absolute"
+        style={{
+          transform: `translate(-50%, -50%) translate(${x}px, ${y}px)`,
+          pointerEvents: "all",
+          zIndex: isHovered ? 1001 : undefined,
+        }}
+        onMouseEnter={() => setIsHovered(true)}
+        onMouseLeave={() => setIsHovered(false)}
+      >
+        <div
+          className="px-2 py-0.5 rounded border bg-[hsl(var(--card))] text-xs font-medium whitespace-nowrap shadow-sm"
+          style={{ borderColor: color }}
+        >
+          {label}
+        </div>
+
+        {isHovered && hasDetails && (
+          <div className="absolute left-1/2 top-full mt-1 -translate-x-1/2 w-72 p-2 space-y-2 rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] shadow-lg">
+            {data?.condition && (
+              <div>
+                <span className="text-xs font-medium text-[hsl(var(--muted-foreground))]">
+                  Condition:
+                </span>
+                <div className="bg-[hsl(var(--muted))] rounded p-2 mt-1 overflow-x-auto">
+                  <JinjaHighlight
+                    source={data.condition}
+                    className="text-xs max-w-full"
+                  />
+                </div>
+              </div>
+            )}
+
+            {data?.publish && data.publish.length > 0 && (
+              <div>
+                <span className="text-xs font-medium text-[hsl(var(--muted-foreground))]">
+                  Published Variables:
+                </span>
+                <div className="mt-1 space-y-1">
+                  {data.publish.map((variable, index) => (
+                    <div key={index} className="text-xs">
+                      <span className="px-1.5 py-0.5 bg-[hsl(var(--primary)/0.1)] text-[hsl(var(--primary))] rounded font-medium">
+                        {variable.key}
+                      </span>
+                      <div className="bg-[hsl(var(--muted))] rounded p-1.5 mt-1 overflow-x-auto">
+                        <JinjaHighlight
+                          source={String(variable.value)}
+                          className="max-w-full"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </EdgeLabelRenderer>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * OrthogonalEdge Component
+ *
+ * Draws an edge along the route the orthogonal router found around the
+ * nodes of the canvas.
+ *
+ * @module components/workflow/edge
+ */
+import { BaseEdge, SmoothStepEdgeProps, getSmoothStepPath } from "reactflow";
+import { getOrthogonalPath } from "../viewer/layout";
+import { useEdgeRoute } from "./edgeRouting";
+import { EdgeLabel } from "./EdgeLabel";
+import { TransitionEdgeData } from "./types";
+
+/**
+ * Distance under which a route still matches the handles of its edge
+ */
+const ROUTE_TOLERANCE = 1;
+
+/**
+ * OrthogonalEdge component for rendering routed edges
+ * Edges without an up to date route, such as those of a node being dragged,
+ * are drawn as smooth steps. Text labels are drawn as HTML, so hovering them
+ * shows the transition's condition and published variables.
+ *
+ * @param {SmoothStepEdgeProps} props - Edge props from ReactFlow
+ * @returns {JSX.Element} The rendered edge
+ */
+export function OrthogonalEdge({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  markerEnd,
+  markerStart,
+  label,
+  labelStyle,
+  labelShowBg,
+  labelBgStyle,
+  labelBgPadding,
+  labelBgBorderRadius,
+  interactionWidth,
+  pathOptions,
+  data,
+}: SmoothStepEdgeProps<TransitionEdgeData>) {
+  const route = useEdgeRoute(id);
+  const borderRadius = pathOptions?.borderRadius ?? 8;
+
+  const first = route?.points[0];
+  const last = route?.points[route.points.length - 1];
+  const isRouteCurrent =
+    !!first &&
+    !!last &&
+    Math.abs(first.x - sourceX) <= ROUTE_TOLERANCE &&
+    Math.abs(first.y - sourceY) <= ROUTE_TOLERANCE &&
+    Math.abs(last.x - targetX) <= ROUTE_TOLERANCE &&
+    Math.abs(last.y - targetY) <= ROUTE_TOLERANCE;
+
+  const [path, labelX, labelY] =
+    route && isRouteCurrent
+      ? [
+          getOrthogonalPath(route.points, borderRadius),
+          route.labelPosition?.x,
+          route.labelPosition?.y,
+        ]
+      : getSmoothStepPath({
+          sourceX,
+          sourceY,
+          sourcePosition,
+          targetX,
+          targetY,
+          targetPosition,
+          borderRadius,
+          offset: pathOptions?.offset,
+        });
+
+  const textLabel = typeof label === "string" && label ? label : undefined;
+
+  return (
+    <>
+      <BaseEdge
+        path={path}
+        style={style}
+        markerEnd={markerEnd}
+        markerStart={markerStart}
+        label={textLabel ? undefined : label}
+        labelX={labelX}
+        labelY={labelY}
+        labelStyle={labelStyle}
+        labelShowBg={labelShowBg}
+        labelBgStyle={labelBgStyle}
+        labelBgPadding={labelBgPadding}
+        labelBgBorderRadius={labelBgBorderRadius}
+        interactionWidth={interactionWidth}
+      />
+      {textLabel && labelX !== undefined && labelY !== undefined && (
+        <EdgeLabel
+          label={textLabel}
+          x={labelX}
+          y={labelY}
+          color={style?.stroke}
+          data={data}
+        />
+      )}
+    </>
+  );
+}
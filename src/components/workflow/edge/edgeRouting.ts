@@ -0,0 +1,20 @@
+/**
+ * Routes computed for the edges of the canvas
+ */
+import { createContext, useContext } from "react";
+import { EdgeRoute } from "../viewer/layout";
+
+/**
+ * Route of every edge of the canvas, by edge ID
+ */
+export const EdgeRoutingContext = createContext<Map<string, EdgeRoute>>(
+  new Map()
+);
+
+/**
+ * Gets the route computed for an edge
+ * @param edgeId The edge ID
+ * @returns The route, or undefined if the edge hasn't been routed
+ */
+export const useEdgeRoute = (edgeId: string): EdgeRoute | undefined =>
+  useContext(EdgeRoutingContext).get(edgeId);
@@ -0,0 +1,9 @@
+/**
+ * Central export point for the edge components
+ */
+export { OrthogonalEdge } from "./OrthogonalEdge";
+export { EdgeLabel } from "./EdgeLabel";
+
+// Export types
+export * from "./types";
+export * from "./edgeRouting";
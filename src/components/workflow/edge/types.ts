@@ -0,0 +1,17 @@
+/**
+ * Types for the edge components
+ */
+
+/**
+ * Data of the edges drawn for task transitions
+ */
+export interface TransitionEdgeData {
+  /** Label of the transition, see `formatTransitionLabel` */
+  label?: string;
+  /** The `when` condition of the transition */
+  condition?: string;
+  /** Whether the transition follows all its targets or the first */
+  followType?: string;
+  /** Variables the transition publishes */
+  publish?: Array<{ key: string; value: string }>;
+}
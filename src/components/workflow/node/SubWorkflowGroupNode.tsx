@@ -0,0 +1,60 @@
+/**
+ * SubWorkflowGroupNode Component
+ *
+ * Renders a sub-workflow expanded in place as a group around its tasks, below
+ * the task that runs it.
+ *
+ * @module components/workflow/node
+ */
+import { Handle, Position } from "reactflow";
+import { ChevronsUp, ExternalLink, ListTree } from "lucide-react";
+import { SubWorkflowGroupNodeData } from "./types";
+
+/**
+ * SubWorkflowGroupNode component for rendering expanded sub-workflows
+ *
+ * @param {Object} props - Component props
+ * @param {SubWorkflowGroupNodeData} props.data - The expanded workflow and its callbacks
+ * @returns {JSX.Element} The rendered group node
+ */
+export function SubWorkflowGroupNode({
+  data,
+}: {
+  data: SubWorkflowGroupNodeData;
+}) {
+  return (
+    <div className="w-full h-full rounded-lg border-2 border-dashed border-[hsl(var(--workflow-green))] bg-[hsl(var(--workflow-green)/0.05)]">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-dashed border-[hsl(var(--workflow-green)/0.5)]">
+        <div className="flex items-center gap-2 min-w-0">
+          <ListTree className="w-4 h-4 flex-shrink-0 text-[hsl(var(--workflow-green))]" />
+          <span className="font-medium text-sm truncate">{data.name}</span>
+          <span className="text-xs text-[hsl(var(--muted-foreground))] flex-shrink-0">
+            {data.taskCount} task{data.taskCount === 1 ? "" : "s"}
+          </span>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button
+            onClick={() => data.onOpenWorkflow(data.workflowId)}
+            className="p-1 rounded hover:bg-[hsl(var(--muted))]"
+            title="Open this workflow on its own"
+          >
+            <ExternalLink className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => data.onCollapse(data.callerNodeId)}
+            className="p-1 rounded hover:bg-[hsl(var(--muted))]"
+            title="Collapse sub-workflow"
+          >
+            <ChevronsUp className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        className="!w-2 !h-2 !bg-[hsl(var(--workflow-green))] !border-2 !border-[hsl(var(--background))]"
+      />
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  *
  * Renders a workflow task as an interactive node within the workflow graph.
  * This component displays task information, status indicators, and handles user
- * interactions such as expanding/collapsing details and navigating to sub-workflows.
+ * interactions such as expanding/collapsing details and sub-workflows.
  *
  * @module components/workflow/node
  */
@@ -83,7 +83,12 @@ export function TaskNode({ data }: { data: TaskNodeData }) {
       ref={nodeRef}
       className={cn(
         "workflow-node",
-        isExpanded && "expanded" // Use the expanded class for systematic z-index handling
+        isExpanded && "expanded", // Use the expanded class for systematic z-index handling
+        data.dataFlowRole && `dataflow-${data.dataFlowRole}`,
+        data.simulationState && `simulation-${data.simulationState}`,
+        data.executionStatus && `execution-${data.executionStatus}`,
+        data.diffStatus && `diff-${data.diffStatus}`,
+        data.searchMatch && "search-match"
       )}
       draggable="true"
     >
@@ -108,6 +113,21 @@ export function TaskNode({ data }: { data: TaskNodeData }) {
             isExpanded={isExpanded}
             hasDetails={hasDetails}
             onToggle={handleToggle}
+            diagnostics={data.diagnostics}
+            hasBreakpoint={data.hasBreakpoint}
+            onToggleBreakpoint={
+              data.onToggleBreakpoint
+                ? () => data.onToggleBreakpoint?.(data.id)
+                : undefined
+            }
+            subWorkflow={data.subWorkflow}
+            isSubWorkflowExpanded={data.isSubWorkflowExpanded}
+            onToggleSubWorkflow={
+              data.subWorkflow?.confidence === "bundled" &&
+              data.onToggleSubWorkflow
+                ? () => data.onToggleSubWorkflow?.(data.id)
+                : undefined
+            }
           />
         </div>
 
@@ -0,0 +1,95 @@
+/**
+ * WorkflowSummaryNode Component
+ *
+ * Renders a whole workflow as a single node of the bundle overview, with its
+ * task count and the triggers that start it.
+ *
+ * @module components/workflow/node
+ */
+import { Handle, Position } from "reactflow";
+import { ExternalLink, ListTree, Zap } from "lucide-react";
+import { WorkflowSummaryNodeData } from "./types";
+import { cn } from "../../../lib/utils";
+
+/**
+ * WorkflowSummaryNode component for rendering workflows in the overview
+ *
+ * @param {Object} props - Component props
+ * @param {WorkflowSummaryNodeData} props.data - The workflow and its state
+ * @returns {JSX.Element} The rendered workflow node
+ */
+export function WorkflowSummaryNode({
+  data,
+}: {
+  data: WorkflowSummaryNodeData;
+}) {
+  const { workflow, isSelected } = data;
+
+  return (
+    <div
+      className={cn(
+        "w-[250px] p-3 rounded-lg border bg-[hsl(var(--card))] text-[hsl(var(--foreground))] shadow-md",
+        workflow.isExternal
+          ? "border-dashed border-[hsl(var(--muted-foreground))] opacity-70"
+          : "border-[hsl(var(--border))] cursor-pointer",
+        isSelected && "ring-2 ring-[hsl(var(--workflow-blue))]"
+      )}
+      title={
+        workflow.isExternal
+          ? "Called workflow that is not part of this bundle"
+          : "Double-click to open the workflow's tasks"
+      }
+    >
+      <Handle
+        type="target"
+        position={Position.Top}
+        className="!w-2 !h-2 !bg-[hsl(var(--workflow-blue))] !border-2 !border-[hsl(var(--background))]"
+      />
+
+      <div className="flex items-start gap-2">
+        {workflow.isExternal ? (
+          <ExternalLink className="w-4 h-4 mt-0.5 flex-shrink-0 text-[hsl(var(--muted-foreground))]" />
+        ) : (
+          <ListTree className="w-4 h-4 mt-0.5 flex-shrink-0 text-[hsl(var(--workflow-blue))]" />
+        )}
+        <div className="min-w-0">
+          <div className="font-medium text-sm break-words">{workflow.name}</div>
+          <div className="text-xs text-[hsl(var(--muted-foreground))]">
+            {workflow.isExternal
+              ? "Not in this bundle"
+              : `${workflow.taskCount} task${
+                  workflow.taskCount === 1 ? "" : "s"
+                }`}
+          </div>
+        </div>
+      </div>
+
+      {workflow.triggers.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {workflow.triggers.map((trigger) => (
+            <span
+              key={trigger.id}
+              className={cn(
+                "flex items-center gap-1 px-1.5 py-0.5 rounded text-xs border",
+                "bg-orange-500/10 border-orange-500/50 text-orange-500",
+                !trigger.enabled && "opacity-60"
+              )}
+              title={`${trigger.type || "Trigger"}${
+                trigger.enabled ? "" : " (disabled)"
+              }`}
+            >
+              <Zap className="w-3 h-3" />
+              {trigger.name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <Handle
+        type="source"
+        position={Position.Bottom}
+        className="!w-2 !h-2 !bg-[hsl(var(--workflow-blue))] !border-2 !border-[hsl(var(--background))]"
+      />
+    </div>
+  );
+}
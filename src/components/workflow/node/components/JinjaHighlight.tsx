@@ -0,0 +1,105 @@
+/**
+ * JinjaHighlight Component
+ *
+ * Renders a string containing Jinja with syntax highlighting, marking
+ * parse errors inline with a wavy underline.
+ */
+import { useMemo } from "react";
+import { cn } from "../../../../lib/utils";
+import {
+  findLookups,
+  JinjaLookup,
+  JinjaParseError,
+  parseTemplate,
+} from "../../../../lib/jinja";
+import {
+  JINJA_LOOKUP_CLASSES,
+  JINJA_TOKEN_CLASSES,
+} from "../../shared/constants";
+
+interface JinjaHighlightProps {
+  /** The template source */
+  source: string;
+  /** Whether to list the parse errors below the source */
+  showErrors?: boolean;
+  className?: string;
+}
+
+/**
+ * Finds the errors overlapping a range of the source
+ * Zero-width errors (e.g. a missing expression before `}}`) are treated as
+ * covering the character they point at.
+ * @param errors The parse errors
+ * @param start Start of the range
+ * @param end End of the range (exclusive)
+ * @returns The overlapping errors
+ */
+const errorsInRange = (
+  errors: JinjaParseError[],
+  start: number,
+  end: number
+): JinjaParseError[] =>
+  errors.filter(
+    (error) => error.start < end && Math.max(error.end, error.start + 1) > start
+  );
+
+/**
+ * JinjaHighlight component for rendering highlighted Jinja
+ * @param props Component props
+ * @returns The rendered source
+ */
+export function JinjaHighlight({
+  source,
+  showErrors = true,
+  className,
+}: JinjaHighlightProps) {
+  const { tokens, errors, lookupRoots } = useMemo(() => {
+    const result = parseTemplate(source);
+    // The root name of a lookup starts where the lookup does
+    const lookupRoots = new Map<number, JinjaLookup["root"]>(
+      findLookups(result.ast).map((lookup) => [lookup.start, lookup.root])
+    );
+    return { ...result, lookupRoots };
+  }, [source]);
+
+  return (
+    <div className={className}>
+      <code className="font-mono whitespace-pre-wrap break-words">
+        {tokens.map((token) => {
+          const root =
+            token.type === "name" ? lookupRoots.get(token.start) : undefined;
+          const tokenErrors = errorsInRange(errors, token.start, token.end);
+
+          return (
+            <span
+              key={token.start}
+              className={cn(
+                root
+                  ? JINJA_LOOKUP_CLASSES[root]
+                  : JINJA_TOKEN_CLASSES[token.type],
+                tokenErrors.length > 0 &&
+                  "underline decoration-wavy decoration-red-500"
+              )}
+              title={
+                tokenErrors.length > 0
+                  ? tokenErrors.map((error) => error.message).join("\n")
+                  : undefined
+              }
+            >
+              {token.value}
+            </span>
+          );
+        })}
+      </code>
+      {showErrors && errors.length > 0 && (
+        <ul className="mt-1 space-y-0.5 font-sans text-red-500">
+          {errors.map((error, index) => (
+            <li key={index}>
+              ⚠ {error.message} (at character {error.start + 1})
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
  * TaskNodeDetails Component
  *
  * Renders the detailed information for a task node, including description,
- * input parameters, and transitions.
+ * input parameters, transitions, and the task's run from an execution log.
  */
 import { TaskNodeDetailsProps } from "../types";
 import { cn } from "../../../../lib/utils";
@@ -13,6 +13,14 @@ import {
   TabsTrigger,
   TabsContent,
 } from "../../../../components/ui/tabs";
+import { containsJinja } from "../../../../lib/jinja";
+import {
+  ExecutionEvent,
+  ExecutionTaskStatus,
+  formatDuration,
+} from "../../../../lib/workflow-execution";
+import { JinjaHighlight } from "./JinjaHighlight";
+import { SearchMatchLocation } from "../../../../lib/workflow-search";
 
 // Import from the correct path - it's directly from src/, not relative to this file
 import { Task } from "../../../../types/workflow";
@@ -40,6 +48,12 @@ interface TaskTransition {
   publish?: Array<{ key: string; value: unknown }>;
 }
 
+/**
+ * Classes marking the field picked in the search palette
+ */
+const SEARCH_HIGHLIGHT_CLASSES =
+  "rounded ring-2 ring-[hsl(var(--workflow-blue))] bg-[hsl(var(--workflow-blue)/0.1)]";
+
 // ========== Utility Functions ==========
 
 /**
@@ -134,8 +148,16 @@ const getTaskType = (data: TaskData): string => {
 /**
  * Field component for displaying labeled data
  */
-const Field = ({ label, value }: { label: string; value: ReactNode }) => (
-  <div>
+const Field = ({
+  label,
+  value,
+  highlighted,
+}: {
+  label: string;
+  value: ReactNode;
+  highlighted?: boolean;
+}) => (
+  <div className={cn(highlighted && SEARCH_HIGHLIGHT_CLASSES)}>
     <div className="font-medium text-xs text-[hsl(var(--muted-foreground))] mb-1">
       {label}
     </div>
@@ -180,12 +202,18 @@ interface TransitionProps {
   transition: TaskTransition;
   onSubWorkflowClick?: (workflowId: string) => void;
   references?: Record<string, unknown>;
+  /** Whether the condition was picked in the search palette */
+  highlightCondition?: boolean;
+  /** Published key picked in the search palette */
+  highlightedPublishKey?: string;
 }
 
 const Transition: React.FC<TransitionProps> = ({
   transition,
   onSubWorkflowClick,
   references,
+  highlightCondition,
+  highlightedPublishKey,
 }) => {
   // Skip rendering if no meaningful content
   if (
@@ -230,14 +258,17 @@ const Transition: React.FC<TransitionProps> = ({
 
       {/* Condition */}
       {transition.when && (
-        <div className="mb-2">
+        <div
+          className={cn("mb-2", highlightCondition && SEARCH_HIGHLIGHT_CLASSES)}
+        >
           <span className="text-xs font-medium text-[hsl(var(--muted-foreground))]">
             Condition:
           </span>
           <div className="bg-[hsl(var(--muted))] rounded p-2 mt-1 overflow-x-auto">
-            <pre className="text-xs whitespace-pre-wrap break-words max-w-full font-mono">
-              {safeToString(transition.when)}
-            </pre>
+            <JinjaHighlight
+              source={safeToString(transition.when)}
+              className="text-xs max-w-full"
+            />
           </div>
         </div>
       )}
@@ -277,48 +308,31 @@ const Transition: React.FC<TransitionProps> = ({
                   ? resolveReference(pub.value, references)
                   : safeToString(pub.value);
 
-              // Format template expressions for better readability
-              const formattedValue =
-                typeof pub.value === "string"
-                  ? pub.value
-                      // Format CTX expressions
-                      .replace(/CTX\.([\w_.]+)/g, (_, path) => {
-                        return `<span class="text-[hsl(var(--info))]">CTX</span>.<span class="text-[hsl(var(--primary))]">${path}</span>`;
-                      })
-                      // Format {{ }} expressions
-                      .replace(/\{\{\s*([^}]+)\s*\}\}/g, (_, content) => {
-                        return `<span class="text-[hsl(var(--warning))]">{{</span> <span class="text-[hsl(var(--primary))]">${content}</span> <span class="text-[hsl(var(--warning))]">}}</span>`;
-                      })
-                      // Format @@@ references
-                      .replace(/@@@([^@]+)@@@/g, (_, ref) => {
-                        return `<span class="text-[hsl(var(--info))]">@@@</span><span class="text-[hsl(var(--primary))]">${ref}</span><span class="text-[hsl(var(--info))]">@@@</span>`;
-                      })
-                  : valueDisplay;
-
               return (
                 <div
                   key={i}
-                  className="border-b border-[hsl(var(--border))/30] pb-2 last:border-0 last:pb-0"
+                  className={cn(
+                    "border-b border-[hsl(var(--border))/30] pb-2 last:border-0 last:pb-0",
+                    pub.key === highlightedPublishKey &&
+                      SEARCH_HIGHLIGHT_CLASSES
+                  )}
                 >
                   <div className="flex items-center gap-2 mb-1">
                     <span className="px-2 py-0.5 bg-[hsl(var(--primary)/0.1)] text-[hsl(var(--primary))] rounded text-xs font-medium">
                       {pub.key}
                     </span>
                     <span className="text-xs text-[hsl(var(--muted-foreground))]">
-                      {typeof pub.value === "string" &&
-                      pub.value.startsWith("{{")
+                      {typeof pub.value === "string" && containsJinja(pub.value)
                         ? "Template"
                         : "Value"}
                     </span>
                   </div>
                   {typeof pub.value === "string" &&
-                  (pub.value.includes("CTX.") ||
-                    pub.value.includes("{{") ||
-                    pub.value.includes("@@@")) ? (
+                  (containsJinja(pub.value) || pub.value.includes("@@@")) ? (
                     <div className="bg-[hsl(var(--muted))] rounded p-2 text-xs font-mono overflow-x-auto">
-                      <div
-                        dangerouslySetInnerHTML={{ __html: formattedValue }}
-                        className="break-words whitespace-pre-wrap max-w-full"
+                      <JinjaHighlight
+                        source={pub.value}
+                        className="max-w-full"
                       />
                       {/* Show resolved value if available */}
                       {pub.value !== valueDisplay && (
@@ -352,9 +366,10 @@ const Transition: React.FC<TransitionProps> = ({
  */
 interface TaskMetadataProps {
   data: TaskData;
+  searchMatch?: SearchMatchLocation;
 }
 
-const TaskMetadata: React.FC<TaskMetadataProps> = ({ data }) => {
+const TaskMetadata: React.FC<TaskMetadataProps> = ({ data, searchMatch }) => {
   const taskType = getTaskType(data);
 
   return (
@@ -369,6 +384,7 @@ const TaskMetadata: React.FC<TaskMetadataProps> = ({ data }) => {
       {data.description && (
         <Field
           label="Description"
+          highlighted={searchMatch?.field === "description"}
           value={
             typeof data.description === "string"
               ? data.description
@@ -381,6 +397,7 @@ const TaskMetadata: React.FC<TaskMetadataProps> = ({ data }) => {
       {data.action && (
         <Field
           label="Action"
+          highlighted={searchMatch?.field === "action"}
           value={
             <span className="break-words">
               {String(data.action.id)}
@@ -488,9 +505,14 @@ const TaskConfiguration: React.FC<TaskConfigurationProps> = ({ data }) => {
  */
 interface InputParametersProps {
   input: Record<string, unknown> | undefined;
+  /** Input key picked in the search palette */
+  highlightedKey?: string;
 }
 
-const InputParameters: React.FC<InputParametersProps> = ({ input }) => {
+const InputParameters: React.FC<InputParametersProps> = ({
+  input,
+  highlightedKey,
+}) => {
   if (!input || Object.keys(input).length === 0) {
     return (
       <div className="text-xs text-[hsl(var(--muted-foreground))]">
@@ -526,14 +548,24 @@ const InputParameters: React.FC<InputParametersProps> = ({ input }) => {
             return (
               <div
                 key={key}
-                className="grid grid-cols-[minmax(auto,30%)_1fr] gap-2"
+                className={cn(
+                  "grid grid-cols-[minmax(auto,30%)_1fr] gap-2",
+                  key === highlightedKey && SEARCH_HIGHLIGHT_CLASSES
+                )}
               >
                 <span className="font-medium text-xs whitespace-nowrap">
                   {key}:
                 </span>
-                <span className="text-[hsl(var(--muted-foreground))] text-xs overflow-x-auto break-words whitespace-normal">
-                  {displayValue}
-                </span>
+                {typeof value === "string" && containsJinja(value) ? (
+                  <JinjaHighlight
+                    source={value}
+                    className="text-xs overflow-x-auto"
+                  />
+                ) : (
+                  <span className="text-[hsl(var(--muted-foreground))] text-xs overflow-x-auto break-words whitespace-normal">
+                    {displayValue}
+                  </span>
+                )}
               </div>
             );
           })}
@@ -548,9 +580,13 @@ const InputParameters: React.FC<InputParametersProps> = ({ input }) => {
  */
 interface TransitionsListProps {
   data: TaskData;
+  searchMatch?: SearchMatchLocation;
 }
 
-const TransitionsList: React.FC<TransitionsListProps> = ({ data }) => {
+const TransitionsList: React.FC<TransitionsListProps> = ({
+  data,
+  searchMatch,
+}) => {
   if (!data.next || data.next.length === 0) {
     return (
       <div className="text-xs text-[hsl(var(--muted-foreground))]">
@@ -565,14 +601,23 @@ const TransitionsList: React.FC<TransitionsListProps> = ({ data }) => {
         Transitions
       </div>
       <div className="space-y-2 max-h-60 overflow-y-auto pr-1">
-        {data.next.map((transition, index) => (
-          <Transition
-            key={index}
-            transition={toSafeTransition(transition)}
-            onSubWorkflowClick={data.onSubWorkflowClick}
-            references={data.references}
-          />
-        ))}
+        {data.next.map((transition, index) => {
+          const isMatch = searchMatch?.transitionIndex === index;
+          return (
+            <Transition
+              key={index}
+              transition={toSafeTransition(transition)}
+              onSubWorkflowClick={data.onSubWorkflowClick}
+              references={data.references}
+              highlightCondition={isMatch && searchMatch?.field === "condition"}
+              highlightedPublishKey={
+                isMatch && searchMatch?.field === "publish"
+                  ? searchMatch.key
+                  : undefined
+              }
+            />
+          );
+        })}
       </div>
     </div>
   );
@@ -629,6 +674,76 @@ const AdvancedConfiguration: React.FC<AdvancedConfigurationProps> = ({
   );
 };
 
+/**
+ * Component to display the task's run from the replayed execution log
+ */
+interface ExecutionDetailsProps {
+  status: ExecutionTaskStatus;
+  execution?: ExecutionEvent;
+}
+
+const ExecutionDetails: React.FC<ExecutionDetailsProps> = ({
+  status,
+  execution,
+}) => {
+  if (!execution) {
+    return (
+      <div className="text-xs text-[hsl(var(--muted-foreground))]">
+        The task hasn't run at this point of the execution
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Field
+          label="Status"
+          value={
+            <Badge variant={status === "failed" ? "warning" : "primary"}>
+              {execution.rawStatus || status}
+            </Badge>
+          }
+        />
+        <Field
+          label="Duration"
+          value={
+            execution.durationMs !== undefined
+              ? formatDuration(execution.durationMs)
+              : "Unknown"
+          }
+        />
+      </div>
+
+      {execution.output !== undefined && (
+        <div>
+          <div className="font-medium text-xs text-[hsl(var(--muted-foreground))] mb-1">
+            Output
+          </div>
+          <div className="text-[hsl(var(--foreground))] rounded bg-[hsl(var(--muted))] p-2 max-h-40 overflow-y-auto">
+            <pre className="text-xs whitespace-pre-wrap overflow-x-auto break-words">
+              {JSON.stringify(execution.output, null, 2)}
+            </pre>
+          </div>
+        </div>
+      )}
+
+      {execution.input !== undefined && (
+        <div>
+          <div className="font-medium text-xs text-[hsl(var(--muted-foreground))] mb-1">
+            Rendered Input
+          </div>
+          <div className="text-[hsl(var(--foreground))] rounded bg-[hsl(var(--muted))] p-2 max-h-40 overflow-y-auto">
+            <pre className="text-xs whitespace-pre-wrap overflow-x-auto break-words">
+              {JSON.stringify(execution.input, null, 2)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ========== Main Component ==========
 
 /**
@@ -645,6 +760,18 @@ export function TaskNodeDetails({
     return null;
   }
 
+  // Open the tab holding the field picked in the search palette, showing
+  // the transitions when the field is in one
+  const { searchMatch } = data;
+  const isTransitionMatch =
+    searchMatch?.field === "condition" || searchMatch?.field === "publish";
+  const showTransitions = !hideTransitions || isTransitionMatch;
+  const defaultTab = isTransitionMatch
+    ? "transitions"
+    : searchMatch?.field === "input"
+    ? "input"
+    : "config";
+
   return (
     <div
       className={cn(
@@ -653,11 +780,12 @@ export function TaskNodeDetails({
       )}
     >
       {/* Task metadata (type, description, action) */}
-      <TaskMetadata data={data} />
+      <TaskMetadata data={data} searchMatch={searchMatch} />
 
       {/* Tabbed interface for better organization */}
       <Tabs
-        defaultValue="config"
+        key={defaultTab}
+        defaultValue={defaultTab}
         className="mt-3"
         onClick={(e) => e.stopPropagation()}
       >
@@ -671,7 +799,7 @@ export function TaskNodeDetails({
           <TabsTrigger value="input" onClick={(e) => e.stopPropagation()}>
             Input
           </TabsTrigger>
-          {!hideTransitions && (
+          {showTransitions && (
             <TabsTrigger
               value="transitions"
               onClick={(e) => e.stopPropagation()}
@@ -682,6 +810,11 @@ export function TaskNodeDetails({
           <TabsTrigger value="advanced" onClick={(e) => e.stopPropagation()}>
             Advanced
           </TabsTrigger>
+          {data.executionStatus && (
+            <TabsTrigger value="execution" onClick={(e) => e.stopPropagation()}>
+              Execution
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="config" onClick={(e) => e.stopPropagation()}>
@@ -689,18 +822,32 @@ export function TaskNodeDetails({
         </TabsContent>
 
         <TabsContent value="input" onClick={(e) => e.stopPropagation()}>
-          <InputParameters input={data.input} />
+          <InputParameters
+            input={data.input}
+            highlightedKey={
+              searchMatch?.field === "input" ? searchMatch.key : undefined
+            }
+          />
         </TabsContent>
 
-        {!hideTransitions && (
+        {showTransitions && (
           <TabsContent value="transitions" onClick={(e) => e.stopPropagation()}>
-            <TransitionsList data={data} />
+            <TransitionsList data={data} searchMatch={searchMatch} />
           </TabsContent>
         )}
 
         <TabsContent value="advanced" onClick={(e) => e.stopPropagation()}>
           <AdvancedConfiguration data={data} />
         </TabsContent>
+
+        {data.executionStatus && (
+          <TabsContent value="execution" onClick={(e) => e.stopPropagation()}>
+            <ExecutionDetails
+              status={data.executionStatus}
+              execution={data.execution}
+            />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
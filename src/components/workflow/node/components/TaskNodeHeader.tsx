@@ -6,6 +6,12 @@
  */
 import { TaskNodeHeaderProps } from "../types";
 import { cn } from "../../../../lib/utils";
+import {
+  LINT_SEVERITY_ORDER,
+  LintSeverity,
+} from "../../../../lib/workflow-linter";
+import { LINT_SEVERITY_CLASSES } from "../../shared/constants";
+import { describeSubWorkflowLink } from "../../../../lib/workflow-subworkflows";
 
 /**
  * TaskNodeHeader component for rendering the header of a task node
@@ -19,10 +25,53 @@ export function TaskNodeHeader({
   isExpanded,
   hasDetails,
   onToggle,
+  diagnostics = [],
+  hasBreakpoint = false,
+  onToggleBreakpoint,
+  subWorkflow,
+  isSubWorkflowExpanded,
+  onToggleSubWorkflow,
 }: TaskNodeHeaderProps) {
+  // The badge takes the color of the most severe diagnostic
+  const worstSeverity = diagnostics.reduce<LintSeverity | null>(
+    (worst, diagnostic) =>
+      worst === null ||
+      LINT_SEVERITY_ORDER[diagnostic.severity] < LINT_SEVERITY_ORDER[worst]
+        ? diagnostic.severity
+        : worst,
+    null
+  );
+
+  // Bundled sub-workflows expand in place below the task
+  const subWorkflowTitle = subWorkflow
+    ? `${describeSubWorkflowLink(subWorkflow)}${
+        onToggleSubWorkflow
+          ? `. Click to ${isSubWorkflowExpanded ? "collapse" : "expand"} it`
+          : ""
+      }`
+    : undefined;
+
   return (
     <div className="flex items-center justify-between p-3 bg-[hsl(var(--card))] border border-[hsl(var(--border))] rounded-t-lg">
       <div className="flex items-center gap-2 flex-1 min-w-0">
+        {/* Breakpoint toggle */}
+        {onToggleBreakpoint && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleBreakpoint();
+            }}
+            className={cn(
+              "flex-shrink-0 w-3 h-3 rounded-full border-2 transition-opacity",
+              hasBreakpoint
+                ? "bg-[hsl(var(--workflow-red))] border-[hsl(var(--workflow-red))]"
+                : "border-[hsl(var(--workflow-red))] opacity-30 hover:opacity-100"
+            )}
+            title={hasBreakpoint ? "Remove breakpoint" : "Add breakpoint"}
+            aria-label={hasBreakpoint ? "Remove breakpoint" : "Add breakpoint"}
+          />
+        )}
+
         {/* Task type indicator */}
         <div
           className={cn(
@@ -43,6 +92,23 @@ export function TaskNodeHeader({
 
       {/* Status indicators */}
       <div className="flex items-center gap-1.5">
+        {/* Lint diagnostics badge */}
+        {worstSeverity && (
+          <div
+            className={cn(
+              "px-1.5 rounded-full border text-xs font-medium leading-4",
+              LINT_SEVERITY_CLASSES[worstSeverity]
+            )}
+            title={diagnostics
+              .map(
+                (diagnostic) => `${diagnostic.severity}: ${diagnostic.message}`
+              )
+              .join("\n")}
+          >
+            {diagnostics.length}
+          </div>
+        )}
+
         {/* Action indicator */}
         {indicators.hasAction && (
           <div
@@ -69,10 +135,25 @@ export function TaskNodeHeader({
         )}
 
         {/* Sub-workflow indicator */}
-        {indicators.hasSubWorkflow && (
-          <div
-            className="w-4 h-4 text-[hsl(var(--workflow-green))]"
-            title="Has sub-workflow"
+        {indicators.hasSubWorkflow && subWorkflow && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleSubWorkflow?.();
+            }}
+            disabled={!onToggleSubWorkflow}
+            className={cn(
+              "w-4 h-4 text-[hsl(var(--workflow-green))]",
+              subWorkflow.confidence !== "bundled" && "opacity-60",
+              onToggleSubWorkflow ? "cursor-pointer" : "cursor-default",
+              isSubWorkflowExpanded &&
+                "rounded-sm bg-[hsl(var(--workflow-green)/0.2)]"
+            )}
+            title={subWorkflowTitle}
+            aria-label={subWorkflowTitle}
+            aria-expanded={
+              onToggleSubWorkflow ? isSubWorkflowExpanded : undefined
+            }
           >
             <svg
               xmlns="http://www.w3.org/2000/svg"
@@ -88,7 +169,7 @@ export function TaskNodeHeader({
               <path d="M7 12h10" />
               <path d="M7 17h10" />
             </svg>
-          </div>
+          </button>
         )}
 
         {/* Condition indicator */}
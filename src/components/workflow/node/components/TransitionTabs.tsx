@@ -9,6 +9,8 @@ import { Handle, Position } from "reactflow";
 import { TransitionTabsProps } from "../types";
 import { cn } from "../../../../lib/utils";
 import { formatTransitionLabel, getTransitionColor } from "../../shared/utils";
+import { containsJinja } from "../../../../lib/jinja";
+import { JinjaHighlight } from "./JinjaHighlight";
 
 /**
  * TransitionTabs component for rendering the transition tabs of a task node
@@ -172,9 +174,10 @@ export function TransitionTabs({
                       <div className="font-medium text-xs text-[hsl(var(--muted-foreground))] mb-1">
                         Condition
                       </div>
-                      <div className="text-[hsl(var(--foreground))]">
-                        {transition.when}
-                      </div>
+                      <JinjaHighlight
+                        source={String(transition.when)}
+                        className="text-xs"
+                      />
                     </div>
                   )}
 
@@ -203,9 +206,16 @@ export function TransitionTabs({
                               <span className="font-medium mr-2">
                                 {pub.key}:
                               </span>
-                              <span className="text-[hsl(var(--muted-foreground))]">
-                                {pub.value}
-                              </span>
+                              {containsJinja(pub.value) ? (
+                                <JinjaHighlight
+                                  source={pub.value}
+                                  className="min-w-0 text-xs"
+                                />
+                              ) : (
+                                <span className="text-[hsl(var(--muted-foreground))]">
+                                  {pub.value}
+                                </span>
+                              )}
                             </div>
                           )
                         )}
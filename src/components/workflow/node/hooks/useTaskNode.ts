@@ -1,7 +1,7 @@
 /**
  * Hook for managing task node state and behavior
  */
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { TaskNodeData } from "../types";
 
 /**
@@ -13,6 +13,13 @@ export function useTaskNode(data: TaskNodeData) {
   // State for expanded/collapsed state
   const [isExpanded, setIsExpanded] = useState(false);
 
+  // Show the details holding the field picked in the search palette
+  useEffect(() => {
+    if (data.searchMatch && data.searchMatch.field !== "name") {
+      setIsExpanded(true);
+    }
+  }, [data.searchMatch]);
+
   // Toggle expanded state
   const toggleExpanded = () => {
     setIsExpanded((prev) => !prev);
@@ -20,7 +27,9 @@ export function useTaskNode(data: TaskNodeData) {
 
   // Determine task type
   const taskType = useMemo(() => {
-    if (data.action) {
+    if (data.subWorkflow) {
+      return "workflow";
+    } else if (data.action) {
       return "action";
     } else if (data.type === "workflow") {
       return "workflow";
@@ -45,13 +54,14 @@ export function useTaskNode(data: TaskNodeData) {
   const indicators = useMemo(() => {
     return {
       hasAction: Boolean(data.action),
-      hasSubWorkflow: taskType === "workflow",
+      // Only tasks with a resolved workflow reference run a sub-workflow
+      hasSubWorkflow: Boolean(data.subWorkflow),
       hasCondition: Boolean(data.next && data.next.some((t) => t.when)),
       hasMultipleTargets: Boolean(
         data.next && data.next.some((t) => t.do && t.do.length > 1)
       ),
     };
-  }, [data, taskType]);
+  }, [data]);
 
   return {
     isExpanded,
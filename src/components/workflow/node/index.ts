@@ -4,6 +4,8 @@
 
 // Export the TaskNode component directly
 export { TaskNode } from "./TaskNode";
+export { WorkflowSummaryNode } from "./WorkflowSummaryNode";
+export { SubWorkflowGroupNode } from "./SubWorkflowGroupNode";
 
 // Export types
 export * from "./types";
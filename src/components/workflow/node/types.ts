@@ -2,6 +2,16 @@
  * Types for the TaskNode component
  */
 import { Task } from "../../../types/workflow";
+import { LintDiagnostic } from "../../../lib/workflow-linter";
+import { DataFlowRole } from "../../../lib/workflow-dataflow";
+import {
+  ExecutionEvent,
+  ExecutionTaskStatus,
+} from "../../../lib/workflow-execution";
+import { DiffStatus } from "../../../lib/workflow-diff";
+import { CallGraphWorkflow } from "../../../lib/workflow-callgraph";
+import { SubWorkflowLink } from "../../../lib/workflow-subworkflows";
+import { SearchMatchLocation } from "../../../lib/workflow-search";
 
 /**
  * Data for the TaskNode component
@@ -17,12 +27,135 @@ export interface TaskNodeData extends Task {
    */
   onTransitionHover?: (nodeId: string, transitionIndex: number | null) => void;
 
+  /**
+   * The workflow the task runs, null if it doesn't run one
+   */
+  subWorkflow?: SubWorkflowLink | null;
+
+  /**
+   * Whether the sub-workflow is expanded in place below the task
+   */
+  isSubWorkflowExpanded?: boolean;
+
+  /**
+   * Callback for expanding or collapsing the sub-workflow of a task node
+   */
+  onToggleSubWorkflow?: (nodeId: string) => void;
+
   /**
    * References to the workflow context for resolving variable placeholders
    */
   references?: Record<string, unknown>;
+
+  /**
+   * Lint diagnostics reported for this task
+   */
+  diagnostics?: LintDiagnostic[];
+
+  /**
+   * Role of the task for the CTX variable selected in the data-flow panel
+   */
+  dataFlowRole?: DataFlowRole;
+
+  /**
+   * State of the task in the simulated run shown on the canvas
+   */
+  simulationState?: SimulationNodeState;
+
+  /**
+   * Whether the simulator pauses when it reaches this task
+   */
+  hasBreakpoint?: boolean;
+
+  /**
+   * Callback for toggling the breakpoint on a task
+   */
+  onToggleBreakpoint?: (taskId: string) => void;
+
+  /**
+   * Status of the task in the replayed execution log
+   */
+  executionStatus?: ExecutionTaskStatus;
+
+  /**
+   * Latest run of the task in the replayed execution log
+   */
+  execution?: ExecutionEvent;
+
+  /**
+   * How the task changed between the two exports of a bundle diff
+   */
+  diffStatus?: DiffStatus;
+
+  /**
+   * Field of the task picked in the search palette
+   */
+  searchMatch?: SearchMatchLocation;
+}
+
+/**
+ * Data for the WorkflowSummaryNode component of the bundle overview
+ */
+export interface WorkflowSummaryNodeData {
+  /**
+   * The workflow the node stands for
+   */
+  workflow: CallGraphWorkflow;
+
+  /**
+   * Whether the workflow is the one selected in the task view
+   */
+  isSelected?: boolean;
 }
 
+/**
+ * Data for the SubWorkflowGroupNode component
+ */
+export interface SubWorkflowGroupNodeData {
+  /**
+   * ID of the expanded workflow
+   */
+  workflowId: string;
+
+  /**
+   * Name of the expanded workflow
+   */
+  name: string;
+
+  /**
+   * Number of tasks in the expanded workflow
+   */
+  taskCount: number;
+
+  /**
+   * ID of the node of the task that runs the workflow
+   */
+  callerNodeId: string;
+
+  /**
+   * Nesting level of the group, 1 for groups on the workflow itself
+   */
+  depth: number;
+
+  /**
+   * Callback for collapsing the group
+   */
+  onCollapse: (callerNodeId: string) => void;
+
+  /**
+   * Callback for opening the workflow on its own
+   */
+  onOpenWorkflow: (workflowId: string) => void;
+}
+
+/**
+ * State of a task in a simulated run
+ * - `visited`: ran in the run so far
+ * - `failed`: ran and was simulated as failed
+ * - `waiting`: a join still waiting for incoming transitions
+ */
+export type SimulationNodeState = "visited" | "failed" | "waiting";
+
 /**
  * Props for the TaskNodeHeader component
  */
@@ -61,6 +194,37 @@ export interface TaskNodeHeaderProps {
    * Callback for when the expand/collapse toggle is clicked
    */
   onToggle: () => void;
+
+  /**
+   * Lint diagnostics to show as a badge
+   */
+  diagnostics?: LintDiagnostic[];
+
+  /**
+   * Whether the task has a simulator breakpoint
+   */
+  hasBreakpoint?: boolean;
+
+  /**
+   * Callback for toggling the breakpoint, the toggle is hidden without it
+   */
+  onToggleBreakpoint?: () => void;
+
+  /**
+   * The workflow the task runs, describes the sub-workflow indicator
+   */
+  subWorkflow?: SubWorkflowLink | null;
+
+  /**
+   * Whether the sub-workflow is expanded in place
+   */
+  isSubWorkflowExpanded?: boolean;
+
+  /**
+   * Callback for expanding or collapsing the sub-workflow, the indicator is a
+   * button with it
+   */
+  onToggleSubWorkflow?: () => void;
 }
 
 /**
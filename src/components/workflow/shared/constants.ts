@@ -1,7 +1,13 @@
 /**
  * Shared constants for the workflow components
  */
-import { LayoutConfig } from "./types";
+import {
+  CanvasFilter,
+  DiagramFormat,
+  ImageExportOptions,
+  LayoutConfig,
+} from "./types";
+import { JinjaTokenType } from "../../../lib/jinja";
 
 /**
  * Node dimensions
@@ -27,6 +33,11 @@ export const NODE_DIMENSIONS = {
  * Default layout configuration
  */
 export const DEFAULT_LAYOUT_CONFIG: LayoutConfig = {
+  /**
+   * Layout algorithm
+   */
+  algorithm: "dag",
+
   /**
    * Horizontal spacing between nodes
    */
@@ -104,6 +115,47 @@ export const DEFAULT_LAYOUT_CONFIG: LayoutConfig = {
   },
 };
 
+/**
+ * Sizes used to lay out sub-workflows expanded in place
+ * Task nodes are measured only once rendered, so the layout estimates them.
+ */
+export const SUB_WORKFLOW_GROUP_LAYOUT = {
+  /**
+   * Estimated width of a task node
+   */
+  taskWidth: NODE_DIMENSIONS.width,
+
+  /**
+   * Estimated height of a task node, with its transition tabs
+   */
+  taskHeight: 160,
+
+  /**
+   * Padding between a group's border and its tasks
+   */
+  padding: 40,
+
+  /**
+   * Height of a group's header
+   */
+  headerHeight: 48,
+
+  /**
+   * Space between a calling task and its group, and below the group
+   */
+  gap: 80,
+
+  /**
+   * Deepest level of sub-workflows that can be expanded
+   */
+  maxDepth: 6,
+};
+
+/**
+ * Type of the edges routed around the nodes of the canvas
+ */
+export const ORTHOGONAL_EDGE_TYPE = "orthogonal";
+
 /**
  * Workflow colors
  */
@@ -133,3 +185,113 @@ export const WORKFLOW_COLORS = {
    */
   unknown: "hsl(var(--muted))",
 };
+
+/**
+ * Tailwind classes for lint diagnostics, per severity
+ */
+export const LINT_SEVERITY_CLASSES = {
+  /**
+   * Problems that stop the workflow from running as intended
+   */
+  error: "bg-red-500/15 text-red-500 border-red-500/50",
+
+  /**
+   * Likely mistakes
+   */
+  warning: "bg-yellow-500/15 text-yellow-500 border-yellow-500/50",
+
+  /**
+   * Style and hygiene hints
+   */
+  info: "bg-[hsl(var(--workflow-blue))]/15 text-[hsl(var(--workflow-blue))] border-[hsl(var(--workflow-blue))]/50",
+};
+
+/**
+ * Tailwind classes for highlighted Jinja, per token type
+ * Plain text and whitespace are left unstyled.
+ */
+export const JINJA_TOKEN_CLASSES: Partial<Record<JinjaTokenType, string>> = {
+  comment: "text-[hsl(var(--muted-foreground))] italic",
+  open: "text-[hsl(var(--workflow-orange))] font-semibold",
+  close: "text-[hsl(var(--workflow-orange))] font-semibold",
+  name: "text-[hsl(var(--foreground))]",
+  keyword: "text-[hsl(var(--workflow-purple))]",
+  string: "text-[hsl(var(--workflow-green))]",
+  number: "text-[hsl(var(--workflow-pink))]",
+  operator: "text-[hsl(var(--workflow-orange))]",
+  punctuation: "text-[hsl(var(--muted-foreground))]",
+  error: "text-red-500",
+};
+
+/**
+ * Tailwind classes for the roots of `CTX.`, `ORG.` and `TASKS.` lookups
+ */
+export const JINJA_LOOKUP_CLASSES = {
+  CTX: "text-[hsl(var(--workflow-blue))] font-semibold",
+  ORG: "text-[hsl(var(--workflow-yellow))] font-semibold",
+  TASKS: "text-[hsl(var(--workflow-red))] font-semibold",
+};
+
+/**
+ * Tailwind classes for the status badges of a bundle diff
+ */
+export const DIFF_STATUS_CLASSES = {
+  added: "bg-green-500/15 text-green-500 border-green-500/50",
+  removed: "bg-red-500/15 text-red-500 border-red-500/50",
+  modified: "bg-yellow-500/15 text-yellow-500 border-yellow-500/50",
+  unchanged:
+    "bg-[hsl(var(--muted))] text-[hsl(var(--muted-foreground))] border-[hsl(var(--border))]",
+};
+
+/**
+ * Edge colours of a bundle diff, unchanged edges keep their own colour
+ */
+export const DIFF_EDGE_COLORS = {
+  added: "hsl(var(--workflow-green))",
+  removed: "hsl(var(--workflow-red))",
+  modified: "hsl(var(--workflow-yellow))",
+};
+
+/**
+ * Canvas filter showing every task
+ */
+export const DEFAULT_CANVAS_FILTER: CanvasFilter = {
+  packs: [],
+  hasCondition: false,
+  mocked: false,
+  hasJinja: false,
+  subWorkflowCalls: false,
+  mode: "dim",
+  focusDepth: 2,
+};
+
+/**
+ * Deepest neighbourhood the focus mode shows
+ */
+export const MAX_FOCUS_DEPTH = 5;
+
+/**
+ * Scales a PNG export can be made at
+ */
+export const IMAGE_EXPORT_PIXEL_RATIOS = [1, 2, 4];
+
+/**
+ * Image export options before any is changed
+ */
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  format: "png",
+  pixelRatio: 2,
+  transparent: false,
+  theme: "light",
+};
+
+/**
+ * Name and file extension of each diagram language
+ */
+export const DIAGRAM_FORMATS: Record<
+  DiagramFormat,
+  { label: string; extension: string }
+> = {
+  mermaid: { label: "Mermaid", extension: "mmd" },
+  dot: { label: "Graphviz DOT", extension: "dot" },
+};
@@ -2,7 +2,8 @@
  * Shared types for the workflow components
  */
 import { Task } from "../../../types/workflow";
-import { Node, Edge } from "reactflow";
+import { Node, Edge, Viewport, XYPosition } from "reactflow";
+import { LintSeverity } from "../../../lib/workflow-linter";
 
 /**
  * WorkflowTask type for use in the workflow components
@@ -15,6 +16,11 @@ export interface WorkflowTask extends Task {
  * Layout configuration for the workflow layout engine
  */
 export interface LayoutConfig {
+  /**
+   * ID of the layout algorithm in the layout registry, DAG when unset
+   */
+  algorithm?: string;
+
   /**
    * Horizontal spacing between nodes
    */
@@ -106,6 +112,72 @@ export interface LayoutConfig {
   };
 }
 
+/**
+ * View of a workflow kept between visits
+ */
+export interface WorkflowViewState {
+  /** Positions of the nodes moved by hand, by node ID */
+  positions: Record<string, XYPosition>;
+  /** IDs of the task nodes whose sub-workflow is expanded */
+  expandedSubWorkflows: string[];
+  /** Layout configuration picked in the layout controls */
+  layoutConfig?: LayoutConfig;
+  /** Pan and zoom of the canvas */
+  viewport?: Viewport;
+}
+
+/**
+ * How the canvas shows tasks that don't match its filter
+ */
+export type CanvasFilterMode = "dim" | "hide";
+
+/**
+ * Filter of the tasks shown on the canvas
+ * Set predicates must all hold for a task to match.
+ */
+export interface CanvasFilter {
+  /** Action packs, e.g. `hubspot`, the task's action must be in one of */
+  packs: string[];
+  /** Only tasks with a conditional transition */
+  hasCondition: boolean;
+  /** Only mocked tasks */
+  mocked: boolean;
+  /** Only tasks using Jinja */
+  hasJinja: boolean;
+  /** Only tasks running a sub-workflow */
+  subWorkflowCalls: boolean;
+  /** Only tasks with a diagnostic at least this severe */
+  severity?: LintSeverity;
+  mode: CanvasFilterMode;
+  /** Task whose neighbourhood alone is shown */
+  focusTaskId?: string;
+  /** Number of transitions followed up and downstream of the focused task */
+  focusDepth: number;
+}
+
+/**
+ * Image formats the canvas exports to
+ */
+export type ImageExportFormat = "svg" | "png";
+
+/**
+ * Options of an image export of the canvas
+ */
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  /** Scale of a PNG, 2 doubles the pixels of each side */
+  pixelRatio: number;
+  /** Leaves the background out instead of filling it */
+  transparent: boolean;
+  /** Theme the graph is drawn in, whatever the page shows */
+  theme: "light" | "dark";
+}
+
+/**
+ * Diagram languages a workflow is written in
+ */
+export type DiagramFormat = "mermaid" | "dot";
+
 /**
  * Layout engine interface
  */
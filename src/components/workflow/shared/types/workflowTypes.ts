@@ -18,6 +18,7 @@ export interface WorkflowObject {
   nonfunctional_fields?: {
     [key: string]: unknown;
   };
+  references?: Record<string, WorkflowReference>;
 }
 
 /**
@@ -37,6 +38,7 @@ export interface WorkflowBundle {
  * Workflow reference structure
  */
 export interface WorkflowReference {
+  type?: string;
   src_key_hash: string;
   locations?: string[];
 }
@@ -196,6 +198,7 @@ export interface TaskNodeData {
   hasJinjaTemplates?: boolean;
   isSubWorkflowTask?: boolean;
   subWorkflowId?: string;
+  subWorkflow?: import("../../../../lib/workflow-subworkflows").SubWorkflowLink;
   onSubWorkflowClick?: (subWorkflowId: string) => void;
   onTransitionHover?: (nodeId: string, transitionIndex: number | null) => void;
   next?: {
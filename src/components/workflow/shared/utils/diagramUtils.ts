@@ -0,0 +1,324 @@
+/**
+ * Utilities for writing workflows as Mermaid and Graphviz diagrams
+ */
+import { Edge, Node } from "reactflow";
+import { Task } from "../../../../types/workflow";
+import { DiagramFormat, LayoutConfig, WorkflowTask } from "../types";
+import {
+  createEdgesFromTransitions,
+  getTransitionColor,
+} from "./transitionUtils";
+
+/**
+ * Style class and colour of the edges drawn in each workflow colour
+ * Edges keep the colour `getTransitionColor` gave them on the canvas, named
+ * by its CSS variable. Diagrams can't read CSS variables, so the light theme
+ * colours are spelled out.
+ */
+const DIAGRAM_EDGE_CLASSES: Record<
+  string,
+  { className: string; color: string; dashed?: boolean }
+> = {
+  yellow: { className: "conditional", color: "#ffcc00", dashed: true },
+  purple: { className: "followAll", color: "#8000ff" },
+  blue: { className: "transition", color: "#0080ff" },
+  green: { className: "subWorkflow", color: "#16a34a", dashed: true },
+  orange: { className: "trigger", color: "#ff8000", dashed: true },
+};
+
+/**
+ * Colour of the frames drawn around sub-workflows
+ */
+const SUB_WORKFLOW_FRAME_COLOR = "#16a34a";
+
+/**
+ * Node data read for diagram labels
+ */
+interface DiagramNodeData {
+  name?: string;
+  label?: string;
+}
+
+/**
+ * Edge data read for diagram labels
+ */
+interface DiagramEdgeData {
+  label?: string;
+  condition?: string;
+}
+
+/**
+ * Gets the style class of an edge
+ * @param edge The edge
+ * @returns The class, transition when its colour isn't a workflow colour
+ */
+const getEdgeClass = (edge: Edge<DiagramEdgeData>) => {
+  const stroke =
+    typeof edge.style?.stroke === "string"
+      ? edge.style.stroke
+      : getTransitionColor({ when: edge.data?.condition });
+  const colorName = stroke.match(/--workflow-(\w+)/)?.[1] || "blue";
+  return DIAGRAM_EDGE_CLASSES[colorName] || DIAGRAM_EDGE_CLASSES.blue;
+};
+
+/**
+ * Gets the label of an edge
+ * Only conditional transitions and named ones are labelled, plain ones
+ * would all read "Transition".
+ * @param edge The edge
+ * @returns The label, see `formatTransitionLabel`, or undefined
+ */
+const getEdgeLabel = (edge: Edge<DiagramEdgeData>) =>
+  edge.data?.label && (edge.data.condition || edge.data.label !== "Transition")
+    ? edge.data.label
+    : undefined;
+
+/**
+ * Gets the label of a node
+ * @param node The node
+ * @returns The task, trigger or sub-workflow name
+ */
+const getNodeLabel = (node: Node<DiagramNodeData>) =>
+  node.data?.name || node.data?.label || node.id;
+
+/**
+ * Groups nodes by the node they are drawn in
+ * @param nodes The nodes
+ * @returns The nodes by parent ID, top-level nodes under ""
+ */
+const groupByParent = (nodes: Node[]) => {
+  const children = new Map<string, Node[]>();
+  nodes.forEach((node) => {
+    const parentId = node.parentNode || "";
+    children.set(parentId, [...(children.get(parentId) || []), node]);
+  });
+  return children;
+};
+
+/**
+ * Escapes text for a quoted Mermaid label
+ * @param text The text
+ * @returns The text with Mermaid entity codes
+ */
+const escapeMermaid = (text: string) =>
+  text
+    .replace(/#/g, "#35;")
+    .replace(/"/g, "#quot;")
+    .replace(/\|/g, "#124;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/\r?\n/g, " ");
+
+/**
+ * Escapes text for a quoted DOT string
+ * @param text The text
+ * @returns The escaped text
+ */
+const escapeDot = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n");
+
+/**
+ * Writes a workflow as a Mermaid flowchart
+ * Sub-workflows expanded on the canvas become subgraphs, and edges are
+ * coloured by `linkStyle`, one line per style class.
+ * @param nodes The canvas nodes
+ * @param edges The canvas edges
+ * @param title The workflow name
+ * @param direction The direction of the layout
+ * @returns The Mermaid source
+ */
+export function toMermaid(
+  nodes: Node[],
+  edges: Edge[],
+  title: string,
+  direction: LayoutConfig["direction"] = "TB"
+): string {
+  const ids = new Map(nodes.map((node, index) => [node.id, `n${index + 1}`]));
+  const children = groupByParent(nodes);
+  const lines = [
+    "---",
+    `title: ${JSON.stringify(title)}`,
+    "---",
+    `flowchart ${direction}`,
+  ];
+
+  const writeNodes = (parentId: string, indent: string) => {
+    (children.get(parentId) || []).forEach((node) => {
+      const id = ids.get(node.id);
+      const label = escapeMermaid(getNodeLabel(node));
+      if (children.has(node.id)) {
+        lines.push(`${indent}subgraph ${id}["${label}"]`);
+        writeNodes(node.id, `${indent}  `);
+        lines.push(`${indent}end`);
+        lines.push(
+          `${indent}style ${id} fill:none,stroke:${SUB_WORKFLOW_FRAME_COLOR},stroke-dasharray:5 5`
+        );
+      } else {
+        lines.push(`${indent}${id}["${label}"]`);
+      }
+    });
+  };
+  writeNodes("", "  ");
+
+  const linksByClass = new Map<string, number[]>();
+  edges
+    .filter((edge) => ids.has(edge.source) && ids.has(edge.target))
+    .forEach((edge, index) => {
+      const label = getEdgeLabel(edge);
+      const arrow = getEdgeClass(edge).dashed ? "-.->" : "-->";
+      lines.push(
+        `  ${ids.get(edge.source)} ${arrow}${
+          label ? `|"${escapeMermaid(label)}"|` : ""
+        } ${ids.get(edge.target)}`
+      );
+
+      const { className } = getEdgeClass(edge);
+      linksByClass.set(className, [
+        ...(linksByClass.get(className) || []),
+        index,
+      ]);
+    });
+
+  Object.values(DIAGRAM_EDGE_CLASSES).forEach(({ className, color }) => {
+    const links = linksByClass.get(className);
+    if (links) {
+      lines.push(`  %% ${className}`);
+      lines.push(
+        `  linkStyle ${links.join(",")} stroke:${color},stroke-width:2px`
+      );
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes a workflow as a Graphviz DOT digraph
+ * Sub-workflows expanded on the canvas become clusters. Edges to or from a
+ * cluster are drawn to its first task, clipped at the cluster's border.
+ * Each edge names its style class in the `class` attribute, kept in SVG
+ * output.
+ * @param nodes The canvas nodes
+ * @param edges The canvas edges
+ * @param title The workflow name
+ * @param direction The direction of the layout
+ * @returns The DOT source
+ */
+export function toDot(
+  nodes: Node[],
+  edges: Edge[],
+  title: string,
+  direction: LayoutConfig["direction"] = "TB"
+): string {
+  const ids = new Map(nodes.map((node, index) => [node.id, `n${index + 1}`]));
+  const children = groupByParent(nodes);
+  const lines = [
+    `digraph "${escapeDot(title)}" {`,
+    `  label="${escapeDot(title)}";`,
+    "  labelloc=t;",
+    `  rankdir=${direction};`,
+    "  compound=true;",
+    '  node [shape=box, style=rounded, fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  // Edges reach a cluster through the first node drawn in it
+  const getAnchor = (nodeId: string): string | undefined => {
+    const inside = children.get(nodeId);
+    return inside ? getAnchor(inside[0].id) : ids.get(nodeId);
+  };
+
+  const writeNodes = (parentId: string, indent: string) => {
+    (children.get(parentId) || []).forEach((node) => {
+      const id = ids.get(node.id);
+      const label = escapeDot(getNodeLabel(node));
+      if (children.has(node.id)) {
+        lines.push(`${indent}subgraph cluster_${id} {`);
+        lines.push(
+          `${indent}  label="${label}"; style="rounded,dashed"; color="${SUB_WORKFLOW_FRAME_COLOR}";`
+        );
+        writeNodes(node.id, `${indent}  `);
+        lines.push(`${indent}}`);
+      } else {
+        lines.push(`${indent}${id} [label="${label}"];`);
+      }
+    });
+  };
+  writeNodes("", "  ");
+
+  edges
+    .filter((edge) => ids.has(edge.source) && ids.has(edge.target))
+    .forEach((edge) => {
+      const { className, color, dashed } = getEdgeClass(edge);
+      const label = getEdgeLabel(edge);
+      const attributes = [
+        label ? `label="${escapeDot(label)}"` : "",
+        `class="${className}"`,
+        `color="${color}"`,
+        dashed ? "style=dashed" : "",
+        children.has(edge.source)
+          ? `ltail=cluster_${ids.get(edge.source)}`
+          : "",
+        children.has(edge.target)
+          ? `lhead=cluster_${ids.get(edge.target)}`
+          : "",
+      ].filter(Boolean);
+
+      lines.push(
+        `  ${getAnchor(edge.source)} -> ${getAnchor(
+          edge.target
+        )} [${attributes.join(", ")}];`
+      );
+    });
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Creates the nodes and edges of a workflow's tasks, for workflows not shown
+ * on the canvas
+ * @param tasks The tasks of the workflow
+ * @returns The nodes and edges, unpositioned
+ */
+export function getTaskDiagramElements(tasks: Task[]): {
+  nodes: Node[];
+  edges: Edge[];
+} {
+  const processedEdgeIds = new Set<string>();
+
+  return {
+    nodes: tasks.map((task) => ({
+      id: task.id,
+      position: { x: 0, y: 0 },
+      data: { name: task.name || task.id },
+    })),
+    edges: tasks.flatMap((task) =>
+      createEdgesFromTransitions(
+        task as unknown as WorkflowTask,
+        processedEdgeIds
+      )
+    ),
+  };
+}
+
+/**
+ * Writes a workflow as a diagram
+ * @param format The diagram language
+ * @param nodes The canvas nodes
+ * @param edges The canvas edges
+ * @param title The workflow name
+ * @param direction The direction of the layout
+ * @returns The diagram source
+ */
+export function toDiagram(
+  format: DiagramFormat,
+  nodes: Node[],
+  edges: Edge[],
+  title: string,
+  direction?: LayoutConfig["direction"]
+): string {
+  return format === "mermaid"
+    ? toMermaid(nodes, edges, title, direction)
+    : toDot(nodes, edges, title, direction);
+}
@@ -0,0 +1,35 @@
+/**
+ * Utilities for downloading files made in the browser
+ */
+
+/**
+ * Turns a name into a file name safe on every platform
+ * @param name The name, e.g. a workflow name
+ * @param extension The extension, without the dot
+ * @returns The file name, e.g. `onboard-user.svg`
+ */
+export function getDownloadFileName(name: string, extension: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${base || "workflow"}.${extension}`;
+}
+
+/**
+ * Downloads a blob as a file
+ * @param blob The file content
+ * @param fileName The name the file is saved under
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const downloadLink = document.createElement("a");
+  downloadLink.href = url;
+  downloadLink.download = fileName;
+  document.body.appendChild(downloadLink);
+  downloadLink.click();
+  document.body.removeChild(downloadLink);
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,296 @@
+/**
+ * Utilities for filtering the tasks shown on the canvas
+ */
+import { Edge, Node } from "reactflow";
+import {
+  LINT_SEVERITY_ORDER,
+  LintDiagnostic,
+  LintSeverity,
+} from "../../../../lib/workflow-linter";
+import { CanvasFilter } from "../types";
+import { DEFAULT_CANVAS_FILTER, MAX_FOCUS_DEPTH } from "../constants";
+
+/**
+ * Task node data read by the filter
+ */
+interface FilterableTaskData {
+  action?: { ref?: string };
+  next?: Array<{ when?: string }>;
+  isMocked?: boolean;
+  hasJinjaTemplates?: boolean;
+  subWorkflow?: unknown;
+  diagnostics?: LintDiagnostic[];
+}
+
+/**
+ * Names of the URL query parameters holding the filter
+ */
+const FILTER_PARAMS = {
+  packs: "pack",
+  hasCondition: "condition",
+  mocked: "mocked",
+  hasJinja: "jinja",
+  subWorkflowCalls: "subworkflows",
+  severity: "severity",
+  mode: "filter",
+  focusTaskId: "focus",
+  focusDepth: "depth",
+};
+
+/**
+ * Canvas nodes and edges with the filter applied
+ */
+export interface FilteredCanvas {
+  nodes: Node[];
+  edges: Edge[];
+  /** Number of tasks matching the filter and in the focused neighbourhood */
+  matchCount: number;
+  taskCount: number;
+}
+
+/**
+ * Gets the pack of an action from its ref
+ * @param ref The action ref, e.g. `hubspot.create_contact`
+ * @returns The pack, e.g. `hubspot`, or undefined without a ref
+ */
+export const getActionPack = (ref: unknown): string | undefined =>
+  typeof ref === "string" && ref ? ref.split(".")[0] : undefined;
+
+/**
+ * Lists the action packs used by the tasks on the canvas
+ * @param nodes The canvas nodes
+ * @returns The packs, sorted
+ */
+export const getActionPacks = (nodes: Node[]): string[] =>
+  Array.from(
+    new Set(
+      nodes
+        .map((node) =>
+          getActionPack((node.data as FilterableTaskData)?.action?.ref)
+        )
+        .filter((pack): pack is string => Boolean(pack))
+    )
+  ).sort();
+
+/**
+ * Checks if a filter narrows the tasks by a predicate, ignoring the focus
+ * @param filter The filter
+ * @returns true if any predicate is set
+ */
+export const isCanvasFilterActive = (filter: CanvasFilter): boolean =>
+  filter.packs.length > 0 ||
+  filter.hasCondition ||
+  filter.mocked ||
+  filter.hasJinja ||
+  filter.subWorkflowCalls ||
+  Boolean(filter.severity);
+
+/**
+ * Checks if a task matches every predicate of a filter
+ * @param data The task node data
+ * @param filter The filter
+ * @returns true if the task matches
+ */
+export const matchesCanvasFilter = (
+  data: FilterableTaskData,
+  filter: CanvasFilter
+): boolean => {
+  const pack = getActionPack(data.action?.ref);
+  if (filter.packs.length > 0 && (!pack || !filter.packs.includes(pack)))
+    return false;
+  if (filter.hasCondition && !data.next?.some((transition) => transition.when))
+    return false;
+  if (filter.mocked && !data.isMocked) return false;
+  if (filter.hasJinja && !data.hasJinjaTemplates) return false;
+  if (filter.subWorkflowCalls && !data.subWorkflow) return false;
+
+  const { severity } = filter;
+  if (
+    severity &&
+    !data.diagnostics?.some(
+      (diagnostic) =>
+        LINT_SEVERITY_ORDER[diagnostic.severity] <=
+        LINT_SEVERITY_ORDER[severity]
+    )
+  ) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Finds the tasks up to a number of transitions up and downstream of a task
+ * @param taskId The ID of the focused task
+ * @param edges The canvas edges
+ * @param depth The number of transitions to follow each way
+ * @returns The IDs of the focused task and its neighbourhood
+ */
+export const getFocusNeighbourhood = (
+  taskId: string,
+  edges: Edge[],
+  depth: number
+): Set<string> => {
+  const neighbourhood = new Set([taskId]);
+
+  const walk = (next: (edge: Edge) => [string, string]) => {
+    let frontier = new Set([taskId]);
+    for (let level = 0; level < depth && frontier.size > 0; level++) {
+      const reached = new Set<string>();
+      edges.forEach((edge) => {
+        const [from, to] = next(edge);
+        if (frontier.has(from) && !neighbourhood.has(to)) reached.add(to);
+      });
+      reached.forEach((id) => neighbourhood.add(id));
+      frontier = reached;
+    }
+  };
+
+  walk((edge) => [edge.source, edge.target]);
+  walk((edge) => [edge.target, edge.source]);
+
+  return neighbourhood;
+};
+
+/**
+ * Dims or hides the tasks not matching a filter, and hides the tasks outside
+ * the focused neighbourhood. The focused task itself is always shown.
+ * Edges are dimmed or hidden with their ends, and groups of expanded
+ * sub-workflows are hidden once none of their tasks is shown.
+ * @param nodes The canvas nodes
+ * @param edges The canvas edges
+ * @param filter The filter
+ * @returns The filtered nodes and edges
+ */
+export const applyCanvasFilter = (
+  nodes: Node[],
+  edges: Edge[],
+  filter: CanvasFilter
+): FilteredCanvas => {
+  const tasks = nodes.filter((node) => node.type === "task");
+  const isActive = isCanvasFilterActive(filter);
+  const neighbourhood =
+    filter.focusTaskId && tasks.some((node) => node.id === filter.focusTaskId)
+      ? getFocusNeighbourhood(filter.focusTaskId, edges, filter.focusDepth)
+      : null;
+
+  if (!isActive && !neighbourhood) {
+    return { nodes, edges, matchCount: tasks.length, taskCount: tasks.length };
+  }
+
+  const hiddenIds = new Set<string>();
+  const dimmedIds = new Set<string>();
+  tasks.forEach((node) => {
+    if (neighbourhood && !neighbourhood.has(node.id)) {
+      hiddenIds.add(node.id);
+    } else if (
+      isActive &&
+      node.id !== filter.focusTaskId &&
+      !matchesCanvasFilter(node.data || {}, filter)
+    ) {
+      (filter.mode === "hide" ? hiddenIds : dimmedIds).add(node.id);
+    }
+  });
+
+  // Groups left without a shown task
+  nodes
+    .filter((node) => node.type !== "task")
+    .forEach((group) => {
+      const children = tasks.filter((node) => node.parentNode === group.id);
+      if (
+        children.length > 0 &&
+        children.every((node) => hiddenIds.has(node.id))
+      ) {
+        hiddenIds.add(group.id);
+      }
+    });
+
+  return {
+    nodes: nodes.map((node) =>
+      hiddenIds.has(node.id)
+        ? { ...node, hidden: true }
+        : dimmedIds.has(node.id)
+        ? {
+            ...node,
+            className: [node.className, "filtered-out"]
+              .filter(Boolean)
+              .join(" "),
+          }
+        : node
+    ),
+    edges: edges.map((edge) =>
+      hiddenIds.has(edge.source) || hiddenIds.has(edge.target)
+        ? { ...edge, hidden: true }
+        : dimmedIds.has(edge.source) || dimmedIds.has(edge.target)
+        ? { ...edge, style: { ...edge.style, opacity: 0.2 } }
+        : edge
+    ),
+    matchCount: tasks.filter(
+      (node) => !hiddenIds.has(node.id) && !dimmedIds.has(node.id)
+    ).length,
+    taskCount: tasks.length,
+  };
+};
+
+/**
+ * Reads a canvas filter from URL query parameters
+ * Unknown or invalid values fall back to the default filter.
+ * @param params The query parameters
+ * @returns The filter
+ */
+export const readCanvasFilter = (params: URLSearchParams): CanvasFilter => {
+  const flag = (name: string) => params.get(name) === "1";
+  const severity = params.get(FILTER_PARAMS.severity);
+  const depth = parseInt(params.get(FILTER_PARAMS.focusDepth) || "", 10);
+
+  return {
+    packs: (params.get(FILTER_PARAMS.packs) || "").split(",").filter(Boolean),
+    hasCondition: flag(FILTER_PARAMS.hasCondition),
+    mocked: flag(FILTER_PARAMS.mocked),
+    hasJinja: flag(FILTER_PARAMS.hasJinja),
+    subWorkflowCalls: flag(FILTER_PARAMS.subWorkflowCalls),
+    severity:
+      severity && Object.keys(LINT_SEVERITY_ORDER).includes(severity)
+        ? (severity as LintSeverity)
+        : undefined,
+    mode: params.get(FILTER_PARAMS.mode) === "hide" ? "hide" : "dim",
+    focusTaskId: params.get(FILTER_PARAMS.focusTaskId) || undefined,
+    focusDepth:
+      depth >= 1 && depth <= MAX_FOCUS_DEPTH
+        ? depth
+        : DEFAULT_CANVAS_FILTER.focusDepth,
+  };
+};
+
+/**
+ * Writes a canvas filter to URL query parameters
+ * Parameters left at their default are removed, others are kept.
+ * @param filter The filter
+ * @param params The query parameters, changed in place
+ */
+export const writeCanvasFilter = (
+  filter: CanvasFilter,
+  params: URLSearchParams
+): void => {
+  const set = (name: string, value: string | undefined) => {
+    if (value) params.set(name, value);
+    else params.delete(name);
+  };
+  const setFlag = (name: string, value: boolean) =>
+    set(name, value ? "1" : undefined);
+
+  set(FILTER_PARAMS.packs, filter.packs.join(","));
+  setFlag(FILTER_PARAMS.hasCondition, filter.hasCondition);
+  setFlag(FILTER_PARAMS.mocked, filter.mocked);
+  setFlag(FILTER_PARAMS.hasJinja, filter.hasJinja);
+  setFlag(FILTER_PARAMS.subWorkflowCalls, filter.subWorkflowCalls);
+  set(FILTER_PARAMS.severity, filter.severity);
+  set(FILTER_PARAMS.mode, filter.mode === "hide" ? "hide" : undefined);
+  set(FILTER_PARAMS.focusTaskId, filter.focusTaskId);
+  set(
+    FILTER_PARAMS.focusDepth,
+    filter.focusTaskId && filter.focusDepth !== DEFAULT_CANVAS_FILTER.focusDepth
+      ? String(filter.focusDepth)
+      : undefined
+  );
+};
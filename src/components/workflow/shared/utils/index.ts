@@ -5,8 +5,15 @@ export * from "./referenceUtils";
 export {
   getTransitionColor,
   formatTransitionLabel,
+  shortenTransitionLabel,
   createEdgesFromTransitions,
+  getTransitionEdgeId,
 } from "./transitionUtils";
 export * from "./edgeUtils";
 export * from "./nodeUtils";
 export * from "./templateUtils";
+export * from "./viewStateUtils";
+export * from "./filterUtils";
+export * from "./pathUtils";
+export * from "./downloadUtils";
+export * from "./diagramUtils";
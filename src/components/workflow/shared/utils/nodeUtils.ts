@@ -13,6 +13,7 @@ import {
   getTaskDescription,
 } from "./referenceUtils";
 import { detectJinjaTemplates } from "./templateUtils";
+import { SubWorkflowLink } from "../../../../lib/workflow-subworkflows";
 
 /**
  * Creates a task node from a task in a workflow
@@ -25,6 +26,8 @@ import { detectJinjaTemplates } from "./templateUtils";
  * @param minX The minimum X coordinate of all tasks
  * @param minY The minimum Y coordinate of all tasks
  * @param onSubWorkflowClick Callback function for sub-workflow navigation
+ * @param subWorkflow The workflow the task calls, resolved against the
+ * normalized bundle with `resolveSubWorkflow`
  * @returns The created node
  */
 export function createTaskNode(
@@ -36,7 +39,8 @@ export function createTaskNode(
   offsetY: number,
   minX: number,
   minY: number,
-  onSubWorkflowClick: (subWorkflowId: string) => void
+  onSubWorkflowClick: (subWorkflowId: string) => void,
+  subWorkflow?: SubWorkflowLink | null
 ): Node {
   if (!task?.id) {
     throw new Error("Task ID is required");
@@ -82,13 +86,6 @@ export function createTaskNode(
     detectJinjaTemplates(task.action) ||
     detectJinjaTemplates(task.next);
 
-  // Check if this is a sub-workflow task
-  const { isSubWorkflowTask, subWorkflowId } = detectSubWorkflow(
-    task,
-    taskObj || null,
-    template
-  );
-
   // Create and return the node
   return {
     id: task.id,
@@ -115,8 +112,9 @@ export function createTaskNode(
       securitySchema: task.securitySchema,
       packOverrides: task.packOverrides,
       hasJinjaTemplates,
-      isSubWorkflowTask,
-      subWorkflowId,
+      isSubWorkflowTask: Boolean(subWorkflow),
+      subWorkflowId: subWorkflow?.workflowId,
+      subWorkflow: subWorkflow || undefined,
       next: task.next?.map((transition, idx) => {
         const labelKey = `tasks[${index}].next[${idx}].label`;
         const label = workflow.nonfunctional_fields?.[labelKey] as
@@ -229,65 +227,3 @@ function calculateTriggerPosition(
 
   return { x, y };
 }
-
-/**
- * Detects if a task is a sub-workflow
- * @param task The task to check
- * @param taskObj The resolved task object
- * @param template The workflow bundle containing the objects
- * @returns An object with isSubWorkflowTask and subWorkflowId
- */
-export function detectSubWorkflow(
-  task: WorkflowTask,
-  taskObj: WorkflowObject | null,
-  template: WorkflowBundle
-): { isSubWorkflowTask: boolean; subWorkflowId?: string } {
-  let isSubWorkflowTask = false;
-  let subWorkflowId: string | undefined = undefined;
-
-  // Method 1: Check if the task object itself is a workflow
-  if (taskObj?.type === "workflow") {
-    isSubWorkflowTask = true;
-    subWorkflowId = task.id;
-  }
-
-  // Method 2: Check if the action reference contains "workflow"
-  if (
-    !isSubWorkflowTask &&
-    task.action?.ref?.toLowerCase().includes("workflow")
-  ) {
-    isSubWorkflowTask = true;
-  }
-
-  // Method 3: Check if the task name contains "workflow"
-  if (!isSubWorkflowTask && task.name?.toLowerCase().includes("workflow")) {
-    isSubWorkflowTask = true;
-  }
-
-  // Method 4: Check for workflowId in input parameters
-  if (task.input) {
-    // Try to find workflow ID in the input parameters
-    const inputStr = JSON.stringify(task.input);
-    const workflowMatch = inputStr.match(/"workflowId"\s*:\s*"([^"]+)"/);
-    if (workflowMatch && workflowMatch[1]) {
-      isSubWorkflowTask = true;
-      subWorkflowId = workflowMatch[1];
-    }
-  }
-
-  // Method 5: Check if the task is referenced by other workflows
-  if (!isSubWorkflowTask && template?.objects) {
-    const isReferencedAsWorkflow = Object.values(template.objects).some(
-      (obj) =>
-        obj?.type === "workflow" &&
-        obj.fields?.tasks?.some((t) => t.action?.id === task.id)
-    );
-
-    if (isReferencedAsWorkflow) {
-      isSubWorkflowTask = true;
-      subWorkflowId = task.id;
-    }
-  }
-
-  return { isSubWorkflowTask, subWorkflowId };
-}
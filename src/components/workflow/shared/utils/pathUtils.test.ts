@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { Edge } from "reactflow";
+import { findTransitionPaths } from "./pathUtils";
+
+const edgesOf = (pairs: Array<[string, string]>): Edge[] =>
+  pairs.map(([source, target]) => ({
+    id: `${source}-${target}`,
+    source,
+    target,
+  }));
+
+describe("findTransitionPaths", () => {
+  it("keeps the shortest paths when the limit is hit", () => {
+    // A long path is found first depth-first, the direct one is shorter
+    const edges = edgesOf([
+      ["start", "a"],
+      ["a", "b"],
+      ["b", "c"],
+      ["c", "end"],
+      ["start", "x"],
+      ["x", "end"],
+      ["start", "end"],
+    ]);
+
+    const result = findTransitionPaths(edges, "start", "end", 2);
+
+    expect(result.truncated).toBe(true);
+    expect(result.paths.map((path) => path.nodeIds)).toEqual([
+      ["start", "end"],
+      ["start", "x", "end"],
+    ]);
+  });
+
+  it("reports loops through tasks off the path", () => {
+    const edges = edgesOf([
+      ["start", "retry"],
+      ["retry", "end"],
+      ["retry", "wait"],
+      ["wait", "retry"],
+    ]);
+
+    const [path] = findTransitionPaths(edges, "start", "end").paths;
+
+    expect(path.nodeIds).toEqual(["start", "retry", "end"]);
+    expect(path.loops.map((edge) => edge.id)).toEqual(["wait-retry"]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Utilities for finding the paths between two tasks
+ */
+import { Edge } from "reactflow";
+
+/**
+ * Largest number of paths enumerated between two tasks
+ */
+export const MAX_TRANSITION_PATHS = 100;
+
+/**
+ * A path of transitions between two tasks, visiting each task once
+ */
+export interface TransitionPath {
+  /** IDs of the tasks along the path, from the source to the target */
+  nodeIds: string[];
+  /** The edges followed, one fewer than the tasks */
+  edges: Edge[];
+  /**
+   * Edges closing a loop back to a task of the path, possibly through tasks
+   * off it
+   */
+  loops: Edge[];
+}
+
+/**
+ * Paths found between two tasks
+ */
+export interface TransitionPathResult {
+  paths: TransitionPath[];
+  /** Whether enumeration stopped at the path limit */
+  truncated: boolean;
+}
+
+/**
+ * Finds the tasks a task can be reached from
+ * @param targetId The task
+ * @param edges The edges
+ * @returns The fewest transitions from each task with a path to the task,
+ * by task ID, including the task itself
+ */
+const findDistancesTo = (
+  targetId: string,
+  edges: Edge[]
+): Map<string, number> => {
+  const distances = new Map([[targetId, 0]]);
+  const queue = [targetId];
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    const distance = distances.get(id) as number;
+    edges.forEach((edge) => {
+      if (edge.target === id && !distances.has(edge.source)) {
+        distances.set(edge.source, distance + 1);
+        queue.push(edge.source);
+      }
+    });
+  }
+
+  return distances;
+};
+
+/**
+ * Finds the tasks reachable from a task
+ * @param sourceId The task
+ * @param edges The edges
+ * @returns The IDs of the task and every task it has a path to
+ */
+const findDescendants = (sourceId: string, edges: Edge[]): Set<string> => {
+  const descendants = new Set([sourceId]);
+  const queue = [sourceId];
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    edges.forEach((edge) => {
+      if (edge.source === id && !descendants.has(edge.target)) {
+        descendants.add(edge.target);
+        queue.push(edge.target);
+      }
+    });
+  }
+
+  return descendants;
+};
+
+/**
+ * Enumerates the paths of transitions from one task to another
+ * Paths never visit a task twice, so loops can't make them endless. They are
+ * enumerated by increasing length, so when the limit is hit the paths kept
+ * are the shortest ones. Edges leading back into a path from a task reachable
+ * from it, whether on the path or off it, are reported as its loops.
+ * @param edges The edges, as built by `createEdgesFromTransitions`
+ * @param sourceId The ID of the first task
+ * @param targetId The ID of the last task
+ * @param maxPaths Largest number of paths returned
+ * @returns The paths, shortest first
+ */
+export const findTransitionPaths = (
+  edges: Edge[],
+  sourceId: string,
+  targetId: string,
+  maxPaths = MAX_TRANSITION_PATHS
+): TransitionPathResult => {
+  const paths: TransitionPath[] = [];
+  if (sourceId === targetId) return { paths, truncated: false };
+
+  // Branches that never reach the target are not walked
+  const distances = findDistancesTo(targetId, edges);
+  if (!distances.has(sourceId)) return { paths, truncated: false };
+
+  const outgoing = new Map<string, Edge[]>();
+  edges.forEach((edge) => {
+    if (!distances.has(edge.target)) return;
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) || []), edge]);
+  });
+
+  const nodeIds = [sourceId];
+  const pathEdges: Edge[] = [];
+  const onPath = new Set(nodeIds);
+  let truncated = false;
+
+  // Walks the paths with exactly the given number of transitions left
+  const walk = (id: string, remaining: number) => {
+    if (truncated) return;
+    if (id === targetId) {
+      if (remaining > 0) return;
+      if (paths.length >= maxPaths) {
+        truncated = true;
+        return;
+      }
+      paths.push({ nodeIds: [...nodeIds], edges: [...pathEdges], loops: [] });
+      return;
+    }
+
+    (outgoing.get(id) || []).forEach((edge) => {
+      if (onPath.has(edge.target)) return;
+      if ((distances.get(edge.target) as number) > remaining - 1) return;
+
+      nodeIds.push(edge.target);
+      pathEdges.push(edge);
+      onPath.add(edge.target);
+      walk(edge.target, remaining - 1);
+      onPath.delete(edge.target);
+      pathEdges.pop();
+      nodeIds.pop();
+    });
+  };
+
+  // A path visits each task that can reach the target at most once
+  for (
+    let length = distances.get(sourceId) as number;
+    length < distances.size && !truncated;
+    length++
+  ) {
+    walk(sourceId, length);
+  }
+
+  // Loops run from a task reachable from the path back into it
+  const descendants = new Map<string, Set<string>>();
+  const getDescendants = (id: string) => {
+    if (!descendants.has(id)) descendants.set(id, findDescendants(id, edges));
+    return descendants.get(id) as Set<string>;
+  };
+
+  paths.forEach((path) => {
+    const onThisPath = new Set(path.nodeIds);
+    const pathEdgeIds = new Set(path.edges.map((edge) => edge.id));
+    path.loops = edges.filter(
+      (edge) =>
+        onThisPath.has(edge.target) &&
+        !pathEdgeIds.has(edge.id) &&
+        getDescendants(edge.target).has(edge.source)
+    );
+  });
+
+  return { paths, truncated };
+};
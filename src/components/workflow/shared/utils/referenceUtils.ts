@@ -1,19 +1,60 @@
 /**
  * Utility functions for resolving references in workflow templates
  */
-import { WorkflowBundle, WorkflowObject, WorkflowTask } from "../types";
+import {
+  WorkflowBundle,
+  WorkflowObject,
+  WorkflowTask,
+} from "../types/workflowTypes";
+import { isPlaceholder } from "../../../../lib/workflow-normalization";
 
 /**
  * Resolves a reference ID to the actual object in the workflow bundle
+ *
+ * Accepts the identifiers left by `normalizeWorkflowBundle` (object keys and
+ * `id` fields), raw `@@@type_refN@@@` placeholders, which are looked up in the
+ * scope object's references first (version 2), and version 1 reference
+ * locations.
+ *
  * @param refId The reference ID to resolve
  * @param template The workflow bundle containing the objects and references
+ * @param scope The object the reference ID was found in
  * @returns The resolved object or null if not found
  */
 export function resolveReference(
   refId: string,
-  template: WorkflowBundle
+  template: WorkflowBundle,
+  scope?: WorkflowObject | null
 ): WorkflowObject | null {
-  if (!template?.references || !template?.objects) return null;
+  if (!template?.objects) return null;
+
+  // Normalized identifiers point straight at an object
+  if (template.objects[refId]) return template.objects[refId];
+
+  const byId = Object.values(template.objects).find(
+    (obj) => obj.fields?.id === refId
+  );
+  if (byId) return byId;
+
+  // Placeholders name an entry in a references map
+  if (isPlaceholder(refId)) {
+    const name = refId.slice(3, -3);
+    const placeholderRef =
+      scope?.references?.[name] || template.references?.[name];
+    if (!placeholderRef) return null;
+
+    return (
+      template.objects[
+        `${placeholderRef.type}:${placeholderRef.src_key_hash}`
+      ] ||
+      Object.values(template.objects).find(
+        (obj) => obj.hash === placeholderRef.src_key_hash
+      ) ||
+      null
+    );
+  }
+
+  if (!template.references) return null;
 
   const reference = Object.entries(template.references).find(([, ref]) =>
     ref.locations?.some((loc) => loc.includes(refId))
@@ -3,6 +3,7 @@
  */
 import { Edge } from "reactflow";
 import { WorkflowTask } from "../types";
+import { ORTHOGONAL_EDGE_TYPE } from "../constants";
 
 /**
  * Common edge configuration for consistent styling
@@ -24,6 +25,8 @@ interface EdgeConfig {
 
 /**
  * Create a base edge configuration
+ * Edges are routed around the nodes, the path options apply to their corners
+ * and to the smooth step drawn while they aren't routed.
  * @param color The color for the edge
  * @param isDashed Whether the edge should be dashed
  * @returns The edge configuration
@@ -33,7 +36,7 @@ function createEdgeConfig(
   isDashed: boolean = false
 ): EdgeConfig {
   return {
-    type: "smoothstep",
+    type: ORTHOGONAL_EDGE_TYPE,
     animated: true,
     style: {
       stroke: color,
@@ -113,6 +116,37 @@ export function formatTransitionLabel(transition: {
   return "Transition";
 }
 
+/**
+ * Longest transition label drawn on the canvas
+ */
+const MAX_EDGE_LABEL_LENGTH = 28;
+
+/**
+ * Shorten a transition label to fit on its edge
+ * @param label The label, see `formatTransitionLabel`
+ * @returns The label, cut with an ellipsis if too long
+ */
+export function shortenTransitionLabel(label: string): string {
+  return label.length > MAX_EDGE_LABEL_LENGTH
+    ? `${label.slice(0, MAX_EDGE_LABEL_LENGTH - 1).trimEnd()}…`
+    : label;
+}
+
+/**
+ * Get the ID of the edge drawn for a transition target
+ * @param taskId The ID of the source task
+ * @param transitionIndex The index of the transition in the task's `next`
+ * @param targetId The ID of the target task
+ * @returns The edge ID
+ */
+export function getTransitionEdgeId(
+  taskId: string,
+  transitionIndex: number,
+  targetId: string
+): string {
+  return `${taskId}-transition-${transitionIndex}-${targetId}`;
+}
+
 /**
  * Create edges from task transitions
  * @param task The task to create edges from
@@ -140,7 +174,7 @@ export function createEdgesFromTransitions(
     const label = formatTransitionLabel(transition);
 
     transition.do.forEach((targetId) => {
-      const edgeId = `${task.id}-${sourceHandleId}-${targetId}`;
+      const edgeId = getTransitionEdgeId(task.id, index, targetId);
 
       // Skip if already processed
       if (processedEdgeIds.has(edgeId)) {
@@ -30,10 +30,12 @@ export function extractTriggers(bundle: WorkflowBundle): TriggerInfo[] {
       const workflowId = triggerObj.fields.workflowId as string;
       const triggerTypeId = triggerObj.fields.triggerTypeId as string;
 
-      // Find the trigger type object
-      const triggerType = Object.values(bundle.objects).find(
-        (o) => o.hash === triggerTypeId || o.content_hash === triggerTypeId
-      );
+      // Find the trigger type object (normalized bundles reference it by key)
+      const triggerType =
+        bundle.objects[triggerTypeId] ||
+        Object.values(bundle.objects).find(
+          (o) => o.hash === triggerTypeId || o.content_hash === triggerTypeId
+        );
 
       // Extract trigger information
       triggers.push({
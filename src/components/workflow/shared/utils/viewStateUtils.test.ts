@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LAYOUT_CONFIG } from "../constants";
+import { parseViewStateExport } from "./viewStateUtils";
+
+const exportOf = (layoutConfig: unknown) => ({
+  version: 1,
+  workflows: {
+    main: { positions: {}, expandedSubWorkflows: [], layoutConfig },
+  },
+});
+
+describe("parseViewStateExport", () => {
+  it("completes a partial layout config with the defaults", () => {
+    const { workflows } = parseViewStateExport(
+      exportOf({ algorithm: "force", horizontalSpacing: 300 })
+    );
+
+    expect(workflows.main.layoutConfig).toEqual({
+      ...DEFAULT_LAYOUT_CONFIG,
+      algorithm: "force",
+      horizontalSpacing: 300,
+    });
+  });
+
+  it("replaces layout fields of the wrong type", () => {
+    const { workflows } = parseViewStateExport(
+      exportOf({
+        verticalSpacing: "100",
+        margin: null,
+        rankSpacing: Infinity,
+        nodeSize: { width: 200 },
+      })
+    );
+
+    expect(workflows.main.layoutConfig).toEqual({
+      ...DEFAULT_LAYOUT_CONFIG,
+      nodeSize: { ...DEFAULT_LAYOUT_CONFIG.nodeSize, width: 200 },
+    });
+  });
+
+  it("keeps view states without a layout config", () => {
+    const { workflows } = parseViewStateExport(exportOf(undefined));
+
+    expect(workflows.main.layoutConfig).toBeUndefined();
+  });
+
+  it("rejects a layout config that is not an object", () => {
+    expect(() => parseViewStateExport(exportOf("dag"))).toThrow(
+      "Invalid layout for workflow main"
+    );
+  });
+});
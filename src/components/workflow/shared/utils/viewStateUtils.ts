@@ -0,0 +1,197 @@
+/**
+ * Utilities for keeping the view of each workflow between visits
+ */
+import { WorkflowObject } from "../../../../types/workflow";
+import { LayoutConfig, WorkflowViewState } from "../types";
+import { DEFAULT_LAYOUT_CONFIG } from "../constants";
+
+/**
+ * Prefix of the localStorage keys view states are kept under
+ */
+const VIEW_STATE_STORAGE_PREFIX = "workflowViewState:";
+
+/**
+ * Version of the exported view state files
+ */
+const VIEW_STATE_EXPORT_VERSION = 1;
+
+/**
+ * View states exported to a file, by workflow key
+ */
+export interface ViewStateExport {
+  version: number;
+  workflows: Record<string, WorkflowViewState>;
+}
+
+/**
+ * Gets the key a workflow's view state is kept under
+ * The object hash stays the same across exports of the workflow, so the view
+ * survives edits. Workflows without one use their ID.
+ * @param workflow The workflow object
+ * @returns The key
+ */
+export function getViewStateKey(workflow: WorkflowObject): string {
+  return workflow.hash || String(workflow.fields.id);
+}
+
+/**
+ * Creates the view state of a workflow that was never changed
+ * @returns The empty view state
+ */
+export function createEmptyViewState(): WorkflowViewState {
+  return { positions: {}, expandedSubWorkflows: [] };
+}
+
+/**
+ * Checks whether a value is a view state
+ * @param value The value
+ * @returns Whether the value has the fields of a view state
+ */
+function isViewState(value: unknown): value is WorkflowViewState {
+  const state = value as WorkflowViewState;
+  return (
+    typeof state === "object" &&
+    state !== null &&
+    typeof state.positions === "object" &&
+    state.positions !== null &&
+    Object.values(state.positions).every(
+      (position) =>
+        typeof position?.x === "number" && typeof position?.y === "number"
+    ) &&
+    Array.isArray(state.expandedSubWorkflows) &&
+    (state.layoutConfig === undefined ||
+      (typeof state.layoutConfig === "object" && state.layoutConfig !== null))
+  );
+}
+
+/**
+ * Merges saved settings over their defaults, field by field
+ * Fields that are missing, or of another type than their default, get the
+ * default. Numbers must be finite.
+ * @param defaults The default settings
+ * @param value The saved settings
+ * @returns The settings
+ */
+function mergeOverDefaults<T>(defaults: T, value: unknown): T {
+  if (typeof value !== "object" || value === null) return defaults;
+  const saved = value as Record<string, unknown>;
+
+  return Object.fromEntries(
+    Object.entries(defaults as Record<string, unknown>).map(
+      ([key, fallback]) => {
+        const field = saved[key];
+        if (typeof fallback === "object" && fallback !== null) {
+          return [key, mergeOverDefaults(fallback, field)];
+        }
+        if (typeof fallback === "number") {
+          return [key, Number.isFinite(field) ? field : fallback];
+        }
+        return [key, typeof field === typeof fallback ? field : fallback];
+      }
+    )
+  ) as T;
+}
+
+/**
+ * Completes the layout configuration of a saved view state
+ * A partial configuration would leave the layouts without spacings or sizes.
+ * @param state The view state
+ * @returns The view state, its layout configuration merged over the default
+ */
+function withLayoutDefaults(state: WorkflowViewState): WorkflowViewState {
+  if (!state.layoutConfig) return state;
+  return {
+    ...state,
+    layoutConfig: mergeOverDefaults<LayoutConfig>(
+      DEFAULT_LAYOUT_CONFIG,
+      state.layoutConfig
+    ),
+  };
+}
+
+/**
+ * Reads the saved view state of a workflow
+ * @param key The workflow key, see `getViewStateKey`
+ * @returns The saved view state, or null when nothing is saved
+ */
+export function loadViewState(key: string): WorkflowViewState | null {
+  try {
+    const saved = localStorage.getItem(`${VIEW_STATE_STORAGE_PREFIX}${key}`);
+    const state = saved ? JSON.parse(saved) : null;
+    return isViewState(state) ? withLayoutDefaults(state) : null;
+  } catch (error) {
+    console.warn("Failed to load workflow view state:", error);
+    return null;
+  }
+}
+
+/**
+ * Saves the view state of a workflow
+ * @param key The workflow key, see `getViewStateKey`
+ * @param state The view state
+ */
+export function saveViewState(key: string, state: WorkflowViewState): void {
+  try {
+    localStorage.setItem(
+      `${VIEW_STATE_STORAGE_PREFIX}${key}`,
+      JSON.stringify(state)
+    );
+  } catch (error) {
+    console.warn("Failed to save workflow view state:", error);
+  }
+}
+
+/**
+ * Collects the saved view states of workflows for export
+ * @param keys The workflow keys
+ * @returns The export, with the workflows that have a saved view state
+ */
+export function createViewStateExport(keys: string[]): ViewStateExport {
+  return {
+    version: VIEW_STATE_EXPORT_VERSION,
+    workflows: Object.fromEntries(
+      keys.flatMap((key) => {
+        const state = loadViewState(key);
+        return state ? [[key, state]] : [];
+      })
+    ),
+  };
+}
+
+/**
+ * Reads an exported view state file
+ * @param data The parsed file
+ * @returns The export
+ * @throws Error if the file is not a view state export
+ */
+export function parseViewStateExport(data: unknown): ViewStateExport {
+  const file = data as ViewStateExport;
+  if (
+    typeof file !== "object" ||
+    file === null ||
+    typeof file.workflows !== "object" ||
+    file.workflows === null
+  ) {
+    throw new Error("The file is not a layout export");
+  }
+  if (file.version !== VIEW_STATE_EXPORT_VERSION) {
+    throw new Error(`Unsupported layout export version: ${file.version}`);
+  }
+
+  const invalid = Object.entries(file.workflows).find(
+    ([, state]) => !isViewState(state)
+  );
+  if (invalid) {
+    throw new Error(`Invalid layout for workflow ${invalid[0]}`);
+  }
+
+  return {
+    ...file,
+    workflows: Object.fromEntries(
+      Object.entries(file.workflows).map(([key, state]) => [
+        key,
+        withLayoutDefaults(state),
+      ])
+    ),
+  };
+}
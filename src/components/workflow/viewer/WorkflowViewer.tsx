@@ -1,16 +1,39 @@
-import { useEffect, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { ReactFlowProvider } from "reactflow";
 import { WorkflowViewerProps } from "./types";
 import { useWorkflowNavigation } from "../viewer/hooks/useWorkflowNavigation";
 import { useWorkflowProcessor } from "../viewer/hooks/useWorkflowProcessor";
 import { useWorkflowExport } from "../viewer/hooks/useWorkflowExport";
+import { useDiagramExport } from "../viewer/hooks/useDiagramExport";
+import { useHtmlExport } from "../viewer/hooks/useHtmlExport";
+import { useWorkflowLinter } from "../viewer/hooks/useWorkflowLinter";
+import { useDataFlow } from "../viewer/hooks/useDataFlow";
+import { useWorkflowSimulator } from "../viewer/hooks/useWorkflowSimulator";
+import { useNodeHighlighting } from "../viewer/hooks/useNodeHighlighting";
+import { useExecutionReplay } from "../viewer/hooks/useExecutionReplay";
+import { useBundleOverview } from "../viewer/hooks/useBundleOverview";
+import { useBundleDocs } from "../viewer/hooks/useBundleDocs";
+import { useNormalizedBundle } from "../viewer/hooks/useNormalizedBundle";
+import { useWorkflowViewState } from "../viewer/hooks/useWorkflowViewState";
+import { useWorkflowSearch } from "../viewer/hooks/useWorkflowSearch";
+import { useTransitionPaths } from "../viewer/hooks/useTransitionPaths";
 import { WorkflowNavigation } from "../viewer/components/WorkflowNavigation";
 import { WorkflowCanvas } from "../viewer/components/WorkflowCanvas";
 import { WorkflowTriggers } from "../viewer/components/WorkflowTriggers";
+import { ProblemsPanel } from "../viewer/components/ProblemsPanel";
+import { DataFlowPanel } from "../viewer/components/DataFlowPanel";
+import { PathsPanel } from "../viewer/components/PathsPanel";
+import { SimulatorPanel } from "../viewer/components/SimulatorPanel";
+import { ExecutionPanel } from "../viewer/components/ExecutionPanel";
+import { DiffPanel } from "../viewer/components/DiffPanel";
+import { BundleOverview } from "../viewer/components/BundleOverview";
+import { SearchPalette } from "../viewer/components/SearchPalette";
 import {
   extractTriggers,
   groupTriggersByWorkflow,
 } from "../shared/utils/triggerUtils";
+import { getTransitionEdgeId } from "../shared/utils/transitionUtils";
+import { DIFF_EDGE_COLORS } from "../shared/constants";
 
 /**
  * WorkflowViewer - Main component for visualizing workflow templates as interactive node graphs
@@ -33,7 +56,11 @@ import {
  * }
  * ```
  */
-export function WorkflowViewer({ template }: WorkflowViewerProps) {
+export function WorkflowViewer({ template, diff }: WorkflowViewerProps) {
+  // Resolve v1/v2 references once, in the worker, so every hook works from
+  // the same model
+  const { bundle, status: bundleStatus } = useNormalizedBundle(template);
+
   // Navigation state and handlers
   const {
     selectedWorkflowId,
@@ -43,7 +70,46 @@ export function WorkflowViewer({ template }: WorkflowViewerProps) {
     handleSubWorkflowClick,
     handleWorkflowSelect,
     handleBreadcrumbNavigate,
-  } = useWorkflowNavigation(template);
+  } = useWorkflowNavigation(bundle);
+
+  // Call graph of every workflow in the bundle
+  const [isOverview, setIsOverview] = useState(false);
+  const overview = useBundleOverview(bundle, selectedWorkflowId);
+
+  // Markdown documentation of every workflow
+  const docs = useBundleDocs(bundle);
+
+  // Drill from the overview into a workflow's task graph
+  const handleOpenWorkflow = useCallback(
+    (workflowId: string) => {
+      handleWorkflowSelect(workflowId);
+      setIsOverview(false);
+    },
+    [handleWorkflowSelect]
+  );
+
+  // Search across every workflow, picking a result shows its task
+  const search = useWorkflowSearch(
+    bundle,
+    selectedWorkflowId,
+    handleWorkflowSelect
+  );
+  const searchTarget = search.target;
+
+  useEffect(() => {
+    if (searchTarget) setIsOverview(false);
+  }, [searchTarget]);
+
+  // Moved nodes, layout settings and viewport kept per workflow
+  const viewStateHook = useWorkflowViewState(bundle, selectedWorkflowId);
+  const {
+    viewState,
+    saveViewport,
+    resetViewState,
+    exportViewStates,
+    importViewStates,
+    importError,
+  } = viewStateHook;
 
   // Workflow processing state and handlers
   const {
@@ -52,18 +118,177 @@ export function WorkflowViewer({ template }: WorkflowViewerProps) {
     onNodesChange,
     onEdgesChange,
     clearWorkflow,
+    layoutConfig,
     updateLayoutConfig,
+    layoutStatus,
+    layoutWorker,
   } = useWorkflowProcessor(
-    template,
+    bundle,
     selectedWorkflowId,
-    handleSubWorkflowClick
+    handleSubWorkflowClick,
+    viewStateHook
+  );
+
+  // Export functionality, titled with the shown workflow's name
+  const workflowName = workflowHierarchy[workflowHierarchy.length - 1]?.name;
+  const { downloadImage, downloadPdf, isExporting, exportError } =
+    useWorkflowExport(bundle, selectedWorkflowId, workflowName);
+
+  // Mermaid and DOT diagrams, drawn from the graph before any overlay
+  const diagram = useDiagramExport(
+    nodes,
+    edges,
+    workflowName,
+    layoutConfig?.direction
   );
 
-  // Export functionality
-  const { downloadAsSvg } = useWorkflowExport();
+  // The interactive viewer as one HTML file, embedding the bundle as loaded
+  const html = useHtmlExport(template, workflowName);
+
+  // Lint diagnostics for the selected workflow
+  const { rules, ruleConfig, diagnostics, diagnosticsByTask, toggleRule } =
+    useWorkflowLinter(bundle, selectedWorkflowId);
+
+  // CTX variable data-flow for the selected workflow
+  const { analysis, selectedVariable, selectVariable, rolesByTask } =
+    useDataFlow(bundle, selectedWorkflowId);
+
+  // Paths between two tasks, for debugging branch logic
+  const transitionPaths = useTransitionPaths(edges, selectedWorkflowId);
+  const pathTasks = useMemo(
+    () =>
+      nodes
+        .filter((node) => node.type === "task")
+        .map((node) => ({ id: node.id, name: node.data?.name || node.id })),
+    [nodes]
+  );
+
+  // Simulated run of the selected workflow
+  const simulator = useWorkflowSimulator(bundle, selectedWorkflowId);
+  const {
+    result: simulation,
+    stateByTask,
+    takenEdgeIds,
+    currentTaskId,
+    breakpoints,
+    toggleBreakpoint,
+  } = simulator;
+
+  // Replay of a real run loaded from an execution log
+  const execution = useExecutionReplay(bundle, selectedWorkflowId);
+  const { replay, statusByTask, executionByTask } = execution;
+
+  // Statuses of the selected workflow's tasks when showing a bundle diff
+  const diffStatusByTask = selectedWorkflowId
+    ? diff?.taskStatus.get(selectedWorkflowId)
+    : undefined;
+
+  // Attach the diagnostics, data-flow roles, simulation state, breakpoints,
+  // execution results, diff statuses and search match to the task nodes
+  const nodesWithDiagnostics = useMemo(
+    () =>
+      nodes.map((node) => ({
+        ...node,
+        data: {
+          ...node.data,
+          diagnostics: diagnosticsByTask.get(node.id),
+          dataFlowRole: rolesByTask.get(node.id),
+          simulationState: stateByTask.get(node.id),
+          hasBreakpoint: breakpoints.has(node.id),
+          onToggleBreakpoint: toggleBreakpoint,
+          executionStatus: replay ? statusByTask.get(node.id) : undefined,
+          execution: executionByTask.get(node.id),
+          diffStatus: diffStatusByTask?.get(node.id),
+          searchMatch:
+            searchTarget?.taskId === node.id &&
+            searchTarget.workflowId === selectedWorkflowId
+              ? searchTarget
+              : undefined,
+        },
+      })),
+    [
+      nodes,
+      diagnosticsByTask,
+      rolesByTask,
+      stateByTask,
+      breakpoints,
+      toggleBreakpoint,
+      replay,
+      statusByTask,
+      executionByTask,
+      diffStatusByTask,
+      searchTarget,
+      selectedWorkflowId,
+    ]
+  );
+
+  // Highlight the task the debugger is on
+  const { setHighlightedNodeId, nodesWithHighlighting } = useNodeHighlighting({
+    nodes: nodesWithDiagnostics,
+  });
+
+  useEffect(() => {
+    setHighlightedNodeId(currentTaskId);
+  }, [currentTaskId, setHighlightedNodeId]);
+
+  // Animate the transitions followed by the simulation, or by the replayed
+  // execution when nothing is simulated, and dim the rest
+  const followedEdgeIds = simulation
+    ? takenEdgeIds
+    : replay
+    ? execution.takenEdgeIds
+    : null;
+  const edgesWithSimulation = useMemo(
+    () =>
+      followedEdgeIds
+        ? edges.map((edge) =>
+            followedEdgeIds.has(edge.id)
+              ? {
+                  ...edge,
+                  animated: true,
+                  style: {
+                    ...edge.style,
+                    stroke: "hsl(var(--workflow-green))",
+                    strokeWidth: 3,
+                  },
+                }
+              : { ...edge, style: { ...edge.style, opacity: 0.3 } }
+          )
+        : edges,
+    [edges, followedEdgeIds]
+  );
+
+  // Colour the transitions that changed when showing a bundle diff
+  const edgesWithDiff = useMemo(() => {
+    const diffEdges = selectedWorkflowId
+      ? diff?.edges.get(selectedWorkflowId)
+      : undefined;
+    if (!diffEdges) return edgesWithSimulation;
+
+    const statusByEdge = new Map(
+      diffEdges.map((edge) => [
+        getTransitionEdgeId(edge.source, edge.transitionIndex, edge.target),
+        edge.status,
+      ])
+    );
+
+    return edgesWithSimulation.map((edge) => {
+      const status = statusByEdge.get(edge.id);
+      if (!status || status === "unchanged") return edge;
+
+      return {
+        ...edge,
+        style: {
+          ...edge.style,
+          stroke: DIFF_EDGE_COLORS[status],
+          strokeDasharray: status === "removed" ? "5, 5" : undefined,
+        },
+      };
+    });
+  }, [edgesWithSimulation, diff, selectedWorkflowId]);
 
   // Extract and process triggers
-  const triggers = useMemo(() => extractTriggers(template), [template]);
+  const triggers = useMemo(() => extractTriggers(bundle), [bundle]);
   const triggersByWorkflow = useMemo(
     () => groupTriggersByWorkflow(triggers),
     [triggers]
@@ -84,33 +309,100 @@ export function WorkflowViewer({ template }: WorkflowViewerProps) {
     <div className="flex flex-col h-full min-h-[600px] w-full">
       {/* Workflow Navigation Bar */}
       <WorkflowNavigation
-        template={template}
+        template={bundle}
         selectedWorkflowId={selectedWorkflowId}
         workflowHierarchy={workflowHierarchy}
         workflowRelationships={workflowRelationships}
         onWorkflowSelect={handleWorkflowSelect}
         onBreadcrumbNavigate={handleBreadcrumbNavigate}
+        isOverview={isOverview}
+        onToggleOverview={() => setIsOverview(!isOverview)}
+        onOpenSearch={search.open}
+        docs={docs}
       />
 
+      {/* Search palette, opened with Ctrl+K */}
+      <SearchPalette {...search} />
+
       {/* Workflow Triggers */}
-      {selectedWorkflowTriggers.length > 0 && (
+      {!isOverview && selectedWorkflowTriggers.length > 0 && (
         <div className="px-4 py-2 border-b">
           <WorkflowTriggers triggers={selectedWorkflowTriggers} />
         </div>
       )}
 
+      {/* Bundle overview in place of the task graph */}
+      {isOverview && (
+        <ReactFlowProvider>
+          <BundleOverview {...overview} onOpenWorkflow={handleOpenWorkflow} />
+        </ReactFlowProvider>
+      )}
+
       {/* Main canvas with controls */}
-      <ReactFlowProvider>
-        <WorkflowCanvas
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onExportSvg={downloadAsSvg}
-          onClearWorkflow={clearWorkflow}
-          updateLayoutConfig={updateLayoutConfig}
-        />
-      </ReactFlowProvider>
+      {!isOverview && (
+        <ReactFlowProvider>
+          <WorkflowCanvas
+            nodes={nodesWithHighlighting}
+            edges={edgesWithDiff}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onExportImage={downloadImage}
+            onExportPdf={downloadPdf}
+            diagram={diagram}
+            html={html}
+            isExporting={isExporting}
+            exportError={exportError}
+            onClearWorkflow={clearWorkflow}
+            updateLayoutConfig={updateLayoutConfig}
+            layoutConfig={layoutConfig}
+            processingStatus={bundleStatus || layoutStatus}
+            layoutWorker={layoutWorker}
+            positionOverrides={viewState.positions}
+            viewport={viewState.viewport}
+            onViewportChange={saveViewport}
+            onResetLayout={resetViewState}
+            onExportLayout={exportViewStates}
+            onImportLayout={importViewStates}
+            layoutImportError={importError}
+            searchTarget={searchTarget}
+            pathEdgeIds={transitionPaths.pathEdgeIds}
+            selectedPathEdgeIds={transitionPaths.selectedPathEdgeIds}
+          />
+
+          {/* Changes of a bundle diff */}
+          {diff && (
+            <DiffPanel
+              workflowDiff={diff.diff.workflows.find(
+                (workflow) => workflow.workflowId === selectedWorkflowId
+              )}
+            />
+          )}
+
+          {/* Lint problems */}
+          <ProblemsPanel
+            diagnostics={diagnostics}
+            rules={rules}
+            ruleConfig={ruleConfig}
+            onToggleRule={toggleRule}
+          />
+
+          {/* CTX variables */}
+          <DataFlowPanel
+            analysis={analysis}
+            selectedVariable={selectedVariable}
+            onSelectVariable={selectVariable}
+          />
+
+          {/* Paths between two tasks */}
+          <PathsPanel {...transitionPaths} tasks={pathTasks} />
+
+          {/* Simulated run */}
+          <SimulatorPanel {...simulator} />
+
+          {/* Replayed execution log */}
+          <ExecutionPanel {...execution} />
+        </ReactFlowProvider>
+      )}
     </div>
   );
 }
@@ -0,0 +1,71 @@
+/**
+ * BundleOverview Component
+ *
+ * Renders every workflow of the bundle as a node, with the sub-workflow calls
+ * between them as edges.
+ */
+import ReactFlow, { Background, Controls, Node, Panel } from "reactflow";
+import "reactflow/dist/style.css";
+import { nodeTypes } from "../constants/nodeTypes";
+import { BundleOverviewHookResult } from "../types";
+import { WorkflowSummaryNodeData } from "../../node/types";
+
+interface BundleOverviewProps extends BundleOverviewHookResult {
+  /** Opens the task graph of a workflow */
+  onOpenWorkflow: (workflowId: string) => void;
+}
+
+/**
+ * BundleOverview component for rendering the workflow call graph
+ * Double-clicking a workflow of the bundle drills into its task graph.
+ * @param props Component props
+ * @returns The rendered overview canvas
+ */
+export function BundleOverview({
+  callGraph,
+  nodes,
+  edges,
+  onOpenWorkflow,
+}: BundleOverviewProps) {
+  const handleNodeDoubleClick = (
+    _event: React.MouseEvent,
+    node: Node<WorkflowSummaryNodeData>
+  ) => {
+    if (!node.data.workflow.isExternal) onOpenWorkflow(node.id);
+  };
+
+  const triggerCount = callGraph.workflows.reduce(
+    (count, workflow) => count + workflow.triggers.length,
+    0
+  );
+
+  return (
+    <div className="relative flex-1 h-full min-h-[500px]">
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        nodeTypes={nodeTypes}
+        onNodeDoubleClick={handleNodeDoubleClick}
+        zoomOnDoubleClick={false}
+        nodesConnectable={false}
+        fitView
+        fitViewOptions={{ padding: 0.2 }}
+        minZoom={0.1}
+        maxZoom={2}
+        attributionPosition="bottom-right"
+      >
+        <Background />
+        <Controls />
+
+        <Panel
+          position="top-left"
+          className="px-3 py-2 rounded-md border border-[hsl(var(--border))] bg-[hsl(var(--card))] text-xs text-[hsl(var(--muted-foreground))]"
+        >
+          {callGraph.workflows.filter((w) => !w.isExternal).length} workflows,{" "}
+          {callGraph.calls.length} sub-workflow calls, {triggerCount} triggers
+          <div>Double-click a workflow to open its tasks</div>
+        </Panel>
+      </ReactFlow>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * Component listing the CTX variables of the selected workflow
+ */
+import { useMemo, useState } from "react";
+import { useReactFlow } from "reactflow";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  ContextVariable,
+  DataFlowAnalysis,
+} from "../../../../lib/workflow-dataflow";
+import { cn } from "../../../../lib/utils";
+
+interface DataFlowPanelProps {
+  analysis: DataFlowAnalysis;
+  selectedVariable: string | null;
+  onSelectVariable: (key: string | null) => void;
+}
+
+/**
+ * Checks if a variable has a data-flow problem
+ * @param variable The variable
+ * @returns true if it is read without an upstream publish or never read
+ */
+const hasProblem = (variable: ContextVariable): boolean =>
+  variable.unused || variable.undefinedUses.length > 0;
+
+/**
+ * Data-flow panel for CTX variables
+ * Selecting a variable highlights its producers and consumers on the canvas.
+ */
+export function DataFlowPanel({
+  analysis,
+  selectedVariable,
+  onSelectVariable,
+}: DataFlowPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const { getNode, setCenter } = useReactFlow();
+
+  const variables = useMemo(
+    () =>
+      problemsOnly ? analysis.variables.filter(hasProblem) : analysis.variables,
+    [analysis, problemsOnly]
+  );
+
+  const selected = analysis.variables.find(
+    (variable) => variable.key === selectedVariable
+  );
+  const problemCount = analysis.variables.filter(hasProblem).length;
+
+  // Centre the canvas on a producing or consuming task
+  const focusTask = (taskId?: string) => {
+    if (!taskId) return;
+    const node = getNode(taskId);
+    if (!node) return;
+
+    setCenter(
+      node.position.x + (node.width || 0) / 2,
+      node.position.y + (node.height || 0) / 2,
+      { zoom: 1, duration: 500 }
+    );
+  };
+
+  return (
+    <div className="border-t border-[hsl(var(--border))] bg-[hsl(var(--card))]">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-medium"
+        >
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4" />
+          ) : (
+            <ChevronUp className="w-4 h-4" />
+          )}
+          Variables ({analysis.variables.length})
+          {problemCount > 0 && (
+            <span className="px-1.5 rounded-full border text-xs bg-yellow-500/15 text-yellow-500 border-yellow-500/50">
+              {problemCount} with problems
+            </span>
+          )}
+        </button>
+        {isOpen && (
+          <div className="flex items-center gap-3 text-xs">
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-[hsl(var(--workflow-green))]" />
+              Publishes
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-[hsl(var(--workflow-blue))]" />
+              Reads
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-[hsl(var(--workflow-purple))]" />
+              Both
+            </span>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={problemsOnly}
+                onChange={() => setProblemsOnly(!problemsOnly)}
+              />
+              Problems only
+            </label>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="flex max-h-48 px-4 pb-2 gap-4">
+          {/* Variable list */}
+          <ul className="w-1/3 overflow-y-auto text-xs font-mono">
+            {variables.length === 0 && (
+              <li className="py-1 font-sans text-[hsl(var(--muted-foreground))]">
+                No variables
+              </li>
+            )}
+            {variables.map((variable) => (
+              <li key={variable.key}>
+                <button
+                  onClick={() =>
+                    onSelectVariable(
+                      variable.key === selectedVariable ? null : variable.key
+                    )
+                  }
+                  className={cn(
+                    "w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left transition-colors",
+                    variable.key === selectedVariable
+                      ? "bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))]"
+                      : "hover:bg-[hsl(var(--muted))]"
+                  )}
+                >
+                  <span className="truncate">CTX.{variable.key}</span>
+                  <span className="flex-shrink-0 font-sans">
+                    {variable.definitions.length}↑ {variable.uses.length}↓
+                    {hasProblem(variable) && (
+                      <span className="ml-1 text-yellow-500">⚠</span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Producers and consumers of the selected variable */}
+          <div className="flex-1 overflow-y-auto text-xs">
+            {!selected ? (
+              <p className="py-1 text-[hsl(var(--muted-foreground))]">
+                Select a variable to highlight where it is published and read
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {selected.unused && (
+                  <p className="text-yellow-500">
+                    CTX.{selected.key} is published but never read
+                  </p>
+                )}
+                {selected.undefinedUses.length > 0 && (
+                  <p className="text-yellow-500">
+                    CTX.{selected.key} is read {selected.undefinedUses.length}{" "}
+                    time
+                    {selected.undefinedUses.length === 1 ? "" : "s"} with no
+                    publish upstream
+                  </p>
+                )}
+                <div>
+                  <div className="font-medium mb-1">Published by</div>
+                  {selected.definitions.length === 0 && (
+                    <div className="text-[hsl(var(--muted-foreground))]">
+                      Nothing in this workflow
+                    </div>
+                  )}
+                  {selected.definitions.map((definition, index) => (
+                    <button
+                      key={index}
+                      onClick={() => focusTask(definition.taskId)}
+                      className="block w-full text-left px-2 py-0.5 rounded hover:bg-[hsl(var(--muted))]"
+                    >
+                      <span className="font-mono">
+                        {definition.taskName ||
+                          definition.taskId ||
+                          "Workflow parameter"}
+                      </span>
+                      {definition.transitionIndex !== undefined && (
+                        <span className="text-[hsl(var(--muted-foreground))]">
+                          {" "}
+                          · transition {definition.transitionIndex + 1}
+                        </span>
+                      )}
+                      {definition.expression && (
+                        <span className="ml-2 font-mono text-[hsl(var(--muted-foreground))]">
+                          {definition.expression}
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+                <div>
+                  <div className="font-medium mb-1">Read by</div>
+                  {selected.uses.length === 0 && (
+                    <div className="text-[hsl(var(--muted-foreground))]">
+                      Nothing in this workflow
+                    </div>
+                  )}
+                  {selected.uses.map((use, index) => (
+                    <button
+                      key={index}
+                      onClick={() => focusTask(use.taskId)}
+                      className={cn(
+                        "block w-full text-left px-2 py-0.5 rounded hover:bg-[hsl(var(--muted))]",
+                        selected.undefinedUses.includes(use) &&
+                          "text-yellow-500"
+                      )}
+                    >
+                      <span className="font-mono">
+                        {use.taskName || use.taskId || "Workflow output"}
+                      </span>
+                      <span className="text-[hsl(var(--muted-foreground))]">
+                        {" "}
+                        · {use.location}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * Component listing the changes to the selected workflow in a bundle diff
+ */
+import { useState } from "react";
+import { useReactFlow } from "reactflow";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  DiffChange,
+  DiffStatus,
+  TaskDiff,
+  WorkflowDiff,
+} from "../../../../lib/workflow-diff";
+import { DIFF_STATUS_CLASSES } from "../../shared/constants";
+import { cn } from "../../../../lib/utils";
+
+interface DiffPanelProps {
+  /** Diff of the selected workflow, undefined if it has none */
+  workflowDiff?: WorkflowDiff;
+}
+
+/**
+ * Longest value shown in full in a change line
+ */
+const MAX_VALUE_LENGTH = 120;
+
+/**
+ * Formats a changed value for display
+ * @param value The value
+ * @returns The value as JSON, shortened when long
+ */
+const formatValue = (value: unknown): string => {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH)}…`
+    : text;
+};
+
+/**
+ * Status badge of a changed item
+ */
+const StatusBadge = ({ status }: { status: DiffStatus }) => (
+  <span
+    className={cn(
+      "px-1.5 rounded-full border text-xs",
+      DIFF_STATUS_CLASSES[status]
+    )}
+  >
+    {status}
+  </span>
+);
+
+/**
+ * Line for a single changed value
+ */
+const ChangeLine = ({ change }: { change: DiffChange }) => (
+  <li className="font-mono break-words">
+    <span className="text-[hsl(var(--muted-foreground))]">{change.path}: </span>
+    {"before" in change && (
+      <span className="text-red-500 line-through">
+        {formatValue(change.before)}
+      </span>
+    )}
+    {"before" in change && "after" in change && " → "}
+    {"after" in change && (
+      <span className="text-green-500">{formatValue(change.after)}</span>
+    )}
+  </li>
+);
+
+/**
+ * Describes the changes to a task's transitions
+ * @param task The task diff
+ * @param taskNames Task names by ID, for naming the targets
+ * @returns One line per changed transition
+ */
+const describeTransitions = (
+  task: TaskDiff,
+  taskNames: Map<string, string>
+): string[] =>
+  task.transitions
+    .filter((transition) => transition.status !== "unchanged")
+    .map((transition) => {
+      const name =
+        transition.label || `Transition ${transition.transitionIndex + 1}`;
+      if (transition.status !== "modified") {
+        return `${name} ${transition.status}`;
+      }
+
+      const parts = [
+        ...transition.targetsAdded.map(
+          (target) => `+ ${taskNames.get(target) || target}`
+        ),
+        ...transition.targetsRemoved.map(
+          (target) => `- ${taskNames.get(target) || target}`
+        ),
+      ];
+      return parts.length > 0 ? `${name}: ${parts.join(", ")}` : name;
+    });
+
+/**
+ * Diff panel
+ * Lists the changed tasks, transitions, inputs and triggers of the selected
+ * workflow. Clicking a task centres the canvas on it.
+ */
+export function DiffPanel({ workflowDiff }: DiffPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const { getNode, setCenter } = useReactFlow();
+
+  const changedTasks = (workflowDiff?.tasks || []).filter(
+    (task) => task.status !== "unchanged"
+  );
+  const taskNames = new Map(
+    (workflowDiff?.tasks || []).map((task) => [
+      task.taskId,
+      task.name || task.taskId,
+    ])
+  );
+  const changedTriggers = (workflowDiff?.triggers || []).filter(
+    (trigger) => trigger.status !== "unchanged"
+  );
+  const counts = changedTasks.reduce(
+    (acc, task) => ({ ...acc, [task.status]: (acc[task.status] || 0) + 1 }),
+    {} as Partial<Record<DiffStatus, number>>
+  );
+
+  // Centre the canvas on a changed task
+  const handleSelect = (taskId: string) => {
+    const node = getNode(taskId);
+    if (!node) return;
+
+    setCenter(
+      node.position.x + (node.width || 0) / 2,
+      node.position.y + (node.height || 0) / 2,
+      { zoom: 1, duration: 500 }
+    );
+  };
+
+  return (
+    <div className="border-t border-[hsl(var(--border))] bg-[hsl(var(--card))]">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-medium"
+        >
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4" />
+          ) : (
+            <ChevronUp className="w-4 h-4" />
+          )}
+          Changes
+          {workflowDiff && workflowDiff.status !== "modified" && (
+            <StatusBadge status={workflowDiff.status} />
+          )}
+          {(["added", "removed", "modified"] as const).map(
+            (status) =>
+              counts[status] && (
+                <span
+                  key={status}
+                  className={cn(
+                    "px-1.5 rounded-full border text-xs",
+                    DIFF_STATUS_CLASSES[status]
+                  )}
+                >
+                  {counts[status]} {status}
+                </span>
+              )
+          )}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="max-h-48 overflow-y-auto px-4 pb-2 text-xs space-y-2">
+          {!workflowDiff || workflowDiff.status === "unchanged" ? (
+            <p className="text-[hsl(var(--muted-foreground))] py-2">
+              No changes to this workflow
+            </p>
+          ) : (
+            <>
+              {workflowDiff.changes.length > 0 && (
+                <div>
+                  <div className="font-medium mb-1">Workflow</div>
+                  <ul className="space-y-0.5">
+                    {workflowDiff.changes.map((change, index) => (
+                      <ChangeLine key={index} change={change} />
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {changedTasks.map((task) => (
+                <div key={task.taskId}>
+                  <button
+                    onClick={() => handleSelect(task.taskId)}
+                    className="flex items-center gap-2 mb-1 hover:underline"
+                  >
+                    <StatusBadge status={task.status} />
+                    <span className="font-mono font-medium">
+                      {task.name || task.taskId}
+                    </span>
+                    {task.matchedBy === "name" && (
+                      <span className="text-[hsl(var(--muted-foreground))]">
+                        (matched by name)
+                      </span>
+                    )}
+                  </button>
+                  <ul className="pl-4 space-y-0.5">
+                    {task.changes.map((change, index) => (
+                      <ChangeLine key={index} change={change} />
+                    ))}
+                    {task.transitions
+                      .flatMap((transition) => transition.changes)
+                      .map((change, index) => (
+                        <ChangeLine
+                          key={`transition-${index}`}
+                          change={change}
+                        />
+                      ))}
+                    {describeTransitions(task, taskNames).map((line, index) => (
+                      <li
+                        key={`targets-${index}`}
+                        className="text-[hsl(var(--muted-foreground))]"
+                      >
+                        {line}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+
+              {changedTriggers.map((trigger) => (
+                <div key={trigger.triggerId}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <StatusBadge status={trigger.status} />
+                    <span className="font-medium">Trigger {trigger.name}</span>
+                  </div>
+                  <ul className="pl-4 space-y-0.5">
+                    {trigger.changes.map((change, index) => (
+                      <ChangeLine key={index} change={change} />
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Component for generating the Markdown documentation of the bundle
+ */
+import { useState } from "react";
+import { BookOpen, FileArchive, FileText } from "lucide-react";
+import { BundleDocsHookResult } from "../types";
+
+/**
+ * Docs menu
+ * The button opens the choice of one Markdown file for the whole bundle or a
+ * zip with one file per workflow.
+ */
+export function DocsMenu({
+  workflowCount,
+  downloadMarkdown,
+  downloadZip,
+}: BundleDocsHookResult) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const choices = [
+    {
+      label: "Single Markdown file",
+      icon: FileText,
+      onClick: downloadMarkdown,
+    },
+    {
+      label: "Zip, one file per workflow",
+      icon: FileArchive,
+      onClick: downloadZip,
+    },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={workflowCount === 0}
+        className="px-3 py-2 text-sm rounded-md flex items-center gap-1 bg-[hsl(var(--muted))] hover:bg-[hsl(var(--muted-foreground)/0.2)] disabled:opacity-50"
+        title="Document every workflow of the bundle in Markdown"
+        aria-expanded={isOpen}
+      >
+        <BookOpen className="w-4 h-4" />
+        Generate docs
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 z-10 mt-1 w-56 p-2 space-y-1 bg-[hsl(var(--card))] border border-[hsl(var(--border))] rounded-md shadow-lg text-xs">
+          <p className="px-2 py-1 text-[hsl(var(--muted-foreground))]">
+            {workflowCount} {workflowCount === 1 ? "workflow" : "workflows"}
+          </p>
+          {choices.map(({ label, icon: Icon, onClick }) => (
+            <button
+              key={label}
+              onClick={() => {
+                onClick();
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-2 py-1 rounded hover:bg-[hsl(var(--muted))]"
+            >
+              <Icon className="w-3 h-3" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+/**
+ * Component for loading an execution log and replaying it on the graph
+ */
+import { useState } from "react";
+import { useReactFlow } from "reactflow";
+import {
+  ChevronDown,
+  ChevronUp,
+  Pause,
+  Play,
+  StepBack,
+  StepForward,
+  Upload,
+  X,
+} from "lucide-react";
+import { ExecutionReplayHookResult } from "../types";
+import { formatDuration } from "../../../../lib/workflow-execution";
+import { cn } from "../../../../lib/utils";
+
+type ExecutionPanelProps = ExecutionReplayHookResult;
+
+/**
+ * Text colours for the task statuses of a run
+ */
+const STATUS_CLASSES = {
+  succeeded: "text-[hsl(var(--workflow-green))]",
+  failed: "text-[hsl(var(--workflow-red))]",
+  skipped: "text-[hsl(var(--muted-foreground))]",
+  running: "text-[hsl(var(--workflow-orange))]",
+};
+
+/**
+ * Execution panel
+ * Loads a JSON execution log exported from Rewst, colours the tasks by how
+ * they ended and replays the run in order with a scrubber.
+ */
+export function ExecutionPanel({
+  fileName,
+  log,
+  replay,
+  loadError,
+  loadFile,
+  clear,
+  position,
+  setPosition,
+  isPlaying,
+  play,
+  pause,
+}: ExecutionPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { getNode, setCenter } = useReactFlow();
+
+  const events = replay?.events || [];
+  const current = position > 0 ? events[position - 1] : undefined;
+  const failed = events.filter((event) => event.status === "failed").length;
+  const totalDuration = events.reduce(
+    (total, event) => total + (event.durationMs || 0),
+    0
+  );
+
+  // Centre the canvas on the task of a run
+  const focusEvent = (index: number) => {
+    setPosition(index + 1);
+    const node = getNode(events[index].nodeId);
+    if (!node) return;
+
+    setCenter(
+      node.position.x + (node.width || 0) / 2,
+      node.position.y + (node.height || 0) / 2,
+      { zoom: 1, duration: 500 }
+    );
+  };
+
+  return (
+    <div className="border-t border-[hsl(var(--border))] bg-[hsl(var(--card))]">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-medium"
+        >
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4" />
+          ) : (
+            <ChevronUp className="w-4 h-4" />
+          )}
+          Execution
+          {fileName && (
+            <span className="text-xs font-normal text-[hsl(var(--muted-foreground))]">
+              {fileName}
+              {log?.status && ` (${log.status})`}
+            </span>
+          )}
+          {failed > 0 && (
+            <span className="px-1.5 rounded-full border text-xs bg-red-500/15 text-red-500 border-red-500/50">
+              {failed} failed
+            </span>
+          )}
+        </button>
+        {isOpen && (
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1 px-2 py-1 text-xs rounded cursor-pointer bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))]">
+              <Upload className="w-3 h-3" />
+              Load log
+              <input
+                type="file"
+                accept=".json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadFile(file);
+                  // Allow loading the same file again
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              onClick={clear}
+              disabled={!log}
+              className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-[hsl(var(--border))] hover:bg-[hsl(var(--muted))] disabled:opacity-50"
+            >
+              <X className="w-3 h-3" />
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-2 text-xs space-y-2">
+          {loadError && <p className="text-red-500">{loadError}</p>}
+          {!replay && !loadError && (
+            <p className="py-1 text-[hsl(var(--muted-foreground))]">
+              Load a workflow execution exported from Rewst to see the run on
+              the graph
+            </p>
+          )}
+
+          {replay && (
+            <>
+              {/* Scrubber */}
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPosition(Math.max(position - 1, 0))}
+                  disabled={position === 0}
+                  title="Previous task run"
+                  className="p-1 rounded hover:bg-[hsl(var(--muted))] disabled:opacity-50"
+                >
+                  <StepBack className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={isPlaying ? pause : play}
+                  disabled={events.length === 0}
+                  title={isPlaying ? "Pause" : "Replay the run"}
+                  className="p-1 rounded hover:bg-[hsl(var(--muted))] disabled:opacity-50"
+                >
+                  {isPlaying ? (
+                    <Pause className="w-3 h-3" />
+                  ) : (
+                    <Play className="w-3 h-3" />
+                  )}
+                </button>
+                <button
+                  onClick={() =>
+                    setPosition(Math.min(position + 1, events.length))
+                  }
+                  disabled={position >= events.length}
+                  title="Next task run"
+                  className="p-1 rounded hover:bg-[hsl(var(--muted))] disabled:opacity-50"
+                >
+                  <StepForward className="w-3 h-3" />
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={events.length}
+                  value={position}
+                  onChange={(e) => setPosition(Number(e.target.value))}
+                  className="flex-1"
+                  aria-label="Replay position"
+                />
+                <span className="w-20 text-right text-[hsl(var(--muted-foreground))]">
+                  {position}/{events.length} runs
+                </span>
+              </div>
+
+              <div className="flex gap-4">
+                {/* Task runs in order */}
+                <ol className="w-1/2 max-h-48 overflow-y-auto">
+                  {events.map((event, index) => (
+                    <li key={index}>
+                      <button
+                        onClick={() => focusEvent(index)}
+                        className={cn(
+                          "w-full flex items-center justify-between gap-2 px-2 py-0.5 rounded text-left",
+                          index >= position && "opacity-50",
+                          index === position - 1
+                            ? "bg-[hsl(var(--muted))]"
+                            : "hover:bg-[hsl(var(--muted))]"
+                        )}
+                      >
+                        <span className="font-mono truncate">
+                          {index + 1}. {event.taskName || event.nodeId}
+                        </span>
+                        <span className="flex-shrink-0 flex gap-2">
+                          {event.durationMs !== undefined && (
+                            <span className="text-[hsl(var(--muted-foreground))]">
+                              {formatDuration(event.durationMs)}
+                            </span>
+                          )}
+                          <span className={STATUS_CLASSES[event.status]}>
+                            {event.status}
+                          </span>
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+
+                {/* Summary and the run at the scrubber */}
+                <div className="flex-1 max-h-48 overflow-y-auto space-y-2">
+                  <p className="text-[hsl(var(--muted-foreground))]">
+                    {events.length} task runs
+                    {totalDuration > 0 &&
+                      `, ${formatDuration(totalDuration)} in total`}
+                  </p>
+                  {replay.warnings.map((warning, index) => (
+                    <p key={index} className="text-yellow-500">
+                      {warning}
+                    </p>
+                  ))}
+                  {current && (
+                    <div>
+                      <div className="font-medium">
+                        {current.taskName || current.nodeId}{" "}
+                        <span className={STATUS_CLASSES[current.status]}>
+                          ({current.rawStatus})
+                        </span>
+                      </div>
+                      {current.output !== undefined && (
+                        <pre className="mt-1 p-2 rounded bg-[hsl(var(--muted))] font-mono whitespace-pre-wrap break-words">
+                          {JSON.stringify(current.output, null, 2)}
+                        </pre>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+/**
+ * Component for picking how the workflow is exported
+ */
+import { useState } from "react";
+import { Check, Copy, Download, FileCode, FileText } from "lucide-react";
+import {
+  DiagramFormat,
+  ImageExportFormat,
+  ImageExportOptions,
+} from "../../shared/types";
+import {
+  DEFAULT_IMAGE_EXPORT_OPTIONS,
+  DIAGRAM_FORMATS,
+  IMAGE_EXPORT_PIXEL_RATIOS,
+} from "../../shared/constants";
+import { DiagramExportHookResult, HtmlExportHookResult } from "../types";
+import { cn } from "../../../../lib/utils";
+
+interface ExportMenuProps {
+  onExport: (options: ImageExportOptions) => void;
+  /** Downloads the graph and a per-task appendix as a PDF */
+  onExportPdf?: () => void;
+  /** Copies and downloads the workflow as a Mermaid or DOT diagram */
+  diagram?: DiagramExportHookResult;
+  /** Downloads the interactive viewer as a single HTML file */
+  html?: HtmlExportHookResult;
+  isExporting?: boolean;
+}
+
+/**
+ * Export menu
+ * The Save button opens the image options. The theme starts as the one the
+ * page is shown in. The PDF documentation is always drawn in the light theme.
+ * Diagrams are copied as text, for pasting into Markdown. The HTML file can
+ * be redacted before it is shared.
+ */
+export function ExportMenu({
+  onExport,
+  onExportPdf,
+  diagram,
+  html,
+  isExporting,
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRedacted, setIsRedacted] = useState(false);
+  const [options, setOptions] = useState<ImageExportOptions>(
+    DEFAULT_IMAGE_EXPORT_OPTIONS
+  );
+
+  const update = (changes: Partial<ImageExportOptions>) =>
+    setOptions((prev) => ({ ...prev, ...changes }));
+
+  const toggle = () => {
+    if (!isOpen) {
+      update({
+        theme: document.documentElement.classList.contains("dark")
+          ? "dark"
+          : "light",
+      });
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const formats: Array<{ format: ImageExportFormat; label: string }> = [
+    { format: "png", label: "PNG" },
+    { format: "svg", label: "SVG" },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="flex items-center gap-1 px-2 py-1 bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))] rounded-md hover:bg-[hsl(var(--primary))/90] text-xs font-medium transition-colors"
+        title="Save the whole workflow as an image"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-3 h-3" />
+        <span className="hidden sm:inline">Save</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-56 p-3 space-y-2 bg-[hsl(var(--card))] border border-[hsl(var(--border))] rounded-md shadow-lg text-xs">
+          <div className="flex gap-1">
+            {formats.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => update({ format })}
+                className={cn(
+                  "flex-1 px-2 py-1 rounded border",
+                  options.format === format
+                    ? "bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))] border-[hsl(var(--primary))]"
+                    : "border-[hsl(var(--border))] hover:bg-[hsl(var(--muted))]"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {options.format === "png" && (
+            <label className="flex items-center justify-between gap-2">
+              Scale
+              <select
+                value={options.pixelRatio}
+                onChange={(e) => update({ pixelRatio: Number(e.target.value) })}
+                className="px-1 py-0.5 rounded border border-[hsl(var(--border))] bg-[hsl(var(--background))]"
+              >
+                {IMAGE_EXPORT_PIXEL_RATIOS.map((ratio) => (
+                  <option key={ratio} value={ratio}>
+                    {ratio}x
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="flex items-center justify-between gap-2">
+            Theme
+            <select
+              value={options.theme}
+              onChange={(e) =>
+                update({ theme: e.target.value as ImageExportOptions["theme"] })
+              }
+              className="px-1 py-0.5 rounded border border-[hsl(var(--border))] bg-[hsl(var(--background))]"
+            >
+              <option value="light">Light</option>
+              <option value="dark">Dark</option>
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.transparent}
+              onChange={(e) => update({ transparent: e.target.checked })}
+            />
+            Transparent background
+          </label>
+
+          <button
+            onClick={() => {
+              onExport(options);
+              setIsOpen(false);
+            }}
+            disabled={isExporting}
+            className="w-full px-2 py-1 rounded bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))] font-medium disabled:opacity-50"
+          >
+            {isExporting ? "Exporting…" : "Download"}
+          </button>
+
+          {onExportPdf && (
+            <button
+              onClick={() => {
+                onExportPdf();
+                setIsOpen(false);
+              }}
+              disabled={isExporting}
+              className="w-full flex items-center justify-center gap-1 px-2 py-1 rounded border border-[hsl(var(--border))] hover:bg-[hsl(var(--muted))] disabled:opacity-50"
+              title="The graph, then each task's action, inputs and transitions"
+            >
+              <FileText className="w-3 h-3" />
+              PDF documentation
+            </button>
+          )}
+
+          {diagram && (
+            <div className="pt-2 space-y-1 border-t border-[hsl(var(--border))]">
+              {(Object.keys(DIAGRAM_FORMATS) as DiagramFormat[]).map(
+                (format) => (
+                  <div
+                    key={format}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    {DIAGRAM_FORMATS[format].label}
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => diagram.copyDiagram(format)}
+                        className="p-1 rounded hover:bg-[hsl(var(--muted))]"
+                        title={`Copy as ${DIAGRAM_FORMATS[format].label}`}
+                        aria-label={`Copy as ${DIAGRAM_FORMATS[format].label}`}
+                      >
+                        {diagram.copiedFormat === format ? (
+                          <Check className="w-3 h-3 text-green-500" />
+                        ) : (
+                          <Copy className="w-3 h-3" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => diagram.downloadDiagram(format)}
+                        className="p-1 rounded hover:bg-[hsl(var(--muted))]"
+                        title={`Download as ${DIAGRAM_FORMATS[format].label}`}
+                        aria-label={`Download as ${DIAGRAM_FORMATS[format].label}`}
+                      >
+                        <Download className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                )
+              )}
+              {diagram.copyError && (
+                <p className="text-red-500">{diagram.copyError}</p>
+              )}
+            </div>
+          )}
+
+          {html && (
+            <div className="pt-2 space-y-2 border-t border-[hsl(var(--border))]">
+              <label
+                className="flex items-center gap-2"
+                title="Task names, actions, conditions and publish keys are kept"
+              >
+                <input
+                  type="checkbox"
+                  checked={isRedacted}
+                  onChange={(e) => setIsRedacted(e.target.checked)}
+                />
+                Redact inputs, published values, parameter defaults, trigger
+                settings and templates
+              </label>
+              <button
+                onClick={() => html.downloadHtml(isRedacted)}
+                disabled={html.isExporting}
+                className="w-full flex items-center justify-center gap-1 px-2 py-1 rounded border border-[hsl(var(--border))] hover:bg-[hsl(var(--muted))] disabled:opacity-50"
+                title="One file opening the interactive viewer offline"
+              >
+                <FileCode className="w-3 h-3" />
+                {html.isExporting ? "Exporting…" : "Interactive HTML"}
+              </button>
+              {html.exportError && (
+                <p className="text-red-500">{html.exportError}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
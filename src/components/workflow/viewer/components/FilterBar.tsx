@@ -0,0 +1,227 @@
+/**
+ * Component for filtering the tasks shown on the canvas
+ */
+import { ReactNode, useState } from "react";
+import { Crosshair, Filter, X } from "lucide-react";
+import { LintSeverity } from "../../../../lib/workflow-linter";
+import { CanvasFilter } from "../../shared/types";
+import { MAX_FOCUS_DEPTH } from "../../shared/constants";
+import { isCanvasFilterActive } from "../../shared/utils/filterUtils";
+import { cn } from "../../../../lib/utils";
+
+interface FilterBarProps {
+  filter: CanvasFilter;
+  onChange: (update: Partial<CanvasFilter>) => void;
+  onTogglePack: (pack: string) => void;
+  onClear: () => void;
+  /** Action packs used by the tasks on the canvas */
+  packs: string[];
+  /** Number of tasks matching the filter */
+  matchCount: number;
+  taskCount: number;
+  /** ID of the task selected on the canvas, focused by the focus button */
+  selectedTaskId?: string;
+}
+
+/**
+ * Toggle chip of the filter bar
+ */
+function Chip({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  title?: string;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={cn(
+        "px-2 py-0.5 text-xs rounded-full border",
+        active
+          ? "bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))] border-[hsl(var(--primary))]"
+          : "border-[hsl(var(--border))] hover:bg-[hsl(var(--muted))]"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Filter bar
+ * Predicates combine: a task must match every one set. Tasks that don't are
+ * dimmed or hidden. The focus mode shows only the selected task and the
+ * tasks a few transitions up and downstream of it.
+ */
+export function FilterBar({
+  filter,
+  onChange,
+  onTogglePack,
+  onClear,
+  packs,
+  matchCount,
+  taskCount,
+  selectedTaskId,
+}: FilterBarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isFiltered =
+    isCanvasFilterActive(filter) || Boolean(filter.focusTaskId);
+
+  // Packs in the filter stay listed when the workflow doesn't use them
+  const listedPacks = Array.from(new Set([...packs, ...filter.packs])).sort();
+
+  const predicates: Array<{
+    key: "hasCondition" | "mocked" | "hasJinja" | "subWorkflowCalls";
+    label: string;
+  }> = [
+    { key: "hasCondition", label: "Has condition" },
+    { key: "mocked", label: "Mocked" },
+    { key: "hasJinja", label: "Has Jinja" },
+    { key: "subWorkflowCalls", label: "Sub-workflow calls" },
+  ];
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 max-w-[min(640px,60%)] bg-[hsl(var(--card))]/90 backdrop-blur-sm rounded-lg shadow-lg border border-[hsl(var(--border))] text-sm">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-1 font-medium"
+          aria-expanded={isOpen}
+        >
+          <Filter className="w-4 h-4" />
+          Filters
+        </button>
+        {isFiltered && (
+          <>
+            <span className="text-xs text-[hsl(var(--muted-foreground))]">
+              {matchCount} of {taskCount} tasks
+            </span>
+            <button
+              onClick={onClear}
+              className="p-0.5 rounded hover:bg-[hsl(var(--muted))]"
+              title="Clear the filters and the focus"
+              aria-label="Clear filters"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2 border-t border-[hsl(var(--border))] pt-2">
+          <div className="flex flex-wrap gap-1">
+            {predicates.map(({ key, label }) => (
+              <Chip
+                key={key}
+                active={filter[key]}
+                onClick={() => onChange({ [key]: !filter[key] })}
+              >
+                {label}
+              </Chip>
+            ))}
+          </div>
+
+          {listedPacks.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-[hsl(var(--muted-foreground))] mr-1">
+                Action pack
+              </span>
+              {listedPacks.map((pack) => (
+                <Chip
+                  key={pack}
+                  active={filter.packs.includes(pack)}
+                  onClick={() => onTogglePack(pack)}
+                  title={`Tasks running ${pack}.* actions`}
+                >
+                  {pack}
+                </Chip>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            <label className="flex items-center gap-1">
+              Problems
+              <select
+                value={filter.severity || ""}
+                onChange={(e) =>
+                  onChange({
+                    severity: (e.target.value as LintSeverity) || undefined,
+                  })
+                }
+                className="px-1 py-0.5 rounded border border-[hsl(var(--border))] bg-[hsl(var(--background))]"
+              >
+                <option value="">Any task</option>
+                <option value="error">Errors</option>
+                <option value="warning">Warnings or worse</option>
+                <option value="info">Any problem</option>
+              </select>
+            </label>
+
+            <label className="flex items-center gap-1">
+              Others
+              <select
+                value={filter.mode}
+                onChange={(e) =>
+                  onChange({ mode: e.target.value as CanvasFilter["mode"] })
+                }
+                className="px-1 py-0.5 rounded border border-[hsl(var(--border))] bg-[hsl(var(--background))]"
+              >
+                <option value="dim">Dimmed</option>
+                <option value="hide">Hidden</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <button
+              onClick={() =>
+                onChange({
+                  focusTaskId: filter.focusTaskId ? undefined : selectedTaskId,
+                })
+              }
+              disabled={!filter.focusTaskId && !selectedTaskId}
+              className={cn(
+                "flex items-center gap-1 px-2 py-0.5 rounded border disabled:opacity-50",
+                filter.focusTaskId
+                  ? "bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))] border-[hsl(var(--primary))]"
+                  : "border-[hsl(var(--border))] hover:bg-[hsl(var(--muted))]"
+              )}
+              title={
+                filter.focusTaskId
+                  ? "Show every task again"
+                  : "Show only the selected task and its neighbours"
+              }
+            >
+              <Crosshair className="w-3.5 h-3.5" />
+              {filter.focusTaskId ? "Unfocus" : "Focus on selected task"}
+            </button>
+            <label className="flex items-center gap-1">
+              Depth
+              <input
+                type="number"
+                min={1}
+                max={MAX_FOCUS_DEPTH}
+                value={filter.focusDepth}
+                onChange={(e) => {
+                  const depth = parseInt(e.target.value, 10);
+                  if (depth >= 1 && depth <= MAX_FOCUS_DEPTH) {
+                    onChange({ focusDepth: depth });
+                  }
+                }}
+                className="w-12 px-1 py-0.5 rounded border border-[hsl(var(--border))] bg-[hsl(var(--background))]"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,25 @@
 import { useState } from "react";
 import { LayoutConfig } from "../../shared/types";
 import { DEFAULT_LAYOUT_CONFIG } from "../../shared/constants";
+import { DEFAULT_LAYOUT_ALGORITHM, getLayoutAlgorithms } from "../layout";
 import { Button } from "@/components/ui/button";
 
 interface LayoutControlsProps {
   onApplyLayout: (config: LayoutConfig) => void;
+  /** Whether transition labels are drawn on their edges */
+  showEdgeLabels?: boolean;
+  /** Turns edge labels on or off, the section is hidden without it */
+  onToggleEdgeLabels?: () => void;
 }
 
 /**
  * Component for adjusting layout parameters
  */
-export function LayoutControls({ onApplyLayout }: LayoutControlsProps) {
+export function LayoutControls({
+  onApplyLayout,
+  showEdgeLabels,
+  onToggleEdgeLabels,
+}: LayoutControlsProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [config, setConfig] = useState<LayoutConfig>({
     ...DEFAULT_LAYOUT_CONFIG,
@@ -74,11 +83,18 @@ export function LayoutControls({ onApplyLayout }: LayoutControlsProps) {
     },
   };
 
+  // Presets only change spacing and direction, not the algorithm
   const applyPreset = (preset: keyof typeof presets) => {
-    setConfig(presets[preset]);
-    onApplyLayout(presets[preset]);
+    const presetConfig = { ...presets[preset], algorithm: config.algorithm };
+    setConfig(presetConfig);
+    onApplyLayout(presetConfig);
   };
 
+  const algorithms = getLayoutAlgorithms();
+  const algorithm =
+    algorithms.find((definition) => definition.id === config.algorithm) ||
+    algorithms.find((definition) => definition.id === DEFAULT_LAYOUT_ALGORITHM);
+
   return (
     <div className="absolute bottom-4 left-4 z-50 bg-card backdrop-blur-sm rounded-lg shadow-lg border border-border">
       <Button
@@ -91,6 +107,30 @@ export function LayoutControls({ onApplyLayout }: LayoutControlsProps) {
 
       {isOpen && (
         <div className="p-4 space-y-4 max-h-[60vh] overflow-y-auto">
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Algorithm</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {algorithms.map((definition) => (
+                <Button
+                  key={definition.id}
+                  onClick={() => handleChange("algorithm", definition.id)}
+                  variant={
+                    definition.id === algorithm?.id ? "default" : "outline"
+                  }
+                  size="sm"
+                  title={definition.description}
+                >
+                  {definition.name}
+                </Button>
+              ))}
+            </div>
+            {algorithm && (
+              <p className="text-xs text-muted-foreground">
+                {algorithm.description}
+              </p>
+            )}
+          </div>
+
           <div className="space-y-2">
             <h3 className="text-sm font-medium">Presets</h3>
             <div className="flex gap-2">
@@ -152,25 +192,49 @@ export function LayoutControls({ onApplyLayout }: LayoutControlsProps) {
             </div>
           </div>
 
-          <div className="space-y-2">
-            <h3 className="text-sm font-medium">Direction</h3>
-            <div className="grid grid-cols-2 gap-2">
-              <Button
-                onClick={() => handleChange("direction", "TB")}
-                variant={config.direction === "TB" ? "default" : "outline"}
-                size="sm"
-              >
-                Top to Bottom
-              </Button>
-              <Button
-                onClick={() => handleChange("direction", "LR")}
-                variant={config.direction === "LR" ? "default" : "outline"}
-                size="sm"
-              >
-                Left to Right
-              </Button>
+          {algorithm?.supportsDirection && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Direction</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  onClick={() => handleChange("direction", "TB")}
+                  variant={config.direction === "TB" ? "default" : "outline"}
+                  size="sm"
+                >
+                  Top to Bottom
+                </Button>
+                <Button
+                  onClick={() => handleChange("direction", "LR")}
+                  variant={config.direction === "LR" ? "default" : "outline"}
+                  size="sm"
+                >
+                  Left to Right
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
+
+          {onToggleEdgeLabels && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Edge Labels</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  onClick={() => !showEdgeLabels && onToggleEdgeLabels()}
+                  variant={showEdgeLabels ? "default" : "outline"}
+                  size="sm"
+                >
+                  Shown
+                </Button>
+                <Button
+                  onClick={() => showEdgeLabels && onToggleEdgeLabels()}
+                  variant={showEdgeLabels ? "outline" : "default"}
+                  size="sm"
+                >
+                  Hidden
+                </Button>
+              </div>
+            </div>
+          )}
 
           <div className="flex gap-2 pt-2">
             <Button onClick={handleApply} className="flex-1" size="sm">
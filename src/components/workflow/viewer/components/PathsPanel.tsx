@@ -0,0 +1,254 @@
+/**
+ * Component listing the paths between two tasks of the selected workflow
+ */
+import { useMemo, useState } from "react";
+import { Edge, useReactFlow } from "reactflow";
+import { ArrowLeftRight, ChevronDown, ChevronUp, Repeat } from "lucide-react";
+import { JinjaHighlight } from "../../node/components/JinjaHighlight";
+import { TransitionEdgeData } from "../../edge";
+import { TransitionPathsHookResult } from "../types";
+import { cn } from "../../../../lib/utils";
+
+type PathsPanelProps = TransitionPathsHookResult & {
+  /** Tasks of the workflow the paths can start and end at */
+  tasks: Array<{ id: string; name: string }>;
+};
+
+/**
+ * Paths panel
+ * Picking a source and a target task highlights every path between them on
+ * the canvas. Each path is listed with the transitions along it, and picking
+ * one shows its labels, conditions and the loops over it.
+ */
+export function PathsPanel({
+  tasks,
+  sourceId,
+  targetId,
+  setSourceId,
+  setTargetId,
+  result,
+  selectedPathIndex,
+  selectPath,
+  clear,
+}: PathsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { getNode, setCenter } = useReactFlow();
+
+  const taskNames = useMemo(
+    () => new Map(tasks.map((task) => [task.id, task.name])),
+    [tasks]
+  );
+  const sortedTasks = useMemo(
+    () => [...tasks].sort((a, b) => a.name.localeCompare(b.name)),
+    [tasks]
+  );
+  const getTaskName = (id: string) => taskNames.get(id) || id;
+
+  const selectedPath =
+    selectedPathIndex !== null ? result?.paths[selectedPathIndex] : undefined;
+
+  // Centre the canvas on a task of a path
+  const focusTask = (taskId: string) => {
+    const node = getNode(taskId);
+    if (!node) return;
+
+    const position = node.positionAbsolute || node.position;
+    setCenter(
+      position.x + (node.width || 0) / 2,
+      position.y + (node.height || 0) / 2,
+      { zoom: 1, duration: 500 }
+    );
+  };
+
+  const renderTransition = (edge: Edge<TransitionEdgeData>) => (
+    <div className="ml-3 pl-3 border-l-2 border-[hsl(var(--workflow-purple))] py-1 space-y-1">
+      <div className="text-[hsl(var(--muted-foreground))]">
+        {edge.data?.label || "Transition"}
+      </div>
+      {edge.data?.condition && (
+        <div className="bg-[hsl(var(--muted))] rounded px-2 py-1 overflow-x-auto">
+          <JinjaHighlight source={edge.data.condition} className="text-xs" />
+        </div>
+      )}
+    </div>
+  );
+
+  const taskSelect = (
+    label: string,
+    value: string | null,
+    onChange: (taskId: string | null) => void
+  ) => (
+    <label className="flex items-center gap-1">
+      {label}
+      <select
+        value={value || ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="max-w-[12rem] px-1 py-0.5 rounded border border-[hsl(var(--border))] bg-[hsl(var(--background))]"
+      >
+        <option value="">Pick a task</option>
+        {sortedTasks.map((task) => (
+          <option key={task.id} value={task.id}>
+            {task.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="border-t border-[hsl(var(--border))] bg-[hsl(var(--card))]">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-medium"
+        >
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4" />
+          ) : (
+            <ChevronUp className="w-4 h-4" />
+          )}
+          Paths
+          {result && ` (${result.paths.length}${result.truncated ? "+" : ""})`}
+        </button>
+        {isOpen && (
+          <div className="flex items-center gap-3 text-xs">
+            {taskSelect("From", sourceId, setSourceId)}
+            <button
+              onClick={() => {
+                setSourceId(targetId);
+                setTargetId(sourceId);
+              }}
+              className="p-1 rounded hover:bg-[hsl(var(--muted))]"
+              title="Swap the tasks"
+              aria-label="Swap the tasks"
+            >
+              <ArrowLeftRight className="w-3.5 h-3.5" />
+            </button>
+            {taskSelect("To", targetId, setTargetId)}
+            {(sourceId || targetId) && (
+              <button
+                onClick={clear}
+                className="px-2 py-0.5 rounded hover:bg-[hsl(var(--muted))]"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="flex max-h-48 px-4 pb-2 gap-4 text-xs">
+          {/* Path list */}
+          <ul className="w-1/3 overflow-y-auto">
+            {!result && (
+              <li className="py-1 text-[hsl(var(--muted-foreground))]">
+                Pick two tasks to highlight every path between them
+              </li>
+            )}
+            {result && result.paths.length === 0 && (
+              <li className="py-1 text-[hsl(var(--muted-foreground))]">
+                {getTaskName(targetId as string)} can't be reached from{" "}
+                {getTaskName(sourceId as string)}
+              </li>
+            )}
+            {result?.paths.map((path, index) => (
+              <li key={index}>
+                <button
+                  onClick={() =>
+                    selectPath(index === selectedPathIndex ? null : index)
+                  }
+                  className={cn(
+                    "w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left transition-colors",
+                    index === selectedPathIndex
+                      ? "bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))]"
+                      : "hover:bg-[hsl(var(--muted))]"
+                  )}
+                >
+                  <span className="truncate">
+                    Path {index + 1} · {path.edges.length} transition
+                    {path.edges.length === 1 ? "" : "s"}
+                  </span>
+                  {path.loops.length > 0 && (
+                    <span
+                      className="flex items-center gap-0.5 flex-shrink-0"
+                      title="Tasks on this path can loop back"
+                    >
+                      <Repeat className="w-3 h-3" />
+                      {path.loops.length}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+            {result?.truncated && (
+              <li className="py-1 text-[hsl(var(--muted-foreground))]">
+                Only the {result.paths.length} shortest paths are listed
+              </li>
+            )}
+          </ul>
+
+          {/* Transitions along the picked path */}
+          <div className="flex-1 overflow-y-auto">
+            {!selectedPath ? (
+              result &&
+              result.paths.length > 0 && (
+                <p className="py-1 text-[hsl(var(--muted-foreground))]">
+                  Select a path to see its transitions
+                </p>
+              )
+            ) : (
+              <div className="space-y-1">
+                {selectedPath.edges.map((edge, index) => (
+                  <div key={edge.id}>
+                    {index === 0 && (
+                      <button
+                        onClick={() => focusTask(edge.source)}
+                        className="font-mono font-medium hover:underline"
+                      >
+                        {getTaskName(edge.source)}
+                      </button>
+                    )}
+                    {renderTransition(edge)}
+                    <button
+                      onClick={() => focusTask(edge.target)}
+                      className="font-mono font-medium hover:underline"
+                    >
+                      {getTaskName(edge.target)}
+                    </button>
+                  </div>
+                ))}
+
+                {selectedPath.loops.length > 0 && (
+                  <div className="pt-2">
+                    <div className="font-medium mb-1">Loops</div>
+                    {selectedPath.loops.map((edge) => (
+                      <div
+                        key={edge.id}
+                        className="text-[hsl(var(--muted-foreground))]"
+                      >
+                        <span className="font-mono">
+                          {getTaskName(edge.source)}
+                        </span>{" "}
+                        loops back to{" "}
+                        <span className="font-mono">
+                          {getTaskName(edge.target)}
+                        </span>
+                        {edge.data?.label && ` on "${edge.data.label}"`}
+                        {edge.data?.condition && (
+                          <span className="ml-1 font-mono">
+                            {edge.data.condition}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
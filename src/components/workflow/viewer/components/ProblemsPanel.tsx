@@ -0,0 +1,250 @@
+/**
+ * Component listing the lint diagnostics of the selected workflow
+ */
+import { useMemo, useState } from "react";
+import { useReactFlow } from "reactflow";
+import { ChevronDown, ChevronUp, Settings2 } from "lucide-react";
+import {
+  LINT_SEVERITY_ORDER,
+  LintDiagnostic,
+  LintRule,
+  LintRuleConfig,
+  isLintRuleEnabled,
+} from "../../../../lib/workflow-linter";
+import { LINT_SEVERITY_CLASSES } from "../../shared/constants";
+import { cn } from "../../../../lib/utils";
+
+interface ProblemsPanelProps {
+  diagnostics: LintDiagnostic[];
+  rules: LintRule[];
+  ruleConfig: LintRuleConfig;
+  onToggleRule: (ruleId: string) => void;
+}
+
+type SortKey = "severity" | "rule" | "task" | "message";
+
+/**
+ * Compares two diagnostics on a column
+ * @param a The first diagnostic
+ * @param b The second diagnostic
+ * @param key The column to compare on
+ * @param ruleNames Rule names per rule ID
+ * @returns A negative, zero or positive number
+ */
+const compareDiagnostics = (
+  a: LintDiagnostic,
+  b: LintDiagnostic,
+  key: SortKey,
+  ruleNames: Map<string, string>
+): number => {
+  switch (key) {
+    case "severity":
+      return LINT_SEVERITY_ORDER[a.severity] - LINT_SEVERITY_ORDER[b.severity];
+    case "rule":
+      return (ruleNames.get(a.ruleId) || a.ruleId).localeCompare(
+        ruleNames.get(b.ruleId) || b.ruleId
+      );
+    case "task":
+      return (a.taskName || a.taskId || "").localeCompare(
+        b.taskName || b.taskId || ""
+      );
+    case "message":
+      return a.message.localeCompare(b.message);
+  }
+};
+
+/**
+ * Sortable problems panel with per-rule toggles
+ * Clicking a problem centres the canvas on its task.
+ */
+export function ProblemsPanel({
+  diagnostics,
+  rules,
+  ruleConfig,
+  onToggleRule,
+}: ProblemsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({
+    key: "severity",
+    ascending: true,
+  });
+  const { getNode, setCenter } = useReactFlow();
+
+  const ruleNames = useMemo(
+    () => new Map(rules.map((rule) => [rule.id, rule.name])),
+    [rules]
+  );
+
+  const sortedDiagnostics = useMemo(() => {
+    const direction = sort.ascending ? 1 : -1;
+    return [...diagnostics].sort(
+      (a, b) => direction * compareDiagnostics(a, b, sort.key, ruleNames)
+    );
+  }, [diagnostics, sort, ruleNames]);
+
+  const counts = useMemo(
+    () =>
+      diagnostics.reduce(
+        (acc, diagnostic) => ({
+          ...acc,
+          [diagnostic.severity]: acc[diagnostic.severity] + 1,
+        }),
+        { error: 0, warning: 0, info: 0 }
+      ),
+    [diagnostics]
+  );
+
+  const handleSort = (key: SortKey) => {
+    setSort((prev) => ({
+      key,
+      ascending: prev.key === key ? !prev.ascending : true,
+    }));
+  };
+
+  // Centre the canvas on the task a diagnostic belongs to
+  const handleSelect = (diagnostic: LintDiagnostic) => {
+    if (!diagnostic.taskId) return;
+    const node = getNode(diagnostic.taskId);
+    if (!node) return;
+
+    setCenter(
+      node.position.x + (node.width || 0) / 2,
+      node.position.y + (node.height || 0) / 2,
+      { zoom: 1, duration: 500 }
+    );
+  };
+
+  const columns: Array<{ key: SortKey; label: string }> = [
+    { key: "severity", label: "Severity" },
+    { key: "rule", label: "Rule" },
+    { key: "task", label: "Task" },
+    { key: "message", label: "Message" },
+  ];
+
+  return (
+    <div className="border-t border-[hsl(var(--border))] bg-[hsl(var(--card))]">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-medium"
+        >
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4" />
+          ) : (
+            <ChevronUp className="w-4 h-4" />
+          )}
+          Problems ({diagnostics.length})
+          {(["error", "warning", "info"] as const).map(
+            (severity) =>
+              counts[severity] > 0 && (
+                <span
+                  key={severity}
+                  className={cn(
+                    "px-1.5 rounded-full border text-xs",
+                    LINT_SEVERITY_CLASSES[severity]
+                  )}
+                >
+                  {counts[severity]} {severity}
+                </span>
+              )
+          )}
+        </button>
+        {isOpen && (
+          <button
+            onClick={() => setShowRules(!showRules)}
+            className={cn(
+              "flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors",
+              showRules
+                ? "bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))]"
+                : "bg-[hsl(var(--muted))] hover:bg-[hsl(var(--muted))]/80"
+            )}
+          >
+            <Settings2 className="w-3 h-3" />
+            Rules
+          </button>
+        )}
+      </div>
+
+      {isOpen && showRules && (
+        <div className="px-4 pb-2 grid grid-cols-1 md:grid-cols-2 gap-1">
+          {rules.map((rule) => (
+            <label
+              key={rule.id}
+              className="flex items-start gap-2 text-xs cursor-pointer"
+              title={rule.description}
+            >
+              <input
+                type="checkbox"
+                checked={isLintRuleEnabled(rule.id, ruleConfig)}
+                onChange={() => onToggleRule(rule.id)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium">{rule.name}</span>{" "}
+                <span className="text-[hsl(var(--muted-foreground))]">
+                  ({rule.severity})
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="max-h-48 overflow-y-auto px-4 pb-2">
+          {sortedDiagnostics.length === 0 ? (
+            <p className="text-xs text-[hsl(var(--muted-foreground))] py-2">
+              No problems found
+            </p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-[hsl(var(--card))]">
+                <tr className="text-left text-[hsl(var(--muted-foreground))]">
+                  {columns.map((column) => (
+                    <th
+                      key={column.key}
+                      className="py-1 pr-2 font-medium cursor-pointer select-none"
+                      onClick={() => handleSort(column.key)}
+                    >
+                      {column.label}
+                      {sort.key === column.key &&
+                        (sort.ascending ? " ▲" : " ▼")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedDiagnostics.map((diagnostic, index) => (
+                  <tr
+                    key={`${diagnostic.ruleId}-${diagnostic.taskId}-${index}`}
+                    className="border-t border-[hsl(var(--border))] cursor-pointer hover:bg-[hsl(var(--muted))]"
+                    onClick={() => handleSelect(diagnostic)}
+                  >
+                    <td className="py-1 pr-2">
+                      <span
+                        className={cn(
+                          "px-1.5 rounded-full border",
+                          LINT_SEVERITY_CLASSES[diagnostic.severity]
+                        )}
+                      >
+                        {diagnostic.severity}
+                      </span>
+                    </td>
+                    <td className="py-1 pr-2 whitespace-nowrap">
+                      {ruleNames.get(diagnostic.ruleId) || diagnostic.ruleId}
+                    </td>
+                    <td className="py-1 pr-2 font-mono">
+                      {diagnostic.taskName || diagnostic.taskId}
+                    </td>
+                    <td className="py-1">{diagnostic.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
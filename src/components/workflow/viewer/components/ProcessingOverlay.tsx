@@ -0,0 +1,37 @@
+/**
+ * Component showing the progress of work running in the workflow worker
+ */
+import { Loader2 } from "lucide-react";
+import { WorkerProgress } from "../worker";
+
+interface ProcessingOverlayProps {
+  /** Progress of the running request */
+  status: WorkerProgress;
+}
+
+/**
+ * Processing overlay
+ * Covers the canvas while a layout or the bundle is computed, with the stage
+ * the worker is at.
+ */
+export function ProcessingOverlay({ status }: ProcessingOverlayProps) {
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-[hsl(var(--background)/0.6)] backdrop-blur-[1px]">
+      <div
+        className="flex flex-col gap-2 w-64 p-4 rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--card))] shadow-lg"
+        role="status"
+      >
+        <div className="flex items-center gap-2 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin text-[hsl(var(--workflow-blue))]" />
+          <span className="truncate">{status.stage}</span>
+        </div>
+        <div className="h-1.5 rounded-full bg-[hsl(var(--muted))] overflow-hidden">
+          <div
+            className="h-full bg-[hsl(var(--workflow-blue))] transition-all"
+            style={{ width: `${Math.max(status.progress, 0.1) * 100}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Component for searching the tasks of every workflow in the bundle
+ */
+import { useEffect, useRef, useState } from "react";
+import { Search } from "lucide-react";
+import {
+  SEARCH_FIELD_LABELS,
+  SearchResult,
+} from "../../../../lib/workflow-search";
+import { WorkflowSearchHookResult } from "../types";
+import { cn } from "../../../../lib/utils";
+
+type SearchPaletteProps = Pick<
+  WorkflowSearchHookResult,
+  "isOpen" | "close" | "query" | "setQuery" | "results" | "selectResult"
+>;
+
+/**
+ * Characters of context shown before a match
+ */
+const SNIPPET_CONTEXT = 30;
+
+/**
+ * Longest snippet shown for a result
+ */
+const MAX_SNIPPET_LENGTH = 120;
+
+/**
+ * Collapses the whitespace of a string to single spaces
+ * @param value The string
+ * @returns The collapsed string
+ */
+const collapse = (value: string): string => value.replace(/\s+/g, " ");
+
+/**
+ * Renders the part of a result's text around the match, with the match marked
+ */
+function MatchSnippet({ result }: { result: SearchResult }) {
+  const { text } = result.entry;
+  const { matchStart, matchEnd } = result;
+
+  if (matchStart < 0) {
+    return <>{collapse(text).slice(0, MAX_SNIPPET_LENGTH)}</>;
+  }
+
+  const start = Math.max(0, matchStart - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, start + MAX_SNIPPET_LENGTH);
+
+  return (
+    <>
+      {start > 0 && "…"}
+      {collapse(text.slice(start, matchStart))}
+      <mark className="bg-[hsl(var(--workflow-yellow)/0.4)] text-inherit rounded-sm">
+        {collapse(text.slice(matchStart, matchEnd))}
+      </mark>
+      {collapse(text.slice(matchEnd, Math.max(end, matchEnd)))}
+      {end < text.length && "…"}
+    </>
+  );
+}
+
+/**
+ * Search palette
+ * Lists the task names, descriptions, action refs, inputs, conditions,
+ * publish keys and triggers matching the query. Arrow keys move through the
+ * results, Enter shows the selected one and Escape closes the palette.
+ */
+export function SearchPalette({
+  isOpen,
+  close,
+  query,
+  setQuery,
+  results,
+  selectResult,
+}: SearchPaletteProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Start from the best result whenever the results change
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  // Focus the query when the palette opens
+  useEffect(() => {
+    if (isOpen) inputRef.current?.select();
+  }, [isOpen]);
+
+  // Keep the selected result in view
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((prev) => Math.min(prev + 1, results.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((prev) => Math.max(prev - 1, 0));
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (results[activeIndex]) selectResult(results[activeIndex]);
+        break;
+      case "Escape":
+        e.preventDefault();
+        close();
+        break;
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-[hsl(var(--background)/0.6)]"
+      onClick={close}
+    >
+      <div
+        className="w-full max-w-xl mx-4 rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--card))] shadow-lg overflow-hidden"
+        role="dialog"
+        aria-label="Search workflows"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-[hsl(var(--border))]">
+          <Search className="w-4 h-4 text-[hsl(var(--muted-foreground))]" />
+          <input
+            ref={inputRef}
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search tasks, inputs, conditions and actions…"
+            className="flex-1 py-3 text-sm bg-transparent outline-none"
+            aria-label="Search query"
+          />
+          <kbd className="px-1 rounded border border-[hsl(var(--border))] text-[10px] text-[hsl(var(--muted-foreground))]">
+            Esc
+          </kbd>
+        </div>
+
+        {query.trim() && results.length === 0 && (
+          <div className="p-4 text-sm text-center text-[hsl(var(--muted-foreground))]">
+            No matches
+          </div>
+        )}
+
+        {results.length > 0 && (
+          <ul ref={listRef} className="max-h-80 overflow-y-auto py-1">
+            {results.map((result, index) => {
+              const { entry } = result;
+              return (
+                <li
+                  key={`${entry.workflowId}:${entry.taskId || ""}:${
+                    entry.field
+                  }:${entry.key || ""}:${entry.transitionIndex ?? ""}:${
+                    entry.text
+                  }`}
+                  data-index={index}
+                  className={cn(
+                    "px-3 py-2 cursor-pointer",
+                    index === activeIndex && "bg-[hsl(var(--muted))]"
+                  )}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => selectResult(result)}
+                >
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="font-medium truncate">
+                      {entry.field === "name" || entry.field === "trigger" ? (
+                        <MatchSnippet result={result} />
+                      ) : (
+                        entry.taskName
+                      )}
+                    </span>
+                    <span className="shrink-0 text-xs text-[hsl(var(--muted-foreground))] truncate max-w-[40%]">
+                      {entry.workflowName}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-[hsl(var(--muted-foreground))]">
+                    <span className="shrink-0 px-1.5 rounded bg-[hsl(var(--muted))]">
+                      {SEARCH_FIELD_LABELS[entry.field]}
+                      {entry.key && entry.field === "input" && `: ${entry.key}`}
+                    </span>
+                    {entry.field !== "name" && entry.field !== "trigger" && (
+                      <span className="truncate font-mono">
+                        <MatchSnippet result={result} />
+                      </span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
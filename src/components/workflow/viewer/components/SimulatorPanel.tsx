@@ -0,0 +1,425 @@
+/**
+ * Component for simulating and stepping through a run of the selected workflow
+ */
+import { useState } from "react";
+import { useReactFlow } from "reactflow";
+import {
+  ArrowDownToLine,
+  Bug,
+  ChevronDown,
+  ChevronUp,
+  CornerDownRight,
+  FastForward,
+  Pause,
+  Play,
+  RotateCcw,
+  SkipForward,
+} from "lucide-react";
+import { WorkflowSimulatorHookResult } from "../types";
+import { SimulationStep } from "../../../../lib/workflow-simulator";
+import { cn } from "../../../../lib/utils";
+
+type SimulatorPanelProps = WorkflowSimulatorHookResult;
+
+/**
+ * Button for the simulator toolbar
+ */
+const ToolbarButton = ({
+  onClick,
+  disabled,
+  title,
+  primary,
+  children,
+}: {
+  onClick: () => void;
+  disabled?: boolean;
+  title: string;
+  primary?: boolean;
+  children: React.ReactNode;
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className={cn(
+      "flex items-center gap-1 px-2 py-1 text-xs rounded disabled:opacity-50",
+      primary
+        ? "bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))]"
+        : "border border-[hsl(var(--border))] hover:bg-[hsl(var(--muted))]"
+    )}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Describes the transitions a step chose
+ * @param step The step
+ * @returns e.g. `→ #2 Success`, or a note when none was taken
+ */
+const describeChoice = (step: SimulationStep): string => {
+  const taken = step.transitions.filter((transition) => transition.taken);
+  if (step.transitions.length === 0) return "end";
+  if (taken.length === 0) return "no transition taken";
+
+  return taken
+    .map(
+      (transition) =>
+        `→ #${transition.transitionIndex + 1}${
+          transition.label ? ` ${transition.label}` : ""
+        }`
+    )
+    .join(", ");
+};
+
+/**
+ * Simulator panel
+ * Runs the workflow against a user-editable CTX and the mocked task results.
+ * The run can be played, with the canvas animating the path taken, or
+ * stepped through like a debugger with breakpoints set from the task nodes.
+ */
+export function SimulatorPanel({
+  contextJson,
+  setContextJson,
+  resultsJson,
+  setResultsJson,
+  failedTasks,
+  toggleFailedTask,
+  inputError,
+  result,
+  visibleSteps,
+  isPlaying,
+  currentStep,
+  breakpoints,
+  run,
+  debug,
+  pause,
+  stepInto,
+  stepOver,
+  continueRun,
+  runToBreakpoint,
+  reset,
+}: SimulatorPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+  const [showBefore, setShowBefore] = useState(false);
+  const { getNode, setCenter } = useReactFlow();
+
+  const steps = result ? result.steps.slice(0, visibleSteps) : [];
+  const current = visibleSteps - 1;
+  const isFinished = result !== null && visibleSteps >= result.steps.length;
+  const inspected =
+    selectedStep !== null ? steps[selectedStep] : currentStep || undefined;
+
+  // Centre the canvas on the task of a step
+  const focusStep = (index: number) => {
+    setSelectedStep(index === selectedStep ? null : index);
+    const node = getNode(steps[index].taskId);
+    if (!node || steps[index].depth > 0) return;
+
+    setCenter(
+      node.position.x + (node.width || 0) / 2,
+      node.position.y + (node.height || 0) / 2,
+      { zoom: 1, duration: 500 }
+    );
+  };
+
+  // Selecting a step only lasts until the run moves on
+  const withReset = (action: () => void) => () => {
+    setSelectedStep(null);
+    action();
+  };
+
+  return (
+    <div className="border-t border-[hsl(var(--border))] bg-[hsl(var(--card))]">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-medium"
+        >
+          {isOpen ? (
+            <ChevronDown className="w-4 h-4" />
+          ) : (
+            <ChevronUp className="w-4 h-4" />
+          )}
+          Simulator
+          {result && (
+            <span className="text-xs font-normal text-[hsl(var(--muted-foreground))]">
+              {visibleSteps}/{result.steps.length} steps
+            </span>
+          )}
+          {result && result.issues.length > 0 && (
+            <span className="px-1.5 rounded-full border text-xs bg-yellow-500/15 text-yellow-500 border-yellow-500/50">
+              {result.issues.length} issues
+            </span>
+          )}
+        </button>
+        {isOpen && (
+          <div className="flex items-center gap-2">
+            {isPlaying ? (
+              <ToolbarButton onClick={pause} title="Pause">
+                <Pause className="w-3 h-3" />
+                Pause
+              </ToolbarButton>
+            ) : (
+              <ToolbarButton
+                onClick={withReset(run)}
+                title="Simulate and play the run"
+                primary
+              >
+                <Play className="w-3 h-3" />
+                Run
+              </ToolbarButton>
+            )}
+            <ToolbarButton
+              onClick={withReset(debug)}
+              title="Simulate and pause before the first task"
+            >
+              <Bug className="w-3 h-3" />
+              Debug
+            </ToolbarButton>
+            <ToolbarButton
+              onClick={withReset(stepInto)}
+              disabled={!result || isFinished}
+              title="Step to the next task, into sub-workflows"
+            >
+              <ArrowDownToLine className="w-3 h-3" />
+              Step
+            </ToolbarButton>
+            <ToolbarButton
+              onClick={withReset(stepOver)}
+              disabled={!result || isFinished}
+              title="Step to the next task, over sub-workflows"
+            >
+              <CornerDownRight className="w-3 h-3" />
+              Step over
+            </ToolbarButton>
+            <ToolbarButton
+              onClick={withReset(continueRun)}
+              disabled={!result || isFinished || isPlaying}
+              title="Play until the next breakpoint"
+            >
+              <FastForward className="w-3 h-3" />
+              Continue
+            </ToolbarButton>
+            <ToolbarButton
+              onClick={withReset(runToBreakpoint)}
+              disabled={!result || isFinished}
+              title="Jump to the next breakpoint"
+            >
+              <SkipForward className="w-3 h-3" />
+              To breakpoint
+            </ToolbarButton>
+            <ToolbarButton
+              onClick={withReset(reset)}
+              disabled={!result}
+              title="Clear the run"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Clear
+            </ToolbarButton>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="flex max-h-64 px-4 pb-2 gap-4 text-xs">
+          {/* Inputs */}
+          <div className="w-1/4 flex flex-col gap-2">
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">CTX</span>
+              <textarea
+                value={contextJson}
+                onChange={(e) => setContextJson(e.target.value)}
+                spellCheck={false}
+                rows={4}
+                className="p-1 font-mono rounded border border-[hsl(var(--border))] bg-[hsl(var(--background))]"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium">Mock results by task name</span>
+              <textarea
+                value={resultsJson}
+                onChange={(e) => setResultsJson(e.target.value)}
+                spellCheck={false}
+                rows={4}
+                className="p-1 font-mono rounded border border-[hsl(var(--border))] bg-[hsl(var(--background))]"
+              />
+            </label>
+            {inputError && <p className="text-red-500">{inputError}</p>}
+          </div>
+
+          {/* Timeline */}
+          <ol className="w-1/3 overflow-y-auto">
+            {!result && (
+              <li className="py-1 text-[hsl(var(--muted-foreground))]">
+                Run or debug the simulation to see the path taken
+              </li>
+            )}
+            {result && steps.length === 0 && (
+              <li className="py-1 text-[hsl(var(--muted-foreground))]">
+                Paused before the first task
+              </li>
+            )}
+            {steps.map((item, index) => (
+              <li
+                key={index}
+                className={cn(
+                  "flex items-center justify-between gap-2 px-2 py-0.5 rounded",
+                  index === current &&
+                    "ring-1 ring-[hsl(var(--workflow-orange))]",
+                  index === selectedStep
+                    ? "bg-[hsl(var(--muted))]"
+                    : "hover:bg-[hsl(var(--muted))]"
+                )}
+                style={{ paddingLeft: `${0.5 + item.depth}rem` }}
+              >
+                <button
+                  onClick={() => focusStep(index)}
+                  className="flex-1 flex items-center gap-1 text-left min-w-0"
+                >
+                  <span className="text-[hsl(var(--muted-foreground))]">
+                    {index + 1}.
+                  </span>
+                  {breakpoints.has(item.taskId) && (
+                    <span className="flex-shrink-0 w-2 h-2 rounded-full bg-[hsl(var(--workflow-red))]" />
+                  )}
+                  <span
+                    className={cn(
+                      "font-mono truncate",
+                      item.status === "failed" && "text-red-500"
+                    )}
+                  >
+                    {item.taskName || item.taskId}
+                  </span>
+                  <span
+                    className={cn(
+                      "flex-shrink-0",
+                      item.transitions.length > 0 &&
+                        item.transitions.every(
+                          (transition) => !transition.taken
+                        )
+                        ? "text-yellow-500"
+                        : "text-[hsl(var(--muted-foreground))]"
+                    )}
+                  >
+                    {describeChoice(item)}
+                  </span>
+                </button>
+                {item.taskName && (
+                  <label className="flex items-center gap-1 cursor-pointer text-[hsl(var(--muted-foreground))]">
+                    <input
+                      type="checkbox"
+                      checked={failedTasks.includes(item.taskName)}
+                      onChange={() => toggleFailedTask(item.taskName as string)}
+                    />
+                    Fail
+                  </label>
+                )}
+              </li>
+            ))}
+            {isFinished && result && (
+              <>
+                {result.pendingJoins.map((join) => (
+                  <li key={join.taskId} className="px-2 py-0.5 text-yellow-500">
+                    {join.taskName || join.taskId} waits for {join.required}{" "}
+                    transitions, {join.arrived} arrived
+                  </li>
+                ))}
+                {result.truncated && (
+                  <li className="px-2 py-0.5 text-yellow-500">
+                    Stopped after {result.steps.length} steps, the workflow may
+                    loop
+                  </li>
+                )}
+              </>
+            )}
+          </ol>
+
+          {/* CTX snapshot of the current or selected step, or the issues */}
+          <div className="flex-1 overflow-y-auto">
+            {inspected ? (
+              <div className="space-y-2">
+                <div className="font-medium">
+                  {inspected.taskName || inspected.taskId} ({inspected.status})
+                </div>
+                <ul>
+                  {inspected.transitions.map((transition) => (
+                    <li
+                      key={transition.transitionIndex}
+                      className={cn(
+                        !transition.taken &&
+                          "text-[hsl(var(--muted-foreground))]"
+                      )}
+                    >
+                      {transition.taken ? "✓" : "✗"}{" "}
+                      {transition.label ||
+                        `Transition ${transition.transitionIndex + 1}`}
+                      {transition.when && (
+                        <span className="ml-1 font-mono">
+                          {transition.when}
+                        </span>
+                      )}
+                      {transition.published.length > 0 && (
+                        <span className="ml-1">
+                          → publishes {transition.published.join(", ")}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-medium">CTX</span>
+                    <button
+                      onClick={() => setShowBefore(true)}
+                      className={cn(
+                        "px-1.5 rounded",
+                        showBefore && "bg-[hsl(var(--muted))]"
+                      )}
+                    >
+                      before
+                    </button>
+                    <button
+                      onClick={() => setShowBefore(false)}
+                      className={cn(
+                        "px-1.5 rounded",
+                        !showBefore && "bg-[hsl(var(--muted))]"
+                      )}
+                    >
+                      after
+                    </button>
+                  </div>
+                  <pre className="p-2 rounded bg-[hsl(var(--muted))] font-mono whitespace-pre-wrap break-words">
+                    {JSON.stringify(
+                      showBefore
+                        ? inspected.contextBefore
+                        : inspected.contextAfter,
+                      null,
+                      2
+                    )}
+                  </pre>
+                </div>
+              </div>
+            ) : result && result.issues.length > 0 ? (
+              <ul className="space-y-1">
+                {result.issues.map((issue, index) => (
+                  <li key={index} className="text-yellow-500">
+                    <span className="font-mono">
+                      {issue.taskName || issue.taskId}.{issue.location}
+                    </span>
+                    : {issue.message}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="py-1 text-[hsl(var(--muted-foreground))]">
+                Select a step to see its transitions and CTX
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  *
  * Renders the ReactFlow canvas for visualizing workflows.
  */
-import { useCallback, useRef, useMemo } from "react";
+import { useCallback, useEffect, useRef, useMemo, useState } from "react";
 import ReactFlow, {
   Background,
   Controls,
@@ -14,28 +14,79 @@ import ReactFlow, {
   ReactFlowInstance,
   Panel,
   ConnectionLineType,
+  Viewport,
 } from "reactflow";
 import "reactflow/dist/style.css";
 import { useWorkflowLayout } from "../hooks/useWorkflowLayout";
 import { useEdgeHighlighting } from "../hooks/useEdgeHighlighting";
 import { useNodeHandlers } from "../hooks/useNodeHandlers";
 import { useReactFlowConfig } from "../hooks/useReactFlowConfig";
+import { useEdgeRouting } from "../hooks/useEdgeRouting";
+import { useCanvasFilter } from "../hooks/useCanvasFilter";
 import { nodeTypes } from "../constants/nodeTypes";
+import { edgeTypes } from "../constants/edgeTypes";
+import { EdgeRoutingContext } from "../../edge";
 import { WorkflowLegend } from "./WorkflowLegend";
 import { WorkflowControls } from "./WorkflowControls";
 import { LayoutControls } from "./LayoutControls";
+import { ProcessingOverlay } from "./ProcessingOverlay";
+import { FilterBar } from "./FilterBar";
 import { Task } from "../../../../types/workflow";
+import { shortenTransitionLabel } from "../../shared/utils/transitionUtils";
+import {
+  applyCanvasFilter,
+  getActionPacks,
+} from "../../shared/utils/filterUtils";
+import { SearchTarget } from "../../../../lib/workflow-search";
+import { ImageExportOptions } from "../../shared/types";
+import { DiagramExportHookResult, HtmlExportHookResult } from "../types";
 
 interface WorkflowCanvasProps {
   nodes: Node<Task>[];
   edges: Edge[];
   onNodesChange: (changes: NodeChange[]) => void;
   onEdgesChange: (changes: EdgeChange[]) => void;
-  onExportSvg: (reactFlowInstance: ReactFlowInstance | null) => void;
+  onExportImage: (
+    reactFlowInstance: ReactFlowInstance | null,
+    options: ImageExportOptions
+  ) => void;
+  /** Downloads the PDF documentation of the workflow */
+  onExportPdf?: (reactFlowInstance: ReactFlowInstance | null) => void;
+  /** Copies and downloads the workflow as a Mermaid or DOT diagram */
+  diagram?: DiagramExportHookResult;
+  /** Downloads the interactive viewer as a single HTML file */
+  html?: HtmlExportHookResult;
+  isExporting?: boolean;
+  /** Error of the last image export */
+  exportError?: string | null;
   onClearWorkflow: () => void;
   updateLayoutConfig?: (
     config: import("../../shared/types").LayoutConfig
   ) => void;
+  /** Layout configuration the Auto Layout button applies */
+  layoutConfig?: import("../../shared/types").LayoutConfig;
+  /** Progress of work on the workflow running outside the canvas */
+  processingStatus?: import("../worker").WorkerProgress | null;
+  /** Worker the workflow's layouts run in, so they cancel each other */
+  layoutWorker?: import("../types").WorkflowWorkerHookResult;
+  /** Positions of nodes moved by hand, kept over computed layouts */
+  positionOverrides?: Record<string, import("reactflow").XYPosition>;
+  /** Saved viewport of the workflow */
+  viewport?: import("reactflow").Viewport;
+  /** Called when the user pans or zooms */
+  onViewportChange?: (viewport: import("reactflow").Viewport) => void;
+  /** Forgets the moved nodes and the viewport, before laying out again */
+  onResetLayout?: () => void;
+  onExportLayout?: () => void;
+  onImportLayout?: (file: File) => void;
+  /** Error of the last layout import */
+  layoutImportError?: string | null;
+  /** Result picked in the search palette, centred once its task is shown */
+  searchTarget?: SearchTarget | null;
+  /** IDs of the edges on the paths between two tasks */
+  pathEdgeIds?: Set<string>;
+  /** IDs of the edges on the path picked in the paths panel */
+  selectedPathEdgeIds?: Set<string>;
 }
 
 /**
@@ -48,9 +99,27 @@ export function WorkflowCanvas({
   edges,
   onNodesChange,
   onEdgesChange,
-  onExportSvg,
+  onExportImage,
+  onExportPdf,
+  diagram,
+  html,
+  isExporting,
+  exportError,
   onClearWorkflow,
   updateLayoutConfig,
+  layoutConfig,
+  processingStatus,
+  layoutWorker,
+  positionOverrides,
+  viewport,
+  onViewportChange,
+  onResetLayout,
+  onExportLayout,
+  onImportLayout,
+  layoutImportError,
+  searchTarget,
+  pathEdgeIds,
+  selectedPathEdgeIds,
 }: WorkflowCanvasProps) {
   // Reference to the ReactFlow instance
   const reactFlowInstanceRef = useRef<ReactFlowInstance | null>(null);
@@ -60,7 +129,7 @@ export function WorkflowCanvas({
 
   // Memoize edge highlighting to prevent unnecessary recalculations
   const { handleTransitionHover, edgesWithHighlighting, highlightedEdge } =
-    useEdgeHighlighting({ edges });
+    useEdgeHighlighting({ edges, pathEdgeIds, selectedPathEdgeIds });
 
   // Memoize node handlers to prevent unnecessary recalculations
   const { nodesWithHandlers } = useNodeHandlers({
@@ -69,11 +138,15 @@ export function WorkflowCanvas({
   });
 
   // Use the layout hook
-  const { applyLayout } = useWorkflowLayout({
+  const { applyLayout, layoutStatus } = useWorkflowLayout({
     nodes,
     edges,
     reactFlowInstanceRef,
+    config: layoutConfig,
     autoLayout: true,
+    positionOverrides,
+    viewport,
+    layoutWorker,
   });
 
   // Memoize the nodes and edges to use based on highlighting state
@@ -82,9 +155,30 @@ export function WorkflowCanvas({
     [highlightedEdge.sourceId, nodesWithHandlers, nodes]
   );
 
-  const displayEdges = useMemo(
-    () => (highlightedEdge.sourceId ? edgesWithHighlighting : edges),
-    [highlightedEdge.sourceId, edgesWithHighlighting, edges]
+  // Whether transition labels are drawn on their edges
+  const [showEdgeLabels, setShowEdgeLabels] = useState(true);
+
+  // Edges of hovered transitions and of paths between two tasks stand out
+  const displayEdges = useMemo(() => {
+    const currentEdges = edgesWithHighlighting;
+    if (!showEdgeLabels) return currentEdges;
+
+    return currentEdges.map((edge) =>
+      typeof edge.data?.label === "string"
+        ? { ...edge, label: shortenTransitionLabel(edge.data.label) }
+        : edge
+    );
+  }, [edgesWithHighlighting, showEdgeLabels]);
+
+  // Tasks narrowed down in the filter bar
+  const { filter, updateFilter, togglePack, clearFilter } = useCanvasFilter();
+  const actionPacks = useMemo(() => getActionPacks(nodes), [nodes]);
+  const selectedTaskId = nodes.find(
+    (node) => node.selected && node.type === "task"
+  )?.id;
+  const filteredCanvas = useMemo(
+    () => applyCanvasFilter(displayNodes, displayEdges, filter),
+    [displayNodes, displayEdges, filter]
   );
 
   // Handle ReactFlow initialization
@@ -96,9 +190,15 @@ export function WorkflowCanvas({
   }, []);
 
   // Handle export button click
-  const handleExportClick = useCallback(() => {
-    onExportSvg(reactFlowInstanceRef.current);
-  }, [onExportSvg]);
+  const handleExportClick = useCallback(
+    (options: ImageExportOptions) => {
+      onExportImage(reactFlowInstanceRef.current, options);
+    },
+    [onExportImage]
+  );
+  const handleExportPdfClick = useCallback(() => {
+    onExportPdf?.(reactFlowInstanceRef.current);
+  }, [onExportPdf]);
 
   // Handle auto-layout button click
   const handleAutoLayoutClick = useCallback(() => {
@@ -106,65 +206,144 @@ export function WorkflowCanvas({
     applyLayout();
   }, [applyLayout]);
 
+  // Handle reset layout button click, laying out without the moved nodes
+  const handleResetLayoutClick = useCallback(() => {
+    onResetLayout?.();
+    applyLayout(undefined, {});
+  }, [onResetLayout, applyLayout]);
+
+  // Keep the viewport the user panned or zoomed to, not programmatic moves
+  const handleMoveEnd = useCallback(
+    (event: MouseEvent | TouchEvent, nextViewport: Viewport) => {
+      if (event) onViewportChange?.(nextViewport);
+    },
+    [onViewportChange]
+  );
+
   // Handle clear button click
   const handleClearClick = useCallback(() => {
     onClearWorkflow();
   }, [onClearWorkflow]);
 
+  // Work in the worker, the canvas' own layout first
+  const status = layoutStatus || processingStatus;
+
+  // Centre on the task picked in the search palette once it is laid out
+  const centredTargetRef = useRef<SearchTarget | null>(null);
+  useEffect(() => {
+    const taskId = searchTarget?.taskId;
+    if (
+      !searchTarget ||
+      !taskId ||
+      status ||
+      centredTargetRef.current === searchTarget ||
+      !nodes.some((node) => node.id === taskId)
+    ) {
+      return;
+    }
+
+    // Wait for the node to be measured with its details expanded
+    const timer = window.setTimeout(() => {
+      const node = reactFlowInstanceRef.current?.getNode(taskId);
+      if (!node) return;
+
+      const position = node.positionAbsolute || node.position;
+      reactFlowInstanceRef.current?.setCenter(
+        position.x + (node.width || 0) / 2,
+        position.y + (node.height || 0) / 2,
+        { zoom: 1, duration: 500 }
+      );
+      centredTargetRef.current = searchTarget;
+    }, 200);
+
+    return () => window.clearTimeout(timer);
+  }, [searchTarget, nodes, status]);
+
+  // Routes of the edges around the nodes
+  const edgeRoutes = useEdgeRouting();
+
   return (
     <div className="relative flex-1 h-full min-h-[500px]">
-      <ReactFlow
-        nodes={displayNodes}
-        edges={displayEdges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onInit={onInit}
-        fitView
-        fitViewOptions={reactFlowProps.fitViewOptions}
-        connectionLineType={ConnectionLineType.SmoothStep}
-        attributionPosition="bottom-right"
-        nodeTypes={nodeTypes}
-        nodesDraggable={true}
-        minZoom={0.1}
-        maxZoom={2}
-        nodesFocusable={true}
-        elementsSelectable={true}
-        defaultEdgeOptions={reactFlowProps.defaultEdgeOptions}
-        defaultViewport={reactFlowProps.defaultViewport}
-      >
-        <Background />
-        <Controls />
-
-        {/* Legend component */}
-        <WorkflowLegend />
-
-        {/* Controls component */}
-        <WorkflowControls
-          onExportSvg={handleExportClick}
-          onClearWorkflow={handleClearClick}
-        />
-
-        {/* Layout controls component */}
-        <LayoutControls
-          onApplyLayout={(config) => {
-            console.log("Layout controls applying config:", config);
-            if (updateLayoutConfig) {
-              updateLayoutConfig(config);
-            } else {
-              applyLayout(config);
-            }
-          }}
-        />
-
-        <Panel position="top-right" className="flex gap-2 mt-16">
-          <button
-            onClick={handleAutoLayoutClick}
-            className="px-3 py-1 bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))] rounded-md text-sm"
-          >
-            Auto Layout
-          </button>
-        </Panel>
-      </ReactFlow>
+      {status && <ProcessingOverlay status={status} />}
+      <EdgeRoutingContext.Provider value={edgeRoutes}>
+        <ReactFlow
+          nodes={filteredCanvas.nodes}
+          edges={filteredCanvas.edges}
+          onNodesChange={onNodesChange}
+          onEdgesChange={onEdgesChange}
+          onInit={onInit}
+          onMoveEnd={handleMoveEnd}
+          fitView
+          fitViewOptions={reactFlowProps.fitViewOptions}
+          connectionLineType={ConnectionLineType.SmoothStep}
+          attributionPosition="bottom-right"
+          nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
+          nodesDraggable={true}
+          minZoom={0.1}
+          maxZoom={2}
+          nodesFocusable={true}
+          elementsSelectable={true}
+          defaultEdgeOptions={reactFlowProps.defaultEdgeOptions}
+          defaultViewport={reactFlowProps.defaultViewport}
+        >
+          <Background />
+          <Controls />
+
+          {/* Legend component */}
+          <WorkflowLegend />
+
+          {/* Filter and focus modes */}
+          <FilterBar
+            filter={filter}
+            onChange={updateFilter}
+            onTogglePack={togglePack}
+            onClear={clearFilter}
+            packs={actionPacks}
+            matchCount={filteredCanvas.matchCount}
+            taskCount={filteredCanvas.taskCount}
+            selectedTaskId={selectedTaskId}
+          />
+
+          {/* Controls component */}
+          <WorkflowControls
+            onExportImage={handleExportClick}
+            onExportPdf={onExportPdf && handleExportPdfClick}
+            diagram={diagram}
+            html={html}
+            isExporting={isExporting}
+            exportError={exportError}
+            onClearWorkflow={handleClearClick}
+            onResetLayout={onResetLayout && handleResetLayoutClick}
+            onExportLayout={onExportLayout}
+            onImportLayout={onImportLayout}
+            layoutImportError={layoutImportError}
+          />
+
+          {/* Layout controls component */}
+          <LayoutControls
+            showEdgeLabels={showEdgeLabels}
+            onToggleEdgeLabels={() => setShowEdgeLabels((show) => !show)}
+            onApplyLayout={(config) => {
+              console.log("Layout controls applying config:", config);
+              if (updateLayoutConfig) {
+                updateLayoutConfig(config);
+              } else {
+                applyLayout(config);
+              }
+            }}
+          />
+
+          <Panel position="top-right" className="flex gap-2 mt-16">
+            <button
+              onClick={handleAutoLayoutClick}
+              className="px-3 py-1 bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))] rounded-md text-sm"
+            >
+              Auto Layout
+            </button>
+          </Panel>
+        </ReactFlow>
+      </EdgeRoutingContext.Provider>
     </div>
   );
 }
@@ -1,36 +1,116 @@
-import { Download, Trash2 } from "lucide-react";
+import { FileDown, FileUp, RotateCcw, Trash2 } from "lucide-react";
+import { ImageExportOptions } from "../../shared/types";
+import { ExportMenu } from "./ExportMenu";
+import { DiagramExportHookResult, HtmlExportHookResult } from "../types";
 
 interface WorkflowControlsProps {
-  onExportSvg: () => void;
+  /** Downloads the whole workflow as an image */
+  onExportImage: (options: ImageExportOptions) => void;
+  /** Downloads the PDF documentation of the workflow */
+  onExportPdf?: () => void;
+  /** Copies and downloads the workflow as a Mermaid or DOT diagram */
+  diagram?: DiagramExportHookResult;
+  /** Downloads the interactive viewer as a single HTML file */
+  html?: HtmlExportHookResult;
+  isExporting?: boolean;
+  /** Error of the last image export */
+  exportError?: string | null;
   onClearWorkflow: () => void;
+  /** Lays the workflow out again, forgetting the nodes moved by hand */
+  onResetLayout?: () => void;
+  /** Downloads the kept node positions and layout settings */
+  onExportLayout?: () => void;
+  /** Loads node positions and layout settings from a file */
+  onImportLayout?: (file: File) => void;
+  /** Error of the last layout import */
+  layoutImportError?: string | null;
 }
 
 /**
  * Component for displaying workflow control buttons
  */
 export function WorkflowControls({
-  onExportSvg,
+  onExportImage,
+  onExportPdf,
+  diagram,
+  html,
+  isExporting,
+  exportError,
   onClearWorkflow,
+  onResetLayout,
+  onExportLayout,
+  onImportLayout,
+  layoutImportError,
 }: WorkflowControlsProps) {
   return (
-    <div className="absolute top-4 right-4 z-50 flex gap-2">
-      <button
-        onClick={onExportSvg}
-        className="flex items-center gap-1 px-2 py-1 bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))] rounded-md hover:bg-[hsl(var(--primary))/90] text-xs font-medium transition-colors"
-        title="Save as SVG"
-      >
-        <Download className="w-3 h-3" />
-        <span className="hidden sm:inline">Save</span>
-      </button>
+    <div className="absolute top-4 right-4 z-50 flex flex-col items-end gap-1">
+      <div className="flex gap-2">
+        {onResetLayout && (
+          <button
+            onClick={onResetLayout}
+            className="flex items-center gap-1 px-2 py-1 bg-[hsl(var(--card))] border border-[hsl(var(--border))] rounded-md hover:bg-[hsl(var(--muted))] text-xs font-medium transition-colors"
+            title="Reset to auto-layout, forgetting the nodes moved by hand"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span className="hidden sm:inline">Reset</span>
+          </button>
+        )}
 
-      <button
-        onClick={onClearWorkflow}
-        className="flex items-center gap-1 px-2 py-1 bg-[hsl(var(--destructive))] text-[hsl(var(--destructive-foreground))] rounded-md hover:bg-[hsl(var(--destructive))/90] text-xs font-medium transition-colors"
-        title="Clear Workflow"
-      >
-        <Trash2 className="w-3 h-3" />
-        <span className="hidden sm:inline">Clear</span>
-      </button>
+        {onExportLayout && (
+          <button
+            onClick={onExportLayout}
+            className="flex items-center gap-1 px-2 py-1 bg-[hsl(var(--card))] border border-[hsl(var(--border))] rounded-md hover:bg-[hsl(var(--muted))] text-xs font-medium transition-colors"
+            title="Export layout overrides"
+          >
+            <FileDown className="w-3 h-3" />
+            <span className="hidden sm:inline">Export layout</span>
+          </button>
+        )}
+
+        {onImportLayout && (
+          <label
+            className="flex items-center gap-1 px-2 py-1 bg-[hsl(var(--card))] border border-[hsl(var(--border))] rounded-md hover:bg-[hsl(var(--muted))] text-xs font-medium transition-colors cursor-pointer"
+            title="Import layout overrides"
+          >
+            <FileUp className="w-3 h-3" />
+            <span className="hidden sm:inline">Import layout</span>
+            <input
+              type="file"
+              accept=".json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportLayout(file);
+                // Allow importing the same file again
+                e.target.value = "";
+              }}
+            />
+          </label>
+        )}
+
+        <ExportMenu
+          onExport={onExportImage}
+          onExportPdf={onExportPdf}
+          diagram={diagram}
+          html={html}
+          isExporting={isExporting}
+        />
+
+        <button
+          onClick={onClearWorkflow}
+          className="flex items-center gap-1 px-2 py-1 bg-[hsl(var(--destructive))] text-[hsl(var(--destructive-foreground))] rounded-md hover:bg-[hsl(var(--destructive))/90] text-xs font-medium transition-colors"
+          title="Clear Workflow"
+        >
+          <Trash2 className="w-3 h-3" />
+          <span className="hidden sm:inline">Clear</span>
+        </button>
+      </div>
+
+      {(layoutImportError || exportError) && (
+        <p className="px-2 py-1 rounded bg-[hsl(var(--card))] text-xs text-red-500">
+          {layoutImportError || exportError}
+        </p>
+      )}
     </div>
   );
 }
@@ -5,7 +5,7 @@ import { legendItems } from "../constants/legendItems";
  */
 export function WorkflowLegend() {
   return (
-    <div className="absolute top-4 left-4 z-50 bg-[hsl(var(--card))]/90 backdrop-blur-sm p-3 rounded-lg shadow-lg border border-[hsl(var(--border))] max-w-[250px]">
+    <div className="workflow-legend absolute top-4 left-4 z-50 bg-[hsl(var(--card))]/90 backdrop-blur-sm p-3 rounded-lg shadow-lg border border-[hsl(var(--border))] max-w-[250px]">
       <div className="flex flex-wrap gap-2">
         {legendItems.map((item, index) =>
           item.type === "transition" ? (
@@ -4,17 +4,27 @@
  * Renders the navigation bar for the workflow viewer, including workflow selection
  * and breadcrumb navigation.
  */
-import { WorkflowBundle } from "../../../../types/workflow";
+import { Network, Search } from "lucide-react";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
 import { WorkflowSelector } from "./WorkflowSelector";
 import { WorkflowBreadcrumb } from "./WorkflowBreadcrumb";
+import { DocsMenu } from "./DocsMenu";
+import { BundleDocsHookResult } from "../types";
 
 interface WorkflowNavigationProps {
-  template: WorkflowBundle;
+  template: NormalizedWorkflowBundle;
   selectedWorkflowId: string | null;
   workflowHierarchy: Array<{ id: string; name: string }>;
   workflowRelationships: Map<string, { parents: string[]; children: string[] }>;
   onWorkflowSelect: (id: string) => void;
   onBreadcrumbNavigate: (id: string, index: number) => void;
+  /** Whether the bundle overview is shown instead of the task graph */
+  isOverview: boolean;
+  onToggleOverview: () => void;
+  /** Opens the search palette */
+  onOpenSearch?: () => void;
+  /** Generates the Markdown documentation of every workflow */
+  docs?: BundleDocsHookResult;
 }
 
 /**
@@ -29,6 +39,10 @@ export function WorkflowNavigation({
   workflowRelationships,
   onWorkflowSelect,
   onBreadcrumbNavigate,
+  isOverview,
+  onToggleOverview,
+  onOpenSearch,
+  docs,
 }: WorkflowNavigationProps) {
   // Get the list of workflows for the selector
   const workflows = Object.values(template.objects)
@@ -57,8 +71,40 @@ export function WorkflowNavigation({
           onSelect={onWorkflowSelect}
         />
 
+        {/* Bundle overview toggle */}
+        <button
+          onClick={onToggleOverview}
+          className={`px-3 py-2 text-sm rounded-md flex items-center gap-1 ${
+            isOverview
+              ? "bg-[hsl(var(--primary))] text-[hsl(var(--primary-foreground))]"
+              : "bg-[hsl(var(--muted))] hover:bg-[hsl(var(--muted-foreground)/0.2)]"
+          }`}
+          title="Show every workflow of the bundle and the calls between them"
+        >
+          <Network className="w-4 h-4" />
+          Bundle overview
+        </button>
+
+        {/* Search across every workflow */}
+        {onOpenSearch && (
+          <button
+            onClick={onOpenSearch}
+            className="px-3 py-2 text-sm rounded-md flex items-center gap-1 bg-[hsl(var(--muted))] hover:bg-[hsl(var(--muted-foreground)/0.2)]"
+            title="Search the tasks of every workflow (Ctrl+K)"
+          >
+            <Search className="w-4 h-4" />
+            Search
+            <kbd className="ml-1 px-1 rounded border border-[hsl(var(--border))] text-[10px] text-[hsl(var(--muted-foreground))]">
+              Ctrl K
+            </kbd>
+          </button>
+        )}
+
+        {/* Markdown documentation of the bundle */}
+        {docs && <DocsMenu {...docs} />}
+
         {/* Breadcrumb Navigation */}
-        {workflowHierarchy.length > 0 && (
+        {!isOverview && workflowHierarchy.length > 0 && (
           <WorkflowBreadcrumb
             workflowHierarchy={workflowHierarchy}
             workflowRelationships={workflowRelationships}
@@ -71,7 +117,7 @@ export function WorkflowNavigation({
         )}
 
         {/* Back to Parent Button */}
-        {workflowHierarchy.length > 1 && (
+        {!isOverview && workflowHierarchy.length > 1 && (
           <button
             onClick={() =>
               onBreadcrumbNavigate(
@@ -0,0 +1,11 @@
+import { EdgeTypes } from "reactflow";
+import { OrthogonalEdge } from "../../edge";
+import { ORTHOGONAL_EDGE_TYPE } from "../../shared/constants";
+
+/**
+ * Edge types for the ReactFlow component
+ * Maps edge type identifiers to their respective React components
+ */
+export const edgeTypes: EdgeTypes = {
+  [ORTHOGONAL_EDGE_TYPE]: OrthogonalEdge,
+};
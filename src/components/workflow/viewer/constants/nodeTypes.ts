@@ -1,5 +1,8 @@
 import { NodeTypes } from "reactflow";
 import { TaskNode } from "../../node/TaskNode";
+import { WorkflowSummaryNode } from "../../node/WorkflowSummaryNode";
+import { SubWorkflowGroupNode } from "../../node/SubWorkflowGroupNode";
+import { SUB_WORKFLOW_GROUP_TYPE } from "../layout";
 
 /**
  * Node types for the ReactFlow component
@@ -7,4 +10,6 @@ import { TaskNode } from "../../node/TaskNode";
  */
 export const nodeTypes: NodeTypes = {
   task: TaskNode,
+  workflow: WorkflowSummaryNode,
+  [SUB_WORKFLOW_GROUP_TYPE]: SubWorkflowGroupNode,
 };
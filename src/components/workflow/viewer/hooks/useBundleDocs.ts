@@ -0,0 +1,116 @@
+/**
+ * Hook for generating the Markdown documentation of every workflow of a bundle
+ */
+import { useCallback, useMemo } from "react";
+import {
+  NormalizedWorkflowBundle,
+  WorkflowObject,
+} from "../../../../types/workflow";
+import { buildWorkflowDoc } from "../../../../lib/workflow-docs";
+import {
+  WorkflowMarkdownEntry,
+  createBundleMarkdown,
+  createWorkflowMarkdown,
+} from "../../../../lib/workflow-markdown";
+import { createZip } from "../../../../lib/zip-writer";
+import { extractTriggers } from "../../shared/utils/triggerUtils";
+import {
+  getTaskDiagramElements,
+  toMermaid,
+} from "../../shared/utils/diagramUtils";
+import {
+  downloadBlob,
+  getDownloadFileName,
+} from "../../shared/utils/downloadUtils";
+import { BundleDocsHookResult } from "../types";
+
+/**
+ * Hook for generating the Markdown documentation of every workflow of a bundle
+ * Each workflow gets its parameters, output, triggers, a Mermaid diagram of
+ * its tasks and a task table, see `createWorkflowMarkdown`.
+ * @param template The normalized workflow template
+ * @returns The number of workflows and functions downloading their docs
+ */
+export function useBundleDocs(
+  template: NormalizedWorkflowBundle
+): BundleDocsHookResult {
+  const workflowKeys = useMemo(
+    () =>
+      Object.keys(template.objects).filter(
+        (key) => template.objects[key].type === "workflow"
+      ),
+    [template]
+  );
+
+  // Named after the workflow no other one calls, the one the bundle exports
+  const title = useMemo(() => {
+    const root = workflowKeys
+      .map((key) => template.objects[key] as WorkflowObject)
+      .find((workflow) => !workflow.fields.parent_workflow_id);
+    return root?.nonfunctional_fields?.name || "Workflow bundle";
+  }, [template, workflowKeys]);
+
+  /**
+   * Documents every workflow, diagrams drawn from the bundle as the other
+   * workflows aren't on the canvas
+   */
+  const buildEntries = useCallback((): WorkflowMarkdownEntry[] => {
+    const triggers = extractTriggers(template);
+
+    return workflowKeys.flatMap((key) => {
+      const doc = buildWorkflowDoc(template, key, triggers);
+      if (!doc) return [];
+
+      const workflow = template.objects[key] as WorkflowObject;
+      const { nodes, edges } = getTaskDiagramElements(
+        (workflow.fields.tasks || []).filter((task) => task?.id)
+      );
+      return [{ doc, diagram: toMermaid(nodes, edges, doc.name) }];
+    });
+  }, [template, workflowKeys]);
+
+  const downloadMarkdown = useCallback(() => {
+    downloadBlob(
+      new Blob([createBundleMarkdown(title, buildEntries())], {
+        type: "text/markdown;charset=utf-8",
+      }),
+      getDownloadFileName(title, "md")
+    );
+  }, [title, buildEntries]);
+
+  const downloadZip = useCallback(() => {
+    const entries = buildEntries();
+
+    // Workflows sharing a name get numbered files
+    const usedNames = new Set(["readme.md"]);
+    const files = entries.map((entry) => {
+      const base = getDownloadFileName(entry.doc.name, "md").slice(0, -3);
+      let name = `${base}.md`;
+      for (let index = 2; usedNames.has(name); index++) {
+        name = `${base}-${index}.md`;
+      }
+      usedNames.add(name);
+      return { name, data: createWorkflowMarkdown(entry) };
+    });
+
+    const index = [
+      `# ${title}`,
+      "",
+      ...entries.map(({ doc }, i) => `- [${doc.name}](${files[i].name})`),
+      "",
+    ].join("\n");
+
+    downloadBlob(
+      new Blob([createZip([{ name: "README.md", data: index }, ...files])], {
+        type: "application/zip",
+      }),
+      getDownloadFileName(title, "zip")
+    );
+  }, [title, buildEntries]);
+
+  return {
+    workflowCount: workflowKeys.length,
+    downloadMarkdown,
+    downloadZip,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Hook for building the bundle overview canvas
+ */
+import { useMemo } from "react";
+import { Edge, MarkerType, Node } from "reactflow";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import { buildCallGraph } from "../../../../lib/workflow-callgraph";
+import { DEFAULT_LAYOUT_CONFIG } from "../../shared/constants";
+import { LayoutConfig } from "../../shared/types";
+import { DagLayout, LayoutEngine } from "../layout";
+import { BundleOverviewHookResult } from "../types";
+
+/**
+ * Layout of the overview, tighter than the task graph as its nodes are smaller
+ */
+const OVERVIEW_LAYOUT_CONFIG = {
+  ...DEFAULT_LAYOUT_CONFIG,
+  nodeSpacing: 320,
+  rankSpacing: 220,
+} as LayoutConfig;
+
+/**
+ * Hook for laying out every workflow of a bundle with the calls between them
+ * @param template The normalized workflow template
+ * @param selectedWorkflowId The ID of the workflow selected in the task view
+ * @returns The call graph and the overview's nodes and edges
+ */
+export function useBundleOverview(
+  template: NormalizedWorkflowBundle,
+  selectedWorkflowId: string | null
+): BundleOverviewHookResult {
+  const callGraph = useMemo(() => buildCallGraph(template), [template]);
+
+  const edges = useMemo<Edge[]>(
+    () =>
+      callGraph.calls.map((call) => ({
+        id: `call-${call.callerId}-${call.calleeId}`,
+        source: call.callerId,
+        target: call.calleeId,
+        type: "smoothstep",
+        label:
+          call.taskNames.length > 1
+            ? `${call.taskNames.length} calls`
+            : call.taskNames[0],
+        markerEnd: { type: MarkerType.ArrowClosed },
+        style: { stroke: "hsl(var(--workflow-blue))", strokeWidth: 2 },
+      })),
+    [callGraph]
+  );
+
+  // Only the workflows and calls decide the layout, not the selection
+  const positions = useMemo(() => {
+    const nodes: Node[] = callGraph.workflows.map((workflow) => ({
+      id: workflow.id,
+      position: { x: 0, y: 0 },
+      data: {},
+    }));
+    const engine = new LayoutEngine(new DagLayout(), OVERVIEW_LAYOUT_CONFIG);
+
+    return new Map(
+      engine.applyLayout(nodes, edges).map((node) => [node.id, node.position])
+    );
+  }, [callGraph, edges]);
+
+  const nodes = useMemo<Node[]>(
+    () =>
+      callGraph.workflows.map((workflow) => ({
+        id: workflow.id,
+        type: "workflow",
+        position: positions.get(workflow.id) || { x: 0, y: 0 },
+        data: { workflow, isSelected: workflow.id === selectedWorkflowId },
+      })),
+    [callGraph, positions, selectedWorkflowId]
+  );
+
+  return { callGraph, nodes, edges };
+}
@@ -0,0 +1,59 @@
+/**
+ * Hook for the filter of the tasks shown on the canvas
+ */
+import { useCallback, useEffect, useState } from "react";
+import { CanvasFilter } from "../../shared/types";
+import { DEFAULT_CANVAS_FILTER } from "../../shared/constants";
+import {
+  readCanvasFilter,
+  writeCanvasFilter,
+} from "../../shared/utils/filterUtils";
+import { CanvasFilterHookResult } from "../types";
+
+/**
+ * Hook for the filter of the tasks shown on the canvas
+ * The filter is read from the URL query on mount and written back to it on
+ * every change, so a filtered view can be bookmarked or shared.
+ * @returns The filter and functions to change it
+ */
+export function useCanvasFilter(): CanvasFilterHookResult {
+  const [filter, setFilter] = useState<CanvasFilter>(() =>
+    readCanvasFilter(new URLSearchParams(window.location.search))
+  );
+
+  // Keep the URL in step without adding history entries
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    writeCanvasFilter(filter, params);
+
+    const query = params.toString();
+    if (query !== window.location.search.replace(/^\?/, "")) {
+      window.history.replaceState(
+        window.history.state,
+        "",
+        `${window.location.pathname}${query ? `?${query}` : ""}${
+          window.location.hash
+        }`
+      );
+    }
+  }, [filter]);
+
+  const updateFilter = useCallback((update: Partial<CanvasFilter>) => {
+    setFilter((prev) => ({ ...prev, ...update }));
+  }, []);
+
+  const togglePack = useCallback((pack: string) => {
+    setFilter((prev) => ({
+      ...prev,
+      packs: prev.packs.includes(pack)
+        ? prev.packs.filter((selected) => selected !== pack)
+        : [...prev.packs, pack],
+    }));
+  }, []);
+
+  const clearFilter = useCallback(() => {
+    setFilter((prev) => ({ ...DEFAULT_CANVAS_FILTER, mode: prev.mode }));
+  }, []);
+
+  return { filter, updateFilter, togglePack, clearFilter };
+}
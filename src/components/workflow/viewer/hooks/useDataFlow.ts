@@ -0,0 +1,65 @@
+/**
+ * Hook for the CTX variable data-flow of the selected workflow
+ */
+import { useEffect, useMemo, useState } from "react";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import {
+  DataFlowAnalysis,
+  DataFlowRole,
+  analyzeDataFlow,
+  getDataFlowRoles,
+} from "../../../../lib/workflow-dataflow";
+import { DataFlowHookResult } from "../types";
+
+/**
+ * Analysis returned when no workflow is selected
+ */
+const EMPTY_ANALYSIS: DataFlowAnalysis = {
+  variables: [],
+  undefinedUses: [],
+  unusedDefinitions: [],
+};
+
+/**
+ * Hook for the CTX variable data-flow of the selected workflow
+ * @param template The normalized workflow template
+ * @param selectedWorkflowId The ID of the selected workflow
+ * @returns The analysis, the selected variable and the task roles for it
+ */
+export function useDataFlow(
+  template: NormalizedWorkflowBundle,
+  selectedWorkflowId: string | null
+): DataFlowHookResult {
+  const [selectedVariable, setSelectedVariable] = useState<string | null>(null);
+
+  // Analyze the selected workflow
+  const analysis = useMemo(() => {
+    if (!selectedWorkflowId) return EMPTY_ANALYSIS;
+
+    const workflow = Object.values(template.objects).find(
+      (obj) => obj.type === "workflow" && obj.fields.id === selectedWorkflowId
+    );
+
+    return workflow ? analyzeDataFlow(workflow) : EMPTY_ANALYSIS;
+  }, [template, selectedWorkflowId]);
+
+  // Clear the selection when switching workflows
+  useEffect(() => {
+    setSelectedVariable(null);
+  }, [selectedWorkflowId]);
+
+  // Producers and consumers of the selected variable
+  const rolesByTask = useMemo(() => {
+    const variable = analysis.variables.find((v) => v.key === selectedVariable);
+    return variable
+      ? getDataFlowRoles(variable)
+      : new Map<string, DataFlowRole>();
+  }, [analysis, selectedVariable]);
+
+  return {
+    analysis,
+    selectedVariable,
+    selectVariable: setSelectedVariable,
+    rolesByTask,
+  };
+}
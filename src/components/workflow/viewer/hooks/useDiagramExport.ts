@@ -0,0 +1,75 @@
+/**
+ * Hook for exporting the selected workflow as a Mermaid or DOT diagram
+ */
+import { useCallback, useEffect, useState } from "react";
+import { Edge, Node } from "reactflow";
+import { DiagramFormat, LayoutConfig } from "../../shared/types";
+import { DIAGRAM_FORMATS } from "../../shared/constants";
+import { toDiagram } from "../../shared/utils/diagramUtils";
+import {
+  downloadBlob,
+  getDownloadFileName,
+} from "../../shared/utils/downloadUtils";
+import { DiagramExportHookResult } from "../types";
+
+/**
+ * How long a copied diagram is confirmed, in milliseconds
+ */
+const COPIED_CONFIRMATION_MS = 2000;
+
+/**
+ * Hook for exporting the selected workflow as a Mermaid or DOT diagram
+ * @param nodes The nodes of the workflow, with its expanded sub-workflows
+ * @param edges The edges of the workflow
+ * @param title The name of the workflow
+ * @param direction The direction of the layout, kept by the diagram
+ * @returns Functions copying and downloading the diagram
+ */
+export function useDiagramExport(
+  nodes: Node[],
+  edges: Edge[],
+  title = "Workflow",
+  direction?: LayoutConfig["direction"]
+): DiagramExportHookResult {
+  const [copiedFormat, setCopiedFormat] = useState<DiagramFormat | null>(null);
+  const [copyError, setCopyError] = useState<string | null>(null);
+
+  const copyDiagram = useCallback(
+    async (format: DiagramFormat) => {
+      setCopyError(null);
+      try {
+        await navigator.clipboard.writeText(
+          toDiagram(format, nodes, edges, title, direction)
+        );
+        setCopiedFormat(format);
+      } catch {
+        setCopyError("The browser didn't allow copying, download it instead");
+      }
+    },
+    [nodes, edges, title, direction]
+  );
+
+  // Confirm the copy for a moment
+  useEffect(() => {
+    if (!copiedFormat) return;
+    const timer = window.setTimeout(
+      () => setCopiedFormat(null),
+      COPIED_CONFIRMATION_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [copiedFormat]);
+
+  const downloadDiagram = useCallback(
+    (format: DiagramFormat) => {
+      downloadBlob(
+        new Blob([toDiagram(format, nodes, edges, title, direction)], {
+          type: "text/plain;charset=utf-8",
+        }),
+        getDownloadFileName(title, DIAGRAM_FORMATS[format].extension)
+      );
+    },
+    [nodes, edges, title, direction]
+  );
+
+  return { copyDiagram, downloadDiagram, copiedFormat, copyError };
+}
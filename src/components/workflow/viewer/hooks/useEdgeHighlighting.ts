@@ -3,13 +3,22 @@ import { Edge } from "reactflow";
 
 interface UseEdgeHighlightingProps {
   edges: Edge[];
+  /** IDs of the edges on the paths between two picked tasks */
+  pathEdgeIds?: Set<string>;
+  /** IDs of the edges on the path picked in the paths panel */
+  selectedPathEdgeIds?: Set<string>;
 }
 
 /**
  * Custom hook for managing edge highlighting in the workflow
- * Handles highlighting edges when transitions are hovered
+ * Handles highlighting edges when transitions are hovered, and the paths
+ * between two tasks otherwise
  */
-export function useEdgeHighlighting({ edges }: UseEdgeHighlightingProps) {
+export function useEdgeHighlighting({
+  edges,
+  pathEdgeIds,
+  selectedPathEdgeIds,
+}: UseEdgeHighlightingProps) {
   // State for tracking highlighted edges
   const [highlightedEdge, setHighlightedEdge] = useState<{
     sourceId: string | null;
@@ -27,13 +36,42 @@ export function useEdgeHighlighting({ edges }: UseEdgeHighlightingProps) {
     []
   );
 
+  // Highlight the paths between two tasks, the picked one above the others
+  const edgesWithPaths = useMemo(() => {
+    if (!pathEdgeIds || pathEdgeIds.size === 0) {
+      return edges;
+    }
+
+    return edges.map((edge) => {
+      if (!pathEdgeIds.has(edge.id)) {
+        return { ...edge, style: { ...edge.style, opacity: 0.3 }, zIndex: 0 };
+      }
+
+      const isSelected = selectedPathEdgeIds?.has(edge.id);
+      return {
+        ...edge,
+        style: {
+          ...edge.style,
+          stroke: "hsl(var(--workflow-purple))",
+          strokeWidth: isSelected ? 5 : 3,
+          opacity:
+            selectedPathEdgeIds && selectedPathEdgeIds.size > 0 && !isSelected
+              ? 0.5
+              : 1,
+        },
+        animated: isSelected || edge.animated,
+        zIndex: isSelected ? 1000 : 500,
+      };
+    });
+  }, [edges, pathEdgeIds, selectedPathEdgeIds]);
+
   // Apply highlighting to edges when a transition is hovered
   const edgesWithHighlighting = useMemo(() => {
     if (!highlightedEdge.sourceId || highlightedEdge.transitionIndex === null) {
-      return edges;
+      return edgesWithPaths;
     }
 
-    const highlightedEdges = edges.map((edge) => {
+    const highlightedEdges = edgesWithPaths.map((edge) => {
       if (
         edge.source === highlightedEdge.sourceId &&
         edge.sourceHandle === `transition-${highlightedEdge.transitionIndex}`
@@ -62,7 +100,7 @@ export function useEdgeHighlighting({ edges }: UseEdgeHighlightingProps) {
     });
 
     return highlightedEdges;
-  }, [edges, highlightedEdge]);
+  }, [edgesWithPaths, highlightedEdge]);
 
   return {
     highlightedEdge,
@@ -0,0 +1,197 @@
+/**
+ * Hook for routing the edges of the canvas around its nodes
+ */
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  HandleElement,
+  Node,
+  Position,
+  XYPosition,
+  internalsSymbol,
+  useStore,
+} from "reactflow";
+import { EdgeRoute, EdgeRouteRequest, RouteObstacle } from "../layout";
+import { WorkflowWorkerClient } from "../worker";
+import { ORTHOGONAL_EDGE_TYPE } from "../../shared/constants";
+
+/**
+ * Largest number of nodes routed, larger workflows keep smooth step edges
+ */
+const MAX_ROUTED_NODES = 150;
+
+/**
+ * Delay before routing, so bursts of changes such as nodes being measured
+ * one after the other are routed once
+ */
+const ROUTE_DELAY_MS = 50;
+
+/**
+ * Estimated size of a character and padding of edge labels
+ */
+const LABEL_CHAR_WIDTH = 7;
+const LABEL_PADDING = 16;
+const LABEL_HEIGHT = 22;
+
+/**
+ * Gets the point an edge attaches to on a handle, as ReactFlow does
+ * @param node The node, with its measured handles
+ * @param handle The handle
+ * @returns The point, in flow coordinates
+ */
+const getHandlePoint = (node: Node, handle: HandleElement): XYPosition => {
+  const x = (node.positionAbsolute?.x ?? node.position.x) + handle.x;
+  const y = (node.positionAbsolute?.y ?? node.position.y) + handle.y;
+
+  switch (handle.position) {
+    case Position.Top:
+      return { x: x + handle.width / 2, y };
+    case Position.Right:
+      return { x: x + handle.width, y: y + handle.height / 2 };
+    case Position.Bottom:
+      return { x: x + handle.width / 2, y: y + handle.height };
+    case Position.Left:
+    default:
+      return { x, y: y + handle.height / 2 };
+  }
+};
+
+/**
+ * Finds a handle of a node
+ * @param node The node
+ * @param type Whether the handle is a source or a target
+ * @param handleId The handle ID, or the first handle if not set
+ * @returns The handle, or undefined if the node hasn't been measured
+ */
+const findHandle = (
+  node: Node,
+  type: "source" | "target",
+  handleId?: string | null
+): HandleElement | undefined => {
+  const handles = node[internalsSymbol]?.handleBounds?.[type] || [];
+  return handleId
+    ? handles.find((handle) => handle.id === handleId)
+    : handles[0];
+};
+
+/**
+ * Hook for routing the edges of the canvas around its nodes
+ * Routes follow the nodes as measured and placed by ReactFlow, and are computed
+ * in the workflow worker with its own client, so routing never cancels a
+ * layout. Until the new routes arrive the previous ones are kept, and edges
+ * whose handles moved, such as those of a dragged node, fall back to smooth
+ * steps.
+ * @returns The route of every orthogonal edge, by edge ID
+ */
+export function useEdgeRouting(): Map<string, EdgeRoute> {
+  const nodeInternals = useStore((state) => state.nodeInternals);
+  const edges = useStore((state) => state.edges);
+  const clientRef = useRef<WorkflowWorkerClient | null>(null);
+  const routedKeyRef = useRef("");
+  const [routes, setRoutes] = useState<Map<string, EdgeRoute>>(
+    () => new Map()
+  );
+
+  // Stop the worker with the component
+  useEffect(
+    () => () => {
+      clientRef.current?.dispose();
+      clientRef.current = null;
+    },
+    []
+  );
+
+  // What to route, or null to keep the current routes
+  const routing = useMemo(() => {
+    const nodes = Array.from(nodeInternals.values()).filter(
+      (node) => !node.hidden
+    );
+
+    if (nodes.some((node) => node.dragging)) return null;
+    if (nodes.length > MAX_ROUTED_NODES) {
+      return { requests: [], obstacles: [], key: "" };
+    }
+
+    // Groups hold the nodes edges run to, only the nodes inside are obstacles
+    const parentIds = new Set(nodes.map((node) => node.parentNode));
+    const obstacles: RouteObstacle[] = nodes
+      .filter((node) => !parentIds.has(node.id) && node.width && node.height)
+      .map((node) => ({
+        x: node.positionAbsolute?.x ?? node.position.x,
+        y: node.positionAbsolute?.y ?? node.position.y,
+        width: node.width as number,
+        height: node.height as number,
+      }));
+
+    const requests = edges.flatMap((edge): EdgeRouteRequest[] => {
+      if (edge.hidden || edge.type !== ORTHOGONAL_EDGE_TYPE) return [];
+
+      const sourceNode = nodeInternals.get(edge.source);
+      const targetNode = nodeInternals.get(edge.target);
+      if (!sourceNode || !targetNode || sourceNode.hidden || targetNode.hidden)
+        return [];
+
+      const sourceHandle = findHandle(sourceNode, "source", edge.sourceHandle);
+      const targetHandle = findHandle(targetNode, "target", edge.targetHandle);
+      if (!sourceHandle || !targetHandle) return [];
+
+      const label = typeof edge.label === "string" ? edge.label : undefined;
+
+      return [
+        {
+          id: edge.id,
+          source: getHandlePoint(sourceNode, sourceHandle),
+          sourcePosition: sourceHandle.position,
+          target: getHandlePoint(targetNode, targetHandle),
+          targetPosition: targetHandle.position,
+          bundleKey: `${edge.source}:${edge.sourceHandle || ""}`,
+          labelSize: label
+            ? {
+                width: label.length * LABEL_CHAR_WIDTH + LABEL_PADDING,
+                height: LABEL_HEIGHT,
+              }
+            : undefined,
+        },
+      ];
+    });
+
+    // Restyled edges, such as highlighted ones, keep their routes
+    return {
+      requests,
+      obstacles,
+      key: requests.length > 0 ? JSON.stringify([requests, obstacles]) : "",
+    };
+  }, [nodeInternals, edges]);
+
+  useEffect(() => {
+    if (!routing) return;
+    if (routing.key === routedKeyRef.current) {
+      // Drop older routes still being computed
+      clientRef.current?.cancel();
+      return;
+    }
+
+    if (!routing.key) {
+      clientRef.current?.cancel();
+      routedKeyRef.current = "";
+      setRoutes(new Map());
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      if (!clientRef.current) clientRef.current = new WorkflowWorkerClient();
+      clientRef.current
+        .route(routing.requests, routing.obstacles)
+        .then((result) => {
+          // Cancelled by newer routes
+          if (!result) return;
+          routedKeyRef.current = routing.key;
+          setRoutes(new Map(Object.entries(result)));
+        })
+        .catch((error) => console.error("Failed to route edges", error));
+    }, ROUTE_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [routing]);
+
+  return routes;
+}
@@ -0,0 +1,157 @@
+/**
+ * Hook for replaying an execution log exported from Rewst onto the graph
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import {
+  ExecutionLog,
+  getExecutionSnapshot,
+  mapExecutionToWorkflow,
+  parseExecutionLog,
+} from "../../../../lib/workflow-execution";
+import { getTransitionEdgeId } from "../../shared/utils/transitionUtils";
+import { ExecutionReplayHookResult } from "../types";
+
+/**
+ * Delay between replayed task runs, in milliseconds
+ */
+const REPLAY_INTERVAL = 400;
+
+/**
+ * Hook for loading an execution log and replaying it on the selected workflow
+ * @param template The normalized workflow template
+ * @param selectedWorkflowId The ID of the selected workflow
+ * @returns The loaded log, the replay state and the node and edge states
+ */
+export function useExecutionReplay(
+  template: NormalizedWorkflowBundle,
+  selectedWorkflowId: string | null
+): ExecutionReplayHookResult {
+  const workflow = useMemo(
+    () =>
+      Object.values(template.objects).find(
+        (obj) => obj.type === "workflow" && obj.fields.id === selectedWorkflowId
+      ),
+    [template, selectedWorkflowId]
+  );
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [log, setLog] = useState<ExecutionLog | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // The same log is mapped again when switching workflows, e.g. to see the
+  // runs of a sub-workflow's tasks
+  const replay = useMemo(
+    () => (log && workflow ? mapExecutionToWorkflow(log, workflow) : null),
+    [log, workflow]
+  );
+
+  // Show the whole run once the log is mapped
+  useEffect(() => {
+    setPosition(replay ? replay.events.length : 0);
+    setIsPlaying(false);
+  }, [replay]);
+
+  const loadFile = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const data = JSON.parse(e.target?.result as string);
+        setLog(parseExecutionLog(data));
+        setFileName(file.name);
+        setLoadError(null);
+      } catch (error) {
+        console.error("Error loading execution log:", error);
+        setLoadError(
+          error instanceof SyntaxError
+            ? "The file is not valid JSON"
+            : error instanceof Error
+            ? error.message
+            : String(error)
+        );
+      }
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const clear = useCallback(() => {
+    setLog(null);
+    setFileName(null);
+    setLoadError(null);
+  }, []);
+
+  // Replay from the start unless paused part way through
+  const play = useCallback(() => {
+    if (!replay) return;
+    if (position >= replay.events.length) setPosition(0);
+    setIsPlaying(true);
+  }, [replay, position]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback((next: number) => {
+    setIsPlaying(false);
+    setPosition(next);
+  }, []);
+
+  // Apply the task runs one at a time
+  useEffect(() => {
+    if (!isPlaying || !replay) return;
+    if (position >= replay.events.length) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(
+      () => setPosition((current) => current + 1),
+      REPLAY_INTERVAL
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, replay, position]);
+
+  const snapshot = useMemo(
+    () =>
+      replay && workflow
+        ? getExecutionSnapshot(replay, workflow, position)
+        : null,
+    [replay, workflow, position]
+  );
+
+  const statusByTask = useMemo(
+    () => snapshot?.statusByTask || new Map(),
+    [snapshot]
+  );
+  const executionByTask = useMemo(
+    () => snapshot?.executionByTask || new Map(),
+    [snapshot]
+  );
+
+  const takenEdgeIds = useMemo(
+    () =>
+      new Set(
+        (snapshot?.takenEdges || []).map((edge) =>
+          getTransitionEdgeId(edge.source, edge.transitionIndex, edge.target)
+        )
+      ),
+    [snapshot]
+  );
+
+  return {
+    fileName,
+    log,
+    replay,
+    loadError,
+    loadFile,
+    clear,
+    position,
+    setPosition: seek,
+    isPlaying,
+    play,
+    pause,
+    statusByTask,
+    executionByTask,
+    takenEdgeIds,
+  };
+}
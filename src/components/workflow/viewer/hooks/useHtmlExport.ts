@@ -0,0 +1,125 @@
+/**
+ * Hook for exporting the interactive viewer as a single HTML file
+ */
+import { useCallback, useState } from "react";
+import { WorkflowBundle } from "../../../../types/workflow";
+import { createStandaloneHtml } from "../../../../lib/standalone-html";
+import { redactWorkflowBundle } from "../../../../lib/workflow-redaction";
+import {
+  downloadBlob,
+  getDownloadFileName,
+} from "../../shared/utils/downloadUtils";
+import { HtmlExportHookResult } from "../types";
+
+/**
+ * Reads a file of the running viewer build
+ * @param url The URL of the file
+ * @returns The file content
+ */
+const fetchText = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to read ${url}: ${response.status}`);
+  }
+  return response.text();
+};
+
+/**
+ * Reads the scripts and style sheets of the running viewer build
+ * Files are read back from the server, or from the page itself when it is a
+ * standalone export already. Style sheets of other sites, like web fonts,
+ * are left out.
+ * @returns The code of the module scripts and the style sheets
+ */
+const readViewerBuild = async (): Promise<{
+  scripts: string[];
+  styles: string[];
+}> => {
+  const scriptElements = Array.from(
+    document.querySelectorAll<HTMLScriptElement>('script[type="module"]')
+  );
+  const styleElements = Array.from(
+    document.querySelectorAll<HTMLLinkElement | HTMLStyleElement>(
+      'link[rel="stylesheet"], style'
+    )
+  ).filter(
+    (element) =>
+      !(element instanceof HTMLLinkElement) ||
+      new URL(element.href, window.location.href).origin ===
+        window.location.origin
+  );
+
+  const [scripts, styles] = await Promise.all([
+    Promise.all(
+      scriptElements.map((element) =>
+        element.src ? fetchText(element.src) : element.textContent || ""
+      )
+    ),
+    Promise.all(
+      styleElements.map((element) =>
+        element instanceof HTMLLinkElement
+          ? fetchText(element.href)
+          : element.textContent || ""
+      )
+    ),
+  ]);
+
+  return { scripts, styles };
+};
+
+/**
+ * Hook for exporting the interactive viewer as a single HTML file
+ * The file embeds the bundle and the minified viewer build, and opens the
+ * graph, the task details, the workflow selector and the breadcrumbs offline.
+ * @param template The bundle as loaded, normalized again when the file opens
+ * @param title The name of the shown workflow, titling the page
+ * @returns Function downloading the file, and the export state
+ */
+export function useHtmlExport(
+  template: WorkflowBundle,
+  title = "Workflow"
+): HtmlExportHookResult {
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const downloadHtml = useCallback(
+    async (redact: boolean) => {
+      setExportError(null);
+
+      // The dev server serves source modules, not a build that can be inlined
+      if (import.meta.env.DEV) {
+        setExportError("The HTML export needs a production build");
+        return;
+      }
+
+      setIsExporting(true);
+      try {
+        const { scripts, styles } = await readViewerBuild();
+        const html = createStandaloneHtml({
+          bundle: redact ? redactWorkflowBundle(template) : template,
+          title,
+          isRedacted: redact,
+          scripts,
+          styles,
+          theme: document.documentElement.classList.contains("dark")
+            ? "dark"
+            : "light",
+        });
+
+        downloadBlob(
+          new Blob([html], { type: "text/html;charset=utf-8" }),
+          getDownloadFileName(title, "html")
+        );
+      } catch (error) {
+        setExportError(
+          error instanceof Error ? error.message : "The export failed"
+        );
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [template, title]
+  );
+
+  return { downloadHtml, isExporting, exportError };
+}
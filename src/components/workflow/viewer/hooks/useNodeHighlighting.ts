@@ -0,0 +1,42 @@
+import { useState, useMemo } from "react";
+import { Node } from "reactflow";
+
+interface UseNodeHighlightingProps {
+  nodes: Node[];
+}
+
+/**
+ * Custom hook for managing node highlighting in the workflow
+ * Handles highlighting the task the debugger is currently on
+ */
+export function useNodeHighlighting({ nodes }: UseNodeHighlightingProps) {
+  // State for tracking the highlighted node
+  const [highlightedNodeId, setHighlightedNodeId] = useState<string | null>(
+    null
+  );
+
+  // Apply highlighting to the node
+  const nodesWithHighlighting = useMemo(() => {
+    if (!highlightedNodeId) {
+      return nodes;
+    }
+
+    return nodes.map((node) =>
+      node.id === highlightedNodeId
+        ? {
+            ...node,
+            className: [node.className, "node-highlighted"]
+              .filter(Boolean)
+              .join(" "),
+            zIndex: 1000,
+          }
+        : node
+    );
+  }, [nodes, highlightedNodeId]);
+
+  return {
+    highlightedNodeId,
+    setHighlightedNodeId,
+    nodesWithHighlighting,
+  };
+}
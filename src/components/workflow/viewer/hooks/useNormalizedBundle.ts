@@ -0,0 +1,61 @@
+/**
+ * Hook for normalizing the bundle in the workflow worker
+ */
+import { useEffect, useState } from "react";
+import {
+  NormalizedWorkflowBundle,
+  WorkflowBundle,
+} from "../../../../types/workflow";
+import { normalizeWorkflowBundle } from "../../../../lib/workflow-normalization";
+import { NormalizedBundleHookResult } from "../types";
+import { useWorkflowWorker } from "./useWorkflowWorker";
+
+/**
+ * Bundle shown while the real one is normalized, without any object
+ * @param template The bundle being normalized
+ * @returns The placeholder
+ */
+const createPlaceholder = (
+  template: WorkflowBundle
+): NormalizedWorkflowBundle => ({
+  ...template,
+  objects: {},
+  normalized: true,
+  unresolvedReferences: [],
+});
+
+/**
+ * Hook for normalizing the bundle in the workflow worker
+ * Until the worker is done the bundle has no objects. If the worker fails,
+ * the bundle is normalized on the main thread instead.
+ * @param template The bundle to normalize
+ * @returns The normalized bundle and the progress of the normalization
+ */
+export function useNormalizedBundle(
+  template: WorkflowBundle
+): NormalizedBundleHookResult {
+  const { status, normalizeBundle } = useWorkflowWorker();
+  const [bundle, setBundle] = useState<NormalizedWorkflowBundle>(() =>
+    createPlaceholder(template)
+  );
+
+  useEffect(() => {
+    let isCurrent = true;
+    setBundle(createPlaceholder(template));
+
+    normalizeBundle(template)
+      .catch((error) => {
+        console.error("Failed to normalize the bundle in the worker", error);
+        return normalizeWorkflowBundle(template);
+      })
+      .then((normalized) => {
+        if (isCurrent && normalized) setBundle(normalized);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [template, normalizeBundle]);
+
+  return { bundle, status };
+}
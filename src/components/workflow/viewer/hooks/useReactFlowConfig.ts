@@ -1,5 +1,6 @@
 import { useMemo } from "react";
 import { MarkerType } from "reactflow";
+import { ORTHOGONAL_EDGE_TYPE } from "../../shared/constants";
 
 /**
  * Custom hook for ReactFlow configuration
@@ -16,7 +17,7 @@ export function useReactFlowConfig() {
         maxZoom: 1.2,
       },
       defaultEdgeOptions: {
-        type: "smoothstep",
+        type: ORTHOGONAL_EDGE_TYPE,
         style: {
           strokeWidth: 3,
           stroke: "hsl(var(--workflow-blue))",
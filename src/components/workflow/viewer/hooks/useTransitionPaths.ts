@@ -0,0 +1,82 @@
+/**
+ * Hook for the paths between two tasks of the selected workflow
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Edge } from "reactflow";
+import { findTransitionPaths } from "../../shared/utils/pathUtils";
+import { TransitionPathsHookResult } from "../types";
+
+/**
+ * Hook for the paths between two tasks of the selected workflow
+ * @param edges The edges of the workflow
+ * @param selectedWorkflowId The ID of the selected workflow
+ * @returns The picked tasks, the paths between them and the edges to highlight
+ */
+export function useTransitionPaths(
+  edges: Edge[],
+  selectedWorkflowId: string | null
+): TransitionPathsHookResult {
+  const [sourceId, setSourceId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [selectedPathIndex, setSelectedPathIndex] = useState<number | null>(
+    null
+  );
+
+  // Clear the tasks when switching workflows
+  useEffect(() => {
+    setSourceId(null);
+    setTargetId(null);
+  }, [selectedWorkflowId]);
+
+  const result = useMemo(
+    () =>
+      sourceId && targetId
+        ? findTransitionPaths(edges, sourceId, targetId)
+        : null,
+    [edges, sourceId, targetId]
+  );
+
+  useEffect(() => {
+    setSelectedPathIndex(null);
+  }, [result]);
+
+  const pathEdgeIds = useMemo(
+    () =>
+      new Set(
+        (result?.paths || []).flatMap((path) =>
+          path.edges.map((edge) => edge.id)
+        )
+      ),
+    [result]
+  );
+
+  const selectedPathEdgeIds = useMemo(
+    () =>
+      new Set(
+        selectedPathIndex !== null
+          ? (result?.paths[selectedPathIndex]?.edges || []).map(
+              (edge) => edge.id
+            )
+          : []
+      ),
+    [result, selectedPathIndex]
+  );
+
+  const clear = useCallback(() => {
+    setSourceId(null);
+    setTargetId(null);
+  }, []);
+
+  return {
+    sourceId,
+    targetId,
+    setSourceId,
+    setTargetId,
+    result,
+    selectedPathIndex,
+    selectPath: setSelectedPathIndex,
+    pathEdgeIds,
+    selectedPathEdgeIds,
+    clear,
+  };
+}
@@ -1,74 +1,333 @@
 /**
  * Hook for exporting workflow visualizations
  */
-import { useCallback } from "react";
-import { ReactFlowInstance } from "reactflow";
+import { useCallback, useState } from "react";
+import { ReactFlowInstance, getNodesBounds } from "reactflow";
+import { getFontEmbedCSS, toSvg } from "html-to-image";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import { buildWorkflowDoc } from "../../../../lib/workflow-docs";
+import { createWorkflowPdf } from "../../../../lib/workflow-pdf";
+import { ImageExportOptions } from "../../shared/types";
+import { DEFAULT_IMAGE_EXPORT_OPTIONS } from "../../shared/constants";
+import { extractTriggers } from "../../shared/utils/triggerUtils";
+import {
+  downloadBlob,
+  getDownloadFileName,
+} from "../../shared/utils/downloadUtils";
 import { WorkflowExportHookResult } from "../types";
 
+/**
+ * Space around the graph, the title and the legend
+ */
+const EXPORT_PADDING = 24;
+
+/**
+ * Space around the nodes, for the edges routed around them
+ */
+const GRAPH_MARGIN = 40;
+
+/**
+ * Font size of the workflow name heading the image
+ */
+const TITLE_FONT_SIZE = 20;
+
+/**
+ * Largest side of a PNG, canvases past it are blank in some browsers
+ */
+const MAX_CANVAS_SIZE = 16384;
+
+/**
+ * Escapes text for an SVG attribute or element
+ * @param text The text
+ * @returns The escaped text
+ */
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Loads an image from a URL
+ * @param src The URL
+ * @returns The loaded image
+ */
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The image could not be drawn"));
+    image.src = src;
+  });
+
+/**
+ * Draws the workflow name, the legend and the whole graph into one SVG
+ * The task cards are HTML, so html-to-image renders each part to an SVG
+ * keeping their styles and fonts, at a scale of 1 whatever the zoom.
+ * @param flowElement The `.react-flow` element of the canvas
+ * @param reactFlowInstance The ReactFlow instance
+ * @param title The workflow name
+ * @param options The export options
+ * @returns The SVG markup and its size
+ */
+async function renderWorkflowSvg(
+  flowElement: HTMLElement,
+  reactFlowInstance: ReactFlowInstance,
+  title: string,
+  options: ImageExportOptions
+) {
+  const viewportElement = flowElement.querySelector(
+    ".react-flow__viewport"
+  ) as HTMLElement | null;
+  if (!viewportElement) throw new Error("The canvas is not shown");
+
+  const nodes = reactFlowInstance.getNodes().filter((node) => !node.hidden);
+  if (nodes.length === 0) throw new Error("There are no tasks to export");
+
+  const bounds = getNodesBounds(nodes);
+  const graphWidth = Math.ceil(bounds.width + GRAPH_MARGIN * 2);
+  const graphHeight = Math.ceil(bounds.height + GRAPH_MARGIN * 2);
+
+  const fontEmbedCSS = await getFontEmbedCSS(viewportElement);
+  const graphUrl = await toSvg(viewportElement, {
+    width: graphWidth,
+    height: graphHeight,
+    fontEmbedCSS,
+    style: {
+      width: `${graphWidth}px`,
+      height: `${graphHeight}px`,
+      transform: `translate(${GRAPH_MARGIN - bounds.x}px, ${
+        GRAPH_MARGIN - bounds.y
+      }px) scale(1)`,
+    },
+  });
+
+  const legendElement = flowElement.querySelector(
+    ".workflow-legend"
+  ) as HTMLElement | null;
+  const legendWidth = legendElement?.offsetWidth || 0;
+  const legendHeight = legendElement?.offsetHeight || 0;
+  const legendUrl = legendElement
+    ? await toSvg(legendElement, { fontEmbedCSS })
+    : null;
+
+  // Colours and font of the theme the page is switched to
+  const rootStyle = getComputedStyle(document.documentElement);
+  const background = `hsl(${rootStyle.getPropertyValue("--background")})`;
+  const foreground = `hsl(${rootStyle.getPropertyValue("--foreground")})`;
+  const fontFamily = getComputedStyle(document.body).fontFamily;
+
+  const context = document.createElement("canvas").getContext("2d");
+  if (context) context.font = `600 ${TITLE_FONT_SIZE}px ${fontFamily}`;
+  const titleWidth = context?.measureText(title).width || 0;
+
+  const width =
+    Math.ceil(Math.max(graphWidth, legendWidth, titleWidth)) +
+    EXPORT_PADDING * 2;
+  const legendY = EXPORT_PADDING * 2 + TITLE_FONT_SIZE;
+  const graphY = legendY + (legendUrl ? legendHeight + EXPORT_PADDING : 0);
+  const height = graphY + graphHeight + EXPORT_PADDING;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<style>${escapeXml(fontEmbedCSS)}</style>`,
+    options.transparent
+      ? ""
+      : `<rect width="100%" height="100%" fill="${background}"/>`,
+    `<text x="${EXPORT_PADDING}" y="${
+      EXPORT_PADDING + TITLE_FONT_SIZE
+    }" font-family="${escapeXml(
+      fontFamily
+    )}" font-size="${TITLE_FONT_SIZE}" font-weight="600" fill="${foreground}">${escapeXml(
+      title
+    )}</text>`,
+    legendUrl
+      ? `<image x="${EXPORT_PADDING}" y="${legendY}" width="${legendWidth}" height="${legendHeight}" href="${escapeXml(
+          legendUrl
+        )}"/>`
+      : "",
+    `<image x="${EXPORT_PADDING}" y="${graphY}" width="${graphWidth}" height="${graphHeight}" href="${escapeXml(
+      graphUrl
+    )}"/>`,
+    "</svg>",
+  ].join("");
+
+  return { svg, width, height };
+}
+
+/**
+ * Draws an SVG onto a canvas
+ * Large graphs are scaled down to fit the canvas.
+ * @param svg The SVG markup
+ * @param width The SVG width
+ * @param height The SVG height
+ * @param pixelRatio Canvas pixels per SVG pixel
+ * @returns The canvas
+ */
+async function rasterizeSvg(
+  svg: string,
+  width: number,
+  height: number,
+  pixelRatio: number
+) {
+  const ratio = Math.min(pixelRatio, MAX_CANVAS_SIZE / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.floor(width * ratio);
+  canvas.height = Math.floor(height * ratio);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("The browser can't draw the image");
+
+  // A data URL keeps the canvas exportable, as html-to-image does
+  const image = await loadImage(
+    `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  );
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
 /**
  * Hook for exporting workflow visualizations
+ * @param template The normalized workflow template, documented in PDFs
+ * @param selectedWorkflowId The ID of the selected workflow
+ * @param title The name of the workflow, heading the exported images
  * @returns Export functions
  */
-export function useWorkflowExport(): WorkflowExportHookResult {
+export function useWorkflowExport(
+  template: NormalizedWorkflowBundle,
+  selectedWorkflowId: string | null,
+  title = "Workflow"
+): WorkflowExportHookResult {
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  /**
+   * Runs an export from the canvas, in a theme
+   * The styles are read off the page, so it is switched to the theme for as
+   * long as the export takes.
+   * @param theme The theme the graph is drawn in
+   * @param run The export
+   */
+  const runExport = useCallback(
+    async (
+      theme: ImageExportOptions["theme"],
+      run: (flowElement: HTMLElement) => Promise<void>
+    ) => {
+      const flowElement = document.querySelector(
+        ".react-flow"
+      ) as HTMLElement | null;
+      if (!flowElement) return;
+
+      setIsExporting(true);
+      setExportError(null);
+
+      const root = document.documentElement;
+      const wasDark = root.classList.contains("dark");
+      root.classList.toggle("dark", theme === "dark");
+
+      try {
+        await run(flowElement);
+      } catch (error) {
+        setExportError(
+          error instanceof Error ? error.message : "The export failed"
+        );
+      } finally {
+        root.classList.toggle("dark", wasDark);
+        setIsExporting(false);
+      }
+    },
+    []
+  );
+
   /**
-   * Download the workflow as an SVG
+   * Download the whole workflow as an SVG or a PNG
    * @param reactFlowInstance The ReactFlow instance
+   * @param options The export options
    */
-  const downloadAsSvg = useCallback(
-    (reactFlowInstance: ReactFlowInstance | null) => {
+  const downloadImage = useCallback(
+    async (
+      reactFlowInstance: ReactFlowInstance | null,
+      options: ImageExportOptions
+    ) => {
       if (!reactFlowInstance) return;
 
-      // Get the ReactFlow viewport
-      const flowElement = document.querySelector(".react-flow") as HTMLElement;
-      if (!flowElement) return;
+      await runExport(options.theme, async (flowElement) => {
+        const { svg, width, height } = await renderWorkflowSvg(
+          flowElement,
+          reactFlowInstance,
+          title,
+          options
+        );
+        if (options.format === "svg") {
+          downloadBlob(
+            new Blob([svg], { type: "image/svg+xml;charset=utf-8" }),
+            getDownloadFileName(title, "svg")
+          );
+          return;
+        }
 
-      // Create a new SVG element
-      const svgElement = document.createElementNS(
-        "http://www.w3.org/2000/svg",
-        "svg"
-      );
-      const svgContent = flowElement.querySelector(
-        ".react-flow__viewport"
-      ) as SVGElement;
-      if (!svgContent) return;
-
-      // Copy the SVG content
-      const svgContentClone = svgContent.cloneNode(true) as SVGElement;
-
-      // Set the SVG attributes
-      const boundingRect = svgContent.getBoundingClientRect();
-      svgElement.setAttribute("width", boundingRect.width.toString());
-      svgElement.setAttribute("height", boundingRect.height.toString());
-      svgElement.setAttribute(
-        "viewBox",
-        `0 0 ${boundingRect.width} ${boundingRect.height}`
-      );
-
-      // Append the SVG content to the SVG element
-      svgElement.appendChild(svgContentClone);
-
-      // Convert the SVG element to a string
-      const svgString = new XMLSerializer().serializeToString(svgElement);
-      const svgBlob = new Blob([svgString], {
-        type: "image/svg+xml;charset=utf-8",
+        const canvas = await rasterizeSvg(
+          svg,
+          width,
+          height,
+          options.pixelRatio
+        );
+        const pngBlob = await new Promise<Blob | null>((resolve) =>
+          canvas.toBlob(resolve, "image/png")
+        );
+        if (!pngBlob) throw new Error("The browser can't draw a PNG");
+        downloadBlob(pngBlob, getDownloadFileName(title, "png"));
       });
-      const svgUrl = URL.createObjectURL(svgBlob);
-
-      // Create a download link
-      const downloadLink = document.createElement("a");
-      downloadLink.href = svgUrl;
-      downloadLink.download = "workflow.svg";
-      document.body.appendChild(downloadLink);
-      downloadLink.click();
-      document.body.removeChild(downloadLink);
-
-      // Clean up
-      URL.revokeObjectURL(svgUrl);
     },
-    []
+    [runExport, title]
+  );
+
+  /**
+   * Download the PDF documentation of the workflow
+   * The graph is drawn in the light theme, for printing.
+   * @param reactFlowInstance The ReactFlow instance
+   */
+  const downloadPdf = useCallback(
+    async (reactFlowInstance: ReactFlowInstance | null) => {
+      if (!reactFlowInstance || !selectedWorkflowId) return;
+
+      await runExport("light", async (flowElement) => {
+        const doc = buildWorkflowDoc(
+          template,
+          selectedWorkflowId,
+          extractTriggers(template)
+        );
+        if (!doc) throw new Error("The workflow is not in the bundle");
+
+        const { svg, width, height } = await renderWorkflowSvg(
+          flowElement,
+          reactFlowInstance,
+          title,
+          { ...DEFAULT_IMAGE_EXPORT_OPTIONS, transparent: false }
+        );
+        const canvas = await rasterizeSvg(svg, width, height, 2);
+        const jpeg = canvas.toDataURL("image/jpeg", 0.92).split(",")[1];
+
+        const pdf = createWorkflowPdf(doc, {
+          data: Uint8Array.from(atob(jpeg), (char) => char.charCodeAt(0)),
+          pixelWidth: canvas.width,
+          pixelHeight: canvas.height,
+          width,
+          height,
+        });
+        downloadBlob(
+          new Blob([pdf], { type: "application/pdf" }),
+          getDownloadFileName(title, "pdf")
+        );
+      });
+    },
+    [runExport, template, selectedWorkflowId, title]
   );
 
   return {
-    downloadAsSvg,
+    downloadImage,
+    downloadPdf,
+    isExporting,
+    exportError,
   };
 }
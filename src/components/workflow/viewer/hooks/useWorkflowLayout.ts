@@ -4,11 +4,14 @@
  * This hook provides a way to apply automatic layout to workflow nodes
  * using the layout engine.
  */
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { Node, Edge, ReactFlowInstance } from "reactflow";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Node, Edge, ReactFlowInstance, Viewport, XYPosition } from "reactflow";
 import { DEFAULT_LAYOUT_CONFIG } from "../../shared/constants";
 import { LayoutConfig } from "../../shared/types";
-import { DagLayout, LayoutEngine } from "../layout";
+import { SUB_WORKFLOW_GROUP_TYPE } from "../layout";
+import { applyNodePositions } from "../worker";
+import { WorkflowWorkerHookResult } from "../types";
+import { useWorkflowWorker } from "./useWorkflowWorker";
 
 interface UseWorkflowLayoutProps {
   nodes: Node[];
@@ -16,10 +19,19 @@ interface UseWorkflowLayoutProps {
   reactFlowInstanceRef: React.RefObject<ReactFlowInstance | null>;
   config?: Partial<LayoutConfig>;
   autoLayout?: boolean;
+  /** Positions of nodes moved by hand, kept over the computed ones */
+  positionOverrides?: Record<string, XYPosition>;
+  /** Saved viewport, restored instead of fitting the view */
+  viewport?: Viewport;
+  /** Worker shared with the workflow processor, its own when not set */
+  layoutWorker?: WorkflowWorkerHookResult;
 }
 
 /**
  * Hook for managing workflow layout
+ * Layouts are computed in the workflow worker, applying a new one cancels
+ * the one still running, including those started by the workflow processor
+ * when it shares its worker.
  */
 export function useWorkflowLayout({
   nodes,
@@ -27,105 +39,120 @@ export function useWorkflowLayout({
   reactFlowInstanceRef,
   config = {},
   autoLayout = true,
+  positionOverrides,
+  viewport,
+  layoutWorker,
 }: UseWorkflowLayoutProps) {
-  // State to track if layout is in progress
-  const [isLayoutInProgress, setIsLayoutInProgress] = useState(false);
+  // Layout running in the worker
+  const ownWorker = useWorkflowWorker();
+  const { status: layoutStatus, runLayout } = layoutWorker || ownWorker;
+  const isLayoutInProgress = layoutStatus !== null;
 
   // State to track if initial layout has been applied
   const [initialLayoutApplied, setInitialLayoutApplied] = useState(false);
 
-  // Create layout engine with DAG algorithm - memoized to prevent recreation on every render
-  const layoutEngine = useMemo(() => {
-    return new LayoutEngine(new DagLayout(), {
-      ...DEFAULT_LAYOUT_CONFIG,
-      ...config,
-    } as LayoutConfig);
-  }, [config]);
+  // Expanded sub-workflow groups the layout was last applied to
+  const laidOutGroupsRef = useRef("");
+  const groupsKey = useMemo(
+    () =>
+      nodes
+        .filter((node) => node.type === SUB_WORKFLOW_GROUP_TYPE)
+        .map((node) => node.id)
+        .join(","),
+    [nodes]
+  );
 
   /**
    * Apply layout to the nodes
    * @param customConfig Optional custom layout configuration
+   * @param overrides Positions kept over the computed ones, the nodes moved
+   * by hand by default
    */
   const applyLayout = useCallback(
-    (customConfig?: Partial<LayoutConfig>) => {
-      if (
-        nodes.length > 0 &&
-        reactFlowInstanceRef.current &&
-        !isLayoutInProgress
-      ) {
-        setIsLayoutInProgress(true);
-        console.log(
-          "WorkflowLayout: Applying layout",
-          customConfig ? "with custom config" : "with default config"
-        );
+    async (
+      customConfig?: Partial<LayoutConfig>,
+      overrides: Record<string, XYPosition> = positionOverrides || {}
+    ) => {
+      if (nodes.length === 0 || !reactFlowInstanceRef.current) {
+        return;
+      }
+
+      console.log(
+        "WorkflowLayout: Applying layout",
+        customConfig ? "with custom config" : "with default config"
+      );
+
+      try {
+        const positions = await runLayout(nodes, edges, {
+          ...DEFAULT_LAYOUT_CONFIG,
+          ...config,
+          ...customConfig,
+        } as LayoutConfig);
+
+        // Cancelled by a newer layout
+        if (!positions || !reactFlowInstanceRef.current) return;
 
-        try {
-          // Create a layout engine with the custom config if provided
-          const currentLayoutEngine = customConfig
-            ? new LayoutEngine(new DagLayout(), {
-                ...DEFAULT_LAYOUT_CONFIG,
-                ...config,
-                ...customConfig,
-              } as LayoutConfig)
-            : layoutEngine;
-
-          // Apply layout to nodes
-          const positionedNodes = currentLayoutEngine.applyLayout(nodes, edges);
-
-          // Update node positions with animation
-          const updatedNodes = nodes.map((node) => {
-            const positionedNode = positionedNodes.find(
-              (n) => n.id === node.id
-            );
-            if (positionedNode) {
-              return {
-                ...node,
-                position: positionedNode.position,
-              };
-            }
-            return node;
-          });
-
-          reactFlowInstanceRef.current.setNodes(updatedNodes);
-
-          // Fit view to ensure all nodes are visible
-          setTimeout(() => {
-            if (reactFlowInstanceRef.current) {
-              reactFlowInstanceRef.current.fitView({
-                padding: 2.0,
-                minZoom: 0.4,
-                maxZoom: 1.2,
-                duration: 800,
-              });
-            }
-          }, 100);
-
-          console.log("WorkflowLayout: Successfully applied layout");
-
-          // Mark initial layout as applied
-          setInitialLayoutApplied(true);
-        } catch (error) {
-          console.error("WorkflowLayout: Error applying layout", {
-            error: error instanceof Error ? error.message : String(error),
-          });
-        } finally {
-          // Reset layout flag when complete
-          setTimeout(() => {
-            setIsLayoutInProgress(false);
-          }, 1200);
-        }
+        // Nodes may have changed while the worker was busy, only move them
+        reactFlowInstanceRef.current.setNodes((current) =>
+          applyNodePositions(current, { ...positions, ...overrides })
+        );
+        laidOutGroupsRef.current = groupsKey;
+
+        // Fit view to ensure all nodes are visible, unless the first layout
+        // restores the saved viewport
+        setTimeout(() => {
+          if (!initialLayoutApplied && viewport) {
+            reactFlowInstanceRef.current?.setViewport(viewport);
+          } else if (reactFlowInstanceRef.current) {
+            reactFlowInstanceRef.current.fitView({
+              padding: 2.0,
+              minZoom: 0.4,
+              maxZoom: 1.2,
+              duration: 800,
+            });
+          }
+        }, 100);
+
+        console.log("WorkflowLayout: Successfully applied layout");
+
+        // Mark initial layout as applied
+        setInitialLayoutApplied(true);
+      } catch (error) {
+        console.error("WorkflowLayout: Error applying layout", {
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
     },
     [
       nodes,
       edges,
-      isLayoutInProgress,
       reactFlowInstanceRef,
-      layoutEngine,
       config,
+      groupsKey,
+      runLayout,
+      positionOverrides,
+      initialLayoutApplied,
+      viewport,
     ]
   );
 
+  /**
+   * Restore the saved viewport when another workflow is shown
+   */
+  useEffect(() => {
+    const instance = reactFlowInstanceRef.current;
+    if (!viewport || !instance || !initialLayoutApplied) return;
+
+    const current = instance.getViewport();
+    if (
+      current.x !== viewport.x ||
+      current.y !== viewport.y ||
+      current.zoom !== viewport.zoom
+    ) {
+      instance.setViewport(viewport);
+    }
+  }, [viewport, initialLayoutApplied, reactFlowInstanceRef]);
+
   /**
    * Apply initial layout when nodes change
    */
@@ -137,7 +164,6 @@ export function useWorkflowLayout({
       !initialLayoutApplied &&
       !isLayoutInProgress
     ) {
-      setIsLayoutInProgress(true);
       console.log("WorkflowLayout: Applying initial layout");
 
       // Apply layout with a small delay to ensure the DOM is ready
@@ -158,6 +184,20 @@ export function useWorkflowLayout({
     reactFlowInstanceRef,
   ]);
 
+  /**
+   * Reapply layout when sub-workflows are expanded or collapsed, as the
+   * workflow is rebuilt from its editor coordinates
+   */
+  useEffect(() => {
+    if (
+      initialLayoutApplied &&
+      !isLayoutInProgress &&
+      groupsKey !== laidOutGroupsRef.current
+    ) {
+      applyLayout();
+    }
+  }, [groupsKey, initialLayoutApplied, isLayoutInProgress, applyLayout]);
+
   /**
    * Handle window resize events
    */
@@ -190,6 +230,7 @@ export function useWorkflowLayout({
   return {
     initialLayoutApplied,
     isLayoutInProgress,
+    layoutStatus,
     applyLayout,
   };
 }
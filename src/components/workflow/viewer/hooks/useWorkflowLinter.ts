@@ -0,0 +1,99 @@
+/**
+ * Hook for linting the selected workflow
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import {
+  LINT_RULES,
+  LintRuleConfig,
+  groupDiagnosticsByTask,
+  isLintRuleEnabled,
+  lintWorkflow,
+} from "../../../../lib/workflow-linter";
+import { WorkflowLinterHookResult } from "../types";
+
+/**
+ * localStorage key the enabled state of the lint rules is kept under
+ */
+const LINT_RULES_STORAGE_KEY = "lintRules";
+
+/**
+ * Keeps the enabled state of known rules from a saved configuration
+ * @param value The parsed configuration
+ * @returns The configuration, empty when the value isn't one
+ */
+const toRuleConfig = (value: unknown): LintRuleConfig => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+
+  const ruleIds = new Set(LINT_RULES.map((rule) => rule.id));
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([ruleId, enabled]) => ruleIds.has(ruleId) && typeof enabled === "boolean"
+    )
+  );
+};
+
+/**
+ * Reads the saved rule configuration
+ * Unknown rules and values that aren't booleans are dropped, so those rules
+ * fall back to their default.
+ * @returns The saved configuration, or an empty one when nothing is saved
+ */
+const loadRuleConfig = (): LintRuleConfig => {
+  try {
+    const saved = localStorage.getItem(LINT_RULES_STORAGE_KEY);
+    return saved ? toRuleConfig(JSON.parse(saved)) : {};
+  } catch (error) {
+    console.warn("Failed to load lint rule configuration:", error);
+    return {};
+  }
+};
+
+/**
+ * Hook for linting the selected workflow
+ * @param template The normalized workflow template
+ * @param selectedWorkflowId The ID of the selected workflow
+ * @returns The lint diagnostics and the rule configuration
+ */
+export function useWorkflowLinter(
+  template: NormalizedWorkflowBundle,
+  selectedWorkflowId: string | null
+): WorkflowLinterHookResult {
+  const [ruleConfig, setRuleConfig] = useState<LintRuleConfig>(loadRuleConfig);
+
+  // Save the rule configuration so it survives reloads
+  useEffect(() => {
+    localStorage.setItem(LINT_RULES_STORAGE_KEY, JSON.stringify(ruleConfig));
+  }, [ruleConfig]);
+
+  const toggleRule = useCallback((ruleId: string) => {
+    setRuleConfig((prev) => ({
+      ...prev,
+      [ruleId]: !isLintRuleEnabled(ruleId, prev),
+    }));
+  }, []);
+
+  // Lint the selected workflow
+  const diagnostics = useMemo(() => {
+    if (!selectedWorkflowId) return [];
+
+    const workflow = Object.values(template.objects).find(
+      (obj) => obj.type === "workflow" && obj.fields.id === selectedWorkflowId
+    );
+
+    return workflow ? lintWorkflow(workflow, ruleConfig) : [];
+  }, [template, selectedWorkflowId, ruleConfig]);
+
+  const diagnosticsByTask = useMemo(
+    () => groupDiagnosticsByTask(diagnostics),
+    [diagnostics]
+  );
+
+  return {
+    rules: LINT_RULES,
+    ruleConfig,
+    diagnostics,
+    diagnosticsByTask,
+    toggleRule,
+  };
+}
@@ -2,16 +2,17 @@
  * Hook for managing workflow navigation
  */
 import { useCallback, useState, useEffect } from "react";
-import { WorkflowBundle, Task } from "../../../../types/workflow";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import { buildCallGraph } from "../../../../lib/workflow-callgraph";
 import { WorkflowNavigationHookResult } from "../types";
 
 /**
  * Hook for managing workflow navigation
- * @param template The workflow template
+ * @param template The normalized workflow template
  * @returns Navigation state and handlers
  */
 export function useWorkflowNavigation(
-  template: WorkflowBundle
+  template: NormalizedWorkflowBundle
 ): WorkflowNavigationHookResult {
   // State for selected workflow and hierarchy
   const [selectedWorkflowId, setSelectedWorkflowId] = useState<string | null>(
@@ -43,40 +44,19 @@ export function useWorkflowNavigation(
         relationships.set(workflowId, { parents: [], children: [] });
       });
 
-    // Analyze task transitions to identify parent-child relationships
-    Object.values(template.objects)
-      .filter((obj) => obj.type === "workflow")
-      .forEach((workflow) => {
-        const workflowId = (workflow.fields.id as string) || workflow.hash;
-        const tasks = (workflow.fields.tasks as Task[]) || [];
-
-        tasks.forEach((task) => {
-          const transitions = task.next || [];
-          transitions.forEach((transition) => {
-            const targetIds = transition.do || [];
-            targetIds.forEach((targetId) => {
-              // Check if the target is another workflow
-              if (relationships.has(targetId)) {
-                // Add parent-child relationship
-                const workflowRelationship = relationships.get(workflowId);
-                const targetRelationship = relationships.get(targetId);
-
-                if (workflowRelationship && targetRelationship) {
-                  // Add child to parent
-                  if (!workflowRelationship.children.includes(targetId)) {
-                    workflowRelationship.children.push(targetId);
-                  }
-
-                  // Add parent to child
-                  if (!targetRelationship.parents.includes(workflowId)) {
-                    targetRelationship.parents.push(workflowId);
-                  }
-                }
-              }
-            });
-          });
-        });
-      });
+    // Sub-workflow calls between bundled workflows are the parent-child links
+    buildCallGraph(template).calls.forEach(({ callerId, calleeId }) => {
+      const workflowRelationship = relationships.get(callerId);
+      const targetRelationship = relationships.get(calleeId);
+      if (!workflowRelationship || !targetRelationship) return;
+
+      if (!workflowRelationship.children.includes(calleeId)) {
+        workflowRelationship.children.push(calleeId);
+      }
+      if (!targetRelationship.parents.includes(callerId)) {
+        targetRelationship.parents.push(callerId);
+      }
+    });
 
     setWorkflowRelationships(relationships);
     return relationships;
@@ -1,49 +1,219 @@
 /**
  * Hook for processing workflow data into nodes and edges
  */
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { Node, Edge, useNodesState, useEdgesState } from "reactflow";
-import { WorkflowBundle, Task } from "../../../../types/workflow";
-import { WorkflowTask } from "../../shared/types";
-import { WorkflowProcessorHookResult } from "../types";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Node,
+  Edge,
+  NodeChange,
+  XYPosition,
+  useNodesState,
+  useEdgesState,
+} from "reactflow";
+import {
+  NormalizedWorkflowBundle,
+  Task,
+  WorkflowObject,
+} from "../../../../types/workflow";
+import { LayoutConfig, WorkflowTask } from "../../shared/types";
+import {
+  WorkflowProcessorHookResult,
+  WorkflowViewStateHookResult,
+} from "../types";
 import { createEdgesFromTransitions } from "../../shared/utils/transitionUtils";
 import {
   extractTriggers,
   createTriggerEdges,
 } from "../../shared/utils/triggerUtils";
-import { LayoutEngine, DagLayout } from "../layout";
+import { expandSubWorkflowGroups } from "../layout";
+import { applyNodePositions } from "../worker";
+import { useWorkflowWorker } from "./useWorkflowWorker";
 import { DEFAULT_LAYOUT_CONFIG } from "../../shared/constants";
+import { resolveSubWorkflow } from "../../../../lib/workflow-subworkflows";
+import { collectJinjaStrings } from "../../../../lib/workflow-linter";
 
 /**
  * Hook for processing workflow data into nodes and edges
- * @param template The workflow template
+ * @param template The normalized workflow template
  * @param selectedWorkflowId The selected workflow ID
  * @param onSubWorkflowClick Callback for sub-workflow clicks
+ * @param viewStateHook The kept view of the selected workflow, whose moved
+ * nodes, expanded sub-workflows and layout settings are restored
  * @returns Workflow processing state and handlers
  */
 export function useWorkflowProcessor(
-  template: WorkflowBundle,
+  template: NormalizedWorkflowBundle,
   selectedWorkflowId: string | null,
-  onSubWorkflowClick: (workflowId: string) => void
+  onSubWorkflowClick: (workflowId: string) => void,
+  viewStateHook: WorkflowViewStateHookResult
 ): WorkflowProcessorHookResult {
+  const { viewState, viewStateRevision, updateViewState } = viewStateHook;
+
+  // Read when processing, so saving the view doesn't rebuild the workflow
+  const viewStateRef = useRef(viewState);
+  viewStateRef.current = viewState;
+
   // State for nodes and edges
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
 
+  // IDs of the task nodes whose sub-workflow is expanded in place
+  const [expandedSubWorkflows, setExpandedSubWorkflows] = useState<Set<string>>(
+    new Set()
+  );
+
   // State for layout config
   const [layoutConfig, setLayoutConfig] = useState(
-    DEFAULT_LAYOUT_CONFIG as unknown as import("../../shared/types").LayoutConfig
+    DEFAULT_LAYOUT_CONFIG as unknown as LayoutConfig
   );
 
-  // Layout engine for positioning nodes
-  const layoutEngine = useMemo(() => {
-    return new LayoutEngine(new DagLayout(), layoutConfig);
-  }, [layoutConfig]);
+  // Read when processing, so a new layout config doesn't rebuild the workflow
+  // and undo the layout it was just applied with
+  const layoutConfigRef = useRef(layoutConfig);
+
+  // Layouts run in a worker, a newer one cancels the one running
+  const layoutWorker = useWorkflowWorker();
+  const {
+    status: layoutStatus,
+    runLayout,
+    cancel: cancelLayout,
+  } = layoutWorker;
+
+  /**
+   * Expand or collapse the sub-workflow of a task node
+   * Collapsing also collapses the groups nested inside.
+   */
+  const toggleSubWorkflow = useCallback((nodeId: string) => {
+    setExpandedSubWorkflows((current) => {
+      const next = new Set(current);
+      if (next.has(nodeId)) {
+        Array.from(next)
+          .filter((id) => id === nodeId || id.startsWith(`${nodeId}/`))
+          .forEach((id) => next.delete(id));
+      } else {
+        next.add(nodeId);
+      }
+      return next;
+    });
+  }, []);
+
+  // Restore the kept view when another workflow is selected or a layout is
+  // imported
+  useEffect(() => {
+    const saved = viewStateRef.current;
+    setExpandedSubWorkflows(new Set(saved.expandedSubWorkflows));
+
+    const config = saved.layoutConfig || DEFAULT_LAYOUT_CONFIG;
+    layoutConfigRef.current = config;
+    setLayoutConfig(config);
+  }, [template, selectedWorkflowId, viewStateRevision]);
+
+  // Keep the expanded sub-workflows
+  useEffect(() => {
+    const ids = Array.from(expandedSubWorkflows);
+    const saved = viewStateRef.current.expandedSubWorkflows;
+    if (ids.length === saved.length && ids.every((id) => saved.includes(id))) {
+      return;
+    }
+    updateViewState({ expandedSubWorkflows: ids });
+  }, [expandedSubWorkflows, updateViewState]);
+
+  // Positions of the nodes being dragged, kept once they are dropped
+  const draggedPositionsRef = useRef<Record<string, XYPosition>>({});
+
+  /**
+   * Apply node changes, keeping the positions of nodes moved by hand
+   */
+  const handleNodesChange = useCallback(
+    (changes: NodeChange[]) => {
+      onNodesChange(changes);
+
+      let isDropped = false;
+      changes.forEach((change) => {
+        if (change.type !== "position") return;
+        if (change.position) {
+          draggedPositionsRef.current[change.id] = change.position;
+        }
+        if (change.dragging === false) isDropped = true;
+      });
+
+      const dragged = draggedPositionsRef.current;
+      if (isDropped && Object.keys(dragged).length > 0) {
+        draggedPositionsRef.current = {};
+        updateViewState((state) => ({
+          positions: { ...state.positions, ...dragged },
+        }));
+      }
+    },
+    [onNodesChange, updateViewState]
+  );
+
+  /**
+   * Create the node of a task
+   * Tasks inside expanded sub-workflows get prefixed node IDs. Whether the
+   * task uses Jinja is kept for the canvas filter.
+   */
+  const createTaskNode = useCallback(
+    (task: Task, nodeId: string, workflow: WorkflowObject): Node => ({
+      id: nodeId,
+      type: "task",
+      position: {
+        x: task.metadata?.x || 0,
+        y: task.metadata?.y || 0,
+      },
+      data: {
+        ...task,
+        id: nodeId,
+        subWorkflow: resolveSubWorkflow(task, workflow, template),
+        isSubWorkflowExpanded: expandedSubWorkflows.has(nodeId),
+        hasJinjaTemplates: collectJinjaStrings(task).length > 0,
+        onSubWorkflowClick,
+        onToggleSubWorkflow: toggleSubWorkflow,
+      },
+    }),
+    [template, expandedSubWorkflows, onSubWorkflowClick, toggleSubWorkflow]
+  );
 
   /**
    * Process workflow data into nodes and edges
    */
   const processWorkflow = useCallback(() => {
+    // A layout still running was for the previous state
+    cancelLayout();
+
+    /**
+     * Show nodes, laying them out first when they have no editor coordinates
+     * or the kept view picked another layout than the editor one
+     * The canvas is emptied while the worker computes the layout.
+     */
+    const layoutAndShow = (
+      nodesToShow: Node[],
+      edgesToLayout: Edge[],
+      show: (positionedNodes: Node[]) => void
+    ) => {
+      const hasPositions = nodesToShow.some(
+        (node) => node.position.x !== 0 || node.position.y !== 0
+      );
+      const restoredConfig = viewStateRef.current.layoutConfig;
+      const keepsEditorPositions =
+        !restoredConfig || restoredConfig.algorithm === "editor";
+      if ((hasPositions && keepsEditorPositions) || nodesToShow.length === 0) {
+        show(nodesToShow);
+        return;
+      }
+
+      setNodes([]);
+      setEdges([]);
+      runLayout(nodesToShow, edgesToLayout, layoutConfigRef.current)
+        .then((positions) => {
+          if (positions) show(applyNodePositions(nodesToShow, positions));
+        })
+        .catch((error) => {
+          console.error("Failed to lay out the workflow", error);
+          show(nodesToShow);
+        });
+    };
+
     if (!template || !selectedWorkflowId) {
       console.log("No template or selectedWorkflowId", {
         template,
@@ -139,23 +309,11 @@ export function useWorkflowProcessor(
             };
           });
 
-          // Apply layout if needed
-          const hasPositions = processedNodes.some(
-            (node) => node.position.x !== 0 || node.position.y !== 0
-          );
-
-          if (!hasPositions && processedNodes.length > 0) {
-            // Apply automatic layout
-            const positionedNodes = layoutEngine.applyLayout(
-              processedNodes,
-              [] // No edges for now
-            );
+          // Apply layout if needed, with no edges for now
+          layoutAndShow(processedNodes, [], (positionedNodes) => {
             setNodes(positionedNodes);
-          } else {
-            setNodes(processedNodes);
-          }
-
-          setEdges([]);
+            setEdges([]);
+          });
           return;
         }
       }
@@ -167,34 +325,10 @@ export function useWorkflowProcessor(
 
     // Process tasks into nodes
     const tasks = selectedWorkflow.fields.tasks as Task[];
-    const processedNodes: Node[] = tasks.map((task, index) => {
-      // Extract transition labels from nonfunctional_fields
-      const next = task.next?.map((transition, transitionIndex) => {
-        const labelKey = `tasks[${index}].next[${transitionIndex}].label`;
-        const label = selectedWorkflow.nonfunctional_fields?.[labelKey] as
-          | string
-          | undefined;
-
-        return {
-          ...transition,
-          label: label || transition.label,
-        };
-      });
-
-      return {
-        id: task.id,
-        type: "task",
-        position: {
-          x: task.metadata?.x || 0,
-          y: task.metadata?.y || 0,
-        },
-        data: {
-          ...task,
-          next: next || task.next, // Use the updated next array with labels
-          onSubWorkflowClick,
-        },
-      };
-    });
+    // Labels, descriptions and metadata were attached during normalization
+    const processedNodes: Node[] = tasks.map((task) =>
+      createTaskNode(task, task.id, selectedWorkflow as WorkflowObject)
+    );
 
     // Process transitions into edges
     let processedEdges: Edge[] = [];
@@ -220,30 +354,40 @@ export function useWorkflowProcessor(
       processedEdges = [...processedEdges, ...triggerEdges];
     }
 
-    // Apply layout if needed
-    const hasPositions = processedNodes.some(
-      (node) => node.position.x !== 0 || node.position.y !== 0
-    );
-
-    if (!hasPositions && processedNodes.length > 0) {
-      // Apply automatic layout
-      const positionedNodes = layoutEngine.applyLayout(
-        processedNodes,
-        processedEdges
+    // Apply layout if needed, then expand sub-workflows in place below their
+    // calling tasks
+    const rootWorkflowId = selectedWorkflow.fields.id || selectedWorkflowId;
+    layoutAndShow(processedNodes, processedEdges, (positionedNodes) => {
+      const expanded = expandSubWorkflowGroups(
+        positionedNodes,
+        processedEdges,
+        {
+          bundle: template,
+          rootWorkflowId,
+          expandedNodeIds: expandedSubWorkflows,
+          createTaskNode,
+          onCollapse: toggleSubWorkflow,
+          onOpenWorkflow: onSubWorkflowClick,
+        }
       );
-      setNodes(positionedNodes);
-    } else {
-      setNodes(processedNodes);
-    }
 
-    setEdges(processedEdges);
+      // Nodes moved by hand stay where they were left
+      setNodes(
+        applyNodePositions(expanded.nodes, viewStateRef.current.positions)
+      );
+      setEdges(expanded.edges);
+    });
   }, [
     template,
     selectedWorkflowId,
     onSubWorkflowClick,
     setNodes,
     setEdges,
-    layoutEngine,
+    expandedSubWorkflows,
+    createTaskNode,
+    toggleSubWorkflow,
+    runLayout,
+    cancelLayout,
   ]);
 
   /**
@@ -258,18 +402,31 @@ export function useWorkflowProcessor(
    * Update the layout configuration and reapply layout
    */
   const updateLayoutConfig = useCallback(
-    (config: import("../../shared/types").LayoutConfig) => {
+    (config: LayoutConfig) => {
       console.log("Updating layout config:", config);
+      layoutConfigRef.current = config;
       setLayoutConfig(config);
+      updateViewState({ layoutConfig: config });
 
       // Reapply layout with the new configuration if there are nodes
       if (nodes.length > 0) {
-        const updatedLayoutEngine = new LayoutEngine(new DagLayout(), config);
-        const positionedNodes = updatedLayoutEngine.applyLayout(nodes, edges);
-        setNodes(positionedNodes);
+        runLayout(nodes, edges, config)
+          .then((positions) => {
+            if (positions) {
+              setNodes((current) =>
+                applyNodePositions(current, {
+                  ...positions,
+                  ...viewStateRef.current.positions,
+                })
+              );
+            }
+          })
+          .catch((error) =>
+            console.error("Failed to apply the layout config", error)
+          );
       }
     },
-    [nodes, edges, setNodes]
+    [nodes, edges, setNodes, runLayout, updateViewState]
   );
 
   // Process workflow when template or selected workflow changes
@@ -280,9 +437,12 @@ export function useWorkflowProcessor(
   return {
     nodes,
     edges,
-    onNodesChange,
+    onNodesChange: handleNodesChange,
     onEdgesChange,
     clearWorkflow,
+    layoutConfig,
     updateLayoutConfig,
+    layoutStatus,
+    layoutWorker,
   };
 }
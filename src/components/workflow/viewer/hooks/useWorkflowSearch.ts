@@ -0,0 +1,86 @@
+/**
+ * Hook for searching the tasks of every workflow in the bundle
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import {
+  SearchResult,
+  SearchTarget,
+  buildSearchIndex,
+  searchIndex,
+} from "../../../../lib/workflow-search";
+import { WorkflowSearchHookResult } from "../types";
+
+/**
+ * Hook for searching the tasks of every workflow in the bundle
+ * The palette opens with Ctrl+K, or Cmd+K on macOS.
+ * @param template The normalized workflow template
+ * @param selectedWorkflowId The ID of the selected workflow
+ * @param onSelectWorkflow Called to switch to the workflow of a picked result
+ * @returns The palette state, the results and the picked result
+ */
+export function useWorkflowSearch(
+  template: NormalizedWorkflowBundle,
+  selectedWorkflowId: string | null,
+  onSelectWorkflow: (workflowId: string) => void
+): WorkflowSearchHookResult {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [target, setTarget] = useState<SearchTarget | null>(null);
+
+  const index = useMemo(() => buildSearchIndex(template), [template]);
+  const results = useMemo(() => searchIndex(index, query), [index, query]);
+
+  const open = useCallback(() => setIsOpen(true), []);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  // Toggle the palette from anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setIsOpen((prev) => !prev);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Forget the picked result once another workflow is shown
+  useEffect(() => {
+    setTarget((prev) =>
+      prev && prev.workflowId !== selectedWorkflowId ? null : prev
+    );
+  }, [selectedWorkflowId]);
+
+  const selectResult = useCallback(
+    ({ entry }: SearchResult) => {
+      setTarget({
+        workflowId: entry.workflowId,
+        taskId: entry.taskId,
+        field: entry.field,
+        key: entry.key,
+        transitionIndex: entry.transitionIndex,
+      });
+      setIsOpen(false);
+
+      // Keep the breadcrumbs when the result is in the shown workflow
+      if (entry.workflowId !== selectedWorkflowId) {
+        onSelectWorkflow(entry.workflowId);
+      }
+    },
+    [selectedWorkflowId, onSelectWorkflow]
+  );
+
+  return {
+    isOpen,
+    open,
+    close,
+    query,
+    setQuery,
+    results,
+    target,
+    selectResult,
+  };
+}
@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { NormalizedWorkflowBundle, Task } from "../../../../types/workflow";
+import { useWorkflowSimulator } from "./useWorkflowSimulator";
+
+const tasks: Task[] = ["first", "second", "third", "last"].map(
+  (name, index, names) => ({
+    id: name,
+    type: "STANDARD",
+    name,
+    next: names[index + 1]
+      ? [{ id: `${name}-next`, do: [names[index + 1]] }]
+      : [],
+  })
+);
+
+const template: NormalizedWorkflowBundle = {
+  version: 2,
+  exportedAt: "2024-01-01T00:00:00Z",
+  normalized: true,
+  unresolvedReferences: [],
+  objects: {
+    workflow: {
+      type: "workflow",
+      content_hash: "workflow-content",
+      hash: "workflow-hash",
+      fields: { id: "workflow-id", tasks },
+    },
+  },
+};
+
+/**
+ * Advances the animation one step at a time until it pauses
+ */
+const playUntilPaused = (current: () => { isPlaying: boolean }) => {
+  for (let step = 0; step <= tasks.length && current().isPlaying; step++) {
+    act(() => vi.runOnlyPendingTimers());
+  }
+};
+
+describe("useWorkflowSimulator", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it("continues from a breakpoint to the next one, then to the end", () => {
+    const { result } = renderHook(() =>
+      useWorkflowSimulator(template, "workflow-id")
+    );
+
+    act(() => result.current.toggleBreakpoint("second"));
+    act(() => result.current.toggleBreakpoint("third"));
+    act(() => result.current.run());
+    playUntilPaused(() => result.current);
+
+    expect(result.current.isPlaying).toBe(false);
+    expect(result.current.currentStep?.taskId).toBe("second");
+
+    act(() => result.current.continueRun());
+    playUntilPaused(() => result.current);
+
+    expect(result.current.isPlaying).toBe(false);
+    expect(result.current.currentStep?.taskId).toBe("third");
+
+    act(() => result.current.continueRun());
+    playUntilPaused(() => result.current);
+
+    expect(result.current.isPlaying).toBe(false);
+    expect(result.current.visibleSteps).toBe(tasks.length);
+    expect(result.current.currentStep?.taskId).toBe("last");
+  });
+});
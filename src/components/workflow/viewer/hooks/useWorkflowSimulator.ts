@@ -0,0 +1,291 @@
+/**
+ * Hook for simulating and stepping through a run of the selected workflow
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import {
+  SimulationResult,
+  findNextBreakpoint,
+  findStepOverTarget,
+  simulateWorkflow,
+} from "../../../../lib/workflow-simulator";
+import { SimulationNodeState } from "../../node/types";
+import { getTransitionEdgeId } from "../../shared/utils/transitionUtils";
+import { WorkflowSimulatorHookResult } from "../types";
+
+/**
+ * Delay between revealed steps of the animation, in milliseconds
+ */
+const STEP_INTERVAL = 400;
+
+/**
+ * Parses a JSON object typed in by the user
+ * @param json The JSON text
+ * @param label Name of the input for the error message
+ * @returns The object
+ */
+const parseJsonObject = (
+  json: string,
+  label: string
+): Record<string, unknown> => {
+  const value = json.trim() ? JSON.parse(json) : {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${label} must be a JSON object`);
+  }
+  return value;
+};
+
+/**
+ * Hook for simulating a run of the selected workflow
+ * @param template The normalized workflow template
+ * @param selectedWorkflowId The ID of the selected workflow
+ * @returns The simulation inputs, the result and its animation state
+ */
+export function useWorkflowSimulator(
+  template: NormalizedWorkflowBundle,
+  selectedWorkflowId: string | null
+): WorkflowSimulatorHookResult {
+  const workflows = useMemo(
+    () =>
+      Object.values(template.objects).filter((obj) => obj.type === "workflow"),
+    [template]
+  );
+  const workflow = useMemo(
+    () => workflows.find((obj) => obj.fields.id === selectedWorkflowId),
+    [workflows, selectedWorkflowId]
+  );
+
+  const [contextJson, setContextJson] = useState("{}");
+  const [resultsJson, setResultsJson] = useState("{}");
+  const [failedTasks, setFailedTasks] = useState<string[]>([]);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [visibleSteps, setVisibleSteps] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [breakpoints, setBreakpoints] = useState<Set<string>>(new Set());
+
+  // Start from the workflow's own mocked results when switching workflows
+  useEffect(() => {
+    const mocked = Object.fromEntries(
+      (workflow?.fields.tasks || [])
+        .filter(
+          (task) =>
+            task.name &&
+            task.mockInput?.mock_result &&
+            Object.keys(task.mockInput.mock_result as object).length > 0
+        )
+        .map((task) => [task.name, task.mockInput?.mock_result])
+    );
+
+    setContextJson("{}");
+    setResultsJson(JSON.stringify(mocked, null, 2));
+    setFailedTasks([]);
+    setBreakpoints(new Set());
+    setInputError(null);
+    setResult(null);
+    setVisibleSteps(0);
+    setIsPlaying(false);
+  }, [workflow]);
+
+  // Simulates with the given failures, then plays the run or waits paused
+  // before the first step
+  const simulate = useCallback(
+    (failed: string[], play: boolean) => {
+      if (!workflow) return;
+
+      try {
+        const next = simulateWorkflow(workflow, {
+          context: parseJsonObject(contextJson, "CTX"),
+          results: parseJsonObject(resultsJson, "Mock results"),
+          failedTasks: failed,
+          resolveWorkflow: (id) =>
+            workflows.find((obj) => obj.fields.id === id),
+        });
+        setInputError(null);
+        setResult(next);
+        setVisibleSteps(0);
+        setIsPlaying(play);
+      } catch (error) {
+        setInputError(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [workflow, workflows, contextJson, resultsJson]
+  );
+
+  const run = useCallback(
+    () => simulate(failedTasks, true),
+    [simulate, failedTasks]
+  );
+
+  const debug = useCallback(
+    () => simulate(failedTasks, false),
+    [simulate, failedTasks]
+  );
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // Index of the step the run is on, -1 before the first
+  const current = visibleSteps - 1;
+
+  const stepInto = useCallback(() => {
+    if (!result) return;
+    setIsPlaying(false);
+    setVisibleSteps(Math.min(visibleSteps + 1, result.steps.length));
+  }, [result, visibleSteps]);
+
+  const stepOver = useCallback(() => {
+    if (!result) return;
+    setIsPlaying(false);
+    setVisibleSteps(
+      Math.min(
+        findStepOverTarget(result.steps, current) + 1,
+        result.steps.length
+      )
+    );
+  }, [result, current]);
+
+  // Move off the step the run is paused on, then resume playing until the
+  // next breakpoint
+  const continueRun = useCallback(() => {
+    if (!result || visibleSteps >= result.steps.length) return;
+    setVisibleSteps(visibleSteps + 1);
+    setIsPlaying(true);
+  }, [result, visibleSteps]);
+
+  const runToBreakpoint = useCallback(() => {
+    if (!result) return;
+    setIsPlaying(false);
+    setVisibleSteps(
+      Math.min(
+        findNextBreakpoint(result.steps, current, breakpoints) + 1,
+        result.steps.length
+      )
+    );
+  }, [result, current, breakpoints]);
+
+  const toggleBreakpoint = useCallback((taskId: string) => {
+    setBreakpoints((previous) => {
+      const next = new Set(previous);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  }, []);
+
+  const reset = useCallback(() => {
+    setResult(null);
+    setVisibleSteps(0);
+    setIsPlaying(false);
+  }, []);
+
+  // Re-run straight away when a failure is toggled on an existing run
+  const toggleFailedTask = useCallback(
+    (taskName: string) => {
+      const next = failedTasks.includes(taskName)
+        ? failedTasks.filter((name) => name !== taskName)
+        : [...failedTasks, taskName];
+      setFailedTasks(next);
+      if (result) simulate(next, true);
+    },
+    [failedTasks, result, simulate]
+  );
+
+  // Reveal the steps one at a time, pausing on breakpoints
+  useEffect(() => {
+    if (!isPlaying || !result) return;
+
+    const step = result.steps[visibleSteps - 1];
+    const atBreakpoint = step && breakpoints.has(step.taskId);
+    if (visibleSteps >= result.steps.length || atBreakpoint) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(
+      () => setVisibleSteps((count) => count + 1),
+      STEP_INTERVAL
+    );
+    return () => clearTimeout(timer);
+  }, [isPlaying, result, visibleSteps, breakpoints]);
+
+  // Node states for the revealed steps of the selected workflow
+  const stateByTask = useMemo(() => {
+    const states = new Map<string, SimulationNodeState>();
+    if (!result) return states;
+
+    result.steps.slice(0, visibleSteps).forEach((step) => {
+      if (step.depth > 0) return;
+      states.set(step.taskId, step.status === "failed" ? "failed" : "visited");
+    });
+
+    if (visibleSteps >= result.steps.length) {
+      result.pendingJoins.forEach((join) => {
+        if (
+          join.workflowId === selectedWorkflowId &&
+          !states.has(join.taskId)
+        ) {
+          states.set(join.taskId, "waiting");
+        }
+      });
+    }
+
+    return states;
+  }, [result, visibleSteps, selectedWorkflowId]);
+
+  // Edges followed in the revealed steps of the selected workflow
+  const takenEdgeIds = useMemo(
+    () =>
+      new Set(
+        (result?.edges || [])
+          .filter(
+            (edge) =>
+              edge.stepIndex < visibleSteps &&
+              edge.workflowId === selectedWorkflowId
+          )
+          .map((edge) =>
+            getTransitionEdgeId(edge.source, edge.transitionIndex, edge.target)
+          )
+      ),
+    [result, visibleSteps, selectedWorkflowId]
+  );
+
+  // Task on the canvas the run is on, the calling task while inside a
+  // sub-workflow
+  const currentTaskId = useMemo(() => {
+    if (!result) return null;
+    for (let index = current; index >= 0; index--) {
+      if (result.steps[index].depth === 0) return result.steps[index].taskId;
+    }
+    return null;
+  }, [result, current]);
+
+  return {
+    contextJson,
+    setContextJson,
+    resultsJson,
+    setResultsJson,
+    failedTasks,
+    toggleFailedTask,
+    inputError,
+    result,
+    visibleSteps,
+    isPlaying,
+    currentStep: result && current >= 0 ? result.steps[current] : null,
+    currentTaskId,
+    breakpoints,
+    toggleBreakpoint,
+    run,
+    debug,
+    pause,
+    stepInto,
+    stepOver,
+    continueRun,
+    runToBreakpoint,
+    reset,
+    stateByTask,
+    takenEdgeIds,
+  };
+}
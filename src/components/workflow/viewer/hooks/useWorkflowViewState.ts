@@ -0,0 +1,190 @@
+/**
+ * Hook for keeping the view of each workflow between visits
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Viewport } from "reactflow";
+import { NormalizedWorkflowBundle } from "../../../../types/workflow";
+import { WorkflowViewState } from "../../shared/types";
+import {
+  createEmptyViewState,
+  createViewStateExport,
+  getViewStateKey,
+  loadViewState,
+  parseViewStateExport,
+  saveViewState,
+} from "../../shared/utils/viewStateUtils";
+import { WorkflowViewStateHookResult } from "../types";
+
+/**
+ * View state of the selected workflow
+ */
+interface LoadedViewState {
+  /** Key of the workflow, null when none is selected */
+  key: string | null;
+  state: WorkflowViewState;
+  /** Whether the state changed since it was loaded */
+  isDirty: boolean;
+  /** Incremented when the state is replaced by an import */
+  revision: number;
+}
+
+/**
+ * Reads the view state of a workflow
+ * @param key The workflow key
+ * @param revision The revision of the loaded state
+ * @returns The loaded state
+ */
+const load = (key: string | null, revision: number): LoadedViewState => ({
+  key,
+  state: (key && loadViewState(key)) || createEmptyViewState(),
+  isDirty: false,
+  revision,
+});
+
+/**
+ * Hook for keeping the view of each workflow between visits
+ * Views are kept in localStorage under the workflow's object hash, see
+ * `getViewStateKey`.
+ * @param template The normalized workflow template
+ * @param selectedWorkflowId The ID of the selected workflow
+ * @returns The view state of the selected workflow and functions to change it
+ */
+export function useWorkflowViewState(
+  template: NormalizedWorkflowBundle,
+  selectedWorkflowId: string | null
+): WorkflowViewStateHookResult {
+  const workflowKeys = useMemo(
+    () =>
+      Object.values(template.objects)
+        .filter((obj) => obj?.type === "workflow")
+        .map((workflow) => ({
+          id: workflow.fields.id,
+          key: getViewStateKey(workflow),
+        })),
+    [template]
+  );
+
+  const key =
+    workflowKeys.find((workflow) => workflow.id === selectedWorkflowId)?.key ??
+    null;
+
+  const [loaded, setLoaded] = useState<LoadedViewState>(() => load(key, 0));
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Load the view of another workflow as soon as it is selected
+  let current = loaded;
+  if (loaded.key !== key) {
+    current = load(key, loaded.revision);
+    setLoaded(current);
+  }
+
+  // Save changes so they survive reloads
+  useEffect(() => {
+    if (loaded.isDirty && loaded.key) {
+      saveViewState(loaded.key, loaded.state);
+    }
+  }, [loaded]);
+
+  const updateViewState = useCallback(
+    (
+      update:
+        | Partial<WorkflowViewState>
+        | ((state: WorkflowViewState) => Partial<WorkflowViewState>)
+    ) => {
+      setLoaded((prev) =>
+        prev.key
+          ? {
+              ...prev,
+              state: {
+                ...prev.state,
+                ...(typeof update === "function" ? update(prev.state) : update),
+              },
+              isDirty: true,
+            }
+          : prev
+      );
+    },
+    []
+  );
+
+  const saveViewport = useCallback((viewport: Viewport) => {
+    setLoaded((prev) => {
+      const saved = prev.state.viewport;
+      if (
+        !prev.key ||
+        (saved &&
+          saved.x === viewport.x &&
+          saved.y === viewport.y &&
+          saved.zoom === viewport.zoom)
+      ) {
+        return prev;
+      }
+      return {
+        ...prev,
+        state: { ...prev.state, viewport },
+        isDirty: true,
+      };
+    });
+  }, []);
+
+  // Back to the automatic layout, keeping the layout settings
+  const resetViewState = useCallback(() => {
+    updateViewState({ positions: {}, viewport: undefined });
+  }, [updateViewState]);
+
+  const exportViewStates = useCallback(() => {
+    const data = createViewStateExport(
+      workflowKeys.map((workflow) => workflow.key)
+    );
+    const blob = new Blob([JSON.stringify(data, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+
+    const downloadLink = document.createElement("a");
+    downloadLink.href = url;
+    downloadLink.download = "workflow-layout.json";
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+    document.body.removeChild(downloadLink);
+
+    URL.revokeObjectURL(url);
+  }, [workflowKeys]);
+
+  const importViewStates = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const data = parseViewStateExport(
+          JSON.parse(e.target?.result as string)
+        );
+        Object.entries(data.workflows).forEach(([workflowKey, state]) =>
+          saveViewState(workflowKey, state)
+        );
+        setLoaded((prev) => load(prev.key, prev.revision + 1));
+        setImportError(null);
+      } catch (error) {
+        console.error("Error importing layout:", error);
+        setImportError(
+          error instanceof SyntaxError
+            ? "The file is not valid JSON"
+            : error instanceof Error
+            ? error.message
+            : String(error)
+        );
+      }
+    };
+    reader.readAsText(file);
+  }, []);
+
+  return {
+    viewState: current.state,
+    viewStateRevision: current.revision,
+    updateViewState,
+    saveViewport,
+    resetViewState,
+    exportViewStates,
+    importViewStates,
+    importError,
+  };
+}
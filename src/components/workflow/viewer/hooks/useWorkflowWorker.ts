@@ -0,0 +1,89 @@
+/**
+ * Hook for running layouts and bundle processing in the workflow worker
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Edge, Node } from "reactflow";
+import { WorkflowBundle } from "../../../../types/workflow";
+import { LayoutConfig } from "../../shared/types";
+import { WorkflowWorkerHookResult } from "../types";
+import {
+  WorkerProgress,
+  WorkflowWorkerClient,
+  toLayoutEdges,
+  toLayoutNodes,
+} from "../worker";
+
+/**
+ * Hook for running layouts and bundle processing in the workflow worker
+ * Each hook has its own worker, so only requests of the same hook cancel
+ * each other.
+ * @returns The progress of the running request and functions to send requests
+ */
+export function useWorkflowWorker(): WorkflowWorkerHookResult {
+  const clientRef = useRef<WorkflowWorkerClient | null>(null);
+  const [status, setStatus] = useState<WorkerProgress | null>(null);
+
+  // Stop the worker with the component
+  useEffect(
+    () => () => {
+      clientRef.current?.dispose();
+      clientRef.current = null;
+    },
+    []
+  );
+
+  const getClient = useCallback(() => {
+    if (!clientRef.current) clientRef.current = new WorkflowWorkerClient();
+    return clientRef.current;
+  }, []);
+
+  /**
+   * Run a request, tracking its progress
+   * A cancelled request leaves the status to the request that replaced it.
+   */
+  const track = useCallback(
+    async <T>(
+      stage: string,
+      run: (onProgress: (progress: WorkerProgress) => void) => Promise<T | null>
+    ): Promise<T | null> => {
+      setStatus({ stage, progress: 0 });
+      try {
+        const result = await run(setStatus);
+        if (result !== null) setStatus(null);
+        return result;
+      } catch (error) {
+        setStatus(null);
+        throw error;
+      }
+    },
+    []
+  );
+
+  const runLayout = useCallback(
+    (nodes: Node[], edges: Edge[], config: LayoutConfig) =>
+      track("Preparing layout", (onProgress) =>
+        getClient().layout(
+          toLayoutNodes(nodes),
+          toLayoutEdges(edges),
+          config,
+          onProgress
+        )
+      ),
+    [getClient, track]
+  );
+
+  const normalizeBundle = useCallback(
+    (bundle: WorkflowBundle) =>
+      track("Processing bundle", (onProgress) =>
+        getClient().normalize(bundle, onProgress)
+      ),
+    [getClient, track]
+  );
+
+  const cancel = useCallback(() => {
+    clientRef.current?.cancel();
+    setStatus(null);
+  }, []);
+
+  return { status, runLayout, normalizeBundle, cancel };
+}
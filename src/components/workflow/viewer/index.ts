@@ -12,3 +12,15 @@ export { WorkflowLegend } from "./components/WorkflowLegend";
 export { WorkflowNavigation } from "./components/WorkflowNavigation";
 export { WorkflowSelector } from "./components/WorkflowSelector";
 export { LayoutControls } from "./components/LayoutControls";
+export { ProblemsPanel } from "./components/ProblemsPanel";
+export { DataFlowPanel } from "./components/DataFlowPanel";
+export { SimulatorPanel } from "./components/SimulatorPanel";
+export { ExecutionPanel } from "./components/ExecutionPanel";
+export { DiffPanel } from "./components/DiffPanel";
+export { BundleOverview } from "./components/BundleOverview";
+export { ProcessingOverlay } from "./components/ProcessingOverlay";
+export { SearchPalette } from "./components/SearchPalette";
+export { FilterBar } from "./components/FilterBar";
+export { PathsPanel } from "./components/PathsPanel";
+export { ExportMenu } from "./components/ExportMenu";
+export { DocsMenu } from "./components/DocsMenu";
@@ -0,0 +1,40 @@
+/**
+ * Editor coordinates layout algorithm
+ *
+ * Keeps the tasks where they were placed in the Rewst workflow editor, from
+ * their `metadata.x` and `metadata.y`, and only moves apart the ones that
+ * overlap as nodes here are larger than in the editor.
+ */
+import { Node, Edge } from "reactflow";
+import { Task } from "../../../../types/workflow";
+import { LayoutAlgorithm } from "./layoutEngine";
+import { LayoutConfig } from "../../shared/types";
+import { normalizePositions, removeOverlaps } from "./layoutUtils";
+
+/**
+ * Editor coordinates layout algorithm implementation
+ */
+export class EditorLayout implements LayoutAlgorithm {
+  /**
+   * Calculate positions for nodes based on the workflow structure
+   * @param nodes The nodes to position
+   * @param _edges The edges connecting the nodes, unused
+   * @param config The layout configuration
+   * @returns The nodes with updated positions
+   */
+  calculateLayout(nodes: Node[], _edges: Edge[], config: LayoutConfig): Node[] {
+    if (nodes.length === 0) {
+      return [];
+    }
+
+    // Nodes without editor coordinates keep their current position
+    const positioned = nodes.map((node) => {
+      const metadata = (node.data as Task | undefined)?.metadata;
+      return typeof metadata?.x === "number" && typeof metadata?.y === "number"
+        ? { ...node, position: { x: metadata.x, y: metadata.y } }
+        : node;
+    });
+
+    return normalizePositions(removeOverlaps(positioned, config), config);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Force-directed layout algorithm
+ *
+ * Simulates nodes repelling each other and edges pulling their ends together
+ * (Fruchterman-Reingold), then moves apart the nodes still overlapping. The
+ * simulation starts from a circle, so the same graph always gets the same
+ * layout.
+ */
+import { Node, Edge } from "reactflow";
+import { LayoutAlgorithm } from "./layoutEngine";
+import { LayoutConfig } from "../../shared/types";
+import {
+  getLayoutLinks,
+  getNodeExtent,
+  normalizePositions,
+  removeOverlaps,
+} from "./layoutUtils";
+
+/**
+ * Number of simulation steps
+ */
+const ITERATIONS = 300;
+
+/**
+ * Pull towards the centre, keeps unconnected parts from drifting away
+ */
+const GRAVITY = 0.05;
+
+/**
+ * Force-directed layout algorithm implementation
+ */
+export class ForceLayout implements LayoutAlgorithm {
+  /**
+   * Calculate positions for nodes based on the workflow structure
+   * @param nodes The nodes to position
+   * @param edges The edges connecting the nodes
+   * @param config The layout configuration
+   * @returns The nodes with updated positions
+   */
+  calculateLayout(nodes: Node[], edges: Edge[], config: LayoutConfig): Node[] {
+    if (nodes.length === 0) {
+      return [];
+    }
+
+    const links = getLayoutLinks(nodes, edges);
+    const extents = nodes.map((node) => getNodeExtent(node, config));
+
+    // Ideal edge length, long enough for the nodes at both ends
+    const k =
+      Math.max(
+        ...extents.map((extent) => Math.max(extent.width, extent.height))
+      ) + config.nodeSpacing;
+
+    const radius = (k * nodes.length) / (2 * Math.PI);
+    const positions = nodes.map((_, index) => {
+      const angle = (2 * Math.PI * index) / nodes.length;
+      return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+    });
+    const indexOf = new Map(nodes.map((node, index) => [node.id, index]));
+
+    let temperature = k * 2;
+    const cooling = temperature / ITERATIONS;
+
+    for (let step = 0; step < ITERATIONS; step++) {
+      const displacement = positions.map(() => ({ x: 0, y: 0 }));
+
+      // Every pair of nodes repels
+      for (let i = 0; i < positions.length; i++) {
+        for (let j = i + 1; j < positions.length; j++) {
+          const dx = positions[i].x - positions[j].x;
+          const dy = positions[i].y - positions[j].y;
+          const distance = Math.max(Math.hypot(dx, dy), 1);
+          const force = (k * k) / distance;
+          displacement[i].x += (dx / distance) * force;
+          displacement[i].y += (dy / distance) * force;
+          displacement[j].x -= (dx / distance) * force;
+          displacement[j].y -= (dy / distance) * force;
+        }
+      }
+
+      // Edges pull their ends together
+      links.forEach((link) => {
+        const s = indexOf.get(link.source) as number;
+        const t = indexOf.get(link.target) as number;
+        const dx = positions[s].x - positions[t].x;
+        const dy = positions[s].y - positions[t].y;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        const force = (distance * distance) / k;
+        displacement[s].x -= (dx / distance) * force;
+        displacement[s].y -= (dy / distance) * force;
+        displacement[t].x += (dx / distance) * force;
+        displacement[t].y += (dy / distance) * force;
+      });
+
+      // Move each node at most as far as the temperature allows
+      positions.forEach((position, index) => {
+        const x = displacement[index].x - position.x * GRAVITY;
+        const y = displacement[index].y - position.y * GRAVITY;
+        const length = Math.max(Math.hypot(x, y), 1);
+        const move = Math.min(length, temperature);
+        position.x += (x / length) * move;
+        position.y += (y / length) * move;
+      });
+
+      temperature = Math.max(temperature - cooling, 1);
+    }
+
+    // Positions are node centres until now
+    const positioned = nodes.map((node, index) => ({
+      ...node,
+      position: {
+        x: positions[index].x - extents[index].width / 2,
+        y: positions[index].y - extents[index].height / 2,
+      },
+    }));
+
+    return normalizePositions(
+      removeOverlaps(positioned, config, config.nodeSpacing),
+      config
+    );
+  }
+}
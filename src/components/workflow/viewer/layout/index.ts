@@ -3,3 +3,10 @@
  */
 export * from "./layoutEngine";
 export * from "./dagLayout";
+export * from "./subWorkflowGroups";
+export * from "./sugiyamaLayout";
+export * from "./forceLayout";
+export * from "./radialLayout";
+export * from "./editorLayout";
+export * from "./registry";
+export * from "./orthogonalRouter";
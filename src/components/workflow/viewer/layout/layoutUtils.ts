@@ -0,0 +1,167 @@
+/**
+ * Helpers shared by the layout algorithms
+ */
+import { Edge, Node } from "reactflow";
+import { Task } from "../../../../types/workflow";
+import { findStartTask } from "../../../../lib/workflow-graph";
+import { LayoutConfig } from "../../shared/types";
+
+/**
+ * Size of a node during layout
+ */
+export interface NodeExtent {
+  width: number;
+  height: number;
+}
+
+/**
+ * Gets the size of a node
+ * Rendered nodes have been measured, others use their style or the configured
+ * node size.
+ * @param node The node
+ * @param config The layout configuration
+ * @returns The width and height
+ */
+export const getNodeExtent = (
+  node: Node,
+  config: LayoutConfig
+): NodeExtent => ({
+  width: node.width || Number(node.style?.width) || config.nodeSize.width,
+  height:
+    node.height || Number(node.style?.height) || config.nodeSize.minHeight,
+});
+
+/**
+ * Gets the distinct edges between the given nodes
+ * Self-loops and edges to other nodes, such as triggers, are left out.
+ * @param nodes The nodes
+ * @param edges The edges
+ * @returns The edges as source and target pairs
+ */
+export const getLayoutLinks = (
+  nodes: Node[],
+  edges: Edge[]
+): Array<{ source: string; target: string }> => {
+  const ids = new Set(nodes.map((node) => node.id));
+  const seen = new Set<string>();
+
+  return edges
+    .filter(
+      (edge) =>
+        edge.source !== edge.target &&
+        ids.has(edge.source) &&
+        ids.has(edge.target)
+    )
+    .filter((edge) => {
+      const key = `${edge.source}->${edge.target}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((edge) => ({ source: edge.source, target: edge.target }));
+};
+
+/**
+ * Finds the node of the task the workflow starts from
+ * Falls back to the first node without incoming edges for nodes that aren't
+ * tasks.
+ * @param nodes The nodes
+ * @param edges The edges
+ * @returns The start node or null when there are no nodes
+ */
+export const findStartNode = (nodes: Node[], edges: Edge[]): Node | null => {
+  const tasks = nodes
+    .map((node) => node.data as Task | undefined)
+    .filter((task): task is Task => Boolean(task?.id));
+  const start = tasks.length > 0 ? findStartTask(tasks) : null;
+  const startNode = start && nodes.find((node) => node.data === start);
+  if (startNode) return startNode;
+
+  const targets = new Set(
+    getLayoutLinks(nodes, edges).map((link) => link.target)
+  );
+  return nodes.find((node) => !targets.has(node.id)) || nodes[0] || null;
+};
+
+/**
+ * Moves nodes apart until none of them overlap
+ * Nodes are placed from the top left, each one moved right or down, whichever
+ * is shorter, past the nodes it overlaps.
+ * @param nodes The positioned nodes
+ * @param config The layout configuration
+ * @param gap Minimum space between two nodes
+ * @returns The nodes with updated positions
+ */
+export const removeOverlaps = (
+  nodes: Node[],
+  config: LayoutConfig,
+  gap: number = config.padding
+): Node[] => {
+  const placed: Array<{ id: string; x: number; y: number } & NodeExtent> = [];
+  const positions = new Map<string, { x: number; y: number }>();
+
+  [...nodes]
+    .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x)
+    .forEach((node) => {
+      const box = {
+        id: node.id,
+        ...node.position,
+        ...getNodeExtent(node, config),
+      };
+
+      // Each move goes right or down, so after as many moves as placed nodes
+      // the remaining overlaps are resolved by moving below everything
+      for (let attempt = 0; attempt <= placed.length; attempt++) {
+        const other = placed.find(
+          (p) =>
+            box.x < p.x + p.width + gap &&
+            p.x < box.x + box.width + gap &&
+            box.y < p.y + p.height + gap &&
+            p.y < box.y + box.height + gap
+        );
+        if (!other) break;
+
+        const moveRight = other.x + other.width + gap - box.x;
+        const moveDown = other.y + other.height + gap - box.y;
+        if (attempt === placed.length) {
+          box.y = Math.max(...placed.map((p) => p.y + p.height)) + gap;
+        } else if (moveRight < moveDown) {
+          box.x += moveRight;
+        } else {
+          box.y += moveDown;
+        }
+      }
+
+      placed.push(box);
+      positions.set(node.id, { x: box.x, y: box.y });
+    });
+
+  return nodes.map((node) => ({
+    ...node,
+    position: positions.get(node.id) || node.position,
+  }));
+};
+
+/**
+ * Moves the layout so its top left corner sits at the configured padding
+ * @param nodes The positioned nodes
+ * @param config The layout configuration
+ * @returns The nodes with updated positions
+ */
+export const normalizePositions = (
+  nodes: Node[],
+  config: LayoutConfig
+): Node[] => {
+  if (nodes.length === 0) return nodes;
+
+  const minX = Math.min(...nodes.map((node) => node.position.x));
+  const minY = Math.min(...nodes.map((node) => node.position.y));
+
+  return nodes.map((node) => ({
+    ...node,
+    position: {
+      x: node.position.x - minX + config.padding,
+      y: node.position.y - minY + config.padding,
+    },
+  }));
+};
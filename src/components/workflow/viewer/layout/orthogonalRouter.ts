@@ -0,0 +1,640 @@
+/**
+ * Orthogonal edge router
+ *
+ * Routes edges with horizontal and vertical segments around the node
+ * rectangles of the laid out workflow. Paths are searched on a sparse grid
+ * made of the obstacle borders and the edge endpoints, with a penalty for
+ * every bend.
+ */
+import { Position, XYPosition } from "reactflow";
+
+/**
+ * A rectangle edges must go around
+ */
+export interface RouteObstacle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * An edge to route
+ */
+export interface EdgeRouteRequest {
+  id: string;
+  /** Point of the source handle */
+  source: XYPosition;
+  /** Side of the source node the handle is on */
+  sourcePosition: Position;
+  /** Point of the target handle */
+  target: XYPosition;
+  /** Side of the target node the handle is on */
+  targetPosition: Position;
+  /**
+   * Edges with the same key leave from the same handle and share their
+   * segments until they split towards their targets
+   */
+  bundleKey?: string;
+  /** Size of the edge label, for edges with one */
+  labelSize?: { width: number; height: number };
+}
+
+/**
+ * A routed edge
+ */
+export interface EdgeRoute {
+  /** Corners of the path, from the source handle to the target handle */
+  points: XYPosition[];
+  /** Center of the label, for edges with one */
+  labelPosition?: XYPosition;
+}
+
+/**
+ * Options of the router
+ */
+export interface OrthogonalRouterOptions {
+  /** Space kept around nodes, also the length of the stubs at the handles */
+  margin: number;
+  /** Cost of a bend, in pixels of path length */
+  bendPenalty: number;
+}
+
+export const DEFAULT_ORTHOGONAL_ROUTER_OPTIONS: OrthogonalRouterOptions = {
+  margin: 16,
+  bendPenalty: 40,
+};
+
+/**
+ * Cost factor of segments already used by edges of the same bundle
+ */
+const SHARED_SEGMENT_WEIGHT = 0.3;
+
+/**
+ * Extra cost factor per other edge already using a segment
+ */
+const CROWDED_SEGMENT_WEIGHT = 0.5;
+
+/**
+ * Moves along the grid: right, left, down and up
+ */
+const DIRECTIONS: XYPosition[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+/**
+ * Gets the direction pointing away from a side of a node
+ * @param position The side
+ * @returns The index in `DIRECTIONS`
+ */
+const getOutwardDirection = (position: Position): number => {
+  switch (position) {
+    case Position.Right:
+      return 0;
+    case Position.Left:
+      return 1;
+    case Position.Bottom:
+      return 2;
+    case Position.Top:
+    default:
+      return 3;
+  }
+};
+
+/**
+ * Gets the opposite of a direction
+ * @param direction The index in `DIRECTIONS`
+ * @returns The index of the opposite direction
+ */
+const getOppositeDirection = (direction: number): number =>
+  direction % 2 === 0 ? direction + 1 : direction - 1;
+
+/**
+ * Moves a point along a direction
+ * @param point The point
+ * @param direction The index in `DIRECTIONS`
+ * @param distance How far to move
+ * @returns The moved point
+ */
+const movePoint = (
+  point: XYPosition,
+  direction: number,
+  distance: number
+): XYPosition => ({
+  x: point.x + DIRECTIONS[direction].x * distance,
+  y: point.y + DIRECTIONS[direction].y * distance,
+});
+
+/**
+ * Binary min-heap of grid states by cost
+ */
+class StateQueue {
+  private costs: number[] = [];
+  private states: number[] = [];
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  push(state: number, cost: number): void {
+    let index = this.states.length;
+    this.states.push(state);
+    this.costs.push(cost);
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.costs[parent] <= cost) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.states[0];
+    const lastState = this.states.pop() as number;
+    const lastCost = this.costs.pop() as number;
+
+    if (this.states.length > 0) {
+      this.states[0] = lastState;
+      this.costs[0] = lastCost;
+
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.size && this.costs[left] < this.costs[smallest]) {
+          smallest = left;
+        }
+        if (right < this.size && this.costs[right] < this.costs[smallest]) {
+          smallest = right;
+        }
+        if (smallest === index) break;
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.states[a], this.states[b]] = [this.states[b], this.states[a]];
+    [this.costs[a], this.costs[b]] = [this.costs[b], this.costs[a]];
+  }
+}
+
+/**
+ * Grid of the coordinates paths can turn at
+ * Points and segments inside an obstacle are blocked.
+ */
+class RoutingGrid {
+  readonly xs: number[];
+  readonly ys: number[];
+  private blockedPoints: Uint8Array;
+  /** Segments to the next point right (even) or down (odd) */
+  private blockedSegments: Uint8Array;
+
+  constructor(obstacles: RouteObstacle[], xs: number[], ys: number[]) {
+    this.xs = [...new Set(xs)].sort((a, b) => a - b);
+    this.ys = [...new Set(ys)].sort((a, b) => a - b);
+    this.blockedPoints = new Uint8Array(this.xs.length * this.ys.length);
+    this.blockedSegments = new Uint8Array(this.blockedPoints.length * 2);
+
+    obstacles.forEach((obstacle) => this.block(obstacle));
+  }
+
+  get width(): number {
+    return this.xs.length;
+  }
+
+  indexOf(point: XYPosition): number {
+    return this.ys.indexOf(point.y) * this.width + this.xs.indexOf(point.x);
+  }
+
+  pointAt(index: number): XYPosition {
+    return {
+      x: this.xs[index % this.width],
+      y: this.ys[Math.floor(index / this.width)],
+    };
+  }
+
+  /**
+   * Gets the neighbour of a point in a direction
+   * @returns The neighbour's index, or -1 if there is none or the way is blocked
+   */
+  neighbour(index: number, direction: number): number {
+    const column = index % this.width;
+    const row = Math.floor(index / this.width);
+
+    switch (direction) {
+      case 0:
+        return column + 1 < this.width && !this.blockedSegments[index * 2]
+          ? index + 1
+          : -1;
+      case 1:
+        return column > 0 && !this.blockedSegments[(index - 1) * 2]
+          ? index - 1
+          : -1;
+      case 2:
+        return row + 1 < this.ys.length && !this.blockedSegments[index * 2 + 1]
+          ? index + this.width
+          : -1;
+      default:
+        return row > 0 && !this.blockedSegments[(index - this.width) * 2 + 1]
+          ? index - this.width
+          : -1;
+    }
+  }
+
+  isBlocked(index: number): boolean {
+    return this.blockedPoints[index] === 1;
+  }
+
+  /**
+   * Gets the ID of the segment between a point and its neighbour
+   */
+  segmentId(from: number, to: number): number {
+    const start = Math.min(from, to);
+    return Math.abs(to - from) === 1 ? start * 2 : start * 2 + 1;
+  }
+
+  private block(obstacle: RouteObstacle): void {
+    const left = obstacle.x;
+    const right = obstacle.x + obstacle.width;
+    const top = obstacle.y;
+    const bottom = obstacle.y + obstacle.height;
+
+    for (let row = 0; row < this.ys.length; row++) {
+      const y = this.ys[row];
+      if (y < top || y > bottom) continue;
+      const isInsideRow = y > top && y < bottom;
+
+      for (let column = 0; column < this.width; column++) {
+        const x = this.xs[column];
+        if (x < left || x > right) continue;
+        const isInsideColumn = x > left && x < right;
+        const index = row * this.width + column;
+
+        if (isInsideRow && isInsideColumn) this.blockedPoints[index] = 1;
+        // Segments running through the inside of the obstacle
+        if (isInsideRow && column + 1 < this.width) {
+          if (this.xs[column + 1] <= right) {
+            this.blockedSegments[index * 2] = 1;
+          }
+        }
+        if (isInsideColumn && row + 1 < this.ys.length) {
+          if (this.ys[row + 1] <= bottom) {
+            this.blockedSegments[index * 2 + 1] = 1;
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Removes points lying on a straight line between their neighbours
+ * @param points The points
+ * @returns The corners
+ */
+const simplifyPoints = (points: XYPosition[]): XYPosition[] =>
+  points.filter((point, index) => {
+    if (index === 0 || index === points.length - 1) return true;
+    const previous = points[index - 1];
+    const next = points[index + 1];
+    if (point.x === previous.x && point.y === previous.y) return false;
+    return !(
+      (previous.x === point.x && point.x === next.x) ||
+      (previous.y === point.y && point.y === next.y)
+    );
+  });
+
+/**
+ * Path used when no route around the obstacles is found: out of the source
+ * stub, across halfway, and into the target stub
+ */
+const getFallbackPoints = (
+  source: XYPosition,
+  sourceStub: XYPosition,
+  targetStub: XYPosition,
+  target: XYPosition,
+  sourceDirection: number
+): XYPosition[] => {
+  const isVertical = sourceDirection >= 2;
+  const middle = isVertical
+    ? [
+        { x: sourceStub.x, y: (sourceStub.y + targetStub.y) / 2 },
+        { x: targetStub.x, y: (sourceStub.y + targetStub.y) / 2 },
+      ]
+    : [
+        { x: (sourceStub.x + targetStub.x) / 2, y: sourceStub.y },
+        { x: (sourceStub.x + targetStub.x) / 2, y: targetStub.y },
+      ];
+
+  return simplifyPoints([source, sourceStub, ...middle, targetStub, target]);
+};
+
+/**
+ * Checks whether two rectangles overlap
+ */
+const overlaps = (a: RouteObstacle, b: RouteObstacle): boolean =>
+  a.x < b.x + b.width &&
+  b.x < a.x + a.width &&
+  a.y < b.y + b.height &&
+  b.y < a.y + a.height;
+
+/**
+ * Checks whether a point lies on a path
+ */
+const isOnPath = (point: XYPosition, points: XYPosition[]): boolean =>
+  points.some((start, index) => {
+    const end = points[index + 1];
+    if (!end) return false;
+    return (
+      point.x >= Math.min(start.x, end.x) &&
+      point.x <= Math.max(start.x, end.x) &&
+      point.y >= Math.min(start.y, end.y) &&
+      point.y <= Math.max(start.y, end.y)
+    );
+  });
+
+/**
+ * Places labels on their paths without overlapping nodes or other labels
+ * Segments shared with other edges of the bundle are tried last, so labels
+ * sit where the edges have split, and longer segments before shorter ones.
+ */
+const placeLabels = (
+  requests: EdgeRouteRequest[],
+  routes: Map<string, EdgeRoute>,
+  obstacles: RouteObstacle[]
+): void => {
+  const placed: RouteObstacle[] = [];
+
+  requests.forEach((request) => {
+    const route = routes.get(request.id);
+    if (!route || !request.labelSize) return;
+
+    const { width, height } = request.labelSize;
+    const siblings = requests
+      .filter(
+        (other) =>
+          other.id !== request.id &&
+          request.bundleKey &&
+          other.bundleKey === request.bundleKey
+      )
+      .map((other) => routes.get(other.id)?.points || []);
+
+    const candidates = route.points
+      .slice(0, -1)
+      .map((start, index) => {
+        const end = route.points[index + 1];
+        const middle = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+        return {
+          start,
+          end,
+          length: Math.abs(end.x - start.x) + Math.abs(end.y - start.y),
+          isShared: siblings.some((points) => isOnPath(middle, points)),
+        };
+      })
+      .sort(
+        (a, b) => Number(a.isShared) - Number(b.isShared) || b.length - a.length
+      )
+      .flatMap(({ start, end }) =>
+        [0.5, 0.25, 0.75].map((share) => ({
+          x: start.x + (end.x - start.x) * share,
+          y: start.y + (end.y - start.y) * share,
+        }))
+      );
+
+    const toRect = (center: XYPosition): RouteObstacle => ({
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height,
+    });
+    const position =
+      candidates.find((center) => {
+        const rect = toRect(center);
+        return ![...obstacles, ...placed].some((other) =>
+          overlaps(rect, other)
+        );
+      }) || candidates[0];
+
+    if (position) {
+      route.labelPosition = position;
+      placed.push(toRect(position));
+    }
+  });
+};
+
+/**
+ * Routes edges around obstacles with horizontal and vertical segments
+ * Edges are routed one after the other. Segments used by edges of the same
+ * bundle are cheaper, so edges leaving the same handle run together, while
+ * segments used by other edges cost more, so unrelated edges spread out.
+ * @param requests The edges to route
+ * @param obstacles The node rectangles
+ * @param options Router options
+ * @returns The route of every edge, by edge ID
+ */
+export const routeOrthogonalEdges = (
+  requests: EdgeRouteRequest[],
+  obstacles: RouteObstacle[],
+  options: OrthogonalRouterOptions = DEFAULT_ORTHOGONAL_ROUTER_OPTIONS
+): Map<string, EdgeRoute> => {
+  const { margin, bendPenalty } = options;
+  const inflated = obstacles.map((obstacle) => ({
+    x: obstacle.x - margin,
+    y: obstacle.y - margin,
+    width: obstacle.width + margin * 2,
+    height: obstacle.height + margin * 2,
+  }));
+
+  // Stubs leave the handles straight, up to the space kept around nodes
+  const endpoints = requests.map((request) => {
+    const sourceDirection = getOutwardDirection(request.sourcePosition);
+    const targetDirection = getOutwardDirection(request.targetPosition);
+    return {
+      sourceDirection,
+      // Direction of the path when it reaches the target stub
+      arrivalDirection: getOppositeDirection(targetDirection),
+      sourceStub: movePoint(request.source, sourceDirection, margin),
+      targetStub: movePoint(request.target, targetDirection, margin),
+    };
+  });
+
+  const grid = new RoutingGrid(
+    inflated,
+    [
+      ...inflated.flatMap((rect) => [rect.x, rect.x + rect.width]),
+      ...endpoints.flatMap(({ sourceStub, targetStub }) => [
+        sourceStub.x,
+        targetStub.x,
+      ]),
+    ],
+    [
+      ...inflated.flatMap((rect) => [rect.y, rect.y + rect.height]),
+      ...endpoints.flatMap(({ sourceStub, targetStub }) => [
+        sourceStub.y,
+        targetStub.y,
+      ]),
+    ]
+  );
+
+  // Bundles using each segment
+  const segmentBundles = new Map<number, Set<string>>();
+  const routes = new Map<string, EdgeRoute>();
+
+  requests.forEach((request, requestIndex) => {
+    const { sourceDirection, arrivalDirection, sourceStub, targetStub } =
+      endpoints[requestIndex];
+    const bundleKey = request.bundleKey || request.id;
+    const start = grid.indexOf(sourceStub);
+    const goal = grid.indexOf(targetStub);
+    const goalPoint = grid.pointAt(goal);
+
+    // A* over (point, direction) states
+    const stateCount = grid.xs.length * grid.ys.length * 4;
+    const costs = new Float64Array(stateCount).fill(Infinity);
+    const previous = new Int32Array(stateCount).fill(-1);
+    const queue = new StateQueue();
+    const heuristic = (index: number) => {
+      const point = grid.pointAt(index);
+      return (
+        (Math.abs(point.x - goalPoint.x) + Math.abs(point.y - goalPoint.y)) *
+        SHARED_SEGMENT_WEIGHT
+      );
+    };
+
+    const startState = start * 4 + sourceDirection;
+    const goalState = goal * 4 + arrivalDirection;
+    costs[startState] = 0;
+    queue.push(startState, heuristic(start));
+
+    while (queue.size > 0) {
+      const state = queue.pop();
+      if (state === goalState) break;
+
+      const index = state >> 2;
+      const direction = state & 3;
+      const cost = costs[state];
+
+      // Keep going, or turn by a quarter
+      const moves: Array<{ next: number; step: number }> = [];
+      const neighbour = grid.neighbour(index, direction);
+      if (
+        neighbour !== -1 &&
+        (!grid.isBlocked(neighbour) || neighbour === goal)
+      ) {
+        const from = grid.pointAt(index);
+        const to = grid.pointAt(neighbour);
+        const bundles = segmentBundles.get(grid.segmentId(index, neighbour));
+        const weight = bundles?.has(bundleKey)
+          ? SHARED_SEGMENT_WEIGHT
+          : 1 + CROWDED_SEGMENT_WEIGHT * (bundles?.size || 0);
+        moves.push({
+          next: neighbour * 4 + direction,
+          step: (Math.abs(to.x - from.x) + Math.abs(to.y - from.y)) * weight,
+        });
+      }
+      [0, 1, 2, 3]
+        .filter(
+          (turn) =>
+            turn !== direction && turn !== getOppositeDirection(direction)
+        )
+        .forEach((turn) =>
+          moves.push({ next: index * 4 + turn, step: bendPenalty })
+        );
+
+      moves.forEach(({ next, step }) => {
+        if (cost + step >= costs[next]) return;
+        costs[next] = cost + step;
+        previous[next] = state;
+        queue.push(next, cost + step + heuristic(next >> 2));
+      });
+    }
+
+    if (costs[goalState] === Infinity) {
+      routes.set(request.id, {
+        points: getFallbackPoints(
+          request.source,
+          sourceStub,
+          targetStub,
+          request.target,
+          sourceDirection
+        ),
+      });
+      return;
+    }
+
+    // Walk back from the goal, marking the segments used by the bundle
+    const path: number[] = [];
+    for (let state = goalState; state !== -1; state = previous[state]) {
+      const index = state >> 2;
+      if (path.length > 0 && path[path.length - 1] !== index) {
+        const segment = grid.segmentId(index, path[path.length - 1]);
+        const bundles = segmentBundles.get(segment) || new Set<string>();
+        bundles.add(bundleKey);
+        segmentBundles.set(segment, bundles);
+      }
+      if (path[path.length - 1] !== index) path.push(index);
+    }
+
+    routes.set(request.id, {
+      points: simplifyPoints([
+        request.source,
+        ...path.reverse().map((index) => grid.pointAt(index)),
+        request.target,
+      ]),
+    });
+  });
+
+  placeLabels(requests, routes, obstacles);
+
+  return routes;
+};
+
+/**
+ * Builds the SVG path of a route, with rounded corners
+ * @param points The corners of the route
+ * @param borderRadius The radius of the corners
+ * @returns The SVG path
+ */
+export const getOrthogonalPath = (
+  points: XYPosition[],
+  borderRadius: number
+): string => {
+  if (points.length === 0) return "";
+
+  const commands = [`M ${points[0].x},${points[0].y}`];
+
+  points.slice(1, -1).forEach((corner, index) => {
+    const before = points[index];
+    const after = points[index + 2];
+    const radius = Math.min(
+      borderRadius,
+      (Math.abs(corner.x - before.x) + Math.abs(corner.y - before.y)) / 2,
+      (Math.abs(after.x - corner.x) + Math.abs(after.y - corner.y)) / 2
+    );
+    const towards = (point: XYPosition) => ({
+      x: corner.x + Math.sign(point.x - corner.x) * radius,
+      y: corner.y + Math.sign(point.y - corner.y) * radius,
+    });
+    const start = towards(before);
+    const end = towards(after);
+
+    commands.push(
+      `L ${start.x},${start.y}`,
+      `Q ${corner.x},${corner.y} ${end.x},${end.y}`
+    );
+  });
+
+  const last = points[points.length - 1];
+  commands.push(`L ${last.x},${last.y}`);
+
+  return commands.join(" ");
+};
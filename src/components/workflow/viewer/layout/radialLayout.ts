@@ -0,0 +1,136 @@
+/**
+ * Radial layout algorithm
+ *
+ * Places the start task in the centre and the other tasks on rings around it,
+ * one ring per step from the start. Each task gets a slice of its ring in
+ * proportion to the tasks following it, so branches stay together.
+ */
+import { Node, Edge } from "reactflow";
+import { LayoutAlgorithm } from "./layoutEngine";
+import { LayoutConfig } from "../../shared/types";
+import {
+  findStartNode,
+  getLayoutLinks,
+  getNodeExtent,
+  normalizePositions,
+  removeOverlaps,
+} from "./layoutUtils";
+
+/**
+ * Radial layout algorithm implementation
+ */
+export class RadialLayout implements LayoutAlgorithm {
+  /**
+   * Calculate positions for nodes based on the workflow structure
+   * @param nodes The nodes to position
+   * @param edges The edges connecting the nodes
+   * @param config The layout configuration
+   * @returns The nodes with updated positions
+   */
+  calculateLayout(nodes: Node[], edges: Edge[], config: LayoutConfig): Node[] {
+    const root = findStartNode(nodes, edges);
+    if (!root) {
+      return [];
+    }
+
+    const outgoing = new Map<string, string[]>(
+      nodes.map((node) => [node.id, []])
+    );
+    getLayoutLinks(nodes, edges).forEach((link) =>
+      outgoing.get(link.source)?.push(link.target)
+    );
+
+    // Breadth-first tree from the start, tasks it doesn't reach hang off the
+    // start so every task gets a ring
+    const children = new Map<string, string[]>(
+      nodes.map((node) => [node.id, []])
+    );
+    const depth = new Map<string, number>([[root.id, 0]]);
+    const walk = (start: string, parent: string | null) => {
+      if (parent) children.get(parent)?.push(start);
+      depth.set(start, parent ? (depth.get(parent) || 0) + 1 : 0);
+
+      const queue = [start];
+      while (queue.length > 0) {
+        const id = queue.shift() as string;
+        outgoing.get(id)?.forEach((target) => {
+          if (depth.has(target)) return;
+          depth.set(target, (depth.get(id) || 0) + 1);
+          children.get(id)?.push(target);
+          queue.push(target);
+        });
+      }
+    };
+    walk(root.id, null);
+    nodes.forEach((node) => {
+      if (!depth.has(node.id)) walk(node.id, root.id);
+    });
+
+    // Slices are shared by the leaves below each task
+    const leaves = new Map<string, number>();
+    const countLeaves = (id: string): number => {
+      const count = (children.get(id) || []).reduce(
+        (sum, child) => sum + countLeaves(child),
+        0
+      );
+      leaves.set(id, Math.max(count, 1));
+      return Math.max(count, 1);
+    };
+    countLeaves(root.id);
+
+    // Rings are far enough apart for the nodes, and long enough to hold them
+    const extents = new Map(
+      nodes.map((node) => [node.id, getNodeExtent(node, config)])
+    );
+    const size = Math.max(
+      ...Array.from(extents.values()).map((extent) =>
+        Math.max(extent.width, extent.height)
+      )
+    );
+    const ringSizes = new Map<number, number>();
+    depth.forEach((d) => ringSizes.set(d, (ringSizes.get(d) || 0) + 1));
+    const radii: number[] = [0];
+    for (let d = 1; d <= Math.max(...ringSizes.keys()); d++) {
+      const circumference =
+        (ringSizes.get(d) || 0) * (size + config.nodeSpacing);
+      radii[d] = Math.max(
+        radii[d - 1] + size + config.rankSpacing,
+        circumference / (2 * Math.PI)
+      );
+    }
+
+    const centers = new Map<string, { x: number; y: number }>();
+    const place = (id: string, from: number, to: number) => {
+      const angle = (from + to) / 2;
+      const radius = radii[depth.get(id) || 0];
+      centers.set(id, {
+        x: radius * Math.cos(angle),
+        y: radius * Math.sin(angle),
+      });
+
+      let start = from;
+      (children.get(id) || []).forEach((child) => {
+        const span =
+          ((to - from) * (leaves.get(child) || 1)) / (leaves.get(id) || 1);
+        place(child, start, start + span);
+        start += span;
+      });
+    };
+    // The first branch starts at the top
+    place(root.id, -Math.PI / 2, (3 * Math.PI) / 2);
+
+    const positioned = nodes.map((node) => {
+      const center = centers.get(node.id) || { x: 0, y: 0 };
+      const extent = extents.get(node.id) || { width: 0, height: 0 };
+      return {
+        ...node,
+        position: {
+          x: center.x - extent.width / 2,
+          y: center.y - extent.height / 2,
+        },
+      };
+    });
+
+    return normalizePositions(removeOverlaps(positioned, config), config);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Registry of the layout algorithms that can be picked for the canvas
+ *
+ * Algorithms register under an ID, which `LayoutConfig.algorithm` refers to.
+ * New algorithms only need to implement `LayoutAlgorithm` and register here.
+ */
+import { LayoutAlgorithm } from "./layoutEngine";
+import { DagLayout } from "./dagLayout";
+import { SugiyamaLayout } from "./sugiyamaLayout";
+import { ForceLayout } from "./forceLayout";
+import { RadialLayout } from "./radialLayout";
+import { EditorLayout } from "./editorLayout";
+
+/**
+ * A layout algorithm that can be picked for the canvas
+ */
+export interface LayoutAlgorithmDefinition {
+  /** ID referred to by `LayoutConfig.algorithm` */
+  id: string;
+  name: string;
+  description: string;
+  /** Whether the algorithm follows `LayoutConfig.direction` */
+  supportsDirection: boolean;
+  create: () => LayoutAlgorithm;
+}
+
+/**
+ * Algorithm used when the configured one isn't registered
+ */
+export const DEFAULT_LAYOUT_ALGORITHM = "dag";
+
+const algorithms = new Map<string, LayoutAlgorithmDefinition>();
+
+/**
+ * Registers a layout algorithm, replacing any with the same ID
+ * @param definition The algorithm
+ */
+export const registerLayoutAlgorithm = (
+  definition: LayoutAlgorithmDefinition
+): void => {
+  algorithms.set(definition.id, definition);
+};
+
+/**
+ * Gets the registered layout algorithms, in registration order
+ * @returns The algorithms
+ */
+export const getLayoutAlgorithms = (): LayoutAlgorithmDefinition[] =>
+  Array.from(algorithms.values());
+
+/**
+ * Creates a registered layout algorithm
+ * @param id The ID of the algorithm, the default one when unset or unknown
+ * @returns The algorithm
+ */
+export const createLayoutAlgorithm = (id?: string): LayoutAlgorithm =>
+  (
+    (id && algorithms.get(id)) ||
+    (algorithms.get(DEFAULT_LAYOUT_ALGORITHM) as LayoutAlgorithmDefinition)
+  ).create();
+
+registerLayoutAlgorithm({
+  id: "dag",
+  name: "DAG",
+  description: "Ranks tasks by their dependencies",
+  supportsDirection: true,
+  create: () => new DagLayout(),
+});
+
+registerLayoutAlgorithm({
+  id: "sugiyama",
+  name: "Layered",
+  description:
+    "Layers tasks with cycle breaking and fewer crossing transitions",
+  supportsDirection: true,
+  create: () => new SugiyamaLayout(),
+});
+
+registerLayoutAlgorithm({
+  id: "force",
+  name: "Force",
+  description: "Lets connected tasks pull together and others push apart",
+  supportsDirection: false,
+  create: () => new ForceLayout(),
+});
+
+registerLayoutAlgorithm({
+  id: "radial",
+  name: "Radial",
+  description: "Rings of tasks around the start task",
+  supportsDirection: false,
+  create: () => new RadialLayout(),
+});
+
+registerLayoutAlgorithm({
+  id: "editor",
+  name: "Editor",
+  description: "Keeps the Rewst editor positions, without overlaps",
+  supportsDirection: false,
+  create: () => new EditorLayout(),
+});
@@ -0,0 +1,382 @@
+/**
+ * Layout of sub-workflows expanded in place
+ *
+ * An expanded sub-workflow is drawn as a group node below the task that calls
+ * it, holding the called workflow's tasks. Groups are sized from their tasks
+ * and the tasks below the calling task are moved down to make room. Tasks of
+ * an expanded workflow can be expanded in turn, giving nested groups.
+ */
+import { Edge, Node } from "reactflow";
+import {
+  NormalizedWorkflowBundle,
+  Task,
+  WorkflowObject,
+} from "../../../../types/workflow";
+import { SubWorkflowLink } from "../../../../lib/workflow-subworkflows";
+import { findStartTask } from "../../../../lib/workflow-graph";
+import {
+  DEFAULT_LAYOUT_CONFIG,
+  ORTHOGONAL_EDGE_TYPE,
+  SUB_WORKFLOW_GROUP_LAYOUT,
+} from "../../shared/constants";
+import { WorkflowTask } from "../../shared/types";
+import { createEdgesFromTransitions } from "../../shared/utils/transitionUtils";
+import { SubWorkflowGroupNodeData } from "../../node/types";
+import { DagLayout } from "./dagLayout";
+import { LayoutEngine } from "./layoutEngine";
+
+/**
+ * Node type of the group drawn for an expanded sub-workflow
+ */
+export const SUB_WORKFLOW_GROUP_TYPE = "subWorkflowGroup";
+
+/**
+ * Creates the node for a task of a workflow
+ * @param task The task
+ * @param nodeId The ID of the node, prefixed for tasks inside a group
+ * @param workflow The workflow containing the task
+ * @returns The node, positioned at the task's editor coordinates
+ */
+export type TaskNodeFactory = (
+  task: Task,
+  nodeId: string,
+  workflow: WorkflowObject
+) => Node;
+
+/**
+ * Options for expanding sub-workflows
+ */
+export interface SubWorkflowGroupOptions {
+  bundle: NormalizedWorkflowBundle;
+  /** ID of the workflow shown on the canvas */
+  rootWorkflowId: string;
+  /** IDs of the task nodes whose sub-workflow is expanded */
+  expandedNodeIds: Set<string>;
+  createTaskNode: TaskNodeFactory;
+  /** Collapses the group of a calling task */
+  onCollapse: (callerNodeId: string) => void;
+  /** Opens a workflow on its own */
+  onOpenWorkflow: (workflowId: string) => void;
+}
+
+/**
+ * Gets the ID of the group node drawn for a calling task
+ * @param callerNodeId The ID of the calling task's node
+ * @returns The group node ID
+ */
+export const getSubWorkflowGroupId = (callerNodeId: string): string =>
+  `${callerNodeId}::group`;
+
+/**
+ * Gets the ID of the node of a task inside a group
+ * Prefixing with the caller keeps IDs unique when a workflow is expanded
+ * more than once.
+ * @param callerNodeId The ID of the calling task's node
+ * @param taskId The ID of the task in the called workflow
+ * @returns The node ID
+ */
+export const getNestedTaskNodeId = (
+  callerNodeId: string,
+  taskId: string
+): string => `${callerNodeId}/${taskId}`;
+
+/**
+ * Gets the size of a node, estimating it for task nodes
+ * @param node The node
+ * @returns The width and height
+ */
+const getNodeSize = (node: Node): { width: number; height: number } => ({
+  width: Number(node.style?.width) || SUB_WORKFLOW_GROUP_LAYOUT.taskWidth,
+  height: Number(node.style?.height) || SUB_WORKFLOW_GROUP_LAYOUT.taskHeight,
+});
+
+/**
+ * Places groups below their calling tasks
+ * Every node below a calling task is moved down by the height of its group,
+ * so groups never cover the tasks of the level they are drawn in.
+ * @param nodes The nodes of one level, groups included
+ * @returns The nodes with the groups placed
+ */
+export const placeSubWorkflowGroups = (nodes: Node[]): Node[] => {
+  let placed = nodes.filter((node) => node.type !== SUB_WORKFLOW_GROUP_TYPE);
+  const getCaller = (group: Node) =>
+    placed.find((node) => node.id === group.data.callerNodeId);
+
+  // Place from the top down, so moving a group's followers moves later groups
+  const groups = nodes
+    .filter((node) => node.type === SUB_WORKFLOW_GROUP_TYPE)
+    .sort(
+      (a, b) =>
+        (getCaller(a)?.position.y || 0) - (getCaller(b)?.position.y || 0)
+    );
+
+  groups.forEach((group) => {
+    const caller = getCaller(group);
+    if (!caller) {
+      placed.push(group);
+      return;
+    }
+
+    const { gap } = SUB_WORKFLOW_GROUP_LAYOUT;
+    const { height } = getNodeSize(group);
+    const callerY = caller.position.y;
+
+    placed = placed.map((node) =>
+      node.position.y > callerY
+        ? {
+            ...node,
+            position: { ...node.position, y: node.position.y + height + gap },
+          }
+        : node
+    );
+    placed.push({
+      ...group,
+      position: {
+        x: caller.position.x,
+        y: callerY + getNodeSize(caller).height + gap,
+      },
+    });
+  });
+
+  return placed;
+};
+
+/**
+ * Applies a layout to the nodes of the canvas, keeping groups below their
+ * calling tasks
+ * Only the top-level tasks are laid out, the content of groups keeps its
+ * positions relative to the group.
+ * @param engine The layout engine
+ * @param nodes The nodes of the canvas
+ * @param edges The edges of the canvas
+ * @returns The nodes with updated positions
+ */
+export const applyLayoutWithGroups = (
+  engine: LayoutEngine,
+  nodes: Node[],
+  edges: Edge[]
+): Node[] => {
+  const tasks = nodes.filter(
+    (node) => !node.parentNode && node.type !== SUB_WORKFLOW_GROUP_TYPE
+  );
+  const groups = nodes.filter(
+    (node) => !node.parentNode && node.type === SUB_WORKFLOW_GROUP_TYPE
+  );
+  const taskIds = new Set(tasks.map((node) => node.id));
+
+  // Transitions leaving a group are laid out as leaving its calling task
+  const callers = new Map(
+    groups.map((group) => [group.id, group.data.callerNodeId as string])
+  );
+  const laidOut = engine.applyLayout(
+    tasks,
+    edges
+      .map((edge) =>
+        callers.has(edge.source)
+          ? { ...edge, source: callers.get(edge.source) as string }
+          : edge
+      )
+      .filter((edge) => taskIds.has(edge.source) && taskIds.has(edge.target))
+  );
+
+  return [
+    ...placeSubWorkflowGroups([...laidOut, ...groups]),
+    ...nodes.filter((node) => node.parentNode),
+  ];
+};
+
+/**
+ * Creates the nodes and edges of a called workflow's tasks
+ * Editor coordinates are used when the tasks have them, otherwise the tasks
+ * are laid out.
+ * @param workflow The called workflow
+ * @param callerNodeId The ID of the calling task's node
+ * @param createTaskNode Creates the node of a task
+ * @returns The nodes and edges, with IDs prefixed by the caller
+ */
+const createWorkflowContent = (
+  workflow: WorkflowObject,
+  callerNodeId: string,
+  createTaskNode: TaskNodeFactory
+): { nodes: Node[]; edges: Edge[] } => {
+  const tasks = workflow.fields.tasks || [];
+  const prefix = (taskId: string) => getNestedTaskNodeId(callerNodeId, taskId);
+
+  const nodes = tasks.map((task) =>
+    createTaskNode(task, prefix(task.id), workflow)
+  );
+
+  const edgeIds = new Set<string>();
+  const edges = tasks.flatMap((task) =>
+    createEdgesFromTransitions(
+      {
+        ...task,
+        id: prefix(task.id),
+        next: task.next?.map((transition) => ({
+          ...transition,
+          do: transition.do?.map(prefix),
+        })),
+      } as unknown as WorkflowTask,
+      edgeIds
+    )
+  );
+
+  const hasPositions = nodes.some(
+    (node) => node.position.x !== 0 || node.position.y !== 0
+  );
+  if (hasPositions || nodes.length === 0) return { nodes, edges };
+
+  const engine = new LayoutEngine(new DagLayout(), DEFAULT_LAYOUT_CONFIG);
+  return { nodes: engine.applyLayout(nodes, edges), edges };
+};
+
+/**
+ * Expands the sub-workflows of one level of the canvas
+ * @param members The nodes of the level
+ * @param edges The edges between them
+ * @param ancestors IDs of the workflows containing this level, outermost first
+ * @param options The expansion options
+ * @returns The level's nodes and groups followed by the groups' content, and
+ * the edges
+ */
+const expandLevel = (
+  members: Node[],
+  edges: Edge[],
+  ancestors: string[],
+  options: SubWorkflowGroupOptions
+): { nodes: Node[]; edges: Edge[] } => {
+  const { bundle, expandedNodeIds, createTaskNode } = options;
+  const { padding, headerHeight, taskWidth, maxDepth } =
+    SUB_WORKFLOW_GROUP_LAYOUT;
+
+  const groups: Node<SubWorkflowGroupNodeData>[] = [];
+  const descendants: Node[] = [];
+  let levelEdges = edges;
+  const contentEdges: Edge[] = [];
+
+  members.forEach((caller) => {
+    const link = caller.data?.subWorkflow as SubWorkflowLink | null | undefined;
+    const workflowId = link?.workflowId;
+    if (
+      !expandedNodeIds.has(caller.id) ||
+      link?.confidence !== "bundled" ||
+      !workflowId ||
+      // A workflow can't be expanded inside itself
+      ancestors.includes(workflowId) ||
+      ancestors.length > maxDepth
+    ) {
+      return;
+    }
+
+    const workflow = Object.values(bundle.objects).find(
+      (obj) => obj.type === "workflow" && obj.fields.id === workflowId
+    );
+    if (!workflow) return;
+
+    const groupId = getSubWorkflowGroupId(caller.id);
+    const content = createWorkflowContent(workflow, caller.id, createTaskNode);
+    const expanded = expandLevel(
+      content.nodes,
+      content.edges,
+      [...ancestors, workflowId],
+      options
+    );
+
+    // Size the group around its direct content
+    const direct = expanded.nodes.filter((node) => !node.parentNode);
+    const bounds = direct.reduce(
+      (box, node) => {
+        const { width, height } = getNodeSize(node);
+        return {
+          minX: Math.min(box.minX, node.position.x),
+          minY: Math.min(box.minY, node.position.y),
+          maxX: Math.max(box.maxX, node.position.x + width),
+          maxY: Math.max(box.maxY, node.position.y + height),
+        };
+      },
+      direct.length > 0
+        ? { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+        : { minX: 0, minY: 0, maxX: taskWidth, maxY: 0 }
+    );
+
+    groups.push({
+      id: groupId,
+      type: SUB_WORKFLOW_GROUP_TYPE,
+      position: { x: 0, y: 0 },
+      style: {
+        width: bounds.maxX - bounds.minX + padding * 2,
+        height: bounds.maxY - bounds.minY + headerHeight + padding * 2,
+      },
+      data: {
+        workflowId,
+        name: workflow.nonfunctional_fields?.name || "Workflow",
+        taskCount: (workflow.fields.tasks || []).length,
+        callerNodeId: caller.id,
+        depth: ancestors.length,
+        onCollapse: options.onCollapse,
+        onOpenWorkflow: options.onOpenWorkflow,
+      },
+    });
+
+    descendants.push(
+      ...direct.map((node) => ({
+        ...node,
+        parentNode: groupId,
+        extent: "parent" as const,
+        position: {
+          x: node.position.x - bounds.minX + padding,
+          y: node.position.y - bounds.minY + headerHeight + padding,
+        },
+      })),
+      ...expanded.nodes.filter((node) => node.parentNode)
+    );
+
+    // The calling task runs the workflow's start task, and its transitions
+    // leave from the group once the workflow is done
+    levelEdges = levelEdges.map((edge) =>
+      edge.source === caller.id
+        ? { ...edge, source: groupId, sourceHandle: undefined }
+        : edge
+    );
+
+    const start = findStartTask(workflow.fields.tasks || []);
+    if (start) {
+      contentEdges.push({
+        id: `${caller.id}-runs-${groupId}`,
+        source: caller.id,
+        target: getNestedTaskNodeId(caller.id, start.id),
+        type: ORTHOGONAL_EDGE_TYPE,
+        animated: true,
+        style: {
+          stroke: "hsl(var(--workflow-green))",
+          strokeWidth: 3,
+          strokeDasharray: "8, 4",
+        },
+        data: { followType: "sub-workflow" },
+      });
+    }
+    contentEdges.push(...expanded.edges);
+  });
+
+  return {
+    nodes: [...placeSubWorkflowGroups([...members, ...groups]), ...descendants],
+    edges: [...levelEdges, ...contentEdges],
+  };
+};
+
+/**
+ * Expands the sub-workflows of the expanded calling tasks in place
+ * Group nodes come before their content, as ReactFlow requires.
+ * @param nodes The task nodes of the workflow on the canvas
+ * @param edges The edges between them
+ * @param options The expansion options
+ * @returns The nodes and edges with the groups added
+ */
+export const expandSubWorkflowGroups = (
+  nodes: Node[],
+  edges: Edge[],
+  options: SubWorkflowGroupOptions
+): { nodes: Node[]; edges: Edge[] } =>
+  options.expandedNodeIds.size === 0
+    ? { nodes, edges }
+    : expandLevel(nodes, edges, [options.rootWorkflowId], options);
@@ -0,0 +1,411 @@
+/**
+ * Sugiyama layered layout algorithm
+ *
+ * Lays out the graph in layers following the classic Sugiyama steps: cycles
+ * are broken by reversing back edges, nodes are assigned to layers by longest
+ * path, long edges are split with virtual nodes, crossings are reduced with
+ * barycentric sweeps and the nodes are finally aligned with their neighbours.
+ */
+import { Node, Edge } from "reactflow";
+import { LayoutAlgorithm } from "./layoutEngine";
+import { LayoutConfig } from "../../shared/types";
+import {
+  NodeExtent,
+  getLayoutLinks,
+  getNodeExtent,
+  normalizePositions,
+} from "./layoutUtils";
+
+/**
+ * Number of up and down sweeps of the crossing reduction
+ */
+const CROSSING_SWEEPS = 12;
+
+/**
+ * Number of passes aligning nodes with their neighbours
+ */
+const ALIGNMENT_PASSES = 8;
+
+/**
+ * Edge between two nodes, possibly virtual
+ */
+interface LayerLink {
+  source: string;
+  target: string;
+}
+
+/**
+ * Sugiyama layout algorithm implementation
+ */
+export class SugiyamaLayout implements LayoutAlgorithm {
+  /**
+   * Calculate positions for nodes based on the workflow structure
+   * @param nodes The nodes to position
+   * @param edges The edges connecting the nodes
+   * @param config The layout configuration
+   * @returns The nodes with updated positions
+   */
+  calculateLayout(nodes: Node[], edges: Edge[], config: LayoutConfig): Node[] {
+    if (nodes.length === 0) {
+      return [];
+    }
+
+    const ids = nodes.map((node) => node.id);
+    const links = this.breakCycles(ids, getLayoutLinks(nodes, edges));
+    const layerOf = this.assignLayers(ids, links);
+    const { layers, layerLinks } = this.splitLongEdges(ids, links, layerOf);
+    this.reduceCrossings(layers, layerLinks);
+
+    // Sizes along the layer and across it, virtual nodes take no space
+    const horizontal = config.direction === "LR" || config.direction === "RL";
+    const extents = new Map<string, NodeExtent>(
+      nodes.map((node) => {
+        const { width, height } = getNodeExtent(node, config);
+        return [
+          node.id,
+          horizontal ? { width: height, height: width } : { width, height },
+        ];
+      })
+    );
+    const along = this.assignPositions(layers, layerLinks, extents, config);
+
+    // Each layer is as deep as its deepest node
+    let offset = 0;
+    const across = layers.map((layer) => {
+      const start = offset;
+      offset +=
+        Math.max(0, ...layer.map((id) => extents.get(id)?.height || 0)) +
+        config.rankSpacing;
+      return start;
+    });
+
+    const positioned = nodes.map((node) => {
+      const extent = extents.get(node.id) as NodeExtent;
+      const x = (along.get(node.id) || 0) - extent.width / 2;
+      const y = across[layerOf.get(node.id) || 0];
+
+      const flip = config.direction === "BT" || config.direction === "RL";
+      const depth = flip ? -y - extent.height : y;
+      return {
+        ...node,
+        position: horizontal ? { x: depth, y: x } : { x, y: depth },
+      };
+    });
+
+    return normalizePositions(positioned, config);
+  }
+
+  /**
+   * Reverse the edges closing cycles
+   * A depth-first search from the nodes in their order finds the back edges.
+   * @param ids The node IDs
+   * @param links The edges
+   * @returns The edges with back edges reversed
+   */
+  private breakCycles(ids: string[], links: LayerLink[]): LayerLink[] {
+    const outgoing = new Map<string, LayerLink[]>(ids.map((id) => [id, []]));
+    links.forEach((link) => outgoing.get(link.source)?.push(link));
+
+    const state = new Map<string, "active" | "done">();
+    const reversed = new Set<LayerLink>();
+
+    // Iterative DFS, as workflows can be deep enough to overflow the stack
+    const visit = (root: string) => {
+      const stack: Array<{ id: string; next: number }> = [
+        { id: root, next: 0 },
+      ];
+      state.set(root, "active");
+
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        const link = (outgoing.get(frame.id) || [])[frame.next++];
+
+        if (!link) {
+          state.set(frame.id, "done");
+          stack.pop();
+        } else if (state.get(link.target) === "active") {
+          reversed.add(link);
+        } else if (!state.has(link.target)) {
+          state.set(link.target, "active");
+          stack.push({ id: link.target, next: 0 });
+        }
+      }
+    };
+
+    // Start from the sources so the workflow flows forward
+    const targets = new Set(links.map((link) => link.target));
+    [...ids.filter((id) => !targets.has(id)), ...ids].forEach((id) => {
+      if (!state.has(id)) visit(id);
+    });
+
+    return links.map((link) =>
+      reversed.has(link) ? { source: link.target, target: link.source } : link
+    );
+  }
+
+  /**
+   * Assign each node to the layer after its furthest predecessor
+   * @param ids The node IDs
+   * @param links The acyclic edges
+   * @returns The layer of each node
+   */
+  private assignLayers(ids: string[], links: LayerLink[]): Map<string, number> {
+    const incoming = new Map<string, string[]>(ids.map((id) => [id, []]));
+    const outgoing = new Map<string, string[]>(ids.map((id) => [id, []]));
+    links.forEach((link) => {
+      outgoing.get(link.source)?.push(link.target);
+      incoming.get(link.target)?.push(link.source);
+    });
+
+    // Topological order, sources first
+    const remaining = new Map(
+      ids.map((id) => [id, incoming.get(id)?.length || 0])
+    );
+    const queue = ids.filter((id) => remaining.get(id) === 0);
+    const layerOf = new Map<string, number>();
+
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      layerOf.set(
+        id,
+        Math.max(
+          0,
+          ...(incoming.get(id) || []).map(
+            (source) => (layerOf.get(source) ?? 0) + 1
+          )
+        )
+      );
+
+      outgoing.get(id)?.forEach((target) => {
+        remaining.set(target, (remaining.get(target) || 0) - 1);
+        if (remaining.get(target) === 0) queue.push(target);
+      });
+    }
+
+    return layerOf;
+  }
+
+  /**
+   * Split edges spanning several layers with a virtual node per layer
+   * @param ids The node IDs
+   * @param links The acyclic edges
+   * @param layerOf The layer of each node, extended with the virtual nodes
+   * @returns The nodes of each layer and the edges between adjacent layers
+   */
+  private splitLongEdges(
+    ids: string[],
+    links: LayerLink[],
+    layerOf: Map<string, number>
+  ): { layers: string[][]; layerLinks: LayerLink[] } {
+    const layers: string[][] = [];
+    const addToLayer = (id: string, layer: number) => {
+      while (layers.length <= layer) layers.push([]);
+      layers[layer].push(id);
+    };
+    ids.forEach((id) => addToLayer(id, layerOf.get(id) || 0));
+
+    const layerLinks: LayerLink[] = [];
+    links.forEach((link, index) => {
+      const from = layerOf.get(link.source) || 0;
+      const to = layerOf.get(link.target) || 0;
+
+      let previous = link.source;
+      for (let layer = from + 1; layer < to; layer++) {
+        const virtual = `virtual:${index}:${layer}`;
+        layerOf.set(virtual, layer);
+        addToLayer(virtual, layer);
+        layerLinks.push({ source: previous, target: virtual });
+        previous = virtual;
+      }
+      layerLinks.push({ source: previous, target: link.target });
+    });
+
+    return { layers, layerLinks };
+  }
+
+  /**
+   * Count the crossings between two adjacent layers
+   * @param upper The upper layer
+   * @param lower The lower layer
+   * @param links The edges between adjacent layers
+   * @returns The number of crossings
+   */
+  private countCrossings(
+    upper: string[],
+    lower: string[],
+    links: LayerLink[]
+  ): number {
+    const upperIndex = new Map(upper.map((id, index) => [id, index]));
+    const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+    const between = links
+      .filter(
+        (link) => upperIndex.has(link.source) && lowerIndex.has(link.target)
+      )
+      .map((link) => [
+        upperIndex.get(link.source) as number,
+        lowerIndex.get(link.target) as number,
+      ]);
+
+    let crossings = 0;
+    for (let i = 0; i < between.length; i++) {
+      for (let j = i + 1; j < between.length; j++) {
+        const [a1, b1] = between[i];
+        const [a2, b2] = between[j];
+        if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+      }
+    }
+    return crossings;
+  }
+
+  /**
+   * Reorder the layers to reduce crossings
+   * Alternates sweeps down and up, sorting each layer by the barycenter of its
+   * neighbours in the previous layer, and keeps the best ordering found.
+   * @param layers The nodes of each layer, reordered in place
+   * @param links The edges between adjacent layers
+   */
+  private reduceCrossings(layers: string[][], links: LayerLink[]): void {
+    const predecessors = new Map<string, string[]>();
+    const successors = new Map<string, string[]>();
+    links.forEach((link) => {
+      predecessors.set(link.target, [
+        ...(predecessors.get(link.target) || []),
+        link.source,
+      ]);
+      successors.set(link.source, [
+        ...(successors.get(link.source) || []),
+        link.target,
+      ]);
+    });
+
+    const totalCrossings = () =>
+      layers
+        .slice(1)
+        .reduce(
+          (sum, layer, index) =>
+            sum + this.countCrossings(layers[index], layer, links),
+          0
+        );
+
+    const sortByBarycenter = (
+      layer: string[],
+      reference: string[],
+      neighbours: Map<string, string[]>
+    ) => {
+      const referenceIndex = new Map(reference.map((id, index) => [id, index]));
+      const barycenters = new Map(
+        layer.map((id, index) => {
+          const indices = (neighbours.get(id) || [])
+            .map((neighbour) => referenceIndex.get(neighbour))
+            .filter((value): value is number => value !== undefined);
+          return [
+            id,
+            indices.length > 0
+              ? indices.reduce((sum, value) => sum + value, 0) / indices.length
+              : index,
+          ];
+        })
+      );
+      // Array sort is stable, ties keep their order
+      layer.sort(
+        (a, b) => (barycenters.get(a) || 0) - (barycenters.get(b) || 0)
+      );
+    };
+
+    let best = layers.map((layer) => [...layer]);
+    let bestCrossings = totalCrossings();
+
+    for (let sweep = 0; sweep < CROSSING_SWEEPS && bestCrossings > 0; sweep++) {
+      if (sweep % 2 === 0) {
+        for (let i = 1; i < layers.length; i++) {
+          sortByBarycenter(layers[i], layers[i - 1], predecessors);
+        }
+      } else {
+        for (let i = layers.length - 2; i >= 0; i--) {
+          sortByBarycenter(layers[i], layers[i + 1], successors);
+        }
+      }
+
+      const crossings = totalCrossings();
+      if (crossings < bestCrossings) {
+        best = layers.map((layer) => [...layer]);
+        bestCrossings = crossings;
+      }
+    }
+
+    best.forEach((layer, index) => {
+      layers[index] = layer;
+    });
+  }
+
+  /**
+   * Assign the position of each node along its layer
+   * Nodes start packed in their order, then move towards the average position
+   * of their neighbours while keeping the order and spacing.
+   * @param layers The ordered nodes of each layer
+   * @param links The edges between adjacent layers
+   * @param extents The size of each real node, oriented as top to bottom
+   * @param config The layout configuration
+   * @returns The centre of each node along its layer
+   */
+  private assignPositions(
+    layers: string[][],
+    links: LayerLink[],
+    extents: Map<string, NodeExtent>,
+    config: LayoutConfig
+  ): Map<string, number> {
+    const widthOf = (id: string) => extents.get(id)?.width || 0;
+    const separation = (a: string, b: string) =>
+      (widthOf(a) + widthOf(b)) / 2 + config.nodeSpacing;
+
+    const neighbours = new Map<string, string[]>();
+    links.forEach((link) => {
+      neighbours.set(link.source, [
+        ...(neighbours.get(link.source) || []),
+        link.target,
+      ]);
+      neighbours.set(link.target, [
+        ...(neighbours.get(link.target) || []),
+        link.source,
+      ]);
+    });
+
+    const center = new Map<string, number>();
+    layers.forEach((layer) => {
+      let position = 0;
+      layer.forEach((id, index) => {
+        if (index > 0) position += separation(layer[index - 1], id);
+        center.set(id, position);
+      });
+    });
+
+    for (let pass = 0; pass < ALIGNMENT_PASSES; pass++) {
+      layers.forEach((layer) => {
+        const desired = layer.map((id) => {
+          const positions = (neighbours.get(id) || []).map(
+            (neighbour) => center.get(neighbour) as number
+          );
+          return positions.length > 0
+            ? positions.reduce((sum, value) => sum + value, 0) /
+                positions.length
+            : (center.get(id) as number);
+        });
+
+        // Keep the order and spacing, then centre the layer on its wishes
+        const placed = [...desired];
+        for (let i = 1; i < layer.length; i++) {
+          placed[i] = Math.max(
+            placed[i],
+            placed[i - 1] + separation(layer[i - 1], layer[i])
+          );
+        }
+        const shift =
+          desired.reduce((sum, value, i) => sum + value - placed[i], 0) /
+          layer.length;
+        layer.forEach((id, i) => center.set(id, placed[i] + shift));
+      });
+    }
+
+    return center;
+  }
+}
@@ -3,6 +3,11 @@ import { Node, Edge } from "reactflow";
 
 export interface WorkflowViewerProps {
   template: WorkflowBundle;
+  /**
+   * Changes to draw on the canvas and list, when showing a bundle diff
+   * The template should then be the overlay's bundle.
+   */
+  diff?: import("../../../lib/workflow-diff").DiffOverlay;
 }
 
 export interface WorkflowViewerState {
@@ -51,11 +56,252 @@ export interface WorkflowProcessorHookResult {
   onNodesChange: (changes: import("reactflow").NodeChange[]) => void;
   onEdgesChange: (changes: import("reactflow").EdgeChange[]) => void;
   clearWorkflow: () => void;
+  /** Layout configuration picked in the layout controls */
+  layoutConfig: import("../shared/types").LayoutConfig;
   updateLayoutConfig: (config: import("../shared/types").LayoutConfig) => void;
+  /** Progress of the layout running in the worker, null when idle */
+  layoutStatus: import("./worker").WorkerProgress | null;
+  /**
+   * Worker the layouts of the workflow run in, shared with the canvas so a
+   * new layout cancels the one running whoever started it
+   */
+  layoutWorker: WorkflowWorkerHookResult;
+}
+
+export interface NormalizedBundleHookResult {
+  /** The normalized bundle, without objects until normalization is done */
+  bundle: import("../../../types/workflow").NormalizedWorkflowBundle;
+  /** Progress of the normalization running in the worker, null when idle */
+  status: import("./worker").WorkerProgress | null;
+}
+
+export interface WorkflowViewStateHookResult {
+  /** View state of the selected workflow */
+  viewState: import("../shared/types").WorkflowViewState;
+  /** Incremented when the view state is replaced by an import */
+  viewStateRevision: number;
+  updateViewState: (
+    update:
+      | Partial<import("../shared/types").WorkflowViewState>
+      | ((
+          state: import("../shared/types").WorkflowViewState
+        ) => Partial<import("../shared/types").WorkflowViewState>)
+  ) => void;
+  /** Saves the viewport, unless it is the saved one */
+  saveViewport: (viewport: import("reactflow").Viewport) => void;
+  /** Forgets the moved nodes and the viewport of the selected workflow */
+  resetViewState: () => void;
+  /** Downloads the saved view states of the bundle's workflows */
+  exportViewStates: () => void;
+  importViewStates: (file: File) => void;
+  importError: string | null;
 }
 
 export interface WorkflowExportHookResult {
-  downloadAsSvg: (
+  /** Downloads the whole graph, whatever the zoom, as an SVG or a PNG */
+  downloadImage: (
+    reactFlowInstance: import("reactflow").ReactFlowInstance | null,
+    options: import("../shared/types").ImageExportOptions
+  ) => Promise<void>;
+  /** Downloads the graph and a per-task appendix as a PDF */
+  downloadPdf: (
     reactFlowInstance: import("reactflow").ReactFlowInstance | null
+  ) => Promise<void>;
+  isExporting: boolean;
+  /** Error of the last export */
+  exportError: string | null;
+}
+
+export interface DiagramExportHookResult {
+  /** Copies the workflow as a diagram to the clipboard */
+  copyDiagram: (format: import("../shared/types").DiagramFormat) => void;
+  downloadDiagram: (format: import("../shared/types").DiagramFormat) => void;
+  /** Format copied a moment ago, to confirm the copy */
+  copiedFormat: import("../shared/types").DiagramFormat | null;
+  copyError: string | null;
+}
+
+export interface HtmlExportHookResult {
+  /** Downloads the interactive viewer and the bundle as one HTML file */
+  downloadHtml: (redact: boolean) => Promise<void>;
+  isExporting: boolean;
+  /** Error of the last export */
+  exportError: string | null;
+}
+
+export interface BundleDocsHookResult {
+  /** Number of workflows documented */
+  workflowCount: number;
+  /** Downloads the docs of every workflow as one Markdown file */
+  downloadMarkdown: () => void;
+  /** Downloads a zip with one Markdown file per workflow */
+  downloadZip: () => void;
+}
+
+export interface WorkflowLinterHookResult {
+  rules: import("../../../lib/workflow-linter").LintRule[];
+  ruleConfig: import("../../../lib/workflow-linter").LintRuleConfig;
+  diagnostics: import("../../../lib/workflow-linter").LintDiagnostic[];
+  diagnosticsByTask: Map<
+    string,
+    import("../../../lib/workflow-linter").LintDiagnostic[]
+  >;
+  toggleRule: (ruleId: string) => void;
+}
+
+export interface DataFlowHookResult {
+  analysis: import("../../../lib/workflow-dataflow").DataFlowAnalysis;
+  selectedVariable: string | null;
+  selectVariable: (key: string | null) => void;
+  rolesByTask: Map<
+    string,
+    import("../../../lib/workflow-dataflow").DataFlowRole
+  >;
+}
+
+export interface WorkflowSimulatorHookResult {
+  /** Starting CTX as JSON, edited by the user */
+  contextJson: string;
+  setContextJson: (json: string) => void;
+  /** Mocked task results by task name as JSON, edited by the user */
+  resultsJson: string;
+  setResultsJson: (json: string) => void;
+  /** Names of the tasks simulated as failed */
+  failedTasks: string[];
+  toggleFailedTask: (taskName: string) => void;
+  /** Error from parsing the JSON inputs */
+  inputError: string | null;
+  result: import("../../../lib/workflow-simulator").SimulationResult | null;
+  /** Number of steps revealed so far, the last one being the current step */
+  visibleSteps: number;
+  isPlaying: boolean;
+  currentStep: import("../../../lib/workflow-simulator").SimulationStep | null;
+  /** ID of the task on the canvas the run is on */
+  currentTaskId: string | null;
+  /** IDs of the tasks the run pauses on */
+  breakpoints: Set<string>;
+  toggleBreakpoint: (taskId: string) => void;
+  /** Simulates and plays the run */
+  run: () => void;
+  /** Simulates and pauses before the first step */
+  debug: () => void;
+  pause: () => void;
+  stepInto: () => void;
+  /** Steps to the next task, skipping the steps of a sub-workflow call */
+  stepOver: () => void;
+  /** Plays from the current step until the next breakpoint */
+  continueRun: () => void;
+  /** Jumps straight to the next breakpoint */
+  runToBreakpoint: () => void;
+  reset: () => void;
+  stateByTask: Map<string, import("../node/types").SimulationNodeState>;
+  /** IDs of the edges followed in the revealed steps */
+  takenEdgeIds: Set<string>;
+}
+
+export interface ExecutionReplayHookResult {
+  /** Name of the loaded log file */
+  fileName: string | null;
+  log: import("../../../lib/workflow-execution").ExecutionLog | null;
+  /** The log mapped onto the selected workflow */
+  replay: import("../../../lib/workflow-execution").ExecutionReplay | null;
+  /** Error from reading the last file */
+  loadError: string | null;
+  loadFile: (file: File) => void;
+  clear: () => void;
+  /** Number of task runs applied, the scrubber position */
+  position: number;
+  setPosition: (position: number) => void;
+  isPlaying: boolean;
+  play: () => void;
+  pause: () => void;
+  statusByTask: Map<
+    string,
+    import("../../../lib/workflow-execution").ExecutionTaskStatus
+  >;
+  executionByTask: Map<
+    string,
+    import("../../../lib/workflow-execution").ExecutionEvent
+  >;
+  /** IDs of the edges followed up to the scrubber position */
+  takenEdgeIds: Set<string>;
+}
+
+export interface BundleOverviewHookResult {
+  callGraph: import("../../../lib/workflow-callgraph").CallGraph;
+  nodes: Node<import("../node/types").WorkflowSummaryNodeData>[];
+  edges: Edge[];
+}
+
+export interface WorkflowWorkerHookResult {
+  /** Progress of the running request, null when idle */
+  status: import("./worker").WorkerProgress | null;
+  /**
+   * Lays out nodes in the worker, cancelling the running request
+   * Resolves to the positions by node ID, or null if cancelled.
+   */
+  runLayout: (
+    nodes: Node[],
+    edges: Edge[],
+    config: import("../shared/types").LayoutConfig
+  ) => Promise<Record<string, import("reactflow").XYPosition> | null>;
+  /**
+   * Normalizes a bundle in the worker, cancelling the running request
+   * Resolves to the normalized bundle, or null if cancelled.
+   */
+  normalizeBundle: (
+    bundle: import("../../../types/workflow").WorkflowBundle
+  ) => Promise<
+    import("../../../types/workflow").NormalizedWorkflowBundle | null
+  >;
+  /** Cancels the running request */
+  cancel: () => void;
+}
+
+export interface WorkflowSearchHookResult {
+  /** Whether the search palette is shown */
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+  query: string;
+  setQuery: (query: string) => void;
+  /** Entries matching the query, best first */
+  results: import("../../../lib/workflow-search").SearchResult[];
+  /** The result picked last, shown on the canvas */
+  target: import("../../../lib/workflow-search").SearchTarget | null;
+  /** Switches to the workflow of a result and closes the palette */
+  selectResult: (
+    result: import("../../../lib/workflow-search").SearchResult
   ) => void;
 }
+
+export interface CanvasFilterHookResult {
+  /** The filter, kept in the URL query */
+  filter: import("../shared/types").CanvasFilter;
+  updateFilter: (
+    update: Partial<import("../shared/types").CanvasFilter>
+  ) => void;
+  /** Adds or removes an action pack */
+  togglePack: (pack: string) => void;
+  /** Clears the predicates and the focus, keeping the mode */
+  clearFilter: () => void;
+}
+
+export interface TransitionPathsHookResult {
+  /** ID of the task the paths start from */
+  sourceId: string | null;
+  /** ID of the task the paths lead to */
+  targetId: string | null;
+  setSourceId: (taskId: string | null) => void;
+  setTargetId: (taskId: string | null) => void;
+  /** Paths between the two tasks, null until both are picked */
+  result: import("../shared/utils/pathUtils").TransitionPathResult | null;
+  /** Index of the path picked in the list */
+  selectedPathIndex: number | null;
+  selectPath: (index: number | null) => void;
+  /** IDs of the edges on any path */
+  pathEdgeIds: Set<string>;
+  /** IDs of the edges on the picked path */
+  selectedPathEdgeIds: Set<string>;
+  clear: () => void;
+}
@@ -0,0 +1,89 @@
+/**
+ * Handling of workflow worker requests
+ *
+ * Used by the worker, and on the main thread where workers aren't available.
+ */
+import { normalizeWorkflowBundle } from "../../../../lib/workflow-normalization";
+import {
+  LayoutEngine,
+  applyLayoutWithGroups,
+  createLayoutAlgorithm,
+  getLayoutAlgorithms,
+  routeOrthogonalEdges,
+} from "../layout";
+import {
+  WorkerProgress,
+  WorkflowWorkerRequest,
+  WorkflowWorkerResponse,
+} from "./protocol";
+
+/**
+ * Handles a request
+ * @param request The request
+ * @param onProgress Callback for reporting progress
+ * @returns The response
+ */
+export const handleWorkflowWorkerRequest = (
+  request: WorkflowWorkerRequest,
+  onProgress: (progress: WorkerProgress) => void
+): WorkflowWorkerResponse => {
+  const { requestId } = request;
+
+  try {
+    if (request.type === "normalize") {
+      onProgress({ stage: "Resolving references", progress: 0 });
+      return {
+        type: "normalize",
+        requestId,
+        bundle: normalizeWorkflowBundle(request.bundle),
+      };
+    }
+
+    if (request.type === "route") {
+      onProgress({
+        stage: `Routing ${request.edges.length} edges`,
+        progress: 0,
+      });
+      return {
+        type: "route",
+        requestId,
+        routes: Object.fromEntries(
+          routeOrthogonalEdges(request.edges, request.obstacles)
+        ),
+      };
+    }
+
+    const name =
+      getLayoutAlgorithms().find(
+        (definition) => definition.id === request.config.algorithm
+      )?.name || "DAG";
+    onProgress({
+      stage: `Laying out ${request.nodes.length} nodes (${name})`,
+      progress: 0,
+    });
+
+    const engine = new LayoutEngine(
+      createLayoutAlgorithm(request.config.algorithm),
+      request.config
+    );
+    const positioned = applyLayoutWithGroups(
+      engine,
+      request.nodes,
+      request.edges
+    );
+
+    return {
+      type: "layout",
+      requestId,
+      positions: Object.fromEntries(
+        positioned.map((node) => [node.id, node.position])
+      ),
+    };
+  } catch (error) {
+    return {
+      type: "error",
+      requestId,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
@@ -0,0 +1,5 @@
+/**
+ * Central export point for the workflow worker client
+ */
+export * from "./protocol";
+export * from "./workflowWorkerClient";
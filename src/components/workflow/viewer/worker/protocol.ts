@@ -0,0 +1,148 @@
+/**
+ * Messages exchanged with the workflow worker
+ *
+ * Nodes and edges are sent stripped to what the layout reads, as their data
+ * holds callbacks that can't be copied to a worker.
+ */
+import { Edge, Node, XYPosition } from "reactflow";
+import {
+  NormalizedWorkflowBundle,
+  WorkflowBundle,
+} from "../../../../types/workflow";
+import { LayoutConfig } from "../../shared/types";
+import { EdgeRoute, EdgeRouteRequest, RouteObstacle } from "../layout";
+
+/**
+ * Lays out nodes with the configured algorithm
+ */
+export interface LayoutRequest {
+  type: "layout";
+  requestId: number;
+  nodes: Node[];
+  edges: Edge[];
+  config: LayoutConfig;
+}
+
+/**
+ * Normalizes a bundle, resolving its references
+ */
+export interface NormalizeRequest {
+  type: "normalize";
+  requestId: number;
+  bundle: WorkflowBundle;
+}
+
+/**
+ * Routes edges orthogonally around the nodes
+ */
+export interface RouteRequest {
+  type: "route";
+  requestId: number;
+  edges: EdgeRouteRequest[];
+  obstacles: RouteObstacle[];
+}
+
+export type WorkflowWorkerRequest =
+  | LayoutRequest
+  | NormalizeRequest
+  | RouteRequest;
+
+/**
+ * Progress of a running request
+ */
+export interface WorkerProgress {
+  /** What the worker is doing, for display */
+  stage: string;
+  /** Share of the request done, from 0 to 1 */
+  progress: number;
+}
+
+export type WorkflowWorkerResponse =
+  | ({ type: "progress"; requestId: number } & WorkerProgress)
+  | {
+      type: "layout";
+      requestId: number;
+      /** Position of every node, by node ID */
+      positions: Record<string, XYPosition>;
+    }
+  | { type: "normalize"; requestId: number; bundle: NormalizedWorkflowBundle }
+  | {
+      type: "route";
+      requestId: number;
+      /** Route of every edge, by edge ID */
+      routes: Record<string, EdgeRoute>;
+    }
+  | { type: "error"; requestId: number; message: string };
+
+/**
+ * Node data fields read by the layout algorithms
+ */
+const LAYOUT_DATA_KEYS = ["id", "name", "next", "metadata", "callerNodeId"];
+
+/**
+ * Edge data fields read by the layout algorithms
+ */
+const LAYOUT_EDGE_DATA_KEYS = ["condition", "followType", "triggerType"];
+
+/**
+ * Copies the given fields of an object
+ * @param value The object
+ * @param keys The fields to copy
+ * @returns The copy, without functions
+ */
+const pick = (
+  value: Record<string, unknown> | undefined,
+  keys: string[]
+): Record<string, unknown> =>
+  Object.fromEntries(
+    keys
+      .filter((key) => value?.[key] !== undefined)
+      .map((key) => [key, value?.[key]])
+  );
+
+/**
+ * Strips nodes to what the layout reads, so they can be sent to the worker
+ * @param nodes The nodes
+ * @returns The stripped nodes
+ */
+export const toLayoutNodes = (nodes: Node[]): Node[] =>
+  nodes.map((node) => ({
+    id: node.id,
+    type: node.type,
+    position: node.position,
+    width: node.width,
+    height: node.height,
+    parentNode: node.parentNode,
+    style: node.style && {
+      width: node.style.width,
+      height: node.style.height,
+    },
+    data: pick(node.data, LAYOUT_DATA_KEYS),
+  }));
+
+/**
+ * Strips edges to what the layout reads, so they can be sent to the worker
+ * @param edges The edges
+ * @returns The stripped edges
+ */
+export const toLayoutEdges = (edges: Edge[]): Edge[] =>
+  edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    data: pick(edge.data, LAYOUT_EDGE_DATA_KEYS),
+  }));
+
+/**
+ * Moves nodes to the positions computed by the worker
+ * @param nodes The nodes
+ * @param positions Positions by node ID, nodes without one keep theirs
+ * @returns The moved nodes
+ */
+export const applyNodePositions = (
+  nodes: Node[],
+  positions: Record<string, XYPosition>
+): Node[] =>
+  nodes.map((node) =>
+    positions[node.id] ? { ...node, position: positions[node.id] } : node
+  );
@@ -0,0 +1,20 @@
+/**
+ * Web Worker running layouts, edge routing and bundle normalization off the
+ * main thread
+ */
+import { handleWorkflowWorkerRequest } from "./handleRequest";
+import { WorkflowWorkerRequest, WorkflowWorkerResponse } from "./protocol";
+
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<WorkflowWorkerRequest>) => {
+  const request = event.data;
+  const post = (response: WorkflowWorkerResponse) =>
+    context.postMessage(response);
+
+  post(
+    handleWorkflowWorkerRequest(request, (progress) =>
+      post({ type: "progress", requestId: request.requestId, ...progress })
+    )
+  );
+};
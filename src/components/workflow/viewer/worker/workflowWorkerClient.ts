@@ -0,0 +1,237 @@
+/**
+ * Client of the workflow worker
+ */
+import { Edge, Node, XYPosition } from "reactflow";
+import {
+  NormalizedWorkflowBundle,
+  WorkflowBundle,
+} from "../../../../types/workflow";
+import { LayoutConfig } from "../../shared/types";
+import { EdgeRoute, EdgeRouteRequest, RouteObstacle } from "../layout";
+import { handleWorkflowWorkerRequest } from "./handleRequest";
+import {
+  WorkerProgress,
+  WorkflowWorkerRequest,
+  WorkflowWorkerResponse,
+} from "./protocol";
+
+/**
+ * A request waiting for its response
+ */
+interface PendingRequest {
+  request: WorkflowWorkerRequest;
+  requestId: number;
+  resolve: (response: WorkflowWorkerResponse | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+/**
+ * Client sending requests to the workflow worker
+ * Only the latest request counts: sending one cancels the request still
+ * running, which then resolves to null. As the worker can't be interrupted,
+ * cancelling restarts it. Without worker support, requests run on the main
+ * thread, as they do once the worker script fails to load, e.g. in the
+ * standalone HTML export opened from disk.
+ */
+export class WorkflowWorkerClient {
+  private worker: Worker | null = null;
+  private isWorkerUnavailable = false;
+  private nextRequestId = 1;
+  private pending: PendingRequest | null = null;
+
+  /**
+   * Lay out nodes in the worker
+   * @param nodes The nodes, stripped with `toLayoutNodes`
+   * @param edges The edges, stripped with `toLayoutEdges`
+   * @param config The layout configuration
+   * @param onProgress Callback for progress updates
+   * @returns The position of every node, or null if cancelled
+   */
+  async layout(
+    nodes: Node[],
+    edges: Edge[],
+    config: LayoutConfig,
+    onProgress?: (progress: WorkerProgress) => void
+  ): Promise<Record<string, XYPosition> | null> {
+    const response = await this.send(
+      { type: "layout", requestId: this.nextRequestId++, nodes, edges, config },
+      onProgress
+    );
+    return response?.type === "layout" ? response.positions : null;
+  }
+
+  /**
+   * Normalize a bundle in the worker
+   * @param bundle The bundle
+   * @param onProgress Callback for progress updates
+   * @returns The normalized bundle, or null if cancelled
+   */
+  async normalize(
+    bundle: WorkflowBundle,
+    onProgress?: (progress: WorkerProgress) => void
+  ): Promise<NormalizedWorkflowBundle | null> {
+    const response = await this.send(
+      { type: "normalize", requestId: this.nextRequestId++, bundle },
+      onProgress
+    );
+    return response?.type === "normalize" ? response.bundle : null;
+  }
+
+  /**
+   * Route edges around the nodes in the worker
+   * @param edges The edges to route
+   * @param obstacles The node rectangles
+   * @returns The route of every edge, by edge ID, or null if cancelled
+   */
+  async route(
+    edges: EdgeRouteRequest[],
+    obstacles: RouteObstacle[]
+  ): Promise<Record<string, EdgeRoute> | null> {
+    const response = await this.send({
+      type: "route",
+      requestId: this.nextRequestId++,
+      edges,
+      obstacles,
+    });
+    return response?.type === "route" ? response.routes : null;
+  }
+
+  /**
+   * Cancel the running request
+   */
+  cancel(): void {
+    if (!this.pending) return;
+
+    this.pending.resolve(null);
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Cancel the running request and stop the worker
+   */
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Send a request, cancelling the running one
+   * @param request The request
+   * @param onProgress Callback for progress updates
+   * @returns The response, or null if cancelled
+   */
+  private send(
+    request: WorkflowWorkerRequest,
+    onProgress?: (progress: WorkerProgress) => void
+  ): Promise<WorkflowWorkerResponse | null> {
+    this.cancel();
+
+    return new Promise((resolve, reject) => {
+      this.pending = {
+        request,
+        requestId: request.requestId,
+        resolve,
+        reject,
+        onProgress,
+      };
+
+      const worker = this.getWorker();
+      if (worker) {
+        worker.postMessage(request);
+        return;
+      }
+
+      this.runOnMainThread(request);
+    });
+  }
+
+  /**
+   * Run a request on the main thread
+   * @param request The request
+   */
+  private runOnMainThread(request: WorkflowWorkerRequest): void {
+    // Let the loading state render before blocking the main thread
+    window.setTimeout(() => {
+      if (this.pending?.requestId !== request.requestId) return;
+      this.handleResponse(
+        handleWorkflowWorkerRequest(request, (progress) =>
+          this.handleResponse({
+            type: "progress",
+            requestId: request.requestId,
+            ...progress,
+          })
+        )
+      );
+    }, 0);
+  }
+
+  /**
+   * Handle a response, ignoring those of cancelled requests
+   * @param response The response
+   */
+  private handleResponse(response: WorkflowWorkerResponse): void {
+    const pending = this.pending;
+    if (!pending || pending.requestId !== response.requestId) return;
+
+    if (response.type === "progress") {
+      pending.onProgress?.({
+        stage: response.stage,
+        progress: response.progress,
+      });
+      return;
+    }
+
+    this.pending = null;
+    if (response.type === "error") {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response);
+    }
+  }
+
+  /**
+   * Get the worker, starting it if needed
+   * @returns The worker, or null if workers aren't supported
+   */
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof Worker === "undefined" || this.isWorkerUnavailable) return null;
+
+    try {
+      const worker = new Worker(
+        new URL("./workflow.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      let hasResponded = false;
+      worker.onmessage = (event: MessageEvent<WorkflowWorkerResponse>) => {
+        hasResponded = true;
+        this.handleResponse(event.data);
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        if (this.worker === worker) this.worker = null;
+
+        // A worker failing before its first response couldn't be loaded
+        if (!hasResponded && this.pending) {
+          this.isWorkerUnavailable = true;
+          this.runOnMainThread(this.pending.request);
+          return;
+        }
+
+        const pending = this.pending;
+        this.pending = null;
+        pending?.reject(new Error(event.message || "Workflow worker failed"));
+      };
+
+      this.worker = worker;
+      return worker;
+    } catch (error) {
+      console.error("Failed to start the workflow worker", error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { ExpressionNode, JinjaLookup, JinjaNode } from "@/lib/jinja/types";
+
+/**
+ * Roots of the lookups Rewst templates read their data from
+ */
+const LOOKUP_ROOTS = new Set(["CTX", "ORG", "TASKS"]);
+
+/**
+ * Gets the direct children of a node
+ * @param node The node
+ * @returns The child nodes, in source order
+ */
+export const getChildren = (node: JinjaNode): JinjaNode[] => {
+  switch (node.type) {
+    case "Template":
+      return node.body;
+    case "Output":
+      return node.expression ? [node.expression] : [];
+    case "If":
+      return [
+        ...node.branches.flatMap((branch) => [
+          ...(branch.test ? [branch.test] : []),
+          ...branch.body,
+        ]),
+        ...node.alternate,
+      ];
+    case "For":
+      return [
+        ...(node.target ? [node.target] : []),
+        ...(node.iterable ? [node.iterable] : []),
+        ...(node.filter ? [node.filter] : []),
+        ...node.body,
+        ...node.alternate,
+      ];
+    case "Set":
+      return [
+        ...(node.target ? [node.target] : []),
+        ...(node.value ? [node.value] : []),
+      ];
+    case "List":
+    case "Tuple":
+      return node.items;
+    case "Dict":
+      return node.entries.flatMap((entry) => [entry.key, entry.value]);
+    case "GetAttr":
+      return [node.object];
+    case "GetItem":
+      return [node.object, node.index];
+    case "Slice":
+      return [node.lower, node.upper, node.step].filter(
+        (child): child is ExpressionNode => child !== null
+      );
+    case "Call":
+      return [
+        node.callee,
+        ...node.args,
+        ...node.kwargs.map((kwarg) => kwarg.value),
+      ];
+    case "Filter":
+      return [
+        node.input,
+        ...node.args,
+        ...node.kwargs.map((kwarg) => kwarg.value),
+      ];
+    case "Test":
+      return [node.input, ...node.args];
+    case "Unary":
+      return [node.operand];
+    case "Binary":
+      return [node.left, node.right];
+    case "Conditional":
+      return [
+        node.test,
+        node.consequent,
+        ...(node.alternate ? [node.alternate] : []),
+      ];
+    case "Comprehension":
+      return [
+        node.element,
+        ...(node.value ? [node.value] : []),
+        node.target,
+        node.iterable,
+        ...(node.filter ? [node.filter] : []),
+      ];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Visits every node of a tree, parents before children
+ * Returning false from the visitor skips the children of that node.
+ * @param node The root node
+ * @param visitor Called for every node
+ */
+export const walk = (
+  node: JinjaNode,
+  visitor: (node: JinjaNode) => boolean | void
+): void => {
+  if (visitor(node) === false) return;
+  getChildren(node).forEach((child) => walk(child, visitor));
+};
+
+interface LookupChain {
+  root: string;
+  path: string[];
+  /** Set once a non-constant key is reached, the path stops growing there */
+  dynamic: boolean;
+  /** Non-constant keys along the chain, e.g. `x` in `CTX[x].y` */
+  keys: ExpressionNode[];
+}
+
+/**
+ * Resolves an attribute/item chain down to its root name
+ * @param node The end of the chain, e.g. the node for `CTX.user.email`
+ * @returns The chain, or null if it isn't rooted at a plain name
+ */
+const resolveChain = (node: ExpressionNode): LookupChain | null => {
+  if (node.type === "Name") {
+    return { root: node.name, path: [], dynamic: false, keys: [] };
+  }
+
+  if (node.type === "GetAttr") {
+    const chain = resolveChain(node.object);
+    if (!chain || chain.dynamic) return chain;
+    return { ...chain, path: [...chain.path, node.attribute] };
+  }
+
+  if (node.type === "GetItem") {
+    const chain = resolveChain(node.object);
+    if (!chain) return null;
+    if (node.index.type === "Literal" && node.index.value !== null) {
+      return chain.dynamic
+        ? chain
+        : { ...chain, path: [...chain.path, String(node.index.value)] };
+    }
+    // `CTX[var]` stops the path at `CTX`
+    return { ...chain, dynamic: true, keys: [...chain.keys, node.index] };
+  }
+
+  return null;
+};
+
+/**
+ * Finds every `CTX.`, `ORG.` and `TASKS.` lookup in a tree
+ * Only the longest chain is reported, so `CTX.user.email` is one lookup
+ * rather than three.
+ * @param node The parsed template or an expression
+ * @returns The lookups, in source order
+ */
+export const findLookups = (node: JinjaNode): JinjaLookup[] => {
+  const lookups: JinjaLookup[] = [];
+
+  walk(node, (child) => {
+    if (
+      child.type !== "Name" &&
+      child.type !== "GetAttr" &&
+      child.type !== "GetItem"
+    ) {
+      return;
+    }
+
+    const chain = resolveChain(child);
+    if (!chain) return;
+
+    if (LOOKUP_ROOTS.has(chain.root)) {
+      lookups.push({
+        root: chain.root as JinjaLookup["root"],
+        path: chain.path,
+        start: child.start,
+        end: child.end,
+      });
+    }
+
+    // Non-constant keys can contain lookups of their own
+    chain.keys.forEach((key) => lookups.push(...findLookups(key)));
+    return false;
+  });
+
+  return lookups;
+};
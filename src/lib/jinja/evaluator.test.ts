@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { evaluateTemplate, renderTemplate } from "@/lib/jinja/evaluator";
+
+const users = [
+  { name: "ann", role: "admin", team: "ops" },
+  { name: "bob", role: "user" },
+  { name: "cid", role: "admin", team: "" },
+];
+
+describe("evaluateTemplate", () => {
+  describe("filters taking a test", () => {
+    it("selects by attribute with equalto", () => {
+      expect(
+        evaluateTemplate(
+          "{{ CTX.users|selectattr('role', 'equalto', 'admin')|list }}",
+          { CTX: { users } }
+        )
+      ).toEqual([users[0], users[2]]);
+    });
+
+    it("rejects by attribute with defined", () => {
+      expect(
+        evaluateTemplate(
+          "{{ CTX.users|rejectattr('team', 'defined')|list }}",
+          { CTX: { users } }
+        )
+      ).toEqual([users[1]]);
+    });
+
+    it("selects and rejects items with in", () => {
+      const scope = { CTX: { ids: [1, 2, 3, 4], wanted: [2, 4] } };
+      expect(
+        evaluateTemplate("{{ CTX.ids|select('in', CTX.wanted)|list }}", scope)
+      ).toEqual([2, 4]);
+      expect(
+        evaluateTemplate("{{ CTX.ids|reject('in', CTX.wanted)|list }}", scope)
+      ).toEqual([1, 3]);
+    });
+
+    it("checks truthiness without a test", () => {
+      expect(
+        evaluateTemplate(
+          "{{ CTX.users|selectattr('team')|list }}",
+          { CTX: { users } }
+        )
+      ).toEqual([users[0]]);
+    });
+  });
+
+  it("leaves the caller's CTX unchanged", () => {
+    const context = { items: [1], settings: { a: 1 } };
+    renderTemplate(
+      "{% set x = CTX.items.append(2) %}{% set y = CTX.settings.update({'b': 2}) %}",
+      { CTX: context }
+    );
+
+    expect(context).toEqual({ items: [1], settings: { a: 1 } });
+  });
+
+  it("renders raw blocks as text", () => {
+    expect(
+      renderTemplate("{% raw %}{{ CTX.name }} {% if %}{% endraw %}!", {})
+    ).toBe("{{ CTX.name }} {% if %}!");
+  });
+});
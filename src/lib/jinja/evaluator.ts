@@ -0,0 +1,737 @@
+import {
+  ExpressionNode,
+  JinjaParseResult,
+  TemplateChild,
+  TemplateNode,
+} from "@/lib/jinja/types";
+import { parseTemplate } from "@/lib/jinja/parser";
+
+/**
+ * Variables visible to an expression, e.g. `CTX` and `RESULT`
+ */
+export type JinjaScope = Record<string, unknown>;
+
+/**
+ * Thrown when a template can't be evaluated, e.g. an unknown filter or a
+ * statement the evaluator doesn't support
+ */
+export class JinjaEvaluationError extends Error {
+  constructor(message: string, public start?: number, public end?: number) {
+    super(message);
+    this.name = "JinjaEvaluationError";
+  }
+}
+
+/**
+ * Checks a value the way Python does in a boolean context
+ * @param value The value
+ * @returns false for None, false, 0, "" and empty lists and dicts
+ */
+export const isTruthy = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === "object") return Object.keys(value).length > 0;
+  return Boolean(value);
+};
+
+/**
+ * Converts a value to a string the way Jinja prints it
+ * @param value The value
+ * @returns The string, with Python spellings for booleans and None
+ */
+export const stringify = (value: unknown): string => {
+  if (value === undefined) return "";
+  if (value === null) return "None";
+  if (value === true) return "True";
+  if (value === false) return "False";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Compares two values for `==`, lists and dicts by content
+ */
+const isEqual = (left: unknown, right: unknown): boolean =>
+  left === right ||
+  (typeof left === "object" &&
+    typeof right === "object" &&
+    left !== null &&
+    right !== null &&
+    JSON.stringify(left) === JSON.stringify(right));
+
+/**
+ * Gets the length of a string, list or dict
+ */
+const lengthOf = (value: unknown): number => {
+  if (typeof value === "string" || Array.isArray(value)) return value.length;
+  if (value && typeof value === "object") return Object.keys(value).length;
+  return 0;
+};
+
+/**
+ * Converts a string, list or dict to a list
+ */
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") return [...value];
+  if (value && typeof value === "object") return Object.keys(value);
+  return [];
+};
+
+/**
+ * Reads an attribute or item, undefined when missing
+ * Lookups on None or undefined are lenient and give undefined, so chains
+ * like `CTX.company[0].name|d` can be evaluated before `company` is set.
+ */
+const getMember = (object: unknown, key: unknown): unknown => {
+  if (object === null || object === undefined) return undefined;
+  if (Array.isArray(object) || typeof object === "string") {
+    if (typeof key === "number") {
+      const index = key < 0 ? object.length + key : key;
+      return object[index];
+    }
+    return undefined;
+  }
+  if (typeof object === "object") {
+    const record = object as Record<string, unknown>;
+    const name = String(key);
+    return Object.prototype.hasOwnProperty.call(record, name)
+      ? record[name]
+      : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Slices a string or list the way Python does, undefined for other values
+ * Bounds past either end are clamped and negative bounds count from the end.
+ */
+const sliceOf = (
+  value: unknown,
+  lower: unknown,
+  upper: unknown,
+  step: unknown
+): unknown => {
+  if (typeof value !== "string" && !Array.isArray(value)) return undefined;
+
+  const items = typeof value === "string" ? [...value] : value;
+  const length = items.length;
+  const by = step === undefined || step === null ? 1 : Number(step);
+  if (!by) throw new JinjaEvaluationError("Slice step cannot be zero");
+
+  const bound = (index: unknown, fallback: number): number => {
+    if (index === undefined || index === null) return fallback;
+    const position = Number(index);
+    if (position < 0) return Math.max(position + length, by < 0 ? -1 : 0);
+    return Math.min(position, by < 0 ? length - 1 : length);
+  };
+  const first = bound(lower, by < 0 ? length - 1 : 0);
+  const last = bound(upper, by < 0 ? -1 : length);
+
+  const result: unknown[] = [];
+  for (let index = first; by > 0 ? index < last : index > last; index += by) {
+    result.push(items[index]);
+  }
+  return typeof value === "string" ? result.join("") : result;
+};
+
+type JinjaFunction = (value: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * Filters supported by the evaluator, by name
+ */
+export const JINJA_FILTERS: Record<string, JinjaFunction> = {
+  d: (value, fallback = "", boolean = false) =>
+    value === undefined || (boolean && !isTruthy(value)) ? fallback : value,
+  default: (value, fallback = "", boolean = false) =>
+    value === undefined || (boolean && !isTruthy(value)) ? fallback : value,
+  length: lengthOf,
+  count: lengthOf,
+  lower: (value) => stringify(value).toLowerCase(),
+  upper: (value) => stringify(value).toUpperCase(),
+  title: (value) =>
+    stringify(value).replace(
+      /\w\S*/g,
+      (word) => word[0].toUpperCase() + word.slice(1).toLowerCase()
+    ),
+  capitalize: (value) => {
+    const text = stringify(value);
+    return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+  },
+  trim: (value) => stringify(value).trim(),
+  string: stringify,
+  int: (value, fallback = 0) => {
+    const number = parseInt(stringify(value), 10);
+    return Number.isNaN(number) ? fallback : number;
+  },
+  float: (value, fallback = 0) => {
+    const number = parseFloat(stringify(value));
+    return Number.isNaN(number) ? fallback : number;
+  },
+  bool: isTruthy,
+  abs: (value) => Math.abs(Number(value)),
+  round: (value, precision = 0) => {
+    const factor = 10 ** Number(precision);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  list: toList,
+  first: (value) => toList(value)[0],
+  last: (value) => toList(value).slice(-1)[0],
+  unique: (value) => [...new Set(toList(value))],
+  sort: (value, reverse = false) => {
+    const sorted = [...toList(value)].sort((a, b) =>
+      a === b ? 0 : (a as number) < (b as number) ? -1 : 1
+    );
+    return reverse ? sorted.reverse() : sorted;
+  },
+  reverse: (value) =>
+    typeof value === "string"
+      ? [...value].reverse().join("")
+      : [...toList(value)].reverse(),
+  join: (value, separator = "") =>
+    toList(value).map(stringify).join(String(separator)),
+  replace: (value, old, replacement) =>
+    stringify(value).split(String(old)).join(String(replacement)),
+  split: (value, separator?: unknown) =>
+    separator === undefined
+      ? stringify(value).trim().split(/\s+/)
+      : stringify(value).split(String(separator)),
+  tojson: (value) => JSON.stringify(value ?? null),
+  json_dump: (value) => JSON.stringify(value ?? null),
+  to_json_string: (value) => JSON.stringify(value ?? null),
+  json_parse: (value) => JSON.parse(stringify(value)),
+  from_json: (value) => JSON.parse(stringify(value)),
+  from_json_string: (value) => JSON.parse(stringify(value)),
+  // Deterministic so simulated runs are repeatable
+  random: (value) => toList(value)[0],
+  dict: (value) => (value && typeof value === "object" ? { ...value } : {}),
+  items: (value) =>
+    value && typeof value === "object" ? Object.entries(value) : [],
+  map: (value, attribute) =>
+    toList(value).map((item) => getMember(item, attribute)),
+  attr: (value, attribute) => getMember(value, attribute),
+  selectattr: (value, attribute, test, ...args) =>
+    toList(value).filter((item) =>
+      applyTest(getMember(item, attribute), test, args)
+    ),
+  rejectattr: (value, attribute, test, ...args) =>
+    toList(value).filter(
+      (item) => !applyTest(getMember(item, attribute), test, args)
+    ),
+  select: (value, test, ...args) =>
+    toList(value).filter((item) => applyTest(item, test, args)),
+  reject: (value, test, ...args) =>
+    toList(value).filter((item) => !applyTest(item, test, args)),
+  sum: (value) => toList(value).reduce<number>((a, b) => a + Number(b), 0),
+  min: (value) => Math.min(...toList(value).map(Number)),
+  max: (value) => Math.max(...toList(value).map(Number)),
+};
+
+/**
+ * Tests supported by `is`, by name
+ */
+export const JINJA_TESTS: Record<string, JinjaFunction> = {
+  defined: (value) => value !== undefined,
+  undefined: (value) => value === undefined,
+  none: (value) => value === null,
+  true: (value) => value === true,
+  false: (value) => value === false,
+  boolean: (value) => typeof value === "boolean",
+  string: (value) => typeof value === "string",
+  number: (value) => typeof value === "number",
+  integer: (value) => Number.isInteger(value),
+  float: (value) => typeof value === "number" && !Number.isInteger(value),
+  mapping: (value) =>
+    typeof value === "object" && value !== null && !Array.isArray(value),
+  sequence: (value) => Array.isArray(value) || typeof value === "string",
+  iterable: (value) =>
+    Array.isArray(value) ||
+    typeof value === "string" ||
+    (typeof value === "object" && value !== null),
+  odd: (value) => Number(value) % 2 === 1,
+  even: (value) => Number(value) % 2 === 0,
+  divisibleby: (value, divisor) => Number(value) % Number(divisor) === 0,
+  lower: (value) => stringify(value) === stringify(value).toLowerCase(),
+  upper: (value) => stringify(value) === stringify(value).toUpperCase(),
+  eq: isEqual,
+  equalto: isEqual,
+  ne: (value, other) => !isEqual(value, other),
+  lt: (value, other) => (value as number) < (other as number),
+  gt: (value, other) => (value as number) > (other as number),
+  le: (value, other) => (value as number) <= (other as number),
+  ge: (value, other) => (value as number) >= (other as number),
+  in: (value, container) => contains(container, value),
+  sameas: (value, other) => value === other,
+};
+
+/**
+ * Applies a test by name, for the filters that take one like `selectattr`
+ * @param value The value to test
+ * @param name The test name, or undefined to check the value is truthy
+ * @param args The test arguments
+ * @returns Whether the value passes
+ */
+const applyTest = (value: unknown, name: unknown, args: unknown[]): boolean => {
+  if (name === undefined) return isTruthy(value);
+
+  const test = JINJA_TESTS[String(name)];
+  if (!test) throw new JinjaEvaluationError(`Unsupported test "${name}"`);
+  return isTruthy(test(value, ...args));
+};
+
+/**
+ * Checks the `in` operator
+ */
+const contains = (container: unknown, item: unknown): boolean => {
+  if (typeof container === "string") return container.includes(stringify(item));
+  if (Array.isArray(container)) {
+    return container.some((entry) => isEqual(entry, item));
+  }
+  if (container && typeof container === "object") {
+    return Object.prototype.hasOwnProperty.call(container, String(item));
+  }
+  return false;
+};
+
+/**
+ * Calls a method on a value, for the Python methods templates commonly use
+ */
+const callMethod = (
+  object: unknown,
+  name: string,
+  args: unknown[],
+  node: ExpressionNode
+): unknown => {
+  if (object === null || object === undefined) {
+    throw new JinjaEvaluationError(
+      `Cannot call "${name}" on ${
+        object === null ? "None" : "an undefined value"
+      }`,
+      node.start,
+      node.end
+    );
+  }
+
+  if (typeof object === "string") {
+    switch (name) {
+      case "lower":
+      case "upper":
+      case "title":
+      case "capitalize":
+      case "split":
+      case "replace":
+        return JINJA_FILTERS[name](object, ...args);
+      case "strip":
+        return object.trim();
+      case "startswith":
+        return object.startsWith(stringify(args[0]));
+      case "endswith":
+        return object.endsWith(stringify(args[0]));
+      case "format":
+        return object.replace(/%s|\{\}/g, () => stringify(args.shift()));
+    }
+  }
+
+  if (Array.isArray(object)) {
+    switch (name) {
+      case "append":
+        object.push(args[0]);
+        return null;
+      case "index":
+        return object.findIndex((item) => isEqual(item, args[0]));
+      case "count":
+        return object.filter((item) => isEqual(item, args[0])).length;
+    }
+  }
+
+  if (object && typeof object === "object" && !Array.isArray(object)) {
+    const record = object as Record<string, unknown>;
+    switch (name) {
+      case "keys":
+        return Object.keys(record);
+      case "values":
+        return Object.values(record);
+      case "items":
+        return Object.entries(record);
+      case "get":
+        return getMember(record, args[0]) ?? args[1] ?? null;
+      case "update":
+        Object.assign(record, args[0]);
+        return null;
+    }
+  }
+
+  throw new JinjaEvaluationError(
+    `Unsupported method "${name}"`,
+    node.start,
+    node.end
+  );
+};
+
+/**
+ * Functions callable by name
+ */
+const GLOBAL_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  range: (start, stop, step = 1) => {
+    const [from, to] = stop === undefined ? [0, start] : [start, stop];
+    const values: number[] = [];
+    for (let i = Number(from); i < Number(to); i += Number(step)) {
+      values.push(i);
+    }
+    return values;
+  },
+  dict: (value) => ({ ...(value as object) }),
+  namespace: (value) => ({ ...(value as object) }),
+  now: () => new Date().toISOString(),
+};
+
+/**
+ * Assigns a value to a `for`/`set` target, unpacking tuples
+ */
+const assign = (target: ExpressionNode, value: unknown, scope: JinjaScope) => {
+  if (target.type === "Name") {
+    scope[target.name] = value;
+  } else if (target.type === "Tuple") {
+    const values = toList(value);
+    target.items.forEach((item, index) => assign(item, values[index], scope));
+  } else if (target.type === "GetAttr") {
+    const object = evaluateExpression(target.object, scope);
+    if (object && typeof object === "object") {
+      (object as Record<string, unknown>)[target.attribute] = value;
+    }
+  }
+};
+
+/**
+ * Applies a binary operator
+ */
+const applyBinary = (
+  operator: string,
+  left: unknown,
+  right: unknown
+): unknown => {
+  switch (operator) {
+    case "==":
+      return isEqual(left, right);
+    case "!=":
+      return !isEqual(left, right);
+    case "<":
+      return (left as number) < (right as number);
+    case ">":
+      return (left as number) > (right as number);
+    case "<=":
+      return (left as number) <= (right as number);
+    case ">=":
+      return (left as number) >= (right as number);
+    case "in":
+      return contains(right, left);
+    case "not in":
+      return !contains(right, left);
+    case "~":
+      return stringify(left) + stringify(right);
+    case "+":
+      if (Array.isArray(left) && Array.isArray(right)) {
+        return [...left, ...right];
+      }
+      return typeof left === "string" || typeof right === "string"
+        ? stringify(left) + stringify(right)
+        : Number(left) + Number(right);
+    case "-":
+      return Number(left) - Number(right);
+    case "*":
+      return typeof left === "string"
+        ? left.repeat(Number(right))
+        : Number(left) * Number(right);
+    case "/":
+      return Number(left) / Number(right);
+    case "//":
+      return Math.floor(Number(left) / Number(right));
+    case "%":
+      return Number(left) % Number(right);
+    case "**":
+      return Number(left) ** Number(right);
+    default:
+      throw new JinjaEvaluationError(`Unsupported operator "${operator}"`);
+  }
+};
+
+/**
+ * Evaluates an expression
+ * @param node The expression
+ * @param scope The variables in scope
+ * @returns The value
+ */
+export const evaluateExpression = (
+  node: ExpressionNode,
+  scope: JinjaScope
+): unknown => {
+  switch (node.type) {
+    case "Name":
+      return Object.prototype.hasOwnProperty.call(scope, node.name)
+        ? scope[node.name]
+        : undefined;
+    case "Literal":
+      return node.value;
+    case "List":
+    case "Tuple":
+      return node.items.map((item) => evaluateExpression(item, scope));
+    case "Dict":
+      return Object.fromEntries(
+        node.entries.map((entry) => [
+          stringify(evaluateExpression(entry.key, scope)),
+          evaluateExpression(entry.value, scope),
+        ])
+      );
+    case "GetAttr":
+      return getMember(evaluateExpression(node.object, scope), node.attribute);
+    case "GetItem": {
+      const object = evaluateExpression(node.object, scope);
+      if (node.index.type === "Slice") {
+        const { lower, upper, step } = node.index;
+        return sliceOf(
+          object,
+          lower && evaluateExpression(lower, scope),
+          upper && evaluateExpression(upper, scope),
+          step && evaluateExpression(step, scope)
+        );
+      }
+      return getMember(object, evaluateExpression(node.index, scope));
+    }
+    case "Slice":
+      throw new JinjaEvaluationError(
+        "Slices are only valid inside [ ]",
+        node.start,
+        node.end
+      );
+    case "Call": {
+      const args = node.args.map((arg) => evaluateExpression(arg, scope));
+      if (node.kwargs.length > 0) {
+        args.push(
+          Object.fromEntries(
+            node.kwargs.map((kwarg) => [
+              kwarg.name,
+              evaluateExpression(kwarg.value, scope),
+            ])
+          )
+        );
+      }
+      if (node.callee.type === "GetAttr") {
+        const object = evaluateExpression(node.callee.object, scope);
+        return callMethod(object, node.callee.attribute, args, node);
+      }
+      if (node.callee.type === "Name" && GLOBAL_FUNCTIONS[node.callee.name]) {
+        return GLOBAL_FUNCTIONS[node.callee.name](...args);
+      }
+      throw new JinjaEvaluationError(
+        "Unsupported function call",
+        node.start,
+        node.end
+      );
+    }
+    case "Filter": {
+      const filter = JINJA_FILTERS[node.name];
+      if (!filter) {
+        throw new JinjaEvaluationError(
+          `Unsupported filter "${node.name}"`,
+          node.start,
+          node.end
+        );
+      }
+      return filter(
+        evaluateExpression(node.input, scope),
+        ...node.args.map((arg) => evaluateExpression(arg, scope))
+      );
+    }
+    case "Test": {
+      const test = JINJA_TESTS[node.name];
+      if (!test) {
+        throw new JinjaEvaluationError(
+          `Unsupported test "${node.name}"`,
+          node.start,
+          node.end
+        );
+      }
+      const result = isTruthy(
+        test(
+          evaluateExpression(node.input, scope),
+          ...node.args.map((arg) => evaluateExpression(arg, scope))
+        )
+      );
+      return node.negated ? !result : result;
+    }
+    case "Unary": {
+      const operand = evaluateExpression(node.operand, scope);
+      if (node.operator === "not") return !isTruthy(operand);
+      return node.operator === "-" ? -Number(operand) : Number(operand);
+    }
+    case "Binary": {
+      // `and`/`or` short-circuit and return an operand, as in Python
+      const left = evaluateExpression(node.left, scope);
+      if (node.operator === "and") {
+        return isTruthy(left) ? evaluateExpression(node.right, scope) : left;
+      }
+      if (node.operator === "or") {
+        return isTruthy(left) ? left : evaluateExpression(node.right, scope);
+      }
+      return applyBinary(
+        node.operator,
+        left,
+        evaluateExpression(node.right, scope)
+      );
+    }
+    case "Conditional":
+      return isTruthy(evaluateExpression(node.test, scope))
+        ? evaluateExpression(node.consequent, scope)
+        : node.alternate
+        ? evaluateExpression(node.alternate, scope)
+        : undefined;
+    case "Comprehension": {
+      const results: unknown[] = [];
+      const entries: Array<[string, unknown]> = [];
+      toList(evaluateExpression(node.iterable, scope)).forEach((item) => {
+        const local = { ...scope };
+        assign(node.target, item, local);
+        if (node.filter && !isTruthy(evaluateExpression(node.filter, local))) {
+          return;
+        }
+        if (node.kind === "dict" && node.value) {
+          entries.push([
+            stringify(evaluateExpression(node.element, local)),
+            evaluateExpression(node.value, local),
+          ]);
+        } else {
+          results.push(evaluateExpression(node.element, local));
+        }
+      });
+      return node.kind === "dict" ? Object.fromEntries(entries) : results;
+    }
+  }
+};
+
+/**
+ * Renders a list of template nodes into a string
+ */
+const renderBody = (body: TemplateChild[], scope: JinjaScope): string =>
+  body.map((child) => renderNode(child, scope)).join("");
+
+/**
+ * Renders a single template node
+ */
+const renderNode = (node: TemplateChild, scope: JinjaScope): string => {
+  switch (node.type) {
+    case "Text":
+      return node.value;
+    case "Comment":
+      return "";
+    case "Output":
+      return node.expression
+        ? stringify(evaluateExpression(node.expression, scope))
+        : "";
+    case "If": {
+      const branch = node.branches.find(
+        (candidate) =>
+          candidate.test && isTruthy(evaluateExpression(candidate.test, scope))
+      );
+      return renderBody(branch ? branch.body : node.alternate, scope);
+    }
+    case "For": {
+      if (!node.target || !node.iterable) return "";
+      const items = toList(evaluateExpression(node.iterable, scope)).filter(
+        (item) => {
+          if (!node.filter || !node.target) return true;
+          const local = { ...scope };
+          assign(node.target, item, local);
+          return isTruthy(evaluateExpression(node.filter, local));
+        }
+      );
+      if (items.length === 0) return renderBody(node.alternate, scope);
+
+      return items
+        .map((item, index) => {
+          const local: JinjaScope = {
+            ...scope,
+            loop: {
+              index: index + 1,
+              index0: index,
+              first: index === 0,
+              last: index === items.length - 1,
+              length: items.length,
+            },
+          };
+          assign(node.target as ExpressionNode, item, local);
+          return renderBody(node.body, local);
+        })
+        .join("");
+    }
+    case "Set":
+      if (node.target && node.value) {
+        assign(node.target, evaluateExpression(node.value, scope), scope);
+      }
+      return "";
+    case "Statement":
+      // Rewst's `{% now %}` tag, rendered as the current time
+      if (node.name === "now") return new Date().toISOString();
+      throw new JinjaEvaluationError(
+        `Unsupported statement "${node.name}"`,
+        node.start,
+        node.end
+      );
+  }
+};
+
+/**
+ * Copies the variables in scope, so methods like `append` and `update` only
+ * change the copy and never the caller's CTX
+ */
+const copyScope = (scope: JinjaScope): JinjaScope => structuredClone(scope);
+
+/**
+ * Renders a template to a string
+ * @param template The template source or a parsed template
+ * @param scope The variables in scope
+ * @returns The rendered string
+ */
+export const renderTemplate = (
+  template: string | TemplateNode,
+  scope: JinjaScope
+): string => {
+  const ast =
+    typeof template === "string" ? parseOrThrow(template).ast : template;
+  return renderBody(ast.body, copyScope(scope));
+};
+
+/**
+ * Evaluates a template the way Rewst does for inputs, conditions and
+ * publishes: a string that is a single `{{ }}` block gives the value of the
+ * expression, keeping lists, dicts, numbers and booleans, anything else
+ * gives the rendered string.
+ * @param source The template source
+ * @param scope The variables in scope
+ * @returns The value
+ */
+export const evaluateTemplate = (
+  source: string,
+  scope: JinjaScope
+): unknown => {
+  const { ast } = parseOrThrow(source);
+  const blocks = ast.body.filter(
+    (node) => !(node.type === "Text" && node.value.trim() === "")
+  );
+
+  if (blocks.length === 1 && blocks[0].type === "Output") {
+    const { expression } = blocks[0];
+    return expression ? evaluateExpression(expression, copyScope(scope)) : "";
+  }
+  return renderBody(ast.body, copyScope(scope));
+};
+
+/**
+ * Parses a template, throwing on the first syntax error
+ */
+const parseOrThrow = (source: string): JinjaParseResult => {
+  const result = parseTemplate(source);
+  if (result.errors.length > 0) {
+    const [error] = result.errors;
+    throw new JinjaEvaluationError(error.message, error.start, error.end);
+  }
+  return result;
+};
@@ -0,0 +1,15 @@
+export * from "@/lib/jinja/types";
+export { containsJinja, JINJA_KEYWORDS, tokenize } from "@/lib/jinja/tokenizer";
+export { parseTemplate } from "@/lib/jinja/parser";
+export { findLookups, getChildren, walk } from "@/lib/jinja/ast";
+export {
+  evaluateExpression,
+  evaluateTemplate,
+  isTruthy,
+  JINJA_FILTERS,
+  JINJA_TESTS,
+  JinjaEvaluationError,
+  renderTemplate,
+  stringify,
+} from "@/lib/jinja/evaluator";
+export type { JinjaScope } from "@/lib/jinja/evaluator";
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { parseTemplate } from "@/lib/jinja/parser";
+import { evaluateTemplate } from "@/lib/jinja/evaluator";
+import { ExpressionNode } from "@/lib/jinja/types";
+
+/**
+ * Parses a single `{{ }}` block, failing on any parse error
+ */
+const parseExpression = (source: string): ExpressionNode => {
+  const { ast, errors } = parseTemplate(`{{ ${source} }}`);
+  expect(errors).toEqual([]);
+  const [output] = ast.body;
+  if (output?.type !== "Output" || !output.expression) {
+    throw new Error(`"${source}" didn't parse to an expression`);
+  }
+  return output.expression;
+};
+
+describe("parseTemplate", () => {
+  describe("slices", () => {
+    it("parses start and stop", () => {
+      const node = parseExpression("a[1:3]");
+      expect(node).toMatchObject({
+        type: "GetItem",
+        index: {
+          type: "Slice",
+          lower: { type: "Literal", value: 1 },
+          upper: { type: "Literal", value: 3 },
+          step: null,
+        },
+      });
+    });
+
+    it("parses a step with the bounds left out", () => {
+      expect(parseExpression("a[::2]")).toMatchObject({
+        index: {
+          type: "Slice",
+          lower: null,
+          upper: null,
+          step: { type: "Literal", value: 2 },
+        },
+      });
+    });
+
+    it.each([
+      "a[1:]",
+      "a[:-1]",
+      "a[::-1]",
+      "a[x:y:z]",
+      "CTX.items[1:3]|length",
+    ])("parses %s", (source) => {
+      expect(parseTemplate(`{{ ${source} }}`).errors).toEqual([]);
+    });
+
+    it("still parses plain indexes and tuples", () => {
+      expect(parseExpression("a[0]")).toMatchObject({
+        index: { type: "Literal", value: 0 },
+      });
+      expect(parseExpression("a[1, 2]")).toMatchObject({
+        index: { type: "Tuple" },
+      });
+    });
+
+    it("evaluates like Python", () => {
+      const scope = { a: [0, 1, 2, 3, 4], s: "hello" };
+      expect(evaluateTemplate("{{ a[1:3] }}", scope)).toEqual([1, 2]);
+      expect(evaluateTemplate("{{ a[::2] }}", scope)).toEqual([0, 2, 4]);
+      expect(evaluateTemplate("{{ a[::-1] }}", scope)).toEqual([4, 3, 2, 1, 0]);
+      expect(evaluateTemplate("{{ a[-2:] }}", scope)).toEqual([3, 4]);
+      expect(evaluateTemplate("{{ s[1:10] }}", scope)).toBe("ello");
+    });
+  });
+
+  describe("tests", () => {
+    it("parses a bare argument", () => {
+      expect(parseExpression("x is divisibleby 3")).toMatchObject({
+        type: "Test",
+        name: "divisibleby",
+        args: [{ type: "Literal", value: 3 }],
+      });
+    });
+
+    it("parses a bare name argument and a negated test", () => {
+      expect(parseExpression("x is not sameas y")).toMatchObject({
+        type: "Test",
+        negated: true,
+        args: [{ type: "Name", name: "y" }],
+      });
+    });
+
+    it("leaves the rest of the expression alone", () => {
+      expect(parseExpression("x is defined and y")).toMatchObject({
+        type: "Binary",
+        operator: "and",
+        left: { type: "Test", args: [] },
+      });
+      expect(
+        parseTemplate("{% if x is divisibleby 3 %}{% endif %}").errors
+      ).toEqual([]);
+    });
+
+    it("evaluates the argument", () => {
+      expect(evaluateTemplate("{{ x is divisibleby 3 }}", { x: 9 })).toBe(true);
+      expect(evaluateTemplate("{{ x is divisibleby 3 }}", { x: 8 })).toBe(
+        false
+      );
+    });
+  });
+
+  describe("generator expressions", () => {
+    it("parses a parenthesized generator", () => {
+      expect(parseExpression("(x for x in y)")).toMatchObject({
+        type: "Comprehension",
+        kind: "generator",
+        element: { type: "Name", name: "x" },
+        iterable: { type: "Name", name: "y" },
+      });
+    });
+
+    it("parses a generator as the only argument of a call", () => {
+      expect(parseExpression("y.count(x for x in y if x)")).toMatchObject({
+        type: "Call",
+        args: [{ type: "Comprehension", kind: "generator" }],
+      });
+    });
+
+    it("evaluates to a list", () => {
+      expect(
+        evaluateTemplate("{{ (x * 2 for x in y if x > 1)|list }}", {
+          y: [1, 2, 3],
+        })
+      ).toEqual([4, 6]);
+    });
+
+    it("still parses parenthesized expressions and tuples", () => {
+      expect(parseExpression("(a + b)")).toMatchObject({ type: "Binary" });
+      expect(parseExpression("(a, b)")).toMatchObject({ type: "Tuple" });
+    });
+  });
+
+  it("reports a missing bracket", () => {
+    expect(parseTemplate("{{ a[1:3 }}").errors).toHaveLength(1);
+  });
+
+  describe("raw blocks", () => {
+    it("keeps their content as text", () => {
+      const { ast, errors } = parseTemplate(
+        "a{% raw %}{{ b }}{% if %}{% endraw %}c"
+      );
+      expect(errors).toEqual([]);
+      expect(ast.body.map((node) => node.type)).toEqual([
+        "Text",
+        "Text",
+        "Text",
+      ]);
+      expect(ast.body[1]).toMatchObject({ value: "{{ b }}{% if %}" });
+    });
+
+    it("reports a missing endraw", () => {
+      expect(parseTemplate("{% raw %}{{ b }}").errors).toEqual([
+        expect.objectContaining({ message: 'Unclosed "raw", expected "endraw"' }),
+      ]);
+    });
+
+    it("reports a stray endraw", () => {
+      expect(parseTemplate("a{% endraw %}").errors).toHaveLength(1);
+    });
+  });
+});
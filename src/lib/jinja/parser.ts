@@ -0,0 +1,964 @@
+import {
+  ComprehensionNode,
+  ExpressionNode,
+  ForNode,
+  IfNode,
+  JinjaParseError,
+  JinjaParseResult,
+  JinjaToken,
+  KeywordArgument,
+  TemplateChild,
+  TemplateNode,
+} from "@/lib/jinja/types";
+import { tokenize } from "@/lib/jinja/tokenizer";
+
+/**
+ * Thrown inside a block to abandon it, the parser records it and moves on
+ */
+class BlockError extends Error {
+  constructor(public error: JinjaParseError) {
+    super(error.message);
+  }
+}
+
+const COMPARISON_OPERATORS = new Set(["==", "!=", "<", ">", "<=", ">="]);
+
+/**
+ * Bracket closing each kind of comprehension
+ */
+const COMPREHENSION_CLOSERS: Record<ComprehensionNode["kind"], string> = {
+  list: "]",
+  dict: "}",
+  generator: ")",
+};
+
+/**
+ * Parses the tokens of a single `{{ }}` or `{% %}` block
+ * Recursive descent following Jinja's operator precedence, lowest first:
+ * conditional, `or`, `and`, `not`, comparisons/`in`/`is`, `~`, `+ -`,
+ * `* / // %`, unary `- +`, `**`, filters, then attribute/item/call postfixes.
+ */
+class ExpressionParser {
+  private index = 0;
+
+  constructor(private tokens: JinjaToken[], private blockEnd: number) {}
+
+  get done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  peek(offset = 0): JinjaToken | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  next(): JinjaToken {
+    const token = this.tokens[this.index];
+    if (!token) this.fail("Unexpected end of expression");
+    this.index++;
+    return token;
+  }
+
+  /**
+   * Checks if the next token has the given value (and type, when given)
+   */
+  at(value: string, type?: JinjaToken["type"]): boolean {
+    const token = this.peek();
+    return Boolean(
+      token && token.value === value && (!type || token.type === type)
+    );
+  }
+
+  accept(value: string): JinjaToken | null {
+    return this.at(value) ? this.next() : null;
+  }
+
+  expect(value: string): JinjaToken {
+    if (!this.at(value)) {
+      const token = this.peek();
+      this.fail(
+        token
+          ? `Expected "${value}" but found "${token.value}"`
+          : `Expected "${value}"`,
+        token
+      );
+    }
+    return this.next();
+  }
+
+  expectName(): JinjaToken {
+    const token = this.peek();
+    if (!token || token.type !== "name") {
+      this.fail(
+        token
+          ? `Expected a name but found "${token.value}"`
+          : "Expected a name",
+        token
+      );
+    }
+    return this.next();
+  }
+
+  fail(message: string, token?: JinjaToken): never {
+    const start = token ? token.start : this.blockEnd;
+    const end = token ? token.end : this.blockEnd;
+    throw new BlockError({ message, start, end });
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token) this.fail(`Unexpected "${token.value}"`, token);
+  }
+
+  /**
+   * Parses the target of `for`, `set` or a comprehension: a name, a
+   * namespace attribute or a comma separated list of names
+   */
+  parseAssignTarget(): ExpressionNode {
+    const parenthesized = this.at("(") ? this.next() : null;
+    const items: ExpressionNode[] = [];
+
+    do {
+      if (items.length > 0 && (this.at(")") || this.at("in", "keyword"))) {
+        break;
+      }
+      const name = this.expectName();
+      let target: ExpressionNode = {
+        type: "Name",
+        name: name.value,
+        start: name.start,
+        end: name.end,
+      };
+      if (this.accept(".")) {
+        const attribute = this.expectName();
+        target = {
+          type: "GetAttr",
+          object: target,
+          attribute: attribute.value,
+          start: target.start,
+          end: attribute.end,
+        };
+      }
+      items.push(target);
+    } while (this.accept(","));
+
+    const close = parenthesized ? this.expect(")") : null;
+    if (items.length === 1 && !close) return items[0];
+    return {
+      type: "Tuple",
+      items,
+      start: parenthesized ? parenthesized.start : items[0].start,
+      end: close ? close.end : items[items.length - 1].end,
+    };
+  }
+
+  // ---------- Expressions ----------
+
+  parseExpression(allowConditional = true): ExpressionNode {
+    const expression = this.parseOr();
+    if (!allowConditional || !this.at("if", "keyword")) return expression;
+
+    this.next();
+    const test = this.parseOr();
+    const alternate = this.accept("else") ? this.parseExpression() : null;
+    return {
+      type: "Conditional",
+      test,
+      consequent: expression,
+      alternate,
+      start: expression.start,
+      end: (alternate || test).end,
+    };
+  }
+
+  /**
+   * Parses a comma separated list, returning a tuple when there is a comma
+   * @param first The first item, when already parsed
+   */
+  parseTupleOrExpression(
+    first: ExpressionNode = this.parseExpression()
+  ): ExpressionNode {
+    if (!this.at(",")) return first;
+
+    const items = [first];
+    while (this.accept(",")) {
+      if (this.done || this.at(")") || this.at("]")) break;
+      items.push(this.parseExpression());
+    }
+    return {
+      type: "Tuple",
+      items,
+      start: first.start,
+      end: items[items.length - 1].end,
+    };
+  }
+
+  private binary(
+    operator: string,
+    left: ExpressionNode,
+    right: ExpressionNode
+  ): ExpressionNode {
+    return {
+      type: "Binary",
+      operator,
+      left,
+      right,
+      start: left.start,
+      end: right.end,
+    };
+  }
+
+  parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.at("or", "keyword")) {
+      this.next();
+      left = this.binary("or", left, this.parseAnd());
+    }
+    return left;
+  }
+
+  parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.at("and", "keyword")) {
+      this.next();
+      left = this.binary("and", left, this.parseNot());
+    }
+    return left;
+  }
+
+  parseNot(): ExpressionNode {
+    if (this.at("not", "keyword")) {
+      const token = this.next();
+      const operand = this.parseNot();
+      return {
+        type: "Unary",
+        operator: "not",
+        operand,
+        start: token.start,
+        end: operand.end,
+      };
+    }
+    return this.parseComparison();
+  }
+
+  parseComparison(): ExpressionNode {
+    let left = this.parseConcat();
+
+    for (;;) {
+      const token = this.peek();
+      if (!token) return left;
+
+      if (token.type === "operator" && COMPARISON_OPERATORS.has(token.value)) {
+        this.next();
+        left = this.binary(token.value, left, this.parseConcat());
+      } else if (this.at("in", "keyword")) {
+        this.next();
+        left = this.binary("in", left, this.parseConcat());
+      } else if (
+        this.at("not", "keyword") &&
+        this.peek(1)?.value === "in" &&
+        this.peek(1)?.type === "keyword"
+      ) {
+        this.next();
+        this.next();
+        left = this.binary("not in", left, this.parseConcat());
+      } else if (this.at("is", "keyword")) {
+        left = this.parseTest(left);
+      } else {
+        return left;
+      }
+    }
+  }
+
+  parseTest(input: ExpressionNode): ExpressionNode {
+    this.next();
+    const negated = Boolean(this.at("not", "keyword") && this.next());
+
+    // Tests can be keywords too, e.g. `is none` or `is true`
+    const token = this.peek();
+    if (!token || (token.type !== "name" && token.type !== "keyword")) {
+      this.fail('Expected a test name after "is"', token);
+    }
+    const name = this.next();
+
+    const args: ExpressionNode[] = [];
+    let end = name.end;
+    if (this.at("(")) {
+      const call = this.parseArguments();
+      args.push(...call.args);
+      end = call.end;
+    } else if (this.atBareTestArgument()) {
+      // A single argument can follow without parentheses, e.g.
+      // `is divisibleby 3`
+      const argument = this.parsePostfix();
+      args.push(argument);
+      end = argument.end;
+    }
+
+    return {
+      type: "Test",
+      input,
+      name: name.value,
+      negated,
+      args,
+      start: input.start,
+      end,
+    };
+  }
+
+  /**
+   * Checks if the token after a test name starts its argument, as Jinja
+   * allows for names, literals, lists and dicts
+   */
+  atBareTestArgument(): boolean {
+    const token = this.peek();
+    if (!token) return false;
+    if (
+      token.type === "name" ||
+      token.type === "string" ||
+      token.type === "number"
+    ) {
+      return true;
+    }
+    if (token.type === "keyword") {
+      return KEYWORD_LITERALS[token.value] !== undefined;
+    }
+    return (
+      token.type === "punctuation" &&
+      (token.value === "[" || token.value === "{")
+    );
+  }
+
+  parseConcat(): ExpressionNode {
+    let left = this.parseAdditive();
+    while (this.at("~", "operator")) {
+      this.next();
+      left = this.binary("~", left, this.parseAdditive());
+    }
+    return left;
+  }
+
+  parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.at("+", "operator") || this.at("-", "operator")) {
+      const operator = this.next().value;
+      left = this.binary(operator, left, this.parseMultiplicative());
+    }
+    return left;
+  }
+
+  parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (
+      this.at("*", "operator") ||
+      this.at("/", "operator") ||
+      this.at("//", "operator") ||
+      this.at("%", "operator")
+    ) {
+      const operator = this.next().value;
+      left = this.binary(operator, left, this.parseUnary());
+    }
+    return left;
+  }
+
+  parseUnary(): ExpressionNode {
+    if (this.at("-", "operator") || this.at("+", "operator")) {
+      const token = this.next();
+      const operand = this.parseUnary();
+      return {
+        type: "Unary",
+        operator: token.value,
+        operand,
+        start: token.start,
+        end: operand.end,
+      };
+    }
+    return this.parsePower();
+  }
+
+  parsePower(): ExpressionNode {
+    const left = this.parseFilters();
+    if (!this.at("**", "operator")) return left;
+    this.next();
+    return this.binary("**", left, this.parseUnary());
+  }
+
+  parseFilters(): ExpressionNode {
+    let input = this.parsePostfix();
+
+    while (this.at("|", "operator")) {
+      this.next();
+      const name = this.expectName();
+      let args: ExpressionNode[] = [];
+      let kwargs: KeywordArgument[] = [];
+      let end = name.end;
+
+      if (this.at("(")) {
+        const call = this.parseArguments();
+        ({ args, kwargs, end } = call);
+      }
+
+      input = {
+        type: "Filter",
+        input,
+        name: name.value,
+        args,
+        kwargs,
+        start: input.start,
+        end,
+      };
+    }
+
+    return input;
+  }
+
+  parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.at(".")) {
+        this.next();
+        const attribute = this.peek();
+        if (
+          !attribute ||
+          (attribute.type !== "name" &&
+            attribute.type !== "keyword" &&
+            attribute.type !== "number")
+        ) {
+          this.fail('Expected an attribute name after "."', attribute);
+        }
+        this.next();
+        node = {
+          type: "GetAttr",
+          object: node,
+          attribute: attribute.value,
+          start: node.start,
+          end: attribute.end,
+        };
+      } else if (this.at("[")) {
+        this.next();
+        const index = this.parseSubscript();
+        const close = this.expect("]");
+        node = {
+          type: "GetItem",
+          object: node,
+          index,
+          start: node.start,
+          end: close.end,
+        };
+      } else if (this.at("(")) {
+        const call = this.parseArguments();
+        node = {
+          type: "Call",
+          callee: node,
+          args: call.args,
+          kwargs: call.kwargs,
+          start: node.start,
+          end: call.end,
+        };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /**
+   * Parses what is inside `[ ]` after an expression: an index, or a slice
+   * such as `1:3` or `::2`
+   */
+  parseSubscript(): ExpressionNode {
+    const lower = this.at(":") ? null : this.parseTupleOrExpression();
+    if (lower && !this.at(":")) return lower;
+
+    const colon = this.expect(":");
+    const start = lower ? lower.start : colon.start;
+    let end = colon.end;
+    const upper = this.at(":") || this.at("]") ? null : this.parseExpression();
+    if (upper) end = upper.end;
+
+    let step: ExpressionNode | null = null;
+    if (this.at(":")) {
+      end = this.next().end;
+      step = this.at("]") ? null : this.parseExpression();
+      if (step) end = step.end;
+    }
+
+    return { type: "Slice", lower, upper, step, start, end };
+  }
+
+  parseArguments(): {
+    args: ExpressionNode[];
+    kwargs: KeywordArgument[];
+    end: number;
+  } {
+    const open = this.expect("(");
+    const args: ExpressionNode[] = [];
+    const kwargs: KeywordArgument[] = [];
+
+    while (!this.at(")")) {
+      if (this.peek()?.type === "name" && this.peek(1)?.value === "=") {
+        const name = this.next().value;
+        this.next();
+        kwargs.push({ name, value: this.parseExpression() });
+      } else {
+        args.push(this.parseExpression());
+
+        // A generator can be the only argument without its own parentheses,
+        // e.g. `sum(x for x in y)`
+        if (
+          args.length === 1 &&
+          kwargs.length === 0 &&
+          this.at("for", "keyword")
+        ) {
+          const generator = this.parseComprehension(
+            open,
+            "generator",
+            args[0],
+            null
+          );
+          return { args: [generator], kwargs, end: generator.end };
+        }
+      }
+      if (!this.accept(",")) break;
+    }
+
+    const close = this.expect(")");
+    return { args, kwargs, end: close.end };
+  }
+
+  parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    if (!token) this.fail("Expected an expression");
+
+    switch (token.type) {
+      case "name":
+        this.next();
+        return {
+          type: "Name",
+          name: token.value,
+          start: token.start,
+          end: token.end,
+        };
+      case "string":
+        this.next();
+        return {
+          type: "Literal",
+          value: unquote(token.value),
+          start: token.start,
+          end: token.end,
+        };
+      case "number":
+        this.next();
+        return {
+          type: "Literal",
+          value: Number(token.value.replace(/_/g, "")),
+          start: token.start,
+          end: token.end,
+        };
+      case "keyword": {
+        const literal = KEYWORD_LITERALS[token.value];
+        if (literal === undefined) {
+          this.fail(`Unexpected keyword "${token.value}"`, token);
+        }
+        this.next();
+        return {
+          type: "Literal",
+          value: literal,
+          start: token.start,
+          end: token.end,
+        };
+      }
+      case "punctuation":
+        if (token.value === "(") return this.parseParenthesized();
+        if (token.value === "[") return this.parseList();
+        if (token.value === "{") return this.parseDict();
+        break;
+      case "error":
+        this.fail(
+          token.value.startsWith('"') || token.value.startsWith("'")
+            ? "Unterminated string"
+            : `Unexpected character "${token.value}"`,
+          token
+        );
+    }
+
+    this.fail(`Unexpected "${token.value}"`, token);
+  }
+
+  parseParenthesized(): ExpressionNode {
+    const open = this.next();
+    if (this.at(")")) {
+      const close = this.next();
+      return { type: "Tuple", items: [], start: open.start, end: close.end };
+    }
+
+    const first = this.parseExpression();
+    if (this.at("for", "keyword")) {
+      return this.parseComprehension(open, "generator", first, null);
+    }
+
+    const expression = this.parseTupleOrExpression(first);
+    const close = this.expect(")");
+    return { ...expression, start: open.start, end: close.end };
+  }
+
+  /**
+   * Parses the `for target in iterable if filter` part of a comprehension
+   * and its closing bracket
+   */
+  parseComprehension(
+    open: JinjaToken,
+    kind: ComprehensionNode["kind"],
+    element: ExpressionNode,
+    value: ExpressionNode | null
+  ): ExpressionNode {
+    this.expect("for");
+    const target = this.parseAssignTarget();
+    this.expect("in");
+    const iterable = this.parseExpression(false);
+    const filter = this.accept("if") ? this.parseExpression(false) : null;
+    const close = this.expect(COMPREHENSION_CLOSERS[kind]);
+    return {
+      type: "Comprehension",
+      kind,
+      element,
+      value,
+      target,
+      iterable,
+      filter,
+      start: open.start,
+      end: close.end,
+    };
+  }
+
+  parseList(): ExpressionNode {
+    const open = this.next();
+    const items: ExpressionNode[] = [];
+    while (!this.at("]")) {
+      items.push(this.parseExpression());
+      if (items.length === 1 && this.at("for", "keyword")) {
+        return this.parseComprehension(open, "list", items[0], null);
+      }
+      if (!this.accept(",")) break;
+    }
+    const close = this.expect("]");
+    return { type: "List", items, start: open.start, end: close.end };
+  }
+
+  parseDict(): ExpressionNode {
+    const open = this.next();
+    const entries: Array<{ key: ExpressionNode; value: ExpressionNode }> = [];
+    while (!this.at("}")) {
+      const key = this.parseExpression();
+      this.expect(":");
+      entries.push({ key, value: this.parseExpression() });
+      if (entries.length === 1 && this.at("for", "keyword")) {
+        return this.parseComprehension(open, "dict", key, entries[0].value);
+      }
+      if (!this.accept(",")) break;
+    }
+    const close = this.expect("}");
+    return { type: "Dict", entries, start: open.start, end: close.end };
+  }
+}
+
+const KEYWORD_LITERALS: Record<string, boolean | null> = {
+  true: true,
+  True: true,
+  false: false,
+  False: false,
+  none: null,
+  None: null,
+};
+
+/**
+ * Removes the quotes and escapes of a string token
+ * @param value The string token, including its quotes
+ * @returns The string value
+ */
+const unquote = (value: string): string =>
+  value
+    .slice(1, -1)
+    .replace(/\\(.)/g, (_, char: string) =>
+      char === "n" ? "\n" : char === "t" ? "\t" : char
+    );
+
+/**
+ * A `{% %}` block being filled with its body
+ */
+type OpenBlock =
+  | { node: IfNode; body: TemplateChild[] }
+  | { node: ForNode; body: TemplateChild[] };
+
+/**
+ * Parses a Jinja template into an AST
+ *
+ * Errors don't stop the parse: a block that fails is recorded in `errors`
+ * and left out of the tree, and parsing carries on with the next block.
+ * Unclosed `{% if %}`/`{% for %}` blocks and stray end tags are reported too.
+ *
+ * @param source The template source
+ * @returns The AST, the tokens and any parse errors
+ */
+export const parseTemplate = (source: string): JinjaParseResult => {
+  const tokens = tokenize(source);
+  const errors: JinjaParseError[] = [];
+  const root: TemplateNode = {
+    type: "Template",
+    body: [],
+    start: 0,
+    end: source.length,
+  };
+
+  // Stack of open blocks, the body new nodes are added to is on top
+  const stack: OpenBlock[] = [];
+  const currentBody = () =>
+    stack.length > 0 ? stack[stack.length - 1].body : root.body;
+
+  let index = 0;
+  while (index < tokens.length) {
+    const token = tokens[index];
+
+    if (token.type === "text") {
+      currentBody().push({
+        type: "Text",
+        value: token.value,
+        start: token.start,
+        end: token.end,
+      });
+      index++;
+      continue;
+    }
+
+    if (token.type === "comment") {
+      currentBody().push({
+        type: "Comment",
+        value: token.value,
+        start: token.start,
+        end: token.end,
+      });
+      index++;
+      continue;
+    }
+
+    if (token.type !== "open") {
+      errors.push({
+        message: "Unterminated comment",
+        start: token.start,
+        end: token.end,
+      });
+      index++;
+      continue;
+    }
+
+    // Collect the tokens of the block
+    const open = token;
+    const blockTokens: JinjaToken[] = [];
+    index++;
+    while (index < tokens.length && tokens[index].type !== "close") {
+      if (tokens[index].type !== "whitespace") blockTokens.push(tokens[index]);
+      index++;
+    }
+    const close = tokens[index];
+    index++;
+
+    const blockEnd = close ? close.end : source.length;
+    const isOutput = open.value.startsWith("{{");
+
+    if (!close) {
+      // An unterminated string swallows the closing delimiter
+      const last = blockTokens[blockTokens.length - 1];
+      const unterminated =
+        last && last.type === "error" && /^["']/.test(last.value);
+      errors.push({
+        message: unterminated
+          ? "Unterminated string"
+          : `Unclosed "${open.value}", expected "${isOutput ? "}}" : "%}"}"`,
+        start: unterminated ? last.start : open.start,
+        end: source.length,
+      });
+      continue;
+    }
+
+    const parser: ExpressionParser = new ExpressionParser(
+      blockTokens,
+      close.start
+    );
+
+    try {
+      if (isOutput) {
+        if (blockTokens.length === 0) {
+          parser.fail("Empty expression", open);
+        }
+        const expression = parser.parseTupleOrExpression();
+        parser.expectEnd();
+        currentBody().push({
+          type: "Output",
+          expression,
+          start: open.start,
+          end: blockEnd,
+        });
+        continue;
+      }
+
+      const keyword = blockTokens[0];
+      if (!keyword) parser.fail("Empty statement", open);
+      parser.next();
+
+      switch (keyword.value) {
+        case "if": {
+          const test = parser.parseExpression();
+          parser.expectEnd();
+          const node: IfNode = {
+            type: "If",
+            branches: [{ test, body: [] }],
+            alternate: [],
+            start: open.start,
+            end: blockEnd,
+          };
+          currentBody().push(node);
+          stack.push({ node, body: node.branches[0].body });
+          break;
+        }
+
+        case "elif":
+        case "else": {
+          const top = stack[stack.length - 1];
+          if (!top) parser.fail(`Unexpected "${keyword.value}"`, keyword);
+
+          if (keyword.value === "elif") {
+            const node = top.node;
+            if (node.type !== "If") {
+              parser.fail('"elif" is only allowed inside "if"', keyword);
+            }
+            const test = parser.parseExpression();
+            parser.expectEnd();
+            const branch = { test, body: [] as TemplateChild[] };
+            node.branches.push(branch);
+            top.body = branch.body;
+          } else {
+            parser.expectEnd();
+            top.body = top.node.alternate;
+          }
+          break;
+        }
+
+        case "for": {
+          const target = parser.parseAssignTarget();
+          parser.expect("in");
+          const iterable = parser.parseExpression(false);
+          const filter = parser.accept("if") ? parser.parseExpression() : null;
+          if (parser.at("recursive")) parser.next();
+          parser.expectEnd();
+          const node: ForNode = {
+            type: "For",
+            target,
+            iterable,
+            filter,
+            body: [],
+            alternate: [],
+            start: open.start,
+            end: blockEnd,
+          };
+          currentBody().push(node);
+          stack.push({ node, body: node.body });
+          break;
+        }
+
+        case "endif":
+        case "endfor": {
+          parser.expectEnd();
+          const expected = keyword.value === "endif" ? "If" : "For";
+          const top = stack[stack.length - 1];
+          if (!top || top.node.type !== expected) {
+            parser.fail(`Unexpected "${keyword.value}"`, keyword);
+          }
+          top.node.end = blockEnd;
+          stack.pop();
+          break;
+        }
+
+        case "set": {
+          const target = parser.parseAssignTarget();
+          const value = parser.accept("=") ? parser.parseExpression() : null;
+          parser.expectEnd();
+          currentBody().push({
+            type: "Set",
+            target,
+            value,
+            start: open.start,
+            end: blockEnd,
+          });
+          break;
+        }
+
+        case "raw": {
+          parser.expectEnd();
+
+          // Everything up to `{% endraw %}` is text, whatever it looks like
+          const skipWhitespace = (position: number) => {
+            while (tokens[position]?.type === "whitespace") position++;
+            return position;
+          };
+          const isEndRaw = (position: number) => {
+            if (
+              tokens[position].type !== "open" ||
+              !tokens[position].value.startsWith("{%")
+            ) {
+              return false;
+            }
+            const name = skipWhitespace(position + 1);
+            return (
+              tokens[name]?.value === "endraw" &&
+              tokens[skipWhitespace(name + 1)]?.type === "close"
+            );
+          };
+
+          let endRaw = index;
+          while (endRaw < tokens.length && !isEndRaw(endRaw)) endRaw++;
+          if (endRaw >= tokens.length) {
+            index = tokens.length;
+            parser.fail('Unclosed "raw", expected "endraw"', keyword);
+          }
+
+          currentBody().push({
+            type: "Text",
+            value: source.slice(blockEnd, tokens[endRaw].start),
+            start: blockEnd,
+            end: tokens[endRaw].start,
+          });
+          index = skipWhitespace(skipWhitespace(endRaw + 1) + 1) + 1;
+          break;
+        }
+
+        case "endraw":
+          parser.fail('Unexpected "endraw"', keyword);
+          break;
+
+        default:
+          currentBody().push({
+            type: "Statement",
+            name: keyword.value,
+            source: source.slice(open.start, blockEnd),
+            start: open.start,
+            end: blockEnd,
+          });
+      }
+    } catch (error) {
+      if (!(error instanceof BlockError)) throw error;
+      errors.push(error.error);
+    }
+  }
+
+  // Blocks still open at the end of the template
+  stack.forEach(({ node }) =>
+    errors.push({
+      message: `Unclosed "${node.type === "If" ? "if" : "for"}", expected "${
+        node.type === "If" ? "endif" : "endfor"
+      }"`,
+      start: node.start,
+      end: node.end,
+    })
+  );
+
+  return { ast: root, tokens, errors };
+};
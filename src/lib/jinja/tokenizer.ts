@@ -0,0 +1,211 @@
+import { JinjaToken, JinjaTokenType } from "@/lib/jinja/types";
+
+/**
+ * Words with a meaning of their own inside Jinja expressions and statements
+ */
+export const JINJA_KEYWORDS = new Set([
+  "and",
+  "or",
+  "not",
+  "in",
+  "is",
+  "if",
+  "elif",
+  "else",
+  "endif",
+  "for",
+  "endfor",
+  "set",
+  "endset",
+  "true",
+  "false",
+  "none",
+  "True",
+  "False",
+  "None",
+]);
+
+/**
+ * Operators, longest first so `//` wins over `/`
+ */
+const OPERATORS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "//",
+  "**",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "~",
+  "=",
+  "|",
+];
+
+const PUNCTUATION = ".,:()[]{}";
+
+/**
+ * Finds the next block opening (`{{`, `{%` or `{#`) in the source
+ * @param source The template source
+ * @param from Offset to search from
+ * @returns The offset of the opening or -1
+ */
+const findBlockStart = (source: string, from: number): number => {
+  const match = /\{[{%#]/.exec(source.slice(from));
+  return match ? from + match.index : -1;
+};
+
+/**
+ * Checks if a string contains any Jinja blocks
+ * @param value The string to check
+ * @returns true for strings with `{{`, `{%` or `{#`
+ */
+export const containsJinja = (value: string): boolean =>
+  findBlockStart(value, 0) !== -1;
+
+/**
+ * Splits a template into tokens
+ *
+ * Text outside blocks becomes `text` tokens and comments become a single
+ * `comment` token. Inside `{{ }}` and `{% %}` the code is split into names,
+ * keywords, literals, operators and punctuation. Whitespace is kept as tokens
+ * so joining every token value gives back the source. Characters that can't
+ * start a token and unterminated strings become `error` tokens.
+ *
+ * @param source The template source
+ * @returns The tokens, in source order
+ */
+export const tokenize = (source: string): JinjaToken[] => {
+  const tokens: JinjaToken[] = [];
+  let position = 0;
+
+  const push = (type: JinjaTokenType, start: number, end: number) => {
+    if (end > start) {
+      tokens.push({ type, value: source.slice(start, end), start, end });
+    }
+  };
+
+  while (position < source.length) {
+    const blockStart = findBlockStart(source, position);
+
+    // Text up to the next block
+    if (blockStart === -1) {
+      push("text", position, source.length);
+      break;
+    }
+    push("text", position, blockStart);
+    position = blockStart;
+
+    const kind = source[position + 1];
+
+    // Comments are kept whole
+    if (kind === "#") {
+      const close = source.indexOf("#}", position + 2);
+      const end = close === -1 ? source.length : close + 2;
+      push(close === -1 ? "error" : "comment", position, end);
+      position = end;
+      continue;
+    }
+
+    // Opening delimiter, with optional whitespace control
+    let openEnd = position + 2;
+    if (source[openEnd] === "-" || source[openEnd] === "+") openEnd++;
+    push("open", position, openEnd);
+    position = openEnd;
+
+    const closer = kind === "{" ? "}}" : "%}";
+    let braceDepth = 0;
+
+    // Code inside the block
+    while (position < source.length) {
+      const rest = source.slice(position);
+
+      // Closing delimiter, with optional whitespace control
+      if (braceDepth === 0 || closer === "%}") {
+        if (rest.startsWith(closer)) {
+          push("close", position, position + 2);
+          position += 2;
+          break;
+        }
+        if (rest.startsWith(`-${closer}`) || rest.startsWith(`+${closer}`)) {
+          push("close", position, position + 3);
+          position += 3;
+          break;
+        }
+      }
+
+      const char = source[position];
+
+      if (/\s/.test(char)) {
+        const end = position + (/^\s+/.exec(rest) as RegExpExecArray)[0].length;
+        push("whitespace", position, end);
+        position = end;
+        continue;
+      }
+
+      if (/[A-Za-z_]/.test(char)) {
+        const word = (
+          /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest) as RegExpExecArray
+        )[0];
+        push(
+          JINJA_KEYWORDS.has(word) ? "keyword" : "name",
+          position,
+          position + word.length
+        );
+        position += word.length;
+        continue;
+      }
+
+      if (/[0-9]/.test(char)) {
+        const number = (
+          /^[0-9][0-9_]*(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(
+            rest
+          ) as RegExpExecArray
+        )[0];
+        push("number", position, position + number.length);
+        position += number.length;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let end = position + 1;
+        while (end < source.length && source[end] !== char) {
+          end += source[end] === "\\" ? 2 : 1;
+        }
+        if (end >= source.length) {
+          push("error", position, source.length);
+          position = source.length;
+        } else {
+          push("string", position, end + 1);
+          position = end + 1;
+        }
+        continue;
+      }
+
+      const operator = OPERATORS.find((op) => rest.startsWith(op));
+      if (operator) {
+        push("operator", position, position + operator.length);
+        position += operator.length;
+        continue;
+      }
+
+      if (PUNCTUATION.includes(char)) {
+        if (char === "{") braceDepth++;
+        if (char === "}") braceDepth = Math.max(0, braceDepth - 1);
+        push("punctuation", position, position + 1);
+        position++;
+        continue;
+      }
+
+      push("error", position, position + 1);
+      position++;
+    }
+  }
+
+  return tokens;
+};
@@ -0,0 +1,267 @@
+/**
+ * Types for the Jinja tokenizer and parser
+ *
+ * Offsets (`start`, `end`) are character positions in the full source string,
+ * `end` being exclusive, so tokens and nodes can be mapped back for
+ * highlighting and error markers.
+ */
+
+// ========== Tokens ==========
+
+export type JinjaTokenType =
+  | "text"
+  | "comment"
+  | "open"
+  | "close"
+  | "name"
+  | "keyword"
+  | "string"
+  | "number"
+  | "operator"
+  | "punctuation"
+  | "whitespace"
+  | "error";
+
+export interface JinjaToken {
+  type: JinjaTokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+// ========== Errors ==========
+
+export interface JinjaParseError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+// ========== Expressions ==========
+
+interface NodeBase {
+  start: number;
+  end: number;
+}
+
+export interface NameNode extends NodeBase {
+  type: "Name";
+  name: string;
+}
+
+export interface LiteralNode extends NodeBase {
+  type: "Literal";
+  value: string | number | boolean | null;
+}
+
+export interface ListNode extends NodeBase {
+  type: "List";
+  items: ExpressionNode[];
+}
+
+export interface TupleNode extends NodeBase {
+  type: "Tuple";
+  items: ExpressionNode[];
+}
+
+export interface DictNode extends NodeBase {
+  type: "Dict";
+  entries: Array<{ key: ExpressionNode; value: ExpressionNode }>;
+}
+
+export interface GetAttrNode extends NodeBase {
+  type: "GetAttr";
+  object: ExpressionNode;
+  attribute: string;
+}
+
+export interface GetItemNode extends NodeBase {
+  type: "GetItem";
+  object: ExpressionNode;
+  index: ExpressionNode;
+}
+
+/**
+ * `lower:upper:step` inside `[ ]`, any of them can be left out
+ */
+export interface SliceNode extends NodeBase {
+  type: "Slice";
+  lower: ExpressionNode | null;
+  upper: ExpressionNode | null;
+  step: ExpressionNode | null;
+}
+
+export interface KeywordArgument {
+  name: string;
+  value: ExpressionNode;
+}
+
+export interface CallNode extends NodeBase {
+  type: "Call";
+  callee: ExpressionNode;
+  args: ExpressionNode[];
+  kwargs: KeywordArgument[];
+}
+
+export interface FilterNode extends NodeBase {
+  type: "Filter";
+  input: ExpressionNode;
+  name: string;
+  args: ExpressionNode[];
+  kwargs: KeywordArgument[];
+}
+
+export interface TestNode extends NodeBase {
+  type: "Test";
+  input: ExpressionNode;
+  name: string;
+  negated: boolean;
+  args: ExpressionNode[];
+}
+
+export interface UnaryNode extends NodeBase {
+  type: "Unary";
+  operator: string;
+  operand: ExpressionNode;
+}
+
+export interface BinaryNode extends NodeBase {
+  type: "Binary";
+  operator: string;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface ConditionalNode extends NodeBase {
+  type: "Conditional";
+  test: ExpressionNode;
+  consequent: ExpressionNode;
+  alternate: ExpressionNode | null;
+}
+
+/**
+ * `[item for target in iterable if filter]`, the dict form with
+ * `key: value` as the element, or the generator form in `( )`
+ */
+export interface ComprehensionNode extends NodeBase {
+  type: "Comprehension";
+  kind: "list" | "dict" | "generator";
+  element: ExpressionNode;
+  /** The value for dict comprehensions, element being the key */
+  value: ExpressionNode | null;
+  target: ExpressionNode;
+  iterable: ExpressionNode;
+  filter: ExpressionNode | null;
+}
+
+export type ExpressionNode =
+  | NameNode
+  | LiteralNode
+  | ListNode
+  | TupleNode
+  | DictNode
+  | GetAttrNode
+  | GetItemNode
+  | SliceNode
+  | CallNode
+  | FilterNode
+  | TestNode
+  | UnaryNode
+  | BinaryNode
+  | ConditionalNode
+  | ComprehensionNode;
+
+// ========== Template nodes ==========
+
+export interface TextNode extends NodeBase {
+  type: "Text";
+  value: string;
+}
+
+export interface CommentNode extends NodeBase {
+  type: "Comment";
+  value: string;
+}
+
+/**
+ * A `{{ expression }}` block
+ */
+export interface OutputNode extends NodeBase {
+  type: "Output";
+  expression: ExpressionNode | null;
+}
+
+/**
+ * `{% if %}` with its `{% elif %}` and `{% else %}` branches
+ */
+export interface IfNode extends NodeBase {
+  type: "If";
+  branches: Array<{ test: ExpressionNode | null; body: TemplateChild[] }>;
+  alternate: TemplateChild[];
+}
+
+/**
+ * `{% for target in iterable if filter %}`
+ */
+export interface ForNode extends NodeBase {
+  type: "For";
+  target: ExpressionNode | null;
+  iterable: ExpressionNode | null;
+  filter: ExpressionNode | null;
+  body: TemplateChild[];
+  alternate: TemplateChild[];
+}
+
+/**
+ * `{% set target = value %}`
+ */
+export interface SetNode extends NodeBase {
+  type: "Set";
+  target: ExpressionNode | null;
+  value: ExpressionNode | null;
+}
+
+/**
+ * Any other statement, kept as its name and raw source
+ */
+export interface StatementNode extends NodeBase {
+  type: "Statement";
+  name: string;
+  source: string;
+}
+
+export type TemplateChild =
+  | TextNode
+  | CommentNode
+  | OutputNode
+  | IfNode
+  | ForNode
+  | SetNode
+  | StatementNode;
+
+export interface TemplateNode extends NodeBase {
+  type: "Template";
+  body: TemplateChild[];
+}
+
+export type JinjaNode = TemplateNode | TemplateChild | ExpressionNode;
+
+/**
+ * Result of parsing a template
+ */
+export interface JinjaParseResult {
+  ast: TemplateNode;
+  tokens: JinjaToken[];
+  errors: JinjaParseError[];
+}
+
+/**
+ * A `CTX.`, `ORG.` or `TASKS.` lookup, e.g. `CTX.user.email`
+ */
+export interface JinjaLookup {
+  root: "CTX" | "ORG" | "TASKS";
+  /** Attribute names and constant keys after the root */
+  path: string[];
+  start: number;
+  end: number;
+}
@@ -0,0 +1,396 @@
+/**
+ * Fonts a PDF page can write text in, the standard PDF fonts so none needs
+ * to be embedded
+ */
+export type PdfFont = "regular" | "bold" | "mono";
+
+/**
+ * RGB colour, each channel from 0 to 1
+ */
+export type PdfColor = [number, number, number];
+
+/**
+ * A JPEG image, stored once and drawn on any page
+ */
+export interface PdfImage {
+  /** Name the pages draw the image by, e.g. `Im1` */
+  name: string;
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * A page being written, its content stream as operators
+ */
+export interface PdfPage {
+  width: number;
+  height: number;
+  operations: string[];
+  /** Names of the images drawn on the page */
+  images: Set<string>;
+}
+
+/**
+ * A PDF document being written
+ */
+export interface PdfDocument {
+  title?: string;
+  pages: PdfPage[];
+  images: PdfImage[];
+}
+
+/**
+ * Size of an A4 page in points, portrait
+ */
+export const PDF_A4 = { width: 595, height: 842 };
+
+/**
+ * Standard fonts used for each font of the pages, and their resource names
+ */
+const PDF_FONTS: Record<PdfFont, { baseFont: string; resource: string }> = {
+  regular: { baseFont: "Helvetica", resource: "F1" },
+  bold: { baseFont: "Helvetica-Bold", resource: "F2" },
+  mono: { baseFont: "Courier", resource: "F3" },
+};
+
+/**
+ * Widths of the printable ASCII characters in Helvetica, in thousandths of
+ * the font size, from the space to the tilde
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+/**
+ * Characters outside Latin-1 that WinAnsiEncoding has a code for
+ */
+const WIN_ANSI_CODES: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+/**
+ * Encodes text in WinAnsiEncoding, replacing characters it lacks with `?`
+ * @param text The text
+ * @returns The text with one character per byte
+ */
+const toWinAnsi = (text: string): string =>
+  Array.from(text.replace(/\t/g, "  "))
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (WIN_ANSI_CODES[char])
+        return String.fromCharCode(WIN_ANSI_CODES[char]);
+      if (code < 32) return "";
+      if (code < 127 || (code >= 160 && code <= 255)) return char;
+      return "?";
+    })
+    .join("");
+
+/**
+ * Writes text as a PDF string literal
+ * @param text The text, already encoded
+ * @returns The literal, e.g. `(Hello \(world\))`
+ */
+const toPdfString = (text: string): string =>
+  `(${text.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+
+/**
+ * Formats a number for a content stream
+ * @param value The number
+ * @returns The number with at most two decimals
+ */
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Creates an empty PDF document
+ * @param title The title shown by PDF readers
+ * @returns The document
+ */
+export const createPdfDocument = (title?: string): PdfDocument => ({
+  title,
+  pages: [],
+  images: [],
+});
+
+/**
+ * Adds a blank page at the end of a document
+ * @param document The document
+ * @param width The page width in points
+ * @param height The page height in points
+ * @returns The page
+ */
+export const addPdfPage = (
+  document: PdfDocument,
+  width = PDF_A4.width,
+  height = PDF_A4.height
+): PdfPage => {
+  const page = { width, height, operations: [], images: new Set<string>() };
+  document.pages.push(page);
+  return page;
+};
+
+/**
+ * Stores a JPEG image in a document
+ * @param document The document
+ * @param data The JPEG file
+ * @param width The image width in pixels
+ * @param height The image height in pixels
+ * @returns The name pages draw the image by
+ */
+export const addPdfJpeg = (
+  document: PdfDocument,
+  data: Uint8Array,
+  width: number,
+  height: number
+): string => {
+  const name = `Im${document.images.length + 1}`;
+  document.images.push({ name, width, height, data });
+  return name;
+};
+
+/**
+ * Measures the width of text
+ * Characters outside ASCII are measured as a digit.
+ * @param text The text
+ * @param font The font
+ * @param size The font size in points
+ * @returns The width in points
+ */
+export const measurePdfText = (
+  text: string,
+  font: PdfFont,
+  size: number
+): number => {
+  if (font === "mono") return text.length * 0.6 * size;
+
+  const width = Array.from(text).reduce((total, char) => {
+    const code = char.charCodeAt(0);
+    return total + (HELVETICA_WIDTHS[code - 32] || 556);
+  }, 0);
+
+  // Helvetica Bold runs about 6% wider
+  return (width / 1000) * size * (font === "bold" ? 1.06 : 1);
+};
+
+/**
+ * Writes a line of text
+ * Positions are measured from the top left corner of the page.
+ * @param page The page
+ * @param text The text
+ * @param x The left of the text
+ * @param y The baseline of the text
+ * @param font The font
+ * @param size The font size in points
+ * @param color The text colour
+ */
+export const drawPdfText = (
+  page: PdfPage,
+  text: string,
+  x: number,
+  y: number,
+  font: PdfFont,
+  size: number,
+  color: PdfColor = [0, 0, 0]
+): void => {
+  page.operations.push(
+    `BT /${PDF_FONTS[font].resource} ${num(size)} Tf ${color
+      .map(num)
+      .join(" ")} rg ${num(x)} ${num(page.height - y)} Td ${toPdfString(
+      toWinAnsi(text)
+    )} Tj ET`
+  );
+};
+
+/**
+ * Draws a straight line
+ * @param page The page
+ * @param x1 The left of the start
+ * @param y1 The top of the start
+ * @param x2 The left of the end
+ * @param y2 The top of the end
+ * @param color The line colour
+ * @param width The line width in points
+ */
+export const drawPdfLine = (
+  page: PdfPage,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  color: PdfColor = [0, 0, 0],
+  width = 0.5
+): void => {
+  page.operations.push(
+    `${color.map(num).join(" ")} RG ${num(width)} w ${num(x1)} ${num(
+      page.height - y1
+    )} m ${num(x2)} ${num(page.height - y2)} l S`
+  );
+};
+
+/**
+ * Draws a stored image, optionally cut to a rectangle of the page
+ * Drawing the same image shifted and clipped on several pages tiles it.
+ * @param page The page
+ * @param name The name of the image
+ * @param x The left of the image
+ * @param y The top of the image
+ * @param width The width drawn, in points
+ * @param height The height drawn, in points
+ * @param clip The rectangle the image is cut to
+ */
+export const drawPdfImage = (
+  page: PdfPage,
+  name: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  clip?: { x: number; y: number; width: number; height: number }
+): void => {
+  page.images.add(name);
+  page.operations.push(
+    [
+      "q",
+      clip
+        ? `${num(clip.x)} ${num(page.height - clip.y - clip.height)} ${num(
+            clip.width
+          )} ${num(clip.height)} re W n`
+        : "",
+      `${num(width)} 0 0 ${num(height)} ${num(x)} ${num(
+        page.height - y - height
+      )} cm /${name} Do Q`,
+    ]
+      .filter(Boolean)
+      .join(" ")
+  );
+};
+
+/**
+ * Serializes a document to a PDF file
+ * @param document The document
+ * @returns The file content
+ */
+export const serializePdf = (document: PdfDocument): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes =
+      typeof data === "string"
+        ? Uint8Array.from(data, (char) => char.charCodeAt(0) & 0xff)
+        : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (
+    id: number,
+    body: string,
+    stream?: string | Uint8Array
+  ) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write("stream\n");
+      write(stream);
+      write("\nendstream\n");
+    }
+    write("endobj\n");
+  };
+
+  // Objects are numbered catalog, page tree, info, fonts, images, then the
+  // pages each followed by their content
+  const fontIds = { regular: 4, bold: 5, mono: 6 };
+  const firstImageId = 7;
+  const imageIds = new Map(
+    document.images.map((image, index) => [image.name, firstImageId + index])
+  );
+  const firstPageId = firstImageId + document.images.length;
+  const pageIds = document.pages.map((_, index) => firstPageId + index * 2);
+
+  write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pageIds.length} >>`
+  );
+  writeObject(
+    3,
+    `<< /Producer (Rewst Workflow Viewer)${
+      document.title ? ` /Title ${toPdfString(toWinAnsi(document.title))}` : ""
+    } >>`
+  );
+
+  (Object.keys(fontIds) as PdfFont[]).forEach((font) =>
+    writeObject(
+      fontIds[font],
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${PDF_FONTS[font].baseFont} /Encoding /WinAnsiEncoding >>`
+    )
+  );
+
+  document.images.forEach((image) =>
+    writeObject(
+      imageIds.get(image.name) as number,
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+      image.data
+    )
+  );
+
+  const fontResources = (Object.keys(fontIds) as PdfFont[])
+    .map((font) => `/${PDF_FONTS[font].resource} ${fontIds[font]} 0 R`)
+    .join(" ");
+
+  document.pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const xObjects = Array.from(page.images)
+      .map((name) => `/${name} ${imageIds.get(name)} 0 R`)
+      .join(" ");
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(
+        page.height
+      )}] /Resources << /Font << ${fontResources} >>${
+        xObjects ? ` /XObject << ${xObjects} >>` : ""
+      } >> /Contents ${pageId + 1} 0 R >>`
+    );
+
+    // Operators hold one byte per character once their text is encoded
+    const content = page.operations.join("\n");
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+  });
+
+  const objectCount = firstPageId + document.pages.length * 2;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(
+    `trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+
+  const file = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    file.set(chunk, position);
+    position += chunk.length;
+  });
+  return file;
+};
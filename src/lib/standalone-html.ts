@@ -0,0 +1,113 @@
+import { WorkflowBundle } from "@/types/workflow";
+
+/**
+ * ID of the script element a standalone export embeds its bundle in
+ */
+export const EMBEDDED_BUNDLE_ID = "embedded-workflow-bundle";
+
+/**
+ * What a standalone export embeds besides the viewer
+ */
+export interface EmbeddedWorkflow {
+  bundle: WorkflowBundle;
+  /** Title shown above the viewer */
+  title: string;
+  /** Whether the bundle was redacted, see `redactWorkflowBundle` */
+  isRedacted: boolean;
+}
+
+/**
+ * What the standalone HTML is made of
+ */
+export interface StandaloneHtmlOptions extends EmbeddedWorkflow {
+  /** Code of the viewer build's module scripts */
+  scripts: string[];
+  /** The viewer build's style sheets */
+  styles: string[];
+  /** Theme the page opens in */
+  theme: "light" | "dark";
+}
+
+/**
+ * Escapes text for an HTML element or attribute
+ * @param text The text
+ * @returns The escaped text
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Keeps inlined code from closing the element it is written in
+ * `<\/` means `</` in JavaScript strings and regular expressions.
+ * @param code The script or style sheet
+ * @param tag The element, `script` or `style`
+ * @returns The code, safe to inline
+ */
+const escapeInline = (code: string, tag: "script" | "style"): string =>
+  code.replace(new RegExp(`</(${tag})`, "gi"), "<\\/$1");
+
+/**
+ * Writes a single HTML file opening the viewer on an embedded bundle, with
+ * the viewer build inlined so it works offline
+ * The bundle is kept as JSON, `<` escaped so it can't end its script element.
+ * @param options The viewer build, the bundle and how the page opens
+ * @returns The HTML
+ */
+export const createStandaloneHtml = ({
+  bundle,
+  title,
+  isRedacted,
+  scripts,
+  styles,
+  theme,
+}: StandaloneHtmlOptions): string => {
+  const embedded: EmbeddedWorkflow = { bundle, title, isRedacted };
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en"${theme === "dark" ? ' class="dark"' : ""}>`,
+    "  <head>",
+    '    <meta charset="UTF-8" />',
+    '    <meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    `    <title>${escapeHtml(title)}</title>`,
+    ...styles.map(
+      (style) => `    <style>${escapeInline(style, "style")}</style>`
+    ),
+    "  </head>",
+    "  <body>",
+    '    <div id="root"></div>',
+    `    <script type="application/json" id="${EMBEDDED_BUNDLE_ID}">${JSON.stringify(
+      embedded
+    ).replace(/</g, "\\u003c")}</script>`,
+    ...scripts.map(
+      (script) =>
+        `    <script type="module">${escapeInline(script, "script")}</script>`
+    ),
+    "  </body>",
+    "</html>",
+    "",
+  ].join("\n");
+};
+
+/**
+ * Reads the workflow embedded in a standalone export
+ * @param document The page
+ * @returns The embedded workflow, or null on any other page
+ */
+export const readEmbeddedWorkflow = (
+  document: Document
+): EmbeddedWorkflow | null => {
+  const element = document.getElementById(EMBEDDED_BUNDLE_ID);
+  if (!element?.textContent) return null;
+
+  try {
+    return JSON.parse(element.textContent) as EmbeddedWorkflow;
+  } catch (error) {
+    console.error("Failed to read the embedded workflow", error);
+    return null;
+  }
+};
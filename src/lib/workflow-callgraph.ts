@@ -0,0 +1,127 @@
+import { NormalizedWorkflowBundle, WorkflowObject } from "@/types/workflow";
+import { resolveSubWorkflow } from "@/lib/workflow-subworkflows";
+
+/**
+ * A trigger that starts a workflow
+ */
+export interface CallGraphTrigger {
+  /** Key of the trigger in the bundle */
+  id: string;
+  name: string;
+  /** Ref of the trigger type, e.g. `core.Cron Job` */
+  type?: string;
+  enabled: boolean;
+}
+
+/**
+ * A workflow of the bundle, or one it calls that the bundle doesn't contain
+ */
+export interface CallGraphWorkflow {
+  /** Key of the workflow, which is also its `fields.id` */
+  id: string;
+  name: string;
+  taskCount: number;
+  triggers: CallGraphTrigger[];
+  /** Whether the workflow is only known from the tasks that call it */
+  isExternal: boolean;
+}
+
+/**
+ * Calls from one workflow to another, grouped over the calling tasks
+ */
+export interface WorkflowCall {
+  callerId: string;
+  calleeId: string;
+  /** IDs of the caller's tasks that run the callee */
+  taskIds: string[];
+  /** Names of those tasks, in the same order */
+  taskNames: string[];
+}
+
+/**
+ * The workflows of a bundle and the sub-workflow calls between them
+ */
+export interface CallGraph {
+  workflows: CallGraphWorkflow[];
+  calls: WorkflowCall[];
+}
+
+/**
+ * Builds the sub-workflow call graph of a bundle
+ * Calls are found with `resolveSubWorkflow`. Called workflows missing from
+ * the bundle are added as external workflows, calls to workflows picked at
+ * runtime are left out.
+ * @param bundle The normalized bundle
+ * @returns The call graph
+ */
+export const buildCallGraph = (bundle: NormalizedWorkflowBundle): CallGraph => {
+  const entries = Object.entries(bundle.objects);
+  const workflows = new Map<string, CallGraphWorkflow>();
+
+  entries
+    .filter(([, object]) => object.type === "workflow")
+    .forEach(([key, object]) => {
+      const id = object.fields.id || key;
+      workflows.set(id, {
+        id,
+        name: object.nonfunctional_fields?.name || "Workflow",
+        taskCount: (object.fields.tasks || []).length,
+        triggers: [],
+        isExternal: false,
+      });
+    });
+
+  entries
+    .filter(([, object]) => object.type === "trigger")
+    .forEach(([key, object]) => {
+      const workflow = workflows.get(object.fields.workflowId as string);
+      if (!workflow) return;
+
+      const triggerType = bundle.objects[object.fields.triggerTypeId as string];
+      workflow.triggers.push({
+        id: key,
+        name: object.nonfunctional_fields?.name || "Trigger",
+        type: triggerType?.fields.ref,
+        enabled: Boolean(object.fields.enabled),
+      });
+    });
+
+  const calls = new Map<string, WorkflowCall>();
+  entries
+    .filter(([, object]) => object.type === "workflow")
+    .forEach(([key, object]: [string, WorkflowObject]) => {
+      const callerId = object.fields.id || key;
+
+      (object.fields.tasks || []).forEach((task) => {
+        const link = resolveSubWorkflow(task, object, bundle);
+        const calleeId = link?.workflowId;
+        if (!calleeId) return;
+
+        if (!workflows.has(calleeId)) {
+          workflows.set(calleeId, {
+            id: calleeId,
+            name: calleeId,
+            taskCount: 0,
+            triggers: [],
+            isExternal: true,
+          });
+        }
+
+        const callKey = `${callerId}->${calleeId}`;
+        const call = calls.get(callKey) || {
+          callerId,
+          calleeId,
+          taskIds: [],
+          taskNames: [],
+        };
+        call.taskIds.push(task.id);
+        call.taskNames.push(task.name || task.id);
+        calls.set(callKey, call);
+      });
+    });
+
+  return {
+    workflows: Array.from(workflows.values()),
+    calls: Array.from(calls.values()),
+  };
+};
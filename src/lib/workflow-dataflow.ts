@@ -0,0 +1,342 @@
+import { Task, WorkflowObject } from "@/types/workflow";
+import { buildTaskGraph, findStartTask } from "@/lib/workflow-graph";
+import { findLookups, parseTemplate } from "@/lib/jinja";
+
+/**
+ * Where a CTX variable gets its value
+ * - `parameter`: a workflow input parameter
+ * - `publish`: a `publish` entry on a transition
+ * - `publishResultAs`: the task result published under a name
+ */
+export type ContextDefinitionSource =
+  | "parameter"
+  | "publish"
+  | "publishResultAs";
+
+/**
+ * A place where a CTX variable is written
+ */
+export interface ContextDefinition {
+  key: string;
+  source: ContextDefinitionSource;
+  /** ID of the producing task, unset for workflow parameters */
+  taskId?: string;
+  taskName?: string;
+  /** Index of the publishing transition in the task's `next` array */
+  transitionIndex?: number;
+  /** The published expression */
+  expression?: string;
+}
+
+/**
+ * A place where a CTX variable is read
+ */
+export interface ContextUse {
+  key: string;
+  /** ID of the consuming task, unset for reads in the workflow output */
+  taskId?: string;
+  taskName?: string;
+  /** Location of the read, e.g. `input.body`, `next[0].when` or `output[0].validated` */
+  location: string;
+  /** The string containing the read */
+  expression: string;
+}
+
+/**
+ * Definitions and uses of a single CTX variable
+ */
+export interface ContextVariable {
+  key: string;
+  definitions: ContextDefinition[];
+  uses: ContextUse[];
+  /** Reads with no definition upstream on any path from the start task */
+  undefinedUses: ContextUse[];
+  /** true when the variable is written but never read */
+  unused: boolean;
+}
+
+/**
+ * Def-use analysis of the CTX variables of a workflow
+ */
+export interface DataFlowAnalysis {
+  /** Every variable, sorted by key */
+  variables: ContextVariable[];
+  /** Reads with no definition upstream on any path */
+  undefinedUses: ContextUse[];
+  /** Definitions of variables that are never read */
+  unusedDefinitions: ContextDefinition[];
+}
+
+/**
+ * Options for the data-flow analysis
+ */
+export interface DataFlowOptions {
+  /** CTX keys Rewst provides on every execution, never reported as undefined */
+  builtins?: string[];
+}
+
+/**
+ * CTX keys set by Rewst itself rather than by the workflow
+ */
+export const BUILTIN_CONTEXT_VARIABLES = [
+  "rewst",
+  "organization",
+  "execution_id",
+  "user",
+];
+
+/**
+ * Extracts the top-level CTX keys read by the Jinja inside a string
+ * Blocks that fail to parse are skipped.
+ * @param value The string to scan
+ * @returns The keys read, without duplicates
+ */
+export const extractContextReads = (value: string): string[] => {
+  if (!value.includes("{{") && !value.includes("{%")) return [];
+
+  const keys = new Set<string>();
+  findLookups(parseTemplate(value).ast).forEach((lookup) => {
+    if (lookup.root === "CTX" && lookup.path.length > 0) {
+      keys.add(lookup.path[0]);
+    }
+  });
+
+  return [...keys];
+};
+
+/**
+ * Collects every CTX read in a value, walking objects and arrays
+ * @param value The value to scan
+ * @param location The location of the value
+ * @param onRead Called for every key read
+ */
+const collectReads = (
+  value: unknown,
+  location: string,
+  onRead: (key: string, location: string, expression: string) => void
+): void => {
+  if (typeof value === "string") {
+    extractContextReads(value).forEach((key) => onRead(key, location, value));
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      collectReads(item, `${location}[${index}]`, onRead)
+    );
+  } else if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, item]) =>
+      collectReads(item, location ? `${location}.${key}` : key, onRead)
+    );
+  }
+};
+
+/**
+ * Computes, for every task, the CTX keys that may be set before it runs
+ * This is a forward may-analysis: a key is available at a task if it is set
+ * on at least one path from the start task.
+ * @param tasks The tasks of the workflow
+ * @param definitions Every definition in the workflow
+ * @param initial Keys available before the first task runs
+ * @returns The available keys per task ID
+ */
+const computeAvailableKeys = (
+  tasks: Task[],
+  definitions: ContextDefinition[],
+  initial: Set<string>
+): Map<string, Set<string>> => {
+  const graph = buildTaskGraph(tasks);
+  const startTask = findStartTask(tasks, graph);
+  const available = new Map(tasks.map((task) => [task.id, new Set<string>()]));
+
+  // Keys set when a task takes a transition, per task and transition index
+  const definedOnTransition = new Map<string, string[]>();
+  definitions.forEach((definition) => {
+    if (!definition.taskId) return;
+    const id =
+      definition.source === "publishResultAs"
+        ? `${definition.taskId}:result`
+        : `${definition.taskId}:${definition.transitionIndex}`;
+    definedOnTransition.set(id, [
+      ...(definedOnTransition.get(id) || []),
+      definition.key,
+    ]);
+  });
+
+  if (!startTask) return available;
+  initial.forEach((key) => available.get(startTask.id)?.add(key));
+
+  // Propagate until nothing changes, loops converge since sets only grow
+  const queue = [startTask.id];
+  const visited = new Set<string>();
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    visited.add(id);
+    const keys = available.get(id) as Set<string>;
+    const resultKeys = definedOnTransition.get(`${id}:result`) || [];
+
+    graph.outgoing.get(id)?.forEach((edge) => {
+      const outgoing = [
+        ...keys,
+        ...resultKeys,
+        ...(definedOnTransition.get(`${id}:${edge.transitionIndex}`) || []),
+      ];
+      const target = available.get(edge.target) as Set<string>;
+      const size = target.size;
+      outgoing.forEach((key) => target.add(key));
+
+      if (target.size > size || !visited.has(edge.target)) {
+        queue.push(edge.target);
+      }
+    });
+  }
+
+  return available;
+};
+
+/**
+ * Builds the def-use graph of the CTX variables of a normalized workflow
+ * @param workflow The workflow object
+ * @param options Analysis options
+ * @returns Definitions, uses and problems per variable
+ */
+export const analyzeDataFlow = (
+  workflow: WorkflowObject,
+  options: DataFlowOptions = {}
+): DataFlowAnalysis => {
+  const builtins = new Set(options.builtins ?? BUILTIN_CONTEXT_VARIABLES);
+  const tasks = (workflow.fields.tasks as Task[]) || [];
+  const definitions: ContextDefinition[] = [];
+  const uses: ContextUse[] = [];
+
+  // Workflow parameters are in CTX from the start
+  const parameters = workflow.fields.parameters;
+  if (parameters && typeof parameters === "object") {
+    Object.keys(parameters).forEach((key) =>
+      definitions.push({ key, source: "parameter" })
+    );
+  }
+
+  // Keys a read can see on top of those set upstream: the task's own result
+  // and, inside a transition, the entries published before it
+  const localKeys = new Map<ContextUse, string[]>();
+
+  tasks.forEach((task) => {
+    const consumer = { taskId: task.id, taskName: task.name };
+    const resultKeys = task.publishResultAs ? [task.publishResultAs] : [];
+
+    collectReads(task.input, "input", (key, location, expression) =>
+      uses.push({ key, location, expression, ...consumer })
+    );
+
+    if (task.publishResultAs) {
+      definitions.push({
+        key: task.publishResultAs,
+        source: "publishResultAs",
+        ...consumer,
+      });
+    }
+
+    (task.next || []).forEach((transition, transitionIndex) => {
+      const location = `next[${transitionIndex}]`;
+      const visibleKeys = [...resultKeys];
+      const addUse = (
+        key: string,
+        readLocation: string,
+        expression: string
+      ) => {
+        const use = { key, location: readLocation, expression, ...consumer };
+        uses.push(use);
+        localKeys.set(use, [...visibleKeys]);
+      };
+
+      if (transition.when) {
+        collectReads(transition.when, `${location}.when`, addUse);
+      }
+
+      (transition.publish || []).forEach((entry, publishIndex) => {
+        if (!entry?.key) return;
+        definitions.push({
+          key: entry.key,
+          source: "publish",
+          transitionIndex,
+          expression: entry.value,
+          ...consumer,
+        });
+        collectReads(
+          entry.value,
+          `${location}.publish[${publishIndex}].value`,
+          addUse
+        );
+        visibleKeys.push(entry.key);
+      });
+    });
+  });
+
+  // The workflow output is rendered once every task has finished
+  collectReads(workflow.fields.output, "output", (key, location, expression) =>
+    uses.push({ key, location, expression })
+  );
+
+  const initialKeys = new Set(
+    definitions
+      .filter((definition) => definition.source === "parameter")
+      .map((definition) => definition.key)
+  );
+  const available = computeAvailableKeys(tasks, definitions, initialKeys);
+  const definedKeys = new Set(definitions.map((definition) => definition.key));
+
+  // A read is undefined if no path sets the key before the reading task
+  const isUndefinedUse = (use: ContextUse): boolean => {
+    if (builtins.has(use.key)) return false;
+    if (!use.taskId) return !definedKeys.has(use.key);
+    if (localKeys.get(use)?.includes(use.key)) return false;
+    return !available.get(use.taskId)?.has(use.key);
+  };
+
+  const readKeys = new Set(uses.map((use) => use.key));
+  const keys = [...new Set([...definedKeys, ...readKeys])].sort();
+
+  const variables = keys.map((key) => {
+    const variableUses = uses.filter((use) => use.key === key);
+    return {
+      key,
+      definitions: definitions.filter((definition) => definition.key === key),
+      uses: variableUses,
+      undefinedUses: variableUses.filter(isUndefinedUse),
+      unused: definedKeys.has(key) && !readKeys.has(key),
+    };
+  });
+
+  return {
+    variables,
+    undefinedUses: variables.flatMap((variable) => variable.undefinedUses),
+    unusedDefinitions: variables
+      .filter((variable) => variable.unused)
+      .flatMap((variable) => variable.definitions),
+  };
+};
+
+/**
+ * Role of a task for one CTX variable
+ */
+export type DataFlowRole = "producer" | "consumer" | "both";
+
+/**
+ * Gets the role every task plays for a variable
+ * @param variable The variable
+ * @returns The role per task ID, tasks that don't touch the variable are left out
+ */
+export const getDataFlowRoles = (
+  variable: ContextVariable
+): Map<string, DataFlowRole> => {
+  const roles = new Map<string, DataFlowRole>();
+
+  variable.definitions.forEach(({ taskId }) => {
+    if (taskId) roles.set(taskId, "producer");
+  });
+  variable.uses.forEach(({ taskId }) => {
+    if (!taskId) return;
+    const role = roles.get(taskId);
+    roles.set(taskId, role && role !== "consumer" ? "both" : "consumer");
+  });
+
+  return roles;
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { Task, WorkflowBundle } from "@/types/workflow";
+import { buildDiffOverlay, diffWorkflowBundles } from "@/lib/workflow-diff";
+
+const createBundle = (tasks: Task[]): WorkflowBundle => ({
+  version: 2,
+  exportedAt: "2024-01-01T00:00:00Z",
+  objects: {
+    "workflow:HCfu": {
+      type: "workflow",
+      content_hash: "workflow-content",
+      hash: "workflow-hash",
+      fields: { id: "workflow-id", tasks },
+      nonfunctional_fields: { name: "Onboard user" },
+    },
+  },
+});
+
+const before = createBundle([
+  {
+    id: "task-1",
+    type: "STANDARD",
+    name: "send_email",
+    input: { subject: "Welcome" },
+    next: [{ id: "transition-1", do: ["task-2"] }],
+  },
+  { id: "task-2", type: "STANDARD", name: "end" },
+]);
+
+const after = createBundle([
+  {
+    id: "task-1",
+    type: "STANDARD",
+    name: "send_email",
+    input: { subject: "Hello" },
+    next: [{ id: "transition-1", do: ["task-2"] }],
+  },
+  { id: "task-2", type: "STANDARD", name: "end" },
+]);
+
+describe("diffWorkflowBundles", () => {
+  it("identifies workflows by their own ID rather than their key", () => {
+    const [workflow] = diffWorkflowBundles(before, after).workflows;
+
+    expect(workflow).toMatchObject({
+      workflowId: "workflow-id",
+      key: "workflow:HCfu",
+      status: "modified",
+    });
+    expect(workflow.previousId).toBeUndefined();
+  });
+});
+
+describe("buildDiffOverlay", () => {
+  it("keys task statuses and edges by workflow ID", () => {
+    const overlay = buildDiffOverlay(
+      before,
+      after,
+      diffWorkflowBundles(before, after)
+    );
+
+    expect(overlay.taskStatus.get("workflow-id")?.get("task-1")).toBe(
+      "modified"
+    );
+    expect(overlay.taskStatus.get("workflow-id")?.get("task-2")).toBe(
+      "unchanged"
+    );
+    expect(overlay.edges.get("workflow-id")).toHaveLength(1);
+    expect(overlay.taskStatus.has("workflow:HCfu")).toBe(false);
+    expect(overlay.bundle.objects["workflow:HCfu"].fields.tasks).toHaveLength(2);
+  });
+});
+
+describe("buildDiffOverlay with tasks matched by name", () => {
+  const renamedBefore = createBundle([
+    {
+      id: "start",
+      type: "STANDARD",
+      name: "start",
+      next: [
+        { id: "transition-1", do: ["old-id"] },
+        { id: "transition-2", do: ["old-id"] },
+      ],
+    },
+    { id: "old-id", type: "STANDARD", name: "send_email" },
+    {
+      id: "gone",
+      type: "STANDARD",
+      name: "gone",
+      next: [{ id: "transition-3", do: ["old-id"] }],
+    },
+  ]);
+  const renamedAfter = createBundle([
+    {
+      id: "start",
+      type: "STANDARD",
+      name: "start",
+      next: [{ id: "transition-1", do: ["new-id"] }],
+    },
+    { id: "new-id", type: "STANDARD", name: "send_email" },
+  ]);
+
+  it("points removed transitions at the new ID of their targets", () => {
+    const overlay = buildDiffOverlay(
+      renamedBefore,
+      renamedAfter,
+      diffWorkflowBundles(renamedBefore, renamedAfter)
+    );
+    const edges = overlay.edges.get("workflow-id") || [];
+    const tasks = overlay.bundle.objects["workflow:HCfu"].fields.tasks || [];
+
+    expect(edges.filter((edge) => edge.status === "removed")).toEqual([
+      {
+        source: "start",
+        target: "new-id",
+        transitionIndex: 1,
+        status: "removed",
+      },
+      {
+        source: "gone",
+        target: "new-id",
+        transitionIndex: 0,
+        status: "removed",
+      },
+    ]);
+    expect(edges.map((edge) => edge.target)).not.toContain("old-id");
+    expect(tasks.find((task) => task.id === "gone")?.next?.[0].do).toEqual([
+      "new-id",
+    ]);
+  });
+});
@@ -0,0 +1,766 @@
+import {
+  NormalizedWorkflowBundle,
+  Task,
+  WorkflowBundle,
+  WorkflowObject,
+} from "@/types/workflow";
+import { normalizeWorkflowBundle } from "@/lib/workflow-normalization";
+
+/**
+ * How an item changed between two exports
+ */
+export type DiffStatus = "added" | "removed" | "modified" | "unchanged";
+
+/**
+ * What part of a workflow a change is in
+ */
+export type DiffCategory =
+  | "workflow"
+  | "task"
+  | "transition"
+  | "input"
+  | "trigger";
+
+/**
+ * A single changed value
+ */
+export interface DiffChange {
+  category: DiffCategory;
+  /** Location of the value, e.g. `input.email` or `next[0].when` */
+  path: string;
+  /** Missing when the value was added */
+  before?: unknown;
+  /** Missing when the value was removed */
+  after?: unknown;
+}
+
+/**
+ * Changes to a single transition of a task
+ */
+export interface TransitionDiff {
+  status: DiffStatus;
+  transitionId?: string;
+  label?: string;
+  /** Index in the newer export, or in the older one for removed transitions */
+  transitionIndex: number;
+  /** Tasks the transition runs that it didn't before */
+  targetsAdded: string[];
+  /** Tasks the transition no longer runs */
+  targetsRemoved: string[];
+  changes: DiffChange[];
+}
+
+/**
+ * Changes to a single task
+ */
+export interface TaskDiff {
+  status: DiffStatus;
+  /** ID in the newer export, or in the older one for removed tasks */
+  taskId: string;
+  name?: string;
+  /** How the task was matched between the exports */
+  matchedBy?: "id" | "name";
+  before?: Task;
+  after?: Task;
+  /** Changes to the task's own fields and inputs */
+  changes: DiffChange[];
+  transitions: TransitionDiff[];
+}
+
+/**
+ * Changes to a single trigger of a workflow
+ */
+export interface TriggerDiff {
+  status: DiffStatus;
+  triggerId: string;
+  name: string;
+  changes: DiffChange[];
+}
+
+/**
+ * Changes to a single workflow
+ */
+export interface WorkflowDiff {
+  status: DiffStatus;
+  /** ID in the newer export, or in the older one for removed workflows */
+  workflowId: string;
+  /** ID in the older export, when it differs */
+  previousId?: string;
+  /** Key of the workflow object in the export its ID comes from */
+  key: string;
+  name: string;
+  /** Changes to the workflow's own fields, e.g. its parameters */
+  changes: DiffChange[];
+  tasks: TaskDiff[];
+  triggers: TriggerDiff[];
+}
+
+/**
+ * Semantic diff of two workflow bundles
+ */
+export interface BundleDiff {
+  workflows: WorkflowDiff[];
+  /** Number of tasks by status, over every workflow */
+  summary: Record<Exclude<DiffStatus, "unchanged">, number>;
+}
+
+/**
+ * A transition drawn on the canvas of the diff
+ */
+export interface DiffEdge {
+  source: string;
+  target: string;
+  transitionIndex: number;
+  status: DiffStatus;
+}
+
+/**
+ * A bundle that shows both exports at once, for drawing the diff on the canvas
+ * Removed tasks, transitions and targets are put back into the newer export so
+ * they can be drawn, with the status of every task and transition alongside.
+ */
+export interface DiffOverlay {
+  diff: BundleDiff;
+  bundle: NormalizedWorkflowBundle;
+  /** Status of each task, by workflow ID then task ID */
+  taskStatus: Map<string, Map<string, DiffStatus>>;
+  /** Drawn transitions with their status, by workflow ID */
+  edges: Map<string, DiffEdge[]>;
+}
+
+/**
+ * Task fields compared between exports, besides the ones with their own
+ * handling (`id`, `name`, `action`, `input`, `next`). Positions are left out.
+ */
+const COMPARED_TASK_FIELDS = [
+  "description",
+  "transitionMode",
+  "join",
+  "publishResultAs",
+  "timeout",
+  "humanSecondsSaved",
+  "isMocked",
+  "mockInput",
+  "retry",
+  "runAsOrgId",
+  "securitySchema",
+  "with",
+];
+
+/**
+ * Workflow fields compared between exports
+ */
+const COMPARED_WORKFLOW_FIELDS = [
+  "parameters",
+  "output",
+  "varsSchema",
+  "timeout",
+  "humanSecondsSaved",
+  "notes",
+];
+
+/**
+ * Trigger fields that point at other objects, whose keys differ per export
+ */
+const IGNORED_TRIGGER_FIELDS = new Set(["workflowId", "triggerTypeId"]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Compares two JSON values, ignoring the order of object keys
+ */
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+/**
+ * Treats empty values as missing, so `""` and `null` don't show as changes
+ */
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (isRecord(value) && Object.keys(value).length === 0) ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Lists the changed values between two values
+ * Objects are compared key by key, anything else as a whole.
+ * @param before The older value
+ * @param after The newer value
+ * @param path Location of the values
+ * @param category Category of the changes
+ * @returns The changes
+ */
+const diffValues = (
+  before: unknown,
+  after: unknown,
+  path: string,
+  category: DiffCategory
+): DiffChange[] => {
+  if (isBlank(before) && isBlank(after)) return [];
+  if (isEqual(before, after)) return [];
+
+  if (isRecord(before) && isRecord(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) =>
+      diffValues(
+        before[key],
+        after[key],
+        path ? `${path}.${key}` : key,
+        category
+      )
+    );
+  }
+
+  return [
+    {
+      category,
+      path,
+      ...(isBlank(before) ? {} : { before }),
+      ...(isBlank(after) ? {} : { after }),
+    },
+  ];
+};
+
+/**
+ * Matches items of two lists by ID, then by name for the rest
+ * @param before The older items
+ * @param after The newer items
+ * @param getId Gets the ID of an item
+ * @param getName Gets the name of an item
+ * @returns The pairs, with unmatched items paired with undefined
+ */
+const matchItems = <T>(
+  before: T[],
+  after: T[],
+  getId: (item: T) => string | undefined,
+  getName: (item: T) => string | undefined
+): Array<{ before?: T; after?: T; matchedBy?: "id" | "name" }> => {
+  const pairs: Array<{ before?: T; after?: T; matchedBy?: "id" | "name" }> = [];
+  const remaining = new Set(before);
+
+  const afterUnmatched = after.filter((item) => {
+    const id = getId(item);
+    const match = id && before.find((candidate) => getId(candidate) === id);
+    if (!match || !remaining.has(match)) return true;
+
+    remaining.delete(match);
+    pairs.push({ before: match, after: item, matchedBy: "id" });
+    return false;
+  });
+
+  afterUnmatched.forEach((item) => {
+    const name = getName(item);
+    const match =
+      name && [...remaining].find((candidate) => getName(candidate) === name);
+    if (match) {
+      remaining.delete(match);
+      pairs.push({ before: match, after: item, matchedBy: "name" });
+    } else {
+      pairs.push({ after: item });
+    }
+  });
+
+  remaining.forEach((item) => pairs.push({ before: item }));
+  return pairs;
+};
+
+type Transition = NonNullable<Task["next"]>[number];
+
+/**
+ * Compares the transitions of a task
+ * Transitions are matched by ID, falling back to their position.
+ * @param before The older transitions
+ * @param after The newer transitions
+ * @param targetIds Maps task IDs of the older export to the newer one
+ * @returns The transition diffs
+ */
+const diffTransitions = (
+  before: Transition[],
+  after: Transition[],
+  targetIds: Map<string, string>
+): TransitionDiff[] => {
+  const indexed = <T>(items: T[]) =>
+    items.map((item, index) => ({ item, index }));
+  const pairs = matchItems(
+    indexed(before),
+    indexed(after),
+    ({ item }) => item.id,
+    ({ index }) => String(index)
+  );
+
+  return pairs
+    .map(({ before: old, after: current }): TransitionDiff => {
+      const transition = (current || old)?.item as Transition;
+      const transitionIndex = (current || old)?.index as number;
+      const base = {
+        transitionId: transition.id,
+        label: transition.label || undefined,
+        transitionIndex,
+      };
+
+      if (!old || !current) {
+        return {
+          ...base,
+          status: old ? "removed" : "added",
+          targetsAdded: [],
+          targetsRemoved: [],
+          changes: [],
+        };
+      }
+
+      const path = `next[${transitionIndex}]`;
+      const oldTargets = (old.item.do || []).map(
+        (target) => targetIds.get(target) || target
+      );
+      const newTargets = current.item.do || [];
+      const targetsAdded = newTargets.filter((t) => !oldTargets.includes(t));
+      const targetsRemoved = oldTargets.filter((t) => !newTargets.includes(t));
+
+      const oldPublish = Object.fromEntries(
+        (old.item.publish || []).map((entry) => [entry.key, entry.value])
+      );
+      const newPublish = Object.fromEntries(
+        (current.item.publish || []).map((entry) => [entry.key, entry.value])
+      );
+
+      const changes = [
+        ...diffValues(
+          old.item.label,
+          current.item.label,
+          `${path}.label`,
+          "transition"
+        ),
+        ...diffValues(
+          old.item.when,
+          current.item.when,
+          `${path}.when`,
+          "transition"
+        ),
+        ...diffValues(oldPublish, newPublish, `${path}.publish`, "transition"),
+      ];
+
+      return {
+        ...base,
+        status:
+          changes.length > 0 ||
+          targetsAdded.length > 0 ||
+          targetsRemoved.length > 0
+            ? "modified"
+            : "unchanged",
+        targetsAdded,
+        targetsRemoved,
+        changes,
+      };
+    })
+    .sort((a, b) => a.transitionIndex - b.transitionIndex);
+};
+
+/**
+ * Compares two versions of a task
+ * @param before The older task
+ * @param after The newer task
+ * @param targetIds Maps task IDs of the older export to the newer one
+ * @returns The changes to its fields and inputs, and its transition diffs
+ */
+const diffTask = (
+  before: Task,
+  after: Task,
+  targetIds: Map<string, string>
+): Pick<TaskDiff, "changes" | "transitions"> => {
+  const fields = before as unknown as Record<string, unknown>;
+  const newFields = after as unknown as Record<string, unknown>;
+
+  const changes = [
+    ...diffValues(before.name, after.name, "name", "task"),
+    // Action keys differ per export, the ref and called workflow don't
+    ...diffValues(before.action?.ref, after.action?.ref, "action.ref", "task"),
+    ...diffValues(
+      before.action?.workflow_id,
+      after.action?.workflow_id,
+      "action.workflow_id",
+      "task"
+    ),
+    ...COMPARED_TASK_FIELDS.flatMap((field) =>
+      diffValues(fields[field], newFields[field], field, "task")
+    ),
+    ...diffValues(before.input, after.input, "input", "input"),
+  ];
+
+  return {
+    changes,
+    transitions: diffTransitions(
+      before.next || [],
+      after.next || [],
+      targetIds
+    ),
+  };
+};
+
+/**
+ * Gets the display name of a bundle object
+ */
+const getObjectName = (object: WorkflowObject, fallback: string): string =>
+  object.nonfunctional_fields?.name || fallback;
+
+/**
+ * Compares the tasks of two versions of a workflow
+ * @param before The older tasks
+ * @param after The newer tasks
+ * @returns The task diffs, newer tasks first in their order
+ */
+const diffTasks = (before: Task[], after: Task[]): TaskDiff[] => {
+  const pairs = matchItems(
+    before,
+    after,
+    (task) => task.id,
+    (task) => task.name
+  );
+
+  // Tasks matched by name have new IDs, which transitions must follow
+  const targetIds = new Map(
+    pairs
+      .filter((pair) => pair.before && pair.after)
+      .map((pair) => [pair.before?.id as string, pair.after?.id as string])
+  );
+
+  return pairs.map(({ before: old, after: current, matchedBy }): TaskDiff => {
+    const task = (current || old) as Task;
+    const base = { taskId: task.id, name: task.name, matchedBy };
+
+    if (!old || !current) {
+      return {
+        ...base,
+        status: old ? "removed" : "added",
+        before: old,
+        after: current,
+        changes: [],
+        transitions: [],
+      };
+    }
+
+    const { changes, transitions } = diffTask(old, current, targetIds);
+    const modified =
+      changes.length > 0 ||
+      transitions.some((transition) => transition.status !== "unchanged");
+
+    return {
+      ...base,
+      status: modified ? "modified" : "unchanged",
+      before: old,
+      after: current,
+      changes,
+      transitions,
+    };
+  });
+};
+
+/**
+ * Compares the triggers of two versions of a workflow
+ * @param before The older trigger objects, by key
+ * @param after The newer trigger objects, by key
+ * @returns The trigger diffs
+ */
+const diffTriggers = (
+  before: Array<[string, WorkflowObject]>,
+  after: Array<[string, WorkflowObject]>
+): TriggerDiff[] =>
+  matchItems(
+    before,
+    after,
+    ([key]) => key,
+    ([, trigger]) => trigger.nonfunctional_fields?.name
+  ).map(({ before: old, after: current }): TriggerDiff => {
+    const [key, trigger] = (current || old) as [string, WorkflowObject];
+    const base = { triggerId: key, name: getObjectName(trigger, "Trigger") };
+
+    if (!old || !current) {
+      return { ...base, status: old ? "removed" : "added", changes: [] };
+    }
+
+    const comparable = ([, object]: [string, WorkflowObject]) => ({
+      name: object.nonfunctional_fields?.name,
+      description: object.nonfunctional_fields?.description,
+      ...Object.fromEntries(
+        Object.entries(object.fields).filter(
+          ([field]) => !IGNORED_TRIGGER_FIELDS.has(field)
+        )
+      ),
+    });
+    const changes = diffValues(
+      comparable(old),
+      comparable(current),
+      "",
+      "trigger"
+    );
+
+    return {
+      ...base,
+      status: changes.length > 0 ? "modified" : "unchanged",
+      changes,
+    };
+  });
+
+/**
+ * Gets the workflows of a normalized bundle with their triggers
+ * Workflows are identified by their own ID, falling back to their key, as the
+ * viewer does.
+ */
+const getWorkflows = (bundle: NormalizedWorkflowBundle) => {
+  const objects = Object.entries(bundle.objects);
+  return objects
+    .filter(([, object]) => object.type === "workflow")
+    .map(([key, workflow]) => ({
+      key,
+      id: workflow.fields.id || key,
+      workflow,
+      triggers: objects.filter(
+        ([, object]) =>
+          object.type === "trigger" &&
+          (object.fields.workflowId === key ||
+            object.fields.workflowId === workflow.fields.id)
+      ),
+    }));
+};
+
+/**
+ * Compares two exports of workflow bundles
+ * Workflows, tasks and triggers are matched by ID, falling back to their name,
+ * and compared field by field. Task positions are ignored.
+ * @param before The older export
+ * @param after The newer export
+ * @returns The semantic diff
+ */
+export const diffWorkflowBundles = (
+  before: WorkflowBundle,
+  after: WorkflowBundle
+): BundleDiff => {
+  const pairs = matchItems(
+    getWorkflows(normalizeWorkflowBundle(before)),
+    getWorkflows(normalizeWorkflowBundle(after)),
+    (entry) => entry.id,
+    (entry) => entry.workflow.nonfunctional_fields?.name
+  );
+
+  const workflows = pairs.map(
+    ({ before: old, after: current }): WorkflowDiff => {
+      const entry = (current || old) as NonNullable<typeof current>;
+      const tasks = diffTasks(
+        old?.workflow.fields.tasks || [],
+        current?.workflow.fields.tasks || []
+      );
+      const triggers = diffTriggers(
+        old?.triggers || [],
+        current?.triggers || []
+      );
+      const base = {
+        workflowId: entry.id,
+        previousId:
+          old && current && old.id !== current.id ? old.id : undefined,
+        key: entry.key,
+        name: getObjectName(entry.workflow, "Workflow"),
+        tasks,
+        triggers,
+      };
+
+      if (!old || !current) {
+        return { ...base, status: old ? "removed" : "added", changes: [] };
+      }
+
+      const changes = [
+        ...diffValues(
+          old.workflow.nonfunctional_fields?.name,
+          current.workflow.nonfunctional_fields?.name,
+          "name",
+          "workflow"
+        ),
+        ...diffValues(
+          old.workflow.nonfunctional_fields?.description,
+          current.workflow.nonfunctional_fields?.description,
+          "description",
+          "workflow"
+        ),
+        ...COMPARED_WORKFLOW_FIELDS.flatMap((field) =>
+          diffValues(
+            old.workflow.fields[field],
+            current.workflow.fields[field],
+            field,
+            "workflow"
+          )
+        ),
+      ];
+      const modified =
+        changes.length > 0 ||
+        tasks.some((task) => task.status !== "unchanged") ||
+        triggers.some((trigger) => trigger.status !== "unchanged");
+
+      return { ...base, status: modified ? "modified" : "unchanged", changes };
+    }
+  );
+
+  const summary = { added: 0, removed: 0, modified: 0 };
+  workflows.forEach((workflow) =>
+    workflow.tasks.forEach((task) => {
+      if (task.status !== "unchanged") summary[task.status]++;
+    })
+  );
+
+  return { workflows, summary };
+};
+
+/**
+ * Builds the bundle and statuses for drawing a diff on the canvas
+ * The newer export is used as the base. Removed workflows are added back,
+ * removed tasks are added back to their workflow, and removed transitions and
+ * targets are appended to their task so they can be drawn as removed.
+ * @param before The older export
+ * @param after The newer export
+ * @param diff The diff of the exports
+ * @returns The overlay
+ */
+export const buildDiffOverlay = (
+  before: WorkflowBundle,
+  after: WorkflowBundle,
+  diff: BundleDiff
+): DiffOverlay => {
+  const previous = normalizeWorkflowBundle(before);
+  const base = normalizeWorkflowBundle(after);
+  const bundle: NormalizedWorkflowBundle = {
+    ...base,
+    objects: { ...base.objects },
+  };
+  const taskStatus = new Map<string, Map<string, DiffStatus>>();
+  const edges = new Map<string, DiffEdge[]>();
+
+  diff.workflows.forEach((workflowDiff) => {
+    const statuses = new Map<string, DiffStatus>();
+    const drawn: DiffEdge[] = [];
+
+    // Tasks matched by name have new IDs, which transitions of the older
+    // export must follow to point at nodes that are drawn
+    const taskIds = new Map(
+      workflowDiff.tasks
+        .filter((taskDiff) => taskDiff.before && taskDiff.after)
+        .map((taskDiff) => [
+          taskDiff.before?.id as string,
+          taskDiff.after?.id as string,
+        ])
+    );
+    const withNewTargets = (transition: Transition): Transition =>
+      transition.do
+        ? {
+            ...transition,
+            do: transition.do.map((target) => taskIds.get(target) || target),
+          }
+        : transition;
+
+    const tasks = workflowDiff.tasks.map((taskDiff): Task => {
+      const task =
+        taskDiff.after ||
+        ({
+          ...taskDiff.before,
+          next: taskDiff.before?.next?.map(withNewTargets),
+        } as Task);
+      statuses.set(task.id, taskDiff.status);
+
+      // Every transition of an added or removed task shares its status
+      if (taskDiff.status === "added" || taskDiff.status === "removed") {
+        (task.next || []).forEach((transition, transitionIndex) =>
+          (transition.do || []).forEach((target) =>
+            drawn.push({
+              source: task.id,
+              target,
+              transitionIndex,
+              status: taskDiff.status,
+            })
+          )
+        );
+        return task;
+      }
+
+      const next = [...(task.next || [])];
+      const transitionStatus = new Map(
+        taskDiff.transitions
+          .filter((transition) => transition.status !== "removed")
+          .map((transition) => [transition.transitionIndex, transition])
+      );
+
+      next.forEach((transition, transitionIndex) => {
+        const transitionDiff = transitionStatus.get(transitionIndex);
+        (transition.do || []).forEach((target) =>
+          drawn.push({
+            source: task.id,
+            target,
+            transitionIndex,
+            status: transitionDiff?.targetsAdded.includes(target)
+              ? "added"
+              : transitionDiff?.status === "added"
+              ? "added"
+              : transitionDiff && transitionDiff.changes.length > 0
+              ? "modified"
+              : "unchanged",
+          })
+        );
+
+        // Put removed targets back on the transition
+        if (transitionDiff && transitionDiff.targetsRemoved.length > 0) {
+          next[transitionIndex] = {
+            ...transition,
+            do: [...(transition.do || []), ...transitionDiff.targetsRemoved],
+          };
+          transitionDiff.targetsRemoved.forEach((target) =>
+            drawn.push({
+              source: task.id,
+              target,
+              transitionIndex,
+              status: "removed",
+            })
+          );
+        }
+      });
+
+      // Put removed transitions back at the end
+      taskDiff.transitions
+        .filter((transition) => transition.status === "removed")
+        .forEach((transitionDiff) => {
+          const removed = withNewTargets(
+            taskDiff.before?.next?.[transitionDiff.transitionIndex] as Transition
+          );
+          const transitionIndex = next.length;
+          next.push(removed);
+          (removed.do || []).forEach((target) =>
+            drawn.push({
+              source: task.id,
+              target,
+              transitionIndex,
+              status: "removed",
+            })
+          );
+        });
+
+      return { ...task, next };
+    });
+
+    const workflow =
+      bundle.objects[workflowDiff.key] || previous.objects[workflowDiff.key];
+
+    bundle.objects[workflowDiff.key] = {
+      ...workflow,
+      fields: { ...workflow.fields, tasks },
+    };
+    taskStatus.set(workflowDiff.workflowId, statuses);
+    edges.set(workflowDiff.workflowId, drawn);
+  });
+
+  return { diff, bundle, taskStatus, edges };
+};
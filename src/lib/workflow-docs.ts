@@ -0,0 +1,239 @@
+import { Task, WorkflowBundle, WorkflowObject } from "@/types/workflow";
+
+/**
+ * An input parameter of a workflow
+ */
+export interface WorkflowDocParameter {
+  name: string;
+  type?: string;
+  required: boolean;
+  defaultValue?: unknown;
+  description?: string;
+}
+
+/**
+ * A key of the output a workflow returns to its caller
+ */
+export interface WorkflowDocOutput {
+  key: string;
+  /** The value, usually a Jinja expression over CTX */
+  value: unknown;
+}
+
+/**
+ * A trigger starting a workflow, as read by `extractTriggers`
+ */
+export interface WorkflowDocTrigger {
+  name: string;
+  type: string;
+  enabled: boolean;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * A transition of a task
+ */
+export interface WorkflowDocTransition {
+  label?: string;
+  condition?: string;
+  /** Names of the tasks it runs */
+  targets: string[];
+  publish: Array<{ key: string; value: string }>;
+}
+
+/**
+ * A task of a workflow, with what its details tabs show
+ */
+export interface WorkflowDocTask {
+  id: string;
+  name: string;
+  description?: string;
+  actionRef?: string;
+  /** Name of the workflow the task runs, for sub-workflow calls */
+  subWorkflowName?: string;
+  /** Timeout in seconds */
+  timeout?: number;
+  inputs: Record<string, unknown>;
+  transitions: WorkflowDocTransition[];
+}
+
+/**
+ * Everything documented about one workflow
+ */
+export interface WorkflowDoc {
+  workflowId: string;
+  name: string;
+  description?: string;
+  parameters: WorkflowDocParameter[];
+  output: WorkflowDocOutput[];
+  triggers: WorkflowDocTrigger[];
+  tasks: WorkflowDocTask[];
+}
+
+/**
+ * Finds a workflow by its object key or its ID
+ * @param bundle The bundle
+ * @param workflowId The key or ID
+ * @returns The workflow, or undefined if the bundle has none
+ */
+const findWorkflow = (
+  bundle: WorkflowBundle,
+  workflowId: string
+): WorkflowObject | undefined => {
+  const workflow =
+    bundle.objects[workflowId] ||
+    Object.values(bundle.objects).find(
+      (object) => object.type === "workflow" && object.fields.id === workflowId
+    );
+  return workflow?.type === "workflow" ? workflow : undefined;
+};
+
+/**
+ * Reads the parameters of a workflow
+ * @param parameters The workflow's `parameters` field
+ * @returns The parameters, in the order the workflow lists them
+ */
+const readParameters = (parameters: unknown): WorkflowDocParameter[] => {
+  if (!parameters || typeof parameters !== "object") return [];
+
+  return Object.entries(parameters as Record<string, unknown>).map(
+    ([name, value]) => {
+      const parameter = (
+        value && typeof value === "object" ? value : {}
+      ) as Record<string, unknown>;
+      return {
+        name,
+        type: typeof parameter.type === "string" ? parameter.type : undefined,
+        required: parameter.required === true,
+        defaultValue:
+          parameter.default === "" ? undefined : parameter.default ?? undefined,
+        description:
+          typeof parameter.description === "string" && parameter.description
+            ? parameter.description
+            : undefined,
+      };
+    }
+  );
+};
+
+/**
+ * Reads the output of a workflow
+ * Rewst keeps the output as a list of mappings, older exports as one.
+ * @param output The workflow's `output` field
+ * @returns The output keys
+ */
+const readOutput = (output: unknown): WorkflowDocOutput[] => {
+  const entries = Array.isArray(output) ? output : output ? [output] : [];
+
+  return entries
+    .filter((entry) => entry && typeof entry === "object")
+    .flatMap((entry) =>
+      Object.entries(entry as Record<string, unknown>).map(([key, value]) => ({
+        key,
+        value,
+      }))
+    );
+};
+
+/**
+ * Reads a task of a workflow
+ * @param task The task
+ * @param description The description kept beside the task in the workflow
+ * @param taskNames Names of the workflow's tasks, by ID
+ * @param bundle The bundle, for the names of called sub-workflows
+ * @returns The documented task
+ */
+const readTask = (
+  task: Task,
+  description: string | undefined,
+  taskNames: Map<string, string>,
+  bundle: WorkflowBundle
+): WorkflowDocTask => {
+  const subWorkflowId = task.action?.workflow_id;
+  const subWorkflow = subWorkflowId
+    ? findWorkflow(bundle, subWorkflowId)
+    : undefined;
+
+  return {
+    id: task.id,
+    name: task.name || task.id,
+    description: description || task.description || undefined,
+    actionRef: task.action?.ref,
+    subWorkflowName: subWorkflowId
+      ? subWorkflow?.nonfunctional_fields?.name || subWorkflowId
+      : undefined,
+    timeout: task.timeout,
+    inputs: task.input || {},
+    transitions: (task.next || []).map((transition) => ({
+      label: transition.label || undefined,
+      condition: transition.when || undefined,
+      targets: (transition.do || []).map((id) => taskNames.get(id) || id),
+      publish: transition.publish || [],
+    })),
+  };
+};
+
+/**
+ * Gathers what documents a workflow: its parameters, output, triggers and
+ * the details of every task
+ * @param bundle The bundle, normalized so action refs are resolved
+ * @param workflowId The key or ID of the workflow
+ * @param triggers The bundle's triggers, from `extractTriggers`
+ * @returns The documentation, or null if the bundle has no such workflow
+ */
+export const buildWorkflowDoc = (
+  bundle: WorkflowBundle,
+  workflowId: string,
+  triggers: Array<WorkflowDocTrigger & { workflowId: string }>
+): WorkflowDoc | null => {
+  const workflow = findWorkflow(bundle, workflowId);
+  if (!workflow) return null;
+
+  const tasks = (workflow.fields.tasks || []).filter((task) => task?.id);
+  const taskNames = new Map(
+    tasks.map((task) => [task.id, task.name || task.id])
+  );
+  const ids = new Set([workflowId, workflow.fields.id].filter(Boolean));
+
+  return {
+    workflowId,
+    name: workflow.nonfunctional_fields?.name || "Unnamed Workflow",
+    description: workflow.nonfunctional_fields?.description || undefined,
+    parameters: readParameters(workflow.fields.parameters),
+    output: readOutput(workflow.fields.output),
+    triggers: triggers
+      .filter((trigger) => ids.has(trigger.workflowId))
+      .map(({ name, type, enabled, parameters }) => ({
+        name,
+        type,
+        enabled,
+        parameters,
+      })),
+    tasks: (workflow.fields.tasks || [])
+      .map((task, index) =>
+        task?.id
+          ? readTask(
+              task,
+              workflow.nonfunctional_fields?.[`tasks[${index}].description`] as
+                | string
+                | undefined,
+              taskNames,
+              bundle
+            )
+          : null
+      )
+      .filter((task): task is WorkflowDocTask => task !== null),
+  };
+};
+
+/**
+ * Formats a documented value as text
+ * @param value The value
+ * @param indent Spaces objects are indented by, 0 for one line
+ * @returns Strings as they are, anything else as JSON
+ */
+export const formatDocValue = (value: unknown, indent = 0): string => {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, indent) ?? String(value);
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseExecutionLog } from "@/lib/workflow-execution";
+
+describe("parseExecutionLog", () => {
+  it("orders task runs by start time", () => {
+    const log = parseExecutionLog([
+      { taskId: "t2", status: "SUCCEEDED", startedAt: "2024-01-01T00:00:02Z" },
+      { taskId: "t1", status: "SUCCEEDED", startedAt: "2024-01-01T00:00:01Z" },
+    ]);
+
+    expect(log.tasks.map((task) => task.taskId)).toEqual(["t1", "t2"]);
+  });
+
+  it("keeps the log order when a start time can't be parsed", () => {
+    const log = parseExecutionLog([
+      { taskId: "t2", status: "SUCCEEDED", startedAt: "2024-01-01T00:00:02Z" },
+      { taskId: "t1", status: "SUCCEEDED", startedAt: "soon" },
+      { taskId: "t3", status: "SUCCEEDED", startedAt: "2024-01-01T00:00:01Z" },
+    ]);
+
+    expect(log.tasks.map((task) => task.taskId)).toEqual(["t2", "t1", "t3"]);
+  });
+
+  it("gives running tasks no duration", () => {
+    const log = parseExecutionLog([
+      {
+        taskId: "t1",
+        status: "SUCCEEDED",
+        startedAt: "2024-01-01T00:00:00Z",
+        updatedAt: "2024-01-01T00:00:01.500Z",
+      },
+      {
+        taskId: "t2",
+        status: "RUNNING",
+        startedAt: "2024-01-01T00:00:02Z",
+        updatedAt: "2024-01-01T00:00:05Z",
+      },
+    ]);
+
+    expect(log.tasks[0].durationMs).toBe(1500);
+    expect(log.tasks[1]).toMatchObject({ status: "running" });
+    expect(log.tasks[1].durationMs).toBeUndefined();
+  });
+});
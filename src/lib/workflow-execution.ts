@@ -0,0 +1,435 @@
+import { Task, WorkflowObject } from "@/types/workflow";
+import { TaskEdge, buildTaskGraph } from "@/lib/workflow-graph";
+
+/**
+ * Status of a task in a real run
+ * - `succeeded`/`failed`: the task ran and finished
+ * - `skipped`: Rewst reached the task but didn't run it, e.g. it was cancelled
+ * - `running`: the task hadn't finished when the log was exported
+ * - `not-run`: the run never reached the task
+ */
+export type ExecutionTaskStatus =
+  | "succeeded"
+  | "failed"
+  | "skipped"
+  | "running"
+  | "not-run";
+
+/**
+ * A single task run from an execution log
+ */
+export interface TaskExecution {
+  /** ID of the workflow task that ran, as given by the log */
+  taskId: string;
+  taskName?: string;
+  status: Exclude<ExecutionTaskStatus, "not-run">;
+  /** Status as written in the log, e.g. `SUCCEEDED` */
+  rawStatus: string;
+  input?: unknown;
+  output?: unknown;
+  /** Run time in milliseconds, when the log has it */
+  durationMs?: number;
+  /** ISO start time, when the log has it */
+  startedAt?: string;
+}
+
+/**
+ * An execution log exported from Rewst
+ */
+export interface ExecutionLog {
+  /** ID of the workflow that ran, when the log has it */
+  workflowId?: string;
+  /** Status of the whole run, when the log has it */
+  status?: string;
+  /** Task runs, in the order they started */
+  tasks: TaskExecution[];
+}
+
+/**
+ * A task run matched to a task of the workflow
+ */
+export interface ExecutionEvent extends TaskExecution {
+  /** ID of the matched task in the workflow */
+  nodeId: string;
+  /** Transitions that led to this run, inferred from the runs before it */
+  incomingEdges: TaskEdge[];
+}
+
+/**
+ * An execution log mapped onto a workflow, ready to replay
+ */
+export interface ExecutionReplay {
+  /** Matched task runs, in order */
+  events: ExecutionEvent[];
+  /** Task runs that don't match a task of the workflow */
+  unmatched: TaskExecution[];
+  /** Problems found while mapping, e.g. a log for another workflow */
+  warnings: string[];
+}
+
+/**
+ * State of the workflow's tasks and transitions at a point of a replay
+ */
+export interface ExecutionSnapshot {
+  statusByTask: Map<string, ExecutionTaskStatus>;
+  /** Latest run of each task up to this point */
+  executionByTask: Map<string, ExecutionEvent>;
+  takenEdges: TaskEdge[];
+}
+
+/**
+ * Keys the task runs are found under, in order of preference
+ */
+const TASK_LIST_KEYS = ["taskLogs", "task_logs", "tasks", "taskExecutions"];
+
+/**
+ * Keys the wrapper objects of GraphQL exports are found under
+ */
+const WRAPPER_KEYS = ["data", "workflowExecution", "execution"];
+
+/**
+ * Statuses of the log mapped onto task statuses, lower case
+ */
+const STATUS_MAP: Record<string, TaskExecution["status"]> = {
+  succeeded: "succeeded",
+  success: "succeeded",
+  completed: "succeeded",
+  complete: "succeeded",
+  failed: "failed",
+  failure: "failed",
+  error: "failed",
+  errored: "failed",
+  timeout: "failed",
+  timed_out: "failed",
+  skipped: "skipped",
+  cancelled: "skipped",
+  canceled: "skipped",
+  running: "running",
+  in_progress: "running",
+  started: "running",
+  pending: "running",
+  queued: "running",
+  scheduled: "running",
+  waiting: "running",
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Gets the first string among the given keys of an object
+ */
+const pickString = (
+  record: Record<string, unknown>,
+  keys: string[]
+): string | undefined => {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value) return value;
+    if (typeof value === "number") return String(value);
+  }
+  return undefined;
+};
+
+/**
+ * Gets the first number among the given keys of an object
+ */
+const pickNumber = (
+  record: Record<string, unknown>,
+  keys: string[]
+): number | undefined => {
+  for (const key of keys) {
+    const value = Number(record[key]);
+    if (record[key] !== null && record[key] !== "" && !isNaN(value)) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Finds the object holding the task runs, unwrapping GraphQL responses
+ * @param data The parsed file
+ * @returns The object, or the list of task runs itself
+ */
+const findExecution = (
+  data: unknown
+): { execution: Record<string, unknown>; tasks: unknown[] } | null => {
+  if (Array.isArray(data)) return { execution: {}, tasks: data };
+  if (!isRecord(data)) return null;
+
+  for (const key of TASK_LIST_KEYS) {
+    if (Array.isArray(data[key])) {
+      return { execution: data, tasks: data[key] as unknown[] };
+    }
+  }
+
+  for (const key of WRAPPER_KEYS) {
+    const found = findExecution(data[key]);
+    if (found) return found;
+  }
+
+  return null;
+};
+
+/**
+ * Reads a single task run
+ * @param entry The entry of the log
+ * @param index Position of the entry, for error messages
+ * @returns The task run
+ */
+const parseTaskEntry = (entry: unknown, index: number): TaskExecution => {
+  if (!isRecord(entry)) {
+    throw new Error(`Task run ${index + 1} is not an object`);
+  }
+
+  const taskId = pickString(entry, [
+    "workflowTaskId",
+    "originalWorkflowTaskId",
+    "taskId",
+    "task_id",
+    "workflow_task_id",
+  ]);
+  const taskName = pickString(entry, [
+    "originalWorkflowTaskName",
+    "workflowTaskName",
+    "taskName",
+    "task_name",
+    "name",
+  ]);
+  if (!taskId && !taskName) {
+    throw new Error(
+      `Task run ${index + 1} has neither a task ID nor a task name`
+    );
+  }
+
+  const rawStatus = pickString(entry, ["status", "state"]) || "";
+  const status = STATUS_MAP[rawStatus.toLowerCase()];
+  if (!status) {
+    throw new Error(
+      `Task run ${index + 1} has an unknown status "${rawStatus}"`
+    );
+  }
+
+  const startedAt = pickString(entry, [
+    "startedAt",
+    "started_at",
+    "startTime",
+    "createdAt",
+    "created_at",
+  ]);
+  // A running task has no end yet, its last update isn't one
+  const finishedAt =
+    status === "running"
+      ? undefined
+      : pickString(entry, [
+          "finishedAt",
+          "finished_at",
+          "completedAt",
+          "endTime",
+          "updatedAt",
+          "updated_at",
+        ]);
+
+  let durationMs = pickNumber(entry, [
+    "durationMs",
+    "duration_ms",
+    "executionTime",
+    "execution_time",
+  ]);
+  if (durationMs === undefined && startedAt && finishedAt) {
+    const elapsed = Date.parse(finishedAt) - Date.parse(startedAt);
+    if (!isNaN(elapsed) && elapsed >= 0) durationMs = elapsed;
+  }
+
+  return {
+    taskId: taskId || "",
+    taskName,
+    status,
+    rawStatus,
+    input: entry.input,
+    output: entry.result !== undefined ? entry.result : entry.output,
+    durationMs,
+    startedAt,
+  };
+};
+
+/**
+ * Reads an execution log exported from Rewst
+ * Accepts the execution object, a GraphQL response wrapping it, or a bare
+ * list of task runs. Runs are ordered by start time when every run has a
+ * valid one, and kept in the log order otherwise.
+ * @param data The parsed JSON file
+ * @returns The execution log
+ * @throws Error if the file isn't an execution log
+ */
+export const parseExecutionLog = (data: unknown): ExecutionLog => {
+  const found = findExecution(data);
+  if (!found) {
+    throw new Error(
+      `No task runs found, expected a list under ${TASK_LIST_KEYS.map(
+        (key) => `"${key}"`
+      ).join(", ")}`
+    );
+  }
+
+  const tasks = found.tasks.map(parseTaskEntry);
+  if (
+    tasks.every(
+      (task) => task.startedAt && !isNaN(Date.parse(task.startedAt))
+    )
+  ) {
+    // Stable, so runs with the same start time keep the log order
+    tasks.sort(
+      (a, b) =>
+        Date.parse(a.startedAt as string) - Date.parse(b.startedAt as string)
+    );
+  }
+
+  const workflow = isRecord(found.execution.workflow)
+    ? found.execution.workflow
+    : {};
+
+  return {
+    workflowId:
+      pickString(found.execution, ["workflowId", "workflow_id"]) ||
+      pickString(workflow, ["id"]),
+    status: pickString(found.execution, ["status", "state"]),
+    tasks,
+  };
+};
+
+/**
+ * Checks a transition condition against the outcome of its task
+ * Only the `SUCCEEDED`/`FAILED` checks can be told apart from the log, any
+ * other condition is taken as possibly true.
+ * @param task The task the transition belongs to
+ * @param transitionIndex Index of the transition
+ * @param status How the task ended
+ * @returns false if the transition couldn't have been followed
+ */
+const couldHaveFollowed = (
+  task: Task,
+  transitionIndex: number,
+  status: TaskExecution["status"]
+): boolean => {
+  const when = task.next?.[transitionIndex]?.when || "";
+  if (status === "succeeded") return !/\bFAILED\b/.test(when);
+  if (status === "failed") return !/\bSUCCEEDED\b/.test(when);
+  return false;
+};
+
+/**
+ * Maps an execution log onto the tasks of a workflow
+ * Runs are matched by task ID, falling back to the task name. The log doesn't
+ * say which transition scheduled a task, so the transitions are inferred: a
+ * run is reached through the transitions of tasks that ran before it, picking
+ * the first transition per task that agrees with how that task ended.
+ * @param log The execution log
+ * @param workflow The workflow to map it onto
+ * @returns The replay
+ */
+export const mapExecutionToWorkflow = (
+  log: ExecutionLog,
+  workflow: WorkflowObject
+): ExecutionReplay => {
+  const tasks = workflow.fields.tasks || [];
+  const graph = buildTaskGraph(tasks);
+  const idsByName = new Map(
+    tasks.filter((task) => task.name).map((task) => [task.name, task.id])
+  );
+
+  const warnings: string[] = [];
+  if (log.workflowId && log.workflowId !== workflow.fields.id) {
+    warnings.push(
+      `The log is for workflow ${log.workflowId}, not ${workflow.fields.id}`
+    );
+  }
+
+  const events: ExecutionEvent[] = [];
+  const unmatched: TaskExecution[] = [];
+  // Latest finished run of each task so far
+  const finished = new Map<string, TaskExecution["status"]>();
+
+  log.tasks.forEach((execution) => {
+    const nodeId = graph.tasks.has(execution.taskId)
+      ? execution.taskId
+      : execution.taskName && idsByName.get(execution.taskName);
+
+    if (!nodeId) {
+      unmatched.push(execution);
+      return;
+    }
+
+    const incomingEdges: TaskEdge[] = [];
+    const bySource = new Map<string, TaskEdge[]>();
+    (graph.incoming.get(nodeId) || []).forEach((edge) => {
+      if (!finished.has(edge.source)) return;
+      bySource.set(edge.source, [...(bySource.get(edge.source) || []), edge]);
+    });
+
+    bySource.forEach((edges, source) => {
+      const sourceTask = graph.tasks.get(source) as Task;
+      const status = finished.get(source) as TaskExecution["status"];
+      const edge = edges.find((candidate) =>
+        couldHaveFollowed(sourceTask, candidate.transitionIndex, status)
+      );
+      if (edge) incomingEdges.push(edge);
+    });
+
+    events.push({ ...execution, nodeId, incomingEdges });
+    // Tasks still running hadn't scheduled anything yet
+    if (execution.status !== "running") {
+      finished.set(nodeId, execution.status);
+    }
+  });
+
+  if (unmatched.length > 0) {
+    warnings.push(
+      `${unmatched.length} task runs don't match a task of this workflow`
+    );
+  }
+
+  return { events, unmatched, warnings };
+};
+
+/**
+ * Gets the state of a replay after a number of events
+ * @param replay The replay
+ * @param workflow The workflow the replay is mapped onto
+ * @param position Number of events applied
+ * @returns Task statuses, latest runs and the transitions followed so far
+ */
+export const getExecutionSnapshot = (
+  replay: ExecutionReplay,
+  workflow: WorkflowObject,
+  position: number
+): ExecutionSnapshot => {
+  const statusByTask = new Map<string, ExecutionTaskStatus>(
+    (workflow.fields.tasks || []).map((task) => [task.id, "not-run"])
+  );
+  const executionByTask = new Map<string, ExecutionEvent>();
+  const takenEdges: TaskEdge[] = [];
+
+  replay.events.slice(0, position).forEach((event) => {
+    statusByTask.set(event.nodeId, event.status);
+    executionByTask.set(event.nodeId, event);
+    takenEdges.push(...event.incomingEdges);
+  });
+
+  return { statusByTask, executionByTask, takenEdges };
+};
+
+/**
+ * Formats a duration for display
+ * @param durationMs The duration in milliseconds
+ * @returns e.g. `350 ms`, `4.2 s` or `3 min 5 s`
+ */
+export const formatDuration = (durationMs: number): string => {
+  if (durationMs < 1000) return `${Math.round(durationMs)} ms`;
+  if (durationMs < 60000) return `${(durationMs / 1000).toFixed(1)} s`;
+
+  const minutes = Math.floor(durationMs / 60000);
+  const seconds = Math.round((durationMs % 60000) / 1000);
+  return `${minutes} min ${seconds} s`;
+};
@@ -0,0 +1,102 @@
+import { Task } from "@/types/workflow";
+
+/**
+ * A single transition target, from one task to another
+ */
+export interface TaskEdge {
+  /** ID of the task the transition belongs to */
+  source: string;
+  /** ID of the task the transition runs */
+  target: string;
+  /** Index of the transition in the source task's `next` array */
+  transitionIndex: number;
+}
+
+/**
+ * Adjacency lists for the tasks of a single workflow
+ */
+export interface TaskGraph {
+  tasks: Map<string, Task>;
+  outgoing: Map<string, TaskEdge[]>;
+  incoming: Map<string, TaskEdge[]>;
+}
+
+/**
+ * Name Rewst gives the task every new workflow starts from
+ */
+const START_TASK_NAME = "begin";
+
+/**
+ * Builds the transition graph of a workflow's tasks
+ * Targets that don't match a task are left out of the graph.
+ * @param tasks The tasks of a normalized workflow
+ * @returns The task graph
+ */
+export const buildTaskGraph = (tasks: Task[]): TaskGraph => {
+  const graph: TaskGraph = {
+    tasks: new Map(),
+    outgoing: new Map(),
+    incoming: new Map(),
+  };
+
+  tasks.forEach((task) => {
+    graph.tasks.set(task.id, task);
+    graph.outgoing.set(task.id, []);
+    graph.incoming.set(task.id, []);
+  });
+
+  tasks.forEach((task) => {
+    (task.next || []).forEach((transition, transitionIndex) => {
+      (transition.do || []).forEach((target) => {
+        if (!graph.tasks.has(target)) return;
+
+        const edge = { source: task.id, target, transitionIndex };
+        graph.outgoing.get(task.id)?.push(edge);
+        graph.incoming.get(target)?.push(edge);
+      });
+    });
+  });
+
+  return graph;
+};
+
+/**
+ * Finds the task a workflow starts from
+ * This is the `begin` task when there is one, otherwise the first task
+ * without incoming transitions, otherwise the first task.
+ * @param tasks The tasks of a normalized workflow
+ * @param graph The task graph, built from the tasks when omitted
+ * @returns The start task or null for a workflow without tasks
+ */
+export const findStartTask = (
+  tasks: Task[],
+  graph: TaskGraph = buildTaskGraph(tasks)
+): Task | null =>
+  tasks.find((task) => task.name === START_TASK_NAME) ||
+  tasks.find((task) => graph.incoming.get(task.id)?.length === 0) ||
+  tasks[0] ||
+  null;
+
+/**
+ * Collects every task reachable from the given tasks
+ * @param graph The task graph
+ * @param startIds IDs of the tasks to start from
+ * @returns IDs of the reachable tasks, including the start tasks
+ */
+export const findReachableTasks = (
+  graph: TaskGraph,
+  startIds: string[]
+): Set<string> => {
+  const reachable = new Set<string>();
+  const queue = startIds.filter((id) => graph.tasks.has(id));
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (reachable.has(id)) continue;
+
+    reachable.add(id);
+    graph.outgoing.get(id)?.forEach((edge) => queue.push(edge.target));
+  }
+
+  return reachable;
+};
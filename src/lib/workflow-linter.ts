@@ -0,0 +1,351 @@
+import { Task, WorkflowObject } from "@/types/workflow";
+import {
+  TaskGraph,
+  buildTaskGraph,
+  findReachableTasks,
+  findStartTask,
+} from "@/lib/workflow-graph";
+import { containsJinja, parseTemplate } from "@/lib/jinja";
+
+/**
+ * Severity of a lint diagnostic, from most to least severe
+ */
+export type LintSeverity = "error" | "warning" | "info";
+
+/**
+ * A single problem reported by a lint rule
+ */
+export interface LintDiagnostic {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  /** ID of the task the problem belongs to */
+  taskId?: string;
+  /** Name of the task, for display */
+  taskName?: string;
+  /** Index of the transition in the task's `next` array */
+  transitionIndex?: number;
+}
+
+/**
+ * Everything a rule needs to check one workflow
+ */
+export interface LintContext {
+  workflow: WorkflowObject;
+  tasks: Task[];
+  graph: TaskGraph;
+  startTask: Task | null;
+}
+
+/**
+ * A lint rule in the catalogue
+ */
+export interface LintRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: LintSeverity;
+  check: (
+    context: LintContext
+  ) => Omit<LintDiagnostic, "ruleId" | "severity">[];
+}
+
+/**
+ * Enabled state per rule ID, rules missing from the map are enabled
+ */
+export type LintRuleConfig = Record<string, boolean>;
+
+/**
+ * Order used to sort diagnostics by severity
+ */
+export const LINT_SEVERITY_ORDER: Record<LintSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+/**
+ * Name Rewst workflows conventionally give their final task
+ */
+const END_TASK_NAME = "end";
+
+/**
+ * Gets the display name of a task
+ * @param task The task
+ * @returns The task name, or its ID when unnamed
+ */
+const taskLabel = (task: Task): string => task.name || task.id;
+
+/**
+ * Collects the Jinja strings of a task's input, conditions and publishes
+ * The canvas filter on Jinja uses it too, so both find the same tasks.
+ * @param task The task
+ * @returns Each string with its location, e.g. `input.body` or `next[0].when`
+ */
+export const collectJinjaStrings = (
+  task: Task
+): Array<{ location: string; source: string }> => {
+  const strings: Array<{ location: string; source: string }> = [];
+
+  const visit = (value: unknown, location: string) => {
+    if (typeof value === "string") {
+      if (containsJinja(value)) strings.push({ location, source: value });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${location}[${index}]`));
+    } else if (value && typeof value === "object") {
+      Object.entries(value).forEach(([key, item]) =>
+        visit(item, `${location}.${key}`)
+      );
+    }
+  };
+
+  visit(task.input, "input");
+  (task.next || []).forEach((transition, index) => {
+    visit(transition.when, `next[${index}].when`);
+    (transition.publish || []).forEach((entry) =>
+      visit(entry.value, `next[${index}].publish.${entry.key}`)
+    );
+  });
+
+  return strings;
+};
+
+/**
+ * Checks if a task has no transitions at all
+ * @param task The task
+ * @returns true if the task has no `next` transitions
+ */
+const hasNoTransitions = (task: Task): boolean =>
+  !task.next || task.next.length === 0;
+
+/**
+ * Catalogue of every lint rule, in the order they run
+ */
+export const LINT_RULES: LintRule[] = [
+  {
+    id: "unreachable-task",
+    name: "Unreachable task",
+    description:
+      "Tasks that can't be reached from the start task through any transition",
+    severity: "warning",
+    check: ({ tasks, graph, startTask }) => {
+      if (!startTask) return [];
+      const reachable = findReachableTasks(graph, [startTask.id]);
+
+      return tasks
+        .filter((task) => !reachable.has(task.id))
+        .map((task) => ({
+          taskId: task.id,
+          taskName: task.name,
+          message: `"${taskLabel(task)}" can't be reached from "${taskLabel(
+            startTask
+          )}"`,
+        }));
+    },
+  },
+  {
+    id: "dead-end-task",
+    name: "Dead-end task",
+    description:
+      "Tasks without transitions, other than the end task (named `end`, or the only task without transitions)",
+    severity: "warning",
+    check: ({ tasks }) => {
+      const deadEnds = tasks.filter(hasNoTransitions);
+      if (deadEnds.length === 1) return [];
+
+      return deadEnds
+        .filter((task) => task.name?.toLowerCase() !== END_TASK_NAME)
+        .map((task) => ({
+          taskId: task.id,
+          taskName: task.name,
+          message: `"${taskLabel(
+            task
+          )}" has no transitions, so the workflow stops here`,
+        }));
+    },
+  },
+  {
+    id: "empty-transition",
+    name: "Empty transition",
+    description:
+      "Transitions with an empty `do`, including those that only publish, as nothing runs after them",
+    severity: "info",
+    check: ({ tasks }) =>
+      tasks.flatMap((task) =>
+        (task.next || []).flatMap((transition, transitionIndex) => {
+          if ((transition.do || []).length > 0) return [];
+
+          const name = `Transition ${
+            transition.label || transitionIndex + 1
+          } of "${taskLabel(task)}"`;
+          return [
+            {
+              taskId: task.id,
+              taskName: task.name,
+              transitionIndex,
+              message:
+                (transition.publish || []).length > 0
+                  ? `${name} only publishes and runs no tasks`
+                  : `${name} runs no tasks`,
+            },
+          ];
+        })
+      ),
+  },
+  {
+    id: "join-exceeds-incoming",
+    name: "Join exceeds incoming transitions",
+    description:
+      "Tasks whose `join` waits for more transitions than lead into them, so they never run",
+    severity: "error",
+    check: ({ tasks, graph }) =>
+      tasks.flatMap((task) => {
+        const incoming = graph.incoming.get(task.id)?.length || 0;
+        if (!task.join || task.join <= incoming) return [];
+
+        return [
+          {
+            taskId: task.id,
+            taskName: task.name,
+            message: `"${taskLabel(task)}" joins ${
+              task.join
+            } transitions but only ${incoming} lead into it`,
+          },
+        ];
+      }),
+  },
+  {
+    id: "duplicate-task-name",
+    name: "Duplicate task name",
+    description:
+      "Tasks sharing a name, which makes `TASKS.<name>` lookups ambiguous",
+    severity: "warning",
+    check: ({ tasks }) => {
+      const counts = new Map<string, number>();
+      tasks.forEach((task) => {
+        if (task.name) counts.set(task.name, (counts.get(task.name) || 0) + 1);
+      });
+
+      return tasks
+        .filter((task) => task.name && (counts.get(task.name) || 0) > 1)
+        .map((task) => ({
+          taskId: task.id,
+          taskName: task.name,
+          message: `${counts.get(task.name as string)} tasks are named "${
+            task.name
+          }"`,
+        }));
+    },
+  },
+  {
+    id: "mocked-task",
+    name: "Mocked task",
+    description: "Tasks with `isMocked` left on, which skip their action",
+    severity: "warning",
+    check: ({ tasks }) =>
+      tasks
+        .filter((task) => task.isMocked)
+        .map((task) => ({
+          taskId: task.id,
+          taskName: task.name,
+          message: `"${taskLabel(task)}" is mocked and won't run its action`,
+        })),
+  },
+  {
+    id: "invalid-jinja",
+    name: "Invalid Jinja",
+    description: "Inputs, conditions and publishes whose Jinja doesn't parse",
+    severity: "error",
+    check: ({ tasks }) =>
+      tasks.flatMap((task) =>
+        collectJinjaStrings(task).flatMap(({ location, source }) =>
+          parseTemplate(source).errors.map((error) => ({
+            taskId: task.id,
+            taskName: task.name,
+            message: `${location} of "${taskLabel(task)}": ${error.message}`,
+          }))
+        )
+      ),
+  },
+  {
+    id: "missing-timeout",
+    name: "Missing timeout",
+    description: "Tasks without a `timeout`",
+    severity: "info",
+    check: ({ tasks }) =>
+      tasks
+        .filter((task) => !task.timeout)
+        .map((task) => ({
+          taskId: task.id,
+          taskName: task.name,
+          message: `"${taskLabel(task)}" has no timeout`,
+        })),
+  },
+];
+
+/**
+ * Checks if a rule is enabled
+ * @param ruleId The rule ID
+ * @param config The rule configuration
+ * @returns true unless the rule was switched off
+ */
+export const isLintRuleEnabled = (
+  ruleId: string,
+  config: LintRuleConfig
+): boolean => config[ruleId] !== false;
+
+/**
+ * Runs the enabled lint rules over the tasks of a normalized workflow
+ * @param workflow The workflow object
+ * @param config Enabled state per rule ID
+ * @param rules The rule catalogue to use
+ * @returns The diagnostics, sorted by severity
+ */
+export const lintWorkflow = (
+  workflow: WorkflowObject,
+  config: LintRuleConfig = {},
+  rules: LintRule[] = LINT_RULES
+): LintDiagnostic[] => {
+  const tasks = (workflow.fields.tasks as Task[]) || [];
+  const graph = buildTaskGraph(tasks);
+  const context: LintContext = {
+    workflow,
+    tasks,
+    graph,
+    startTask: findStartTask(tasks, graph),
+  };
+
+  return rules
+    .filter((rule) => isLintRuleEnabled(rule.id, config))
+    .flatMap((rule) =>
+      rule.check(context).map((diagnostic) => ({
+        ...diagnostic,
+        ruleId: rule.id,
+        severity: rule.severity,
+      }))
+    )
+    .sort(
+      (a, b) =>
+        LINT_SEVERITY_ORDER[a.severity] - LINT_SEVERITY_ORDER[b.severity]
+    );
+};
+
+/**
+ * Groups diagnostics by the task they belong to
+ * @param diagnostics The diagnostics
+ * @returns Diagnostics per task ID
+ */
+export const groupDiagnosticsByTask = (
+  diagnostics: LintDiagnostic[]
+): Map<string, LintDiagnostic[]> => {
+  const byTask = new Map<string, LintDiagnostic[]>();
+
+  diagnostics.forEach((diagnostic) => {
+    if (!diagnostic.taskId) return;
+    const list = byTask.get(diagnostic.taskId) || [];
+    list.push(diagnostic);
+    byTask.set(diagnostic.taskId, list);
+  });
+
+  return byTask;
+};
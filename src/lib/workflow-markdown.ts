@@ -0,0 +1,182 @@
+import { WorkflowDoc, formatDocValue } from "@/lib/workflow-docs";
+
+/**
+ * A workflow to write as Markdown
+ */
+export interface WorkflowMarkdownEntry {
+  doc: WorkflowDoc;
+  /** Mermaid flowchart of the workflow's tasks */
+  diagram?: string;
+}
+
+/**
+ * Escapes text for a Markdown table cell
+ * @param text The text
+ * @returns The text with pipes escaped and line breaks as `<br>`
+ */
+const escapeCell = (text: string): string =>
+  text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
+/**
+ * Writes text as inline code, on one line
+ * Backticks in the text get a longer fence.
+ * @param text The text
+ * @returns The code span
+ */
+const code = (text: string): string => {
+  const fence = text.includes("`") ? "``" : "`";
+  return `${fence}${text.replace(/\s*\r?\n\s*/g, " ")}${fence}`;
+};
+
+/**
+ * Writes a Markdown table
+ * @param headers The column headers
+ * @param rows The cells of each row, already formatted
+ * @returns The table lines
+ */
+const table = (headers: string[], rows: string[][]): string[] => [
+  `| ${headers.join(" | ")} |`,
+  `| ${headers.map(() => "---").join(" | ")} |`,
+  ...rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+];
+
+/**
+ * Turns a heading into the anchor GitHub links it by
+ * @param heading The heading text
+ * @returns The anchor, without the `#`
+ */
+export const toMarkdownAnchor = (heading: string): string =>
+  heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+
+/**
+ * Writes the Markdown documentation of a workflow
+ * @param entry The workflow and its diagram
+ * @param level Level of the workflow's heading, sections are one deeper
+ * @returns The Markdown
+ */
+export const createWorkflowMarkdown = (
+  { doc, diagram }: WorkflowMarkdownEntry,
+  level = 1
+): string => {
+  const heading = "#".repeat(level);
+  const section = "#".repeat(level + 1);
+  const lines = [`${heading} ${doc.name}`, ""];
+
+  if (doc.description) lines.push(doc.description, "");
+
+  lines.push(`${section} Parameters`, "");
+  if (doc.parameters.length === 0) lines.push("None.", "");
+  else
+    lines.push(
+      ...table(
+        ["Name", "Type", "Required", "Default", "Description"],
+        doc.parameters.map((parameter) => [
+          code(parameter.name),
+          parameter.type || "any",
+          parameter.required ? "Yes" : "No",
+          parameter.defaultValue !== undefined
+            ? code(formatDocValue(parameter.defaultValue))
+            : "",
+          parameter.description || "",
+        ])
+      ),
+      ""
+    );
+
+  lines.push(`${section} Output`, "");
+  if (doc.output.length === 0) lines.push("None.", "");
+  else
+    lines.push(
+      ...table(
+        ["Key", "Value"],
+        doc.output.map(({ key, value }) => [
+          code(key),
+          code(formatDocValue(value)),
+        ])
+      ),
+      ""
+    );
+
+  lines.push(`${section} Triggers`, "");
+  if (doc.triggers.length === 0) lines.push("None.", "");
+  doc.triggers.forEach((trigger) => {
+    lines.push(
+      `- **${trigger.name}**, ${code(trigger.type)}, ${
+        trigger.enabled ? "enabled" : "disabled"
+      }`
+    );
+    Object.entries(trigger.parameters).forEach(([key, value]) =>
+      lines.push(`  - ${code(key)}: ${code(formatDocValue(value))}`)
+    );
+  });
+  if (doc.triggers.length > 0) lines.push("");
+
+  if (diagram) {
+    lines.push(`${section} Diagram`, "", "```mermaid", diagram.trimEnd());
+    lines.push("```", "");
+  }
+
+  lines.push(`${section} Tasks`, "");
+  if (doc.tasks.length === 0) lines.push("None.", "");
+  else
+    lines.push(
+      ...table(
+        ["Task", "Action", "Description", "Transitions"],
+        doc.tasks.map((task) => [
+          `**${task.name}**`,
+          task.subWorkflowName
+            ? `Workflow ${task.subWorkflowName}`
+            : code(task.actionRef || "unknown"),
+          task.description || "",
+          task.transitions
+            .map(
+              (transition) =>
+                `${transition.label || "Transition"} → ${
+                  transition.targets.join(", ") || "nothing"
+                }${
+                  transition.condition
+                    ? ` when ${code(transition.condition)}`
+                    : ""
+                }`
+            )
+            .join("\n"),
+        ])
+      ),
+      ""
+    );
+
+  return `${lines.join("\n").trimEnd()}\n`;
+};
+
+/**
+ * Writes the Markdown documentation of every workflow of a bundle in one
+ * document, after a list linking to each
+ * @param title The document title
+ * @param entries The workflows and their diagrams
+ * @returns The Markdown
+ */
+export const createBundleMarkdown = (
+  title: string,
+  entries: WorkflowMarkdownEntry[]
+): string => {
+  // GitHub numbers the anchors of headings repeated in a document
+  const anchorCounts = new Map<string, number>();
+  const contents = entries.map(({ doc }) => {
+    const anchor = toMarkdownAnchor(doc.name);
+    const count = anchorCounts.get(anchor) || 0;
+    anchorCounts.set(anchor, count + 1);
+    return `- [${doc.name}](#${count ? `${anchor}-${count}` : anchor})`;
+  });
+
+  return [
+    `# ${title}`,
+    "",
+    ...contents,
+    "",
+    ...entries.map((entry) => createWorkflowMarkdown(entry, 2)),
+  ].join("\n");
+};
@@ -0,0 +1,254 @@
+import {
+  NormalizedWorkflowBundle,
+  Reference,
+  Task,
+  UnresolvedReference,
+  WorkflowBundle,
+  WorkflowObject,
+} from "@/types/workflow";
+
+/**
+ * Matches `@@@type_refN@@@` placeholders anywhere inside a string
+ */
+const PLACEHOLDER_PATTERN = /@@@([A-Za-z0-9_]+)@@@/g;
+
+/**
+ * Checks if a value is exactly one placeholder, e.g. `@@@action_ref1@@@`
+ * @param value The value to check
+ * @returns true if the whole value is a placeholder
+ */
+export const isPlaceholder = (value: unknown): value is string =>
+  typeof value === "string" && /^@@@[A-Za-z0-9_]+@@@$/.test(value);
+
+/**
+ * Finds the reference entry for a placeholder name
+ * Version 2 bundles keep references on the object that uses them, version 1
+ * bundles keep a single map at the top level.
+ * @param name The placeholder name without the `@@@` markers
+ * @param scope The object containing the placeholder
+ * @param bundle The workflow bundle
+ * @returns The reference or null if not found
+ */
+export const findReference = (
+  name: string,
+  scope: WorkflowObject | null,
+  bundle: WorkflowBundle
+): Reference | null =>
+  scope?.references?.[name] || bundle.references?.[name] || null;
+
+/**
+ * Finds the key of the object a reference points at
+ * @param reference The reference to look up
+ * @param bundle The workflow bundle
+ * @returns The key in `bundle.objects` or null if the object is not bundled
+ */
+export const findReferencedObjectKey = (
+  reference: Reference,
+  bundle: WorkflowBundle
+): string | null => {
+  // Version 2 keys objects as `<type>:<src_key_hash>`
+  const key = `${reference.type}:${reference.src_key_hash}`;
+  if (bundle.objects[key]) return key;
+
+  // Version 1 matches the object hash instead
+  const match = Object.entries(bundle.objects).find(
+    ([, obj]) => obj?.hash === reference.src_key_hash
+  );
+
+  return match ? match[0] : null;
+};
+
+/**
+ * Gets the identifier that replaces a placeholder pointing at an object
+ * Objects with an `id` field (task and transition IDs) resolve to that ID,
+ * everything else resolves to its key in the bundle.
+ * @param key The key of the object in the bundle
+ * @param obj The object
+ * @returns The identifier
+ */
+export const getObjectIdentifier = (key: string, obj: WorkflowObject): string =>
+  typeof obj.fields?.id === "string" ? obj.fields.id : key;
+
+/**
+ * Resolves a single placeholder to the identifier of the object it references
+ * @param name The placeholder name without the `@@@` markers
+ * @param scope The object containing the placeholder
+ * @param bundle The workflow bundle
+ * @returns The identifier or null if the placeholder is dangling
+ */
+export const resolvePlaceholder = (
+  name: string,
+  scope: WorkflowObject | null,
+  bundle: WorkflowBundle
+): string | null => {
+  const reference = findReference(name, scope, bundle);
+  if (!reference) return null;
+
+  const key = findReferencedObjectKey(reference, bundle);
+  if (!key) return null;
+
+  return getObjectIdentifier(key, bundle.objects[key]);
+};
+
+/**
+ * Recursively replaces placeholders in a value
+ * @param value The value to resolve
+ * @param location The location of the value, in the format references use
+ * @param resolve Resolves a placeholder name or returns null if dangling
+ * @param onUnresolved Called for every dangling placeholder
+ * @returns A copy of the value with placeholders replaced
+ */
+const resolveValue = (
+  value: unknown,
+  location: string,
+  resolve: (name: string) => string | null,
+  onUnresolved: (location: string, name: string) => void
+): unknown => {
+  if (typeof value === "string") {
+    if (!value.includes("@@@")) return value;
+
+    return value.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      const resolved = resolve(name);
+      if (resolved === null) {
+        onUnresolved(location, name);
+        return match;
+      }
+      return resolved;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      resolveValue(item, `${location}[${index}]`, resolve, onUnresolved)
+    );
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        resolveValue(
+          item,
+          location ? `${location}.${key}` : key,
+          resolve,
+          onUnresolved
+        ),
+      ])
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Copies task display data kept in the workflow's `nonfunctional_fields`
+ * (metadata, description and transition labels) onto the tasks themselves
+ * @param tasks The workflow tasks
+ * @param workflow The workflow object
+ * @returns The tasks with their display data attached
+ */
+const attachNonfunctionalFields = (
+  tasks: Task[],
+  workflow: WorkflowObject
+): Task[] => {
+  const fields = workflow.nonfunctional_fields || {};
+
+  return tasks.map((task, index) => ({
+    ...task,
+    metadata:
+      task.metadata || (fields[`tasks[${index}].metadata`] as Task["metadata"]),
+    description:
+      task.description ||
+      (fields[`tasks[${index}].description`] as string | undefined),
+    next: task.next?.map((transition, transitionIndex) => ({
+      ...transition,
+      label:
+        transition.label ||
+        (fields[`tasks[${index}].next[${transitionIndex}].label`] as
+          | string
+          | undefined),
+    })),
+  }));
+};
+
+/**
+ * Fills in the action ref of tasks whose action resolved to a bundled action
+ * @param tasks The workflow tasks
+ * @param bundle The workflow bundle
+ * @returns The tasks with their action refs attached
+ */
+const attachActionRefs = (tasks: Task[], bundle: WorkflowBundle): Task[] =>
+  tasks.map((task) => {
+    if (!task.action?.id || task.action.ref) return task;
+
+    const actionObj = bundle.objects[task.action.id];
+    if (typeof actionObj?.fields?.ref !== "string") return task;
+
+    return { ...task, action: { ...task.action, ref: actionObj.fields.ref } };
+  });
+
+/**
+ * Normalizes a version 1 or version 2 workflow bundle into one resolved model
+ *
+ * Every `@@@type_refN@@@` placeholder is replaced by the identifier of the
+ * object it references: task and transition placeholders become the real
+ * UUIDs, action, workflow, trigger type and template placeholders become the
+ * key of the bundled object. Workflows without an `id` field get their bundle
+ * key as ID so triggers and sub-workflow calls can point at them, and task
+ * metadata, descriptions, transition labels and action refs are attached to
+ * the tasks.
+ *
+ * Normalizing an already normalized bundle returns it unchanged.
+ *
+ * @param bundle The workflow bundle to normalize
+ * @returns The normalized bundle
+ */
+export const normalizeWorkflowBundle = (
+  bundle: WorkflowBundle
+): NormalizedWorkflowBundle => {
+  if ((bundle as NormalizedWorkflowBundle).normalized) {
+    return bundle as NormalizedWorkflowBundle;
+  }
+
+  const unresolvedReferences: UnresolvedReference[] = [];
+
+  // Resolve placeholders object by object, since v2 scopes them per object
+  const objects = Object.fromEntries(
+    Object.entries(bundle.objects).map(([key, obj]) => {
+      if (!obj || typeof obj !== "object") return [key, obj];
+
+      const fields = resolveValue(
+        obj.fields,
+        "",
+        (name) => resolvePlaceholder(name, obj, bundle),
+        (location, placeholder) =>
+          unresolvedReferences.push({ objectKey: key, location, placeholder })
+      ) as WorkflowObject["fields"];
+
+      return [key, { ...obj, fields }];
+    })
+  ) as WorkflowBundle["objects"];
+
+  const resolvedBundle: WorkflowBundle = { ...bundle, objects };
+
+  // Give workflows a stable ID and attach per-task display data
+  Object.entries(objects).forEach(([key, obj]) => {
+    if (obj?.type !== "workflow") return;
+
+    const fields = { ...obj.fields, id: obj.fields?.id || key };
+    if (Array.isArray(fields.tasks)) {
+      fields.tasks = attachActionRefs(
+        attachNonfunctionalFields(fields.tasks, obj),
+        resolvedBundle
+      );
+    }
+
+    objects[key] = { ...obj, fields };
+  });
+
+  return {
+    ...resolvedBundle,
+    normalized: true,
+    unresolvedReferences,
+  };
+};
@@ -0,0 +1,374 @@
+import {
+  PDF_A4,
+  PdfColor,
+  PdfDocument,
+  PdfFont,
+  PdfPage,
+  addPdfJpeg,
+  addPdfPage,
+  createPdfDocument,
+  drawPdfImage,
+  drawPdfLine,
+  drawPdfText,
+  measurePdfText,
+  serializePdf,
+} from "@/lib/pdf-writer";
+import { WorkflowDoc, formatDocValue } from "@/lib/workflow-docs";
+
+/**
+ * A picture of the workflow graph, drawn on the first pages
+ */
+export interface WorkflowPdfGraph {
+  /** The JPEG file */
+  data: Uint8Array;
+  /** Size of the JPEG in pixels */
+  pixelWidth: number;
+  pixelHeight: number;
+  /** Size of the graph in CSS pixels, the pixels divided by their ratio */
+  width: number;
+  height: number;
+}
+
+/**
+ * Space left blank at the edges of each page, in points
+ */
+const PAGE_MARGIN = 40;
+
+/**
+ * Smallest scale the graph is drawn at on tiled pages, in points per CSS
+ * pixel, below which task cards can't be read
+ */
+const MIN_GRAPH_SCALE = 0.45;
+
+/**
+ * Colour of secondary text
+ */
+const MUTED: PdfColor = [0.4, 0.4, 0.45];
+
+/**
+ * Kinds of line written in the appendix
+ */
+type TextStyle = "title" | "heading" | "task" | "label" | "body" | "code";
+
+/**
+ * Font and size of each kind of line
+ */
+const TEXT_STYLES: Record<TextStyle, { font: PdfFont; size: number }> = {
+  title: { font: "bold", size: 18 },
+  heading: { font: "bold", size: 13 },
+  task: { font: "bold", size: 11 },
+  label: { font: "bold", size: 9 },
+  body: { font: "regular", size: 9 },
+  code: { font: "mono", size: 8 },
+};
+
+/**
+ * Splits text into lines fitting a width
+ * Words longer than a line are cut.
+ * @param text The text
+ * @param font The font
+ * @param size The font size
+ * @param width The width in points
+ * @returns The lines
+ */
+const wrapText = (
+  text: string,
+  font: PdfFont,
+  size: number,
+  width: number
+): string[] =>
+  text.split(/\r?\n/).flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = "";
+
+    paragraph.split(/(\s+)/).forEach((word) => {
+      const candidate = line + word;
+      if (measurePdfText(candidate, font, size) <= width) {
+        line = candidate;
+        return;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = word.trimStart();
+
+      // Cut words wider than the line
+      while (measurePdfText(line, font, size) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (
+          cut > 1 &&
+          measurePdfText(line.slice(0, cut), font, size) > width
+        )
+          cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+
+    lines.push(line.trimEnd());
+    return lines;
+  });
+
+/**
+ * Writes text down the pages of a document, starting a page when one fills
+ */
+const createTextFlow = (document: PdfDocument) => {
+  let page: PdfPage = addPdfPage(document);
+  let y = PAGE_MARGIN;
+  const bottom = PDF_A4.height - PAGE_MARGIN;
+  const width = PDF_A4.width - PAGE_MARGIN * 2;
+
+  const newPage = () => {
+    page = addPdfPage(document);
+    y = PAGE_MARGIN;
+  };
+
+  return {
+    /**
+     * Writes wrapped text
+     * @param text The text
+     * @param style The style
+     * @param indent Points the text is indented by
+     * @param color The text colour
+     */
+    write(text: string, style: TextStyle, indent = 0, color?: PdfColor) {
+      const { font, size } = TEXT_STYLES[style];
+      const lineHeight = size * 1.35;
+
+      wrapText(text, font, size, width - indent).forEach((line) => {
+        if (y + lineHeight > bottom) newPage();
+        y += lineHeight;
+        drawPdfText(page, line, PAGE_MARGIN + indent, y, font, size, color);
+      });
+    },
+    /**
+     * Leaves vertical space
+     * @param points The space
+     */
+    space(points: number) {
+      y += points;
+    },
+    /**
+     * Writes a heading, moving it to the next page when nothing fits under it
+     * @param text The heading
+     * @param style The style
+     */
+    heading(text: string, style: "heading" | "task") {
+      const { size } = TEXT_STYLES[style];
+      if (y + size * 4 > bottom) newPage();
+      this.space(size * 0.8);
+      this.write(text, style);
+      if (style === "heading") {
+        y += 4;
+        drawPdfLine(page, PAGE_MARGIN, y, PAGE_MARGIN + width, y, MUTED);
+        y += 2;
+      }
+    },
+  };
+};
+
+/**
+ * Draws the graph on landscape pages
+ * The first page holds the whole graph. Graphs too small to read there are
+ * also tiled across pages at a readable scale.
+ * @param document The document
+ * @param graph The picture of the graph
+ * @param title The workflow name
+ */
+const drawGraphPages = (
+  document: PdfDocument,
+  graph: WorkflowPdfGraph,
+  title: string
+) => {
+  const pageWidth = PDF_A4.height;
+  const pageHeight = PDF_A4.width;
+  const areaWidth = pageWidth - PAGE_MARGIN * 2;
+  const areaHeight = pageHeight - PAGE_MARGIN * 2;
+  const image = addPdfJpeg(
+    document,
+    graph.data,
+    graph.pixelWidth,
+    graph.pixelHeight
+  );
+
+  // One CSS pixel prints as three quarters of a point
+  const fitScale = Math.min(
+    areaWidth / graph.width,
+    areaHeight / graph.height,
+    0.75
+  );
+  const overview = addPdfPage(document, pageWidth, pageHeight);
+  drawPdfImage(
+    overview,
+    image,
+    PAGE_MARGIN + (areaWidth - graph.width * fitScale) / 2,
+    PAGE_MARGIN,
+    graph.width * fitScale,
+    graph.height * fitScale
+  );
+  if (fitScale >= MIN_GRAPH_SCALE) return;
+
+  const drawnWidth = graph.width * MIN_GRAPH_SCALE;
+  const drawnHeight = graph.height * MIN_GRAPH_SCALE;
+  const columns = Math.ceil(drawnWidth / areaWidth);
+  const rows = Math.ceil(drawnHeight / areaHeight);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const page = addPdfPage(document, pageWidth, pageHeight);
+      drawPdfImage(
+        page,
+        image,
+        PAGE_MARGIN - column * areaWidth,
+        PAGE_MARGIN - row * areaHeight,
+        drawnWidth,
+        drawnHeight,
+        { x: PAGE_MARGIN, y: PAGE_MARGIN, width: areaWidth, height: areaHeight }
+      );
+      drawPdfText(
+        page,
+        `${title}, row ${row + 1} of ${rows}, column ${
+          column + 1
+        } of ${columns}`,
+        PAGE_MARGIN,
+        pageHeight - PAGE_MARGIN / 2,
+        "regular",
+        8,
+        MUTED
+      );
+    }
+  }
+};
+
+/**
+ * Writes the appendix documenting the workflow and each of its tasks
+ * @param document The document
+ * @param doc The workflow documentation
+ */
+const writeAppendix = (document: PdfDocument, doc: WorkflowDoc) => {
+  const flow = createTextFlow(document);
+
+  flow.write(doc.name, "title");
+  if (doc.description) {
+    flow.space(4);
+    flow.write(doc.description, "body");
+  }
+
+  flow.heading("Parameters", "heading");
+  if (doc.parameters.length === 0) flow.write("None", "body", 0, MUTED);
+  doc.parameters.forEach((parameter) => {
+    flow.space(3);
+    flow.write(parameter.name, "label");
+    flow.write(
+      [
+        parameter.type || "any",
+        parameter.required ? "required" : "optional",
+        parameter.defaultValue !== undefined
+          ? `default ${formatDocValue(parameter.defaultValue)}`
+          : "",
+      ]
+        .filter(Boolean)
+        .join(", "),
+      "body",
+      10,
+      MUTED
+    );
+    if (parameter.description) flow.write(parameter.description, "body", 10);
+  });
+
+  flow.heading("Output", "heading");
+  if (doc.output.length === 0) flow.write("None", "body", 0, MUTED);
+  doc.output.forEach(({ key, value }) =>
+    flow.write(`${key}: ${formatDocValue(value)}`, "code")
+  );
+
+  flow.heading("Triggers", "heading");
+  if (doc.triggers.length === 0) flow.write("None", "body", 0, MUTED);
+  doc.triggers.forEach((trigger) => {
+    flow.space(3);
+    flow.write(trigger.name, "label");
+    flow.write(
+      `${trigger.type}, ${trigger.enabled ? "enabled" : "disabled"}`,
+      "body",
+      10,
+      MUTED
+    );
+    Object.entries(trigger.parameters).forEach(([key, value]) =>
+      flow.write(`${key}: ${formatDocValue(value)}`, "code", 10)
+    );
+  });
+
+  flow.heading("Tasks", "heading");
+  doc.tasks.forEach((task) => {
+    flow.heading(task.name, "task");
+    if (task.description) flow.write(task.description, "body");
+
+    const facts = [
+      task.subWorkflowName
+        ? `Runs workflow ${task.subWorkflowName}`
+        : `Action ${task.actionRef || "unknown"}`,
+      task.timeout ? `Timeout ${task.timeout}s` : "",
+    ].filter(Boolean);
+    flow.write(facts.join(", "), "body", 0, MUTED);
+
+    const inputs = Object.entries(task.inputs);
+    if (inputs.length > 0) {
+      flow.space(2);
+      flow.write("Inputs", "label");
+      inputs.forEach(([key, value]) =>
+        flow.write(`${key}: ${formatDocValue(value, 2)}`, "code", 10)
+      );
+    }
+
+    if (task.transitions.length > 0) {
+      flow.space(2);
+      flow.write("Transitions", "label");
+      task.transitions.forEach((transition, index) => {
+        flow.write(
+          `${index + 1}. ${transition.label || "Transition"} to ${
+            transition.targets.join(", ") || "nothing"
+          }`,
+          "body",
+          10
+        );
+        if (transition.condition) {
+          flow.write(`when ${transition.condition}`, "code", 20);
+        }
+        transition.publish.forEach(({ key, value }) =>
+          flow.write(`publish ${key}: ${value}`, "code", 20)
+        );
+      });
+    }
+  });
+};
+
+/**
+ * Creates the PDF documentation of a workflow
+ * The graph comes first, then an appendix with the workflow's parameters,
+ * output and triggers and the details of every task. Pages are numbered.
+ * @param doc The workflow documentation
+ * @param graph The picture of the graph, left out when missing
+ * @returns The PDF file
+ */
+export const createWorkflowPdf = (
+  doc: WorkflowDoc,
+  graph?: WorkflowPdfGraph
+): Uint8Array => {
+  const document = createPdfDocument(doc.name);
+
+  if (graph) drawGraphPages(document, graph, doc.name);
+  writeAppendix(document, doc);
+
+  document.pages.forEach((page, index) => {
+    const label = `${index + 1} / ${document.pages.length}`;
+    drawPdfText(
+      page,
+      label,
+      page.width - PAGE_MARGIN - measurePdfText(label, "regular", 8),
+      page.height - PAGE_MARGIN / 2,
+      "regular",
+      8,
+      MUTED
+    );
+  });
+
+  return serializePdf(document);
+};
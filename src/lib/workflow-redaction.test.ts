@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { WorkflowBundle } from "@/types/workflow";
+import { createStandaloneHtml } from "@/lib/standalone-html";
+import { REDACTED_VALUE, redactWorkflowBundle } from "@/lib/workflow-redaction";
+
+const SECRETS = [
+  "input-secret-body",
+  "input-secret-nested",
+  "mock-secret-customer",
+  "parameter-secret-default",
+  "trigger-secret-tenant",
+  "trigger-secret-payload",
+  "trigger-secret-var",
+  "trigger-secret-criteria",
+  "publish-secret-value",
+  "template-secret-body",
+];
+
+const bundle: WorkflowBundle = {
+  version: 2,
+  exportedAt: "2024-01-01T00:00:00Z",
+  objects: {
+    workflow: {
+      type: "workflow",
+      content_hash: "workflow-content",
+      hash: "workflow-hash",
+      fields: {
+        id: "workflow-id",
+        parameters: {
+          org_id: { type: "string", default: "parameter-secret-default" },
+        },
+        tasks: [
+          {
+            id: "task-1",
+            type: "STANDARD",
+            name: "send_email",
+            input: {
+              body: "input-secret-body",
+              options: { cc: ["input-secret-nested"] },
+            },
+            mockInput: { customer: "mock-secret-customer" },
+            next: [
+              {
+                id: "transition-1",
+                do: ["task-2"],
+                publish: [{ key: "channel", value: "publish-secret-value" }],
+              },
+            ],
+          },
+          { id: "task-2", type: "STANDARD", name: "end" },
+        ],
+      },
+      nonfunctional_fields: { name: "Onboard user" },
+    },
+    trigger: {
+      type: "trigger",
+      content_hash: "trigger-content",
+      hash: "trigger-hash",
+      fields: {
+        workflowId: "workflow",
+        parameters: {
+          tenantId: "trigger-secret-tenant",
+          payload: { sample: "trigger-secret-payload" },
+        },
+        vars: [{ key: "tenant", value: "trigger-secret-var" }],
+        criteria: { condition: { equals: "trigger-secret-criteria" } },
+      },
+      nonfunctional_fields: { name: "Webhook" },
+    },
+    template: {
+      type: "template",
+      content_hash: "template-content",
+      hash: "template-hash",
+      fields: {
+        body: "<p>template-secret-body</p>",
+        contentType: "text/html",
+        language: "jinja",
+      },
+    },
+  },
+};
+
+describe("redactWorkflowBundle", () => {
+  it("leaves none of the original values in a redacted export", () => {
+    const html = createStandaloneHtml({
+      bundle: redactWorkflowBundle(bundle),
+      title: "Onboard user",
+      isRedacted: true,
+      scripts: [],
+      styles: [],
+      theme: "light",
+    });
+
+    SECRETS.forEach((secret) => expect(html).not.toContain(secret));
+  });
+
+  it("keeps the keys of the redacted values and the graph", () => {
+    const redacted = redactWorkflowBundle(bundle);
+    const [task, end] = redacted.objects.workflow.fields.tasks || [];
+
+    expect(task.input).toEqual({
+      body: REDACTED_VALUE,
+      options: REDACTED_VALUE,
+    });
+    expect(task.mockInput).toEqual({ customer: REDACTED_VALUE });
+    expect(task.next).toEqual([
+      {
+        id: "transition-1",
+        do: ["task-2"],
+        publish: [{ key: "channel", value: REDACTED_VALUE }],
+      },
+    ]);
+    expect(end).toEqual({ id: "task-2", type: "STANDARD", name: "end" });
+    expect(redacted.objects.trigger.fields.parameters).toEqual({
+      tenantId: REDACTED_VALUE,
+      payload: REDACTED_VALUE,
+    });
+    expect(redacted.objects.template.fields).toEqual({
+      body: REDACTED_VALUE,
+      contentType: "text/html",
+      language: "jinja",
+    });
+  });
+
+  it("leaves the original bundle unchanged", () => {
+    redactWorkflowBundle(bundle);
+
+    expect(bundle.objects.trigger.fields.parameters).toMatchObject({
+      tenantId: "trigger-secret-tenant",
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { WorkflowBundle, WorkflowObject } from "@/types/workflow";
+
+/**
+ * Value written in place of redacted values
+ */
+export const REDACTED_VALUE = "[redacted]";
+
+/**
+ * Template fields kept when redacting, as they describe the template rather
+ * than hold its content
+ */
+const KEPT_TEMPLATE_FIELDS = new Set(["id", "contentType", "language"]);
+
+/**
+ * Checks whether a value holds nothing worth redacting
+ * @param value The value
+ * @returns true for null, empty strings and empty arrays or objects
+ */
+const isEmptyValue = (value: unknown): boolean =>
+  value === null ||
+  value === undefined ||
+  value === "" ||
+  (typeof value === "object" && Object.keys(value).length === 0);
+
+/**
+ * Replaces the values of a record, keeping its keys so the fields set are
+ * still listed. Empty values are kept as they are.
+ * @param values The record
+ * @returns The record with its values replaced
+ */
+const redactValues = (
+  values: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      isEmptyValue(value) ? value : REDACTED_VALUE,
+    ])
+  );
+
+/**
+ * Replaces a value, keeping the keys of a record and the entries of a list
+ * @param value The value
+ * @returns The redacted value
+ */
+const redactValue = (value: unknown): unknown => {
+  if (isEmptyValue(value)) return value;
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (typeof value === "object") {
+    return redactValues(value as Record<string, unknown>);
+  }
+  return REDACTED_VALUE;
+};
+
+/**
+ * Redacts the input and mock input values of the tasks of a workflow, and the
+ * values their transitions publish
+ * @param workflow The workflow
+ * @returns The workflow with the values of its task inputs replaced
+ */
+const redactTaskInputs = (workflow: WorkflowObject): WorkflowObject => ({
+  ...workflow,
+  fields: {
+    ...workflow.fields,
+    tasks: workflow.fields.tasks?.map((task) =>
+      task?.input || task?.mockInput || task?.next
+        ? {
+            ...task,
+            ...(task.input && { input: redactValues(task.input) }),
+            ...(task.mockInput && { mockInput: redactValues(task.mockInput) }),
+            ...(task.next && {
+              next: task.next.map((transition) =>
+                transition?.publish
+                  ? {
+                      ...transition,
+                      publish: transition.publish.map((entry) => ({
+                        ...entry,
+                        value: REDACTED_VALUE,
+                      })),
+                    }
+                  : transition
+              ),
+            }),
+          }
+        : task
+    ),
+  },
+});
+
+/**
+ * Redacts the parameter defaults of a workflow
+ * @param workflow The workflow
+ * @returns The workflow with the defaults of its parameters replaced
+ */
+const redactParameterDefaults = (workflow: WorkflowObject): WorkflowObject => {
+  const parameters = workflow.fields.parameters;
+  if (!parameters || typeof parameters !== "object") return workflow;
+
+  return {
+    ...workflow,
+    fields: {
+      ...workflow.fields,
+      parameters: Object.fromEntries(
+        Object.entries(parameters as Record<string, unknown>).map(
+          ([name, parameter]) =>
+            parameter &&
+            typeof parameter === "object" &&
+            "default" in parameter &&
+            (parameter as Record<string, unknown>).default !== ""
+              ? [name, { ...parameter, default: REDACTED_VALUE }]
+              : [name, parameter]
+        )
+      ),
+    },
+  };
+};
+
+/**
+ * Redacts the parameter values of a trigger, like tenant IDs, and its
+ * variables and criteria
+ * @param trigger The trigger
+ * @returns The trigger with those values replaced
+ */
+const redactTriggerParameters = (trigger: WorkflowObject): WorkflowObject => {
+  const { parameters, vars, criteria } = trigger.fields;
+
+  return {
+    ...trigger,
+    fields: {
+      ...trigger.fields,
+      ...(parameters !== undefined && { parameters: redactValue(parameters) }),
+      ...(vars !== undefined && { vars: redactValue(vars) }),
+      ...(criteria !== undefined && { criteria: redactValue(criteria) }),
+    },
+  };
+};
+
+/**
+ * Redacts the content of a template, like an email body
+ * @param template The template
+ * @returns The template with its content replaced
+ */
+const redactTemplate = (template: WorkflowObject): WorkflowObject => ({
+  ...template,
+  fields: Object.fromEntries(
+    Object.entries(template.fields).map(([key, value]) => [
+      key,
+      KEPT_TEMPLATE_FIELDS.has(key) ? value : redactValue(value),
+    ])
+  ),
+});
+
+/**
+ * Redacts the values a bundle could leak when shared: the input and mock
+ * input values of every task, the values its transitions publish, the
+ * defaults of every workflow parameter, the parameters, variables and
+ * criteria of every trigger and the content of every template
+ * Task names, actions, transitions, conditions and publish keys are kept, so
+ * the graph reads the same.
+ * @param bundle The bundle
+ * @returns A copy of the bundle with the values redacted
+ */
+export const redactWorkflowBundle = (
+  bundle: WorkflowBundle
+): WorkflowBundle => ({
+  ...bundle,
+  objects: Object.fromEntries(
+    Object.entries(bundle.objects).map(([key, object]) => [
+      key,
+      object.type === "workflow"
+        ? redactParameterDefaults(redactTaskInputs(object))
+        : object.type === "trigger"
+        ? redactTriggerParameters(object)
+        : object.type === "template"
+        ? redactTemplate(object)
+        : object,
+    ])
+  ),
+});
@@ -0,0 +1,274 @@
+import { NormalizedWorkflowBundle, Task } from "@/types/workflow";
+
+/**
+ * Part of a task, or trigger, a search entry was taken from
+ */
+export type SearchField =
+  | "name"
+  | "description"
+  | "action"
+  | "input"
+  | "condition"
+  | "publish"
+  | "trigger";
+
+/**
+ * Where a search entry sits inside a task
+ */
+export interface SearchMatchLocation {
+  field: SearchField;
+  /** Input key for inputs, published key for publish entries */
+  key?: string;
+  /** Index of the transition in the task's `next` array */
+  transitionIndex?: number;
+}
+
+/**
+ * A searchable string of the bundle
+ */
+export interface SearchEntry extends SearchMatchLocation {
+  workflowId: string;
+  workflowName: string;
+  /** ID of the task, unset for triggers */
+  taskId?: string;
+  taskName?: string;
+  /** The searched string */
+  text: string;
+}
+
+/**
+ * An entry matching a query
+ */
+export interface SearchResult {
+  entry: SearchEntry;
+  score: number;
+  /** Start of the first match in the entry text, -1 if only the key matched */
+  matchStart: number;
+  matchEnd: number;
+}
+
+/**
+ * A search result picked to be shown on the canvas
+ */
+export interface SearchTarget extends SearchMatchLocation {
+  workflowId: string;
+  taskId?: string;
+}
+
+/**
+ * Display labels of the searched fields
+ */
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: "Task name",
+  description: "Description",
+  action: "Action",
+  input: "Input",
+  condition: "Condition",
+  publish: "Publish",
+  trigger: "Trigger",
+};
+
+/**
+ * Ranking bonus of each field, so names come before the inputs using them
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 8,
+  trigger: 6,
+  action: 5,
+  publish: 4,
+  description: 3,
+  condition: 2,
+  input: 1,
+};
+
+/**
+ * Largest number of results returned by default
+ */
+export const DEFAULT_SEARCH_LIMIT = 50;
+
+/**
+ * Converts a value to the string searched for it
+ * @param value The value
+ * @returns The string, empty for null and undefined
+ */
+const toSearchText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Collects the searchable strings of a task
+ * @param task The task
+ * @param description The description kept beside the task in the workflow
+ * @returns The entries, without the workflow fields
+ */
+const indexTask = (
+  task: Task,
+  description: string | undefined
+): Array<SearchMatchLocation & { text: string }> => {
+  const entries: Array<SearchMatchLocation & { text: string }> = [
+    { field: "name", text: task.name || task.id },
+  ];
+
+  const taskDescription = description || task.description;
+  if (taskDescription) {
+    entries.push({ field: "description", text: taskDescription });
+  }
+  if (task.action?.ref) {
+    entries.push({ field: "action", text: task.action.ref });
+  }
+
+  Object.entries(task.input || {}).forEach(([key, value]) => {
+    const text = toSearchText(value);
+    if (text) entries.push({ field: "input", key, text });
+  });
+
+  (task.next || []).forEach((transition, transitionIndex) => {
+    if (transition.when) {
+      entries.push({
+        field: "condition",
+        transitionIndex,
+        text: transition.when,
+      });
+    }
+    (transition.publish || []).forEach((publish) => {
+      entries.push({
+        field: "publish",
+        key: publish.key,
+        transitionIndex,
+        text: publish.key,
+      });
+    });
+  });
+
+  return entries;
+};
+
+/**
+ * Builds the search index of every workflow of a bundle
+ * Task names, descriptions, action refs, input values, `when` conditions,
+ * publish keys and trigger names are indexed.
+ * @param bundle The normalized bundle
+ * @returns The searchable entries
+ */
+export const buildSearchIndex = (
+  bundle: NormalizedWorkflowBundle
+): SearchEntry[] => {
+  const entries: SearchEntry[] = [];
+  const workflowNames = new Map<string, string>();
+
+  Object.entries(bundle.objects)
+    .filter(([, object]) => object?.type === "workflow")
+    .forEach(([key, workflow]) => {
+      const workflowId = workflow.fields.id || key;
+      const workflowName = workflow.nonfunctional_fields?.name || "Workflow";
+      workflowNames.set(workflowId, workflowName);
+
+      (workflow.fields.tasks || []).forEach((task, index) => {
+        if (!task?.id) return;
+
+        const description = workflow.nonfunctional_fields?.[
+          `tasks[${index}].description`
+        ] as string | undefined;
+        indexTask(task, description).forEach((entry) =>
+          entries.push({
+            ...entry,
+            workflowId,
+            workflowName,
+            taskId: task.id,
+            taskName: task.name || task.id,
+          })
+        );
+      });
+    });
+
+  Object.values(bundle.objects)
+    .filter((object) => object?.type === "trigger")
+    .forEach((trigger) => {
+      const workflowId = trigger.fields.workflowId as string;
+      const workflowName = workflowNames.get(workflowId);
+      if (!workflowName) return;
+
+      entries.push({
+        field: "trigger",
+        workflowId,
+        workflowName,
+        text: trigger.nonfunctional_fields?.name || "Trigger",
+      });
+    });
+
+  return entries;
+};
+
+/**
+ * Scores how well a query matches a string
+ * @param text The lowercased string
+ * @param query The lowercased query
+ * @returns The score, 0 when the query isn't in the string
+ */
+const scoreText = (text: string, query: string): number => {
+  if (text === query) return 100;
+  if (text.startsWith(query)) return 50;
+
+  const index = text.indexOf(query);
+  if (index < 0) return 0;
+  return /[a-z0-9]/.test(text[index - 1]) ? 10 : 25;
+};
+
+/**
+ * Searches the index for entries matching every word of a query
+ * Words may match the entry text or its input or publish key. Results are
+ * ranked by match quality and field.
+ * @param index The search index
+ * @param query The query
+ * @param limit Largest number of results
+ * @returns The matching entries, best first
+ */
+export const searchIndex = (
+  index: SearchEntry[],
+  query: string,
+  limit = DEFAULT_SEARCH_LIMIT
+): SearchResult[] => {
+  const normalizedQuery = query.trim().toLowerCase();
+  if (!normalizedQuery) return [];
+  const terms = normalizedQuery.split(/\s+/);
+
+  const results: SearchResult[] = [];
+  index.forEach((entry) => {
+    const text = entry.text.toLowerCase();
+    const key = (entry.key || "").toLowerCase();
+
+    if (!terms.every((term) => text.includes(term) || key.includes(term)))
+      return;
+
+    const phraseScore = scoreText(text, normalizedQuery);
+    const termScore = terms.reduce(
+      (total, term) => total + scoreText(text, term) / terms.length,
+      0
+    );
+    const score =
+      Math.max(phraseScore, termScore) +
+      FIELD_WEIGHTS[entry.field] -
+      Math.min(entry.text.length / 100, 5);
+
+    const matchTerm = phraseScore > 0 ? normalizedQuery : terms[0];
+    const matchStart = text.indexOf(matchTerm);
+    results.push({
+      entry,
+      score,
+      matchStart,
+      matchEnd: matchStart < 0 ? -1 : matchStart + matchTerm.length,
+    });
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.entry.workflowName.localeCompare(b.entry.workflowName) ||
+        (a.entry.taskName || "").localeCompare(b.entry.taskName || "")
+    )
+    .slice(0, limit);
+};
@@ -0,0 +1,532 @@
+import { Task, WorkflowObject } from "@/types/workflow";
+import { findStartTask } from "@/lib/workflow-graph";
+import {
+  JinjaScope,
+  containsJinja,
+  evaluateTemplate,
+  isTruthy,
+} from "@/lib/jinja";
+
+/**
+ * Transition modes a task can use
+ * - `FOLLOW_ALL`: every transition whose condition holds is followed
+ * - `FOLLOW_FIRST`: only the first transition whose condition holds
+ */
+export type TransitionMode = "FOLLOW_ALL" | "FOLLOW_FIRST";
+
+/**
+ * Outcome of a simulated task run
+ */
+export type SimulatedTaskStatus = "succeeded" | "failed";
+
+/**
+ * A problem met while simulating, e.g. a condition that doesn't evaluate
+ */
+export interface SimulationIssue {
+  taskId: string;
+  taskName?: string;
+  /** ID of the workflow the task belongs to */
+  workflowId: string;
+  /** Location of the expression, e.g. `next[0].when` */
+  location: string;
+  message: string;
+}
+
+/**
+ * How a transition of a simulated task was evaluated
+ */
+export interface SimulatedTransition {
+  transitionIndex: number;
+  label?: string;
+  when?: string;
+  /** true when the condition held and the transition was followed */
+  taken: boolean;
+  /** Tasks scheduled by the transition */
+  targets: string[];
+  /** CTX keys published by the transition */
+  published: string[];
+}
+
+/**
+ * A single task run in the simulation
+ */
+export interface SimulationStep {
+  taskId: string;
+  taskName?: string;
+  /** ID of the workflow the task belongs to */
+  workflowId: string;
+  /** Sub-workflow nesting depth, 0 for the simulated workflow */
+  depth: number;
+  status: SimulatedTaskStatus;
+  /** The mocked task result */
+  result: unknown;
+  transitions: SimulatedTransition[];
+  /** CTX before the task ran */
+  contextBefore: Record<string, unknown>;
+  /** CTX after the task's result and publishes were applied */
+  contextAfter: Record<string, unknown>;
+}
+
+/**
+ * A transition followed during the simulation
+ */
+export interface SimulatedEdge {
+  source: string;
+  target: string;
+  transitionIndex: number;
+  workflowId: string;
+  /** Index of the step that followed the transition */
+  stepIndex: number;
+}
+
+/**
+ * A join that never got enough incoming transitions to run
+ */
+export interface PendingJoin {
+  taskId: string;
+  taskName?: string;
+  workflowId: string;
+  arrived: number;
+  required: number;
+}
+
+/**
+ * Result of simulating a workflow
+ */
+export interface SimulationResult {
+  steps: SimulationStep[];
+  edges: SimulatedEdge[];
+  pendingJoins: PendingJoin[];
+  issues: SimulationIssue[];
+  /** CTX at the end of the simulation */
+  context: Record<string, unknown>;
+  /** true when the run was cut off after `maxSteps` */
+  truncated: boolean;
+}
+
+/**
+ * Options for the simulation
+ */
+export interface SimulationOptions {
+  /** CTX values at the start, on top of the parameter defaults */
+  context?: Record<string, unknown>;
+  /** Task results by task name or ID, overriding `mockInput.mock_result` */
+  results?: Record<string, unknown>;
+  /** Names or IDs of tasks to simulate as failed */
+  failedTasks?: string[];
+  /** Values for `ORG` lookups */
+  org?: Record<string, unknown>;
+  /** Upper bound on task runs, guarding against loops */
+  maxSteps?: number;
+  /** Finds the workflow a sub-workflow task calls, by its ID */
+  resolveWorkflow?: (workflowId: string) => WorkflowObject | undefined;
+}
+
+/**
+ * Default upper bound on task runs
+ */
+export const DEFAULT_MAX_SIMULATION_STEPS = 200;
+
+/**
+ * Gets the transition mode of a task
+ * @param task The task
+ * @returns The mode, FOLLOW_ALL unless the task says otherwise
+ */
+export const getTransitionMode = (task: Task): TransitionMode =>
+  task.transitionMode === "FOLLOW_FIRST" ? "FOLLOW_FIRST" : "FOLLOW_ALL";
+
+/**
+ * Gets the mocked result of a task
+ * @param task The task
+ * @param results Results by task name or ID, taking precedence
+ * @returns The result, an empty object when nothing is mocked
+ */
+export const getMockResult = (
+  task: Task,
+  results: Record<string, unknown> = {}
+): unknown => {
+  if (task.name && task.name in results) return results[task.name];
+  if (task.id in results) return results[task.id];
+  return task.mockInput?.mock_result ?? {};
+};
+
+/**
+ * Gets the starting CTX of a workflow from its parameter defaults
+ * @param workflow The workflow object
+ * @returns CTX with every parameter that has a default
+ */
+export const getParameterDefaults = (
+  workflow: WorkflowObject
+): Record<string, unknown> => {
+  const parameters = workflow.fields.parameters;
+  if (!parameters || typeof parameters !== "object") return {};
+
+  return Object.fromEntries(
+    Object.entries(parameters as Record<string, unknown>)
+      .filter(
+        ([, parameter]) =>
+          parameter &&
+          typeof parameter === "object" &&
+          "default" in parameter &&
+          (parameter as { default: unknown }).default !== ""
+      )
+      .map(([key, parameter]) => [
+        key,
+        (parameter as { default: unknown }).default,
+      ])
+  );
+};
+
+/**
+ * Evaluates a value from the bundle, leaving strings without Jinja as-is
+ * @param value The value
+ * @param scope The variables in scope
+ * @returns The evaluated value
+ */
+const evaluateValue = (value: unknown, scope: JinjaScope): unknown =>
+  typeof value === "string" && containsJinja(value)
+    ? evaluateTemplate(value, scope)
+    : value;
+
+/**
+ * Maximum depth of nested sub-workflow runs, guarding against recursion
+ */
+const MAX_SUB_WORKFLOW_DEPTH = 5;
+
+/**
+ * State shared by a run and the sub-workflow runs nested in it
+ */
+interface SimulationRun {
+  options: SimulationOptions;
+  failedTasks: Set<string>;
+  maxSteps: number;
+  steps: SimulationStep[];
+  edges: SimulatedEdge[];
+  issues: SimulationIssue[];
+  pendingJoins: PendingJoin[];
+  truncated: boolean;
+}
+
+/**
+ * Evaluates the output of a finished sub-workflow run
+ * @param workflow The sub-workflow
+ * @param context Its CTX at the end of the run
+ * @returns The output entries merged into one object
+ */
+const evaluateOutput = (
+  workflow: WorkflowObject,
+  context: Record<string, unknown>
+): Record<string, unknown> => {
+  const output = workflow.fields.output;
+  const entries = Array.isArray(output) ? output : output ? [output] : [];
+
+  return Object.assign(
+    {},
+    ...entries.map((entry: Record<string, unknown>) =>
+      Object.fromEntries(
+        Object.entries(entry).map(([key, value]) => [
+          key,
+          evaluateValue(value, { CTX: context }),
+        ])
+      )
+    )
+  );
+};
+
+/**
+ * Runs one workflow, appending its steps (and those of the sub-workflows it
+ * calls) to the shared run
+ * @param workflow The workflow to run
+ * @param initialContext CTX at the start of the workflow
+ * @param depth Nesting depth, 0 for the simulated workflow itself
+ * @param run The shared run state
+ * @returns CTX at the end of the workflow
+ */
+const runWorkflow = (
+  workflow: WorkflowObject,
+  initialContext: Record<string, unknown>,
+  depth: number,
+  run: SimulationRun
+): Record<string, unknown> => {
+  const { options, failedTasks, steps, edges, issues } = run;
+  const workflowId = workflow.fields.id || "";
+  const tasks: Task[] = workflow.fields.tasks || [];
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const taskResults: Record<string, { result: unknown }> = {};
+  let context = initialContext;
+
+  const startTask = findStartTask(tasks);
+  const queue: string[] = startTask ? [startTask.id] : [];
+  const arrivals = new Map<string, number>();
+  const joined = new Set<string>();
+
+  while (queue.length > 0) {
+    if (steps.length >= run.maxSteps) {
+      run.truncated = true;
+      break;
+    }
+
+    const task = tasksById.get(queue.shift() as string);
+    if (!task) continue;
+
+    const status: SimulatedTaskStatus =
+      failedTasks.has(task.id) || (task.name && failedTasks.has(task.name))
+        ? "failed"
+        : "succeeded";
+    const contextBefore = context;
+    const stepIndex = steps.length;
+
+    const report = (location: string, error: unknown) =>
+      issues.push({
+        taskId: task.id,
+        taskName: task.name,
+        workflowId,
+        location,
+        message: error instanceof Error ? error.message : String(error),
+      });
+
+    // The step goes in before any sub-workflow steps, its result comes after
+    const step: SimulationStep = {
+      taskId: task.id,
+      taskName: task.name,
+      workflowId,
+      depth,
+      status,
+      result: null,
+      transitions: [],
+      contextBefore,
+      contextAfter: contextBefore,
+    };
+    steps.push(step);
+
+    let result: unknown = null;
+    if (status === "succeeded") {
+      const subWorkflow = task.action?.workflow_id
+        ? options.resolveWorkflow?.(task.action.workflow_id)
+        : undefined;
+      const overridden =
+        (task.name && task.name in (options.results || {})) ||
+        task.id in (options.results || {});
+
+      if (subWorkflow && !overridden && depth < MAX_SUB_WORKFLOW_DEPTH) {
+        // Step into the sub-workflow with the task input as its CTX
+        const input = Object.fromEntries(
+          Object.entries(task.input || {}).map(([key, value]) => {
+            try {
+              return [
+                key,
+                evaluateValue(value, {
+                  CTX: context,
+                  TASKS: taskResults,
+                  ORG: options.org || {},
+                }),
+              ];
+            } catch (error) {
+              report(`input.${key}`, error);
+              return [key, undefined];
+            }
+          })
+        );
+        const subContext = runWorkflow(
+          subWorkflow,
+          { ...getParameterDefaults(subWorkflow), ...input },
+          depth + 1,
+          run
+        );
+        result = evaluateOutput(subWorkflow, subContext);
+      } else {
+        result = getMockResult(task, options.results);
+      }
+    }
+
+    context = { ...context };
+    if (task.publishResultAs && status === "succeeded") {
+      context[task.publishResultAs] = result;
+    }
+    if (task.name) taskResults[task.name] = { result };
+
+    const transitions: SimulatedTransition[] = [];
+    const mode = getTransitionMode(task);
+    let followed = false;
+
+    (task.next || []).forEach((transition, transitionIndex) => {
+      const scope: JinjaScope = {
+        CTX: context,
+        RESULT: { result },
+        TASKS: taskResults,
+        ORG: options.org || {},
+        SUCCEEDED: status === "succeeded",
+        FAILED: status === "failed",
+      };
+
+      let taken = !(mode === "FOLLOW_FIRST" && followed);
+      if (taken && transition.when) {
+        try {
+          taken = isTruthy(evaluateValue(transition.when, scope));
+        } catch (error) {
+          report(`next[${transitionIndex}].when`, error);
+          taken = false;
+        }
+      }
+
+      const published: string[] = [];
+      const targets = taken ? transition.do || [] : [];
+
+      if (taken) {
+        followed = true;
+        // Later publishes see earlier ones from the same transition
+        (transition.publish || []).forEach((entry) => {
+          try {
+            context[entry.key] = evaluateValue(entry.value, scope);
+            published.push(entry.key);
+          } catch (error) {
+            report(`next[${transitionIndex}].publish.${entry.key}`, error);
+          }
+        });
+
+        targets.forEach((target) => {
+          const targetTask = tasksById.get(target);
+          if (!targetTask) return;
+          edges.push({
+            source: task.id,
+            target,
+            transitionIndex,
+            workflowId,
+            stepIndex,
+          });
+
+          // Joins wait for the required number of incoming transitions
+          const required = targetTask.join || 0;
+          if (required > 0) {
+            const arrived = (arrivals.get(target) || 0) + 1;
+            arrivals.set(target, arrived);
+            if (arrived >= required && !joined.has(target)) {
+              joined.add(target);
+              queue.push(target);
+            }
+          } else {
+            queue.push(target);
+          }
+        });
+      }
+
+      transitions.push({
+        transitionIndex,
+        label: transition.label,
+        when: transition.when,
+        taken,
+        targets,
+        published,
+      });
+    });
+
+    step.result = result;
+    step.transitions = transitions;
+    step.contextAfter = context;
+  }
+
+  arrivals.forEach((arrived, taskId) => {
+    if (joined.has(taskId)) return;
+    run.pendingJoins.push({
+      taskId,
+      taskName: tasksById.get(taskId)?.name,
+      workflowId,
+      arrived,
+      required: tasksById.get(taskId)?.join || 0,
+    });
+  });
+
+  return context;
+};
+
+/**
+ * Simulates a run of a workflow without executing anything
+ *
+ * Starting from the start task, each task "runs" by returning its mocked
+ * result, which is published to CTX under `publishResultAs`. Its transitions
+ * are then evaluated in order against CTX and the result: `when` conditions
+ * decide which are followed, taken transitions publish their values and
+ * schedule their targets. `FOLLOW_FIRST` tasks stop at the first transition
+ * taken. A task with a `join` count only runs once that many transitions
+ * have arrived at it.
+ *
+ * Tasks that call a sub-workflow found through `resolveWorkflow` run it with
+ * their evaluated input as CTX, its steps following the calling task's step
+ * one level deeper, and get its evaluated output as result.
+ *
+ * Conditions that fail to evaluate are reported and treated as false.
+ *
+ * @param workflow The normalized workflow object
+ * @param options Starting CTX, result overrides and failures
+ * @returns The steps taken, the transitions followed and any problems
+ */
+export const simulateWorkflow = (
+  workflow: WorkflowObject,
+  options: SimulationOptions = {}
+): SimulationResult => {
+  const run: SimulationRun = {
+    options,
+    failedTasks: new Set(options.failedTasks || []),
+    maxSteps: options.maxSteps ?? DEFAULT_MAX_SIMULATION_STEPS,
+    steps: [],
+    edges: [],
+    issues: [],
+    pendingJoins: [],
+    truncated: false,
+  };
+
+  const context = runWorkflow(
+    workflow,
+    { ...getParameterDefaults(workflow), ...options.context },
+    0,
+    run
+  );
+
+  return {
+    steps: run.steps,
+    edges: run.edges,
+    pendingJoins: run.pendingJoins,
+    issues: run.issues,
+    context,
+    truncated: run.truncated,
+  };
+};
+
+/**
+ * Finds the step a debugger lands on when stepping over the current one
+ * Stepping over a task that called a sub-workflow skips the sub-workflow's
+ * steps.
+ * @param steps The steps of the run
+ * @param current Index of the current step, -1 before the first
+ * @returns Index of the next step at the same or a shallower depth, or
+ * `steps.length` when the run ends first
+ */
+export const findStepOverTarget = (
+  steps: SimulationStep[],
+  current: number
+): number => {
+  if (current < 0) return 0;
+  const depth = steps[current]?.depth ?? 0;
+  const next = steps.findIndex(
+    (step, index) => index > current && step.depth <= depth
+  );
+  return next === -1 ? steps.length : next;
+};
+
+/**
+ * Finds the next step on a task with a breakpoint
+ * @param steps The steps of the run
+ * @param current Index of the current step, -1 before the first
+ * @param breakpoints IDs of the tasks with a breakpoint
+ * @returns Index of the step, or `steps.length` when none is hit
+ */
+export const findNextBreakpoint = (
+  steps: SimulationStep[],
+  current: number,
+  breakpoints: Set<string>
+): number => {
+  const next = steps.findIndex(
+    (step, index) => index > current && breakpoints.has(step.taskId)
+  );
+  return next === -1 ? steps.length : next;
+};
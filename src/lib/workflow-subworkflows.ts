@@ -0,0 +1,155 @@
+import {
+  NormalizedWorkflowBundle,
+  Task,
+  WorkflowObject,
+} from "@/types/workflow";
+import { findReference, isPlaceholder } from "@/lib/workflow-normalization";
+
+/**
+ * Where a task's sub-workflow call was read from
+ * - `workflow-id`: the task's `action.workflow_id`, set by Rewst when a task
+ *   runs a workflow
+ * - `action-input`: the workflow input of a `core.workflow`-style action
+ */
+export type SubWorkflowLinkSource = "workflow-id" | "action-input";
+
+/**
+ * How sure the link is about the called workflow
+ * - `bundled`: the called workflow is part of the bundle
+ * - `external`: the called workflow is known, but not part of the bundle
+ * - `dynamic`: the workflow is picked at runtime by a Jinja template
+ */
+export type SubWorkflowLinkConfidence = "bundled" | "external" | "dynamic";
+
+/**
+ * A task that runs another workflow
+ */
+export interface SubWorkflowLink {
+  /**
+   * ID of the called workflow, its `fields.id` when bundled
+   * Undefined when the workflow is picked at runtime.
+   */
+  workflowId?: string;
+  source: SubWorkflowLinkSource;
+  confidence: SubWorkflowLinkConfidence;
+}
+
+/**
+ * Refs of actions that run the workflow named in their input
+ */
+const WORKFLOW_ACTION_REFS = new Set([
+  "core.workflow",
+  "core.run_workflow",
+  "core.subworkflow",
+]);
+
+/**
+ * Input keys `core.workflow`-style actions name the workflow with
+ */
+const WORKFLOW_INPUT_KEYS = ["workflow_id", "workflowId", "workflow"];
+
+/**
+ * Finds the ID of a bundled workflow from its key or ID
+ * @param id The key or `fields.id` of the workflow
+ * @param bundle The normalized bundle
+ * @returns The workflow's ID or null if it is not bundled
+ */
+const findBundledWorkflowId = (
+  id: string,
+  bundle: NormalizedWorkflowBundle
+): string | null => {
+  const byKey = bundle.objects[id];
+  if (byKey?.type === "workflow") return byKey.fields.id || id;
+
+  const byId = Object.values(bundle.objects).find(
+    (obj) => obj.type === "workflow" && obj.fields.id === id
+  );
+  return byId ? id : null;
+};
+
+/**
+ * Resolves the value naming a called workflow
+ * Placeholders left by normalization point at workflows that weren't bundled,
+ * their reference still identifies the workflow.
+ * @param value The workflow ID, key or placeholder
+ * @param scope The workflow containing the task
+ * @param bundle The normalized bundle
+ * @returns The called workflow and how sure that is, or null for no value
+ */
+const resolveTarget = (
+  value: unknown,
+  scope: WorkflowObject | null,
+  bundle: NormalizedWorkflowBundle
+): Pick<SubWorkflowLink, "workflowId" | "confidence"> | null => {
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const bundled = findBundledWorkflowId(value, bundle);
+  if (bundled) return { workflowId: bundled, confidence: "bundled" };
+
+  if (value.includes("{{") || value.includes("{%")) {
+    return { confidence: "dynamic" };
+  }
+
+  if (isPlaceholder(value)) {
+    const reference = findReference(value.slice(3, -3), scope, bundle);
+    return reference
+      ? {
+          workflowId: `${reference.type}:${reference.src_key_hash}`,
+          confidence: "external",
+        }
+      : null;
+  }
+
+  return { workflowId: value, confidence: "external" };
+};
+
+/**
+ * Finds the workflow a task runs, from the references in the bundle
+ * Tasks run a workflow when their action has a `workflow_id`, or when their
+ * action is a `core.workflow`-style action naming the workflow in its input.
+ * Task names and other input are never used to guess.
+ * @param task The task
+ * @param scope The workflow containing the task
+ * @param bundle The normalized bundle
+ * @returns The link or null if the task doesn't run a workflow
+ */
+export const resolveSubWorkflow = (
+  task: Task,
+  scope: WorkflowObject | null,
+  bundle: NormalizedWorkflowBundle
+): SubWorkflowLink | null => {
+  const byWorkflowId = resolveTarget(task.action?.workflow_id, scope, bundle);
+  if (byWorkflowId) return { ...byWorkflowId, source: "workflow-id" };
+
+  const ref = task.action?.ref;
+  if (!ref || !WORKFLOW_ACTION_REFS.has(ref.toLowerCase())) return null;
+
+  const inputKey = WORKFLOW_INPUT_KEYS.find((key) => task.input?.[key]);
+  const byInput = inputKey
+    ? resolveTarget(task.input?.[inputKey], scope, bundle)
+    : null;
+
+  // The action runs a workflow even when its input doesn't say which
+  return { confidence: "dynamic", ...byInput, source: "action-input" };
+};
+
+/**
+ * Describes how a sub-workflow link was established, for tooltips
+ * @param link The link
+ * @returns A short description
+ */
+export const describeSubWorkflowLink = (link: SubWorkflowLink): string => {
+  const source =
+    link.source === "workflow-id"
+      ? "the task's workflow reference"
+      : "the workflow action's input";
+
+  switch (link.confidence) {
+    case "bundled":
+      return `Runs a workflow of this bundle, from ${source}`;
+    case "external":
+      return `Runs a workflow that is not in this bundle, from ${source}`;
+    default:
+      return `Runs a workflow picked at runtime, from ${source}`;
+  }
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { validateWorkflowBundle } from "@/lib/workflow-validation";
+
+const createBundle = (
+  tasks: unknown[],
+  objects: Record<string, unknown> = {}
+) => ({
+  version: 2,
+  exportedAt: "2024-01-01T00:00:00Z",
+  objects: {
+    workflow: {
+      type: "workflow",
+      content_hash: "workflow-content",
+      hash: "workflow-hash",
+      fields: { id: "workflow-id", tasks },
+    },
+    ...objects,
+  },
+});
+
+const WORKFLOW_PATH = '$.objects["workflow"]';
+
+describe("validateWorkflowBundle", () => {
+  it("reports transition targets that are not an array", () => {
+    const report = validateWorkflowBundle(
+      createBundle([
+        { id: "t1", name: "start", next: [{ do: "t2" }] },
+        { id: "t2", name: "end" },
+      ])
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({
+        path: `${WORKFLOW_PATH}.fields.tasks[0].next[0].do`,
+        severity: "error",
+      })
+    );
+  });
+
+  it("reports malformed tasks and transitions by path", () => {
+    const report = validateWorkflowBundle(
+      createBundle([null, { id: "t2", next: {} }, { id: "t3", next: [null] }])
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map((issue) => issue.path)).toEqual([
+      `${WORKFLOW_PATH}.fields.tasks[0]`,
+      `${WORKFLOW_PATH}.fields.tasks[1].next`,
+      `${WORKFLOW_PATH}.fields.tasks[2].next[0]`,
+    ]);
+  });
+
+  it("reports objects that are null", () => {
+    const report = validateWorkflowBundle(
+      createBundle([{ id: "t1" }], { empty: null })
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ path: '$.objects["empty"]', severity: "error" })
+    );
+  });
+
+  it("reports bundles whose workflows all have empty tasks", () => {
+    const report = validateWorkflowBundle(createBundle([]));
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ path: "$.objects", severity: "error" })
+    );
+  });
+
+  it("accepts a well-formed bundle", () => {
+    const report = validateWorkflowBundle(
+      createBundle([
+        { id: "t1", name: "start", next: [{ do: ["t2"] }] },
+        { id: "t2", name: "end" },
+      ])
+    );
+
+    expect(report).toEqual({ valid: true, issues: [] });
+  });
+});
@@ -1,3 +1,9 @@
+import { Task, WorkflowBundle } from "@/types/workflow";
+import {
+  isPlaceholder,
+  normalizeWorkflowBundle,
+} from "@/lib/workflow-normalization";
+
 // Define a type for workflow object validation
 interface WorkflowObjectForValidation {
   type: string;
@@ -18,50 +24,363 @@ interface WorkflowBundleForValidation {
 }
 
 /**
- * Validates if the data is a valid WorkflowBundle
+ * Severity of a validation issue
+ * Errors prevent the bundle from loading, warnings are shown alongside it
+ */
+export type ValidationSeverity = "error" | "warning";
+
+/**
+ * A single problem found in a workflow bundle
+ */
+export interface ValidationIssue {
+  /** JSON path to the offending value, e.g. `$.objects["workflow:abc"].fields.tasks` */
+  path: string;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+/**
+ * Result of validating a workflow bundle
+ */
+export interface ValidationReport {
+  /** true when there are no errors, warnings don't block loading */
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Versions of the export format the viewer understands
+ */
+const SUPPORTED_VERSIONS = [1, 2];
+
+/**
+ * Builds the JSON path of a bundle object
+ * @param key The key of the object in `objects`
+ * @returns The JSON path
+ */
+const objectPath = (key: string): string => `$.objects[${JSON.stringify(key)}]`;
+
+/**
+ * Creates a report from a list of issues
+ * @param issues The issues found
+ * @returns The validation report
+ */
+export const createValidationReport = (
+  issues: ValidationIssue[]
+): ValidationReport => ({
+  valid: !issues.some((issue) => issue.severity === "error"),
+  issues,
+});
+
+/**
+ * Checks the shape of a workflow's tasks and their transitions, which
+ * normalization and the reference checks rely on
+ * @param key The key of the workflow in `objects`
+ * @param tasks The workflow's tasks
+ * @returns The issues found
+ */
+const validateTasks = (key: string, tasks: unknown[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === "object" && !Array.isArray(value);
+
+  tasks.forEach((task, taskIndex) => {
+    const taskPath = `${objectPath(key)}.fields.tasks[${taskIndex}]`;
+    if (!isObject(task)) {
+      issues.push({
+        path: taskPath,
+        severity: "error",
+        message: `Task ${taskIndex} of workflow "${key}" is not an object`,
+      });
+      return;
+    }
+
+    if (task.next === undefined || task.next === null) return;
+    if (!Array.isArray(task.next)) {
+      issues.push({
+        path: `${taskPath}.next`,
+        severity: "error",
+        message: `Transitions of task "${
+          task.name || task.id || taskIndex
+        }" are not an array`,
+      });
+      return;
+    }
+
+    task.next.forEach((transition: unknown, transitionIndex) => {
+      const transitionPath = `${taskPath}.next[${transitionIndex}]`;
+      if (!isObject(transition)) {
+        issues.push({
+          path: transitionPath,
+          severity: "error",
+          message: `Transition ${transitionIndex} of task "${
+            task.name || task.id || taskIndex
+          }" is not an object`,
+        });
+        return;
+      }
+
+      if (transition.do === undefined || transition.do === null) return;
+      if (!Array.isArray(transition.do)) {
+        issues.push({
+          path: `${transitionPath}.do`,
+          severity: "error",
+          message: `Targets of transition ${transitionIndex} of task "${
+            task.name || task.id || taskIndex
+          }" are not an array`,
+        });
+        return;
+      }
+
+      transition.do.forEach((target: unknown, targetIndex) => {
+        if (typeof target === "string") return;
+        issues.push({
+          path: `${transitionPath}.do[${targetIndex}]`,
+          severity: "error",
+          message: `Target ${targetIndex} of transition ${transitionIndex} of task "${
+            task.name || task.id || taskIndex
+          }" is not a task ID`,
+        });
+      });
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Checks the references inside a structurally valid bundle: dangling
+ * placeholders, transitions to missing tasks and triggers pointing nowhere
+ * @param bundle The bundle to check
+ * @returns The issues found
+ */
+const validateReferences = (bundle: WorkflowBundle): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  let normalized;
+  try {
+    normalized = normalizeWorkflowBundle(bundle);
+  } catch (error) {
+    return [
+      {
+        path: "$.objects",
+        severity: "error",
+        message: `Could not resolve references: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      },
+    ];
+  }
+
+  normalized.unresolvedReferences.forEach(
+    ({ objectKey, location, placeholder }) => {
+      issues.push({
+        path: `${objectPath(objectKey)}.fields.${location}`,
+        severity: "warning",
+        message: `Placeholder "${placeholder}" does not reference any object in the bundle`,
+      });
+    }
+  );
+
+  const workflowIds = new Set<string>();
+
+  Object.entries(normalized.objects).forEach(([key, obj]) => {
+    if (obj?.type !== "workflow") return;
+    workflowIds.add(obj.fields.id as string);
+
+    const tasks = (obj.fields.tasks as Task[]) || [];
+    const taskIds = new Set(tasks.map((task) => task.id));
+    const workflowName = obj.nonfunctional_fields?.name || key;
+
+    tasks.forEach((task, taskIndex) => {
+      const next = Array.isArray(task?.next) ? task.next : [];
+      next.forEach((transition, transitionIndex) => {
+        const targets = Array.isArray(transition?.do) ? transition.do : [];
+        targets.forEach((targetId, targetIndex) => {
+          // Dangling placeholders were reported above
+          if (taskIds.has(targetId) || isPlaceholder(targetId)) return;
+
+          issues.push({
+            path: `${objectPath(
+              key
+            )}.fields.tasks[${taskIndex}].next[${transitionIndex}].do[${targetIndex}]`,
+            severity: "warning",
+            message: `Transition of task "${
+              task.name || task.id
+            }" targets "${targetId}", which is not a task in "${workflowName}"`,
+          });
+        });
+      });
+    });
+  });
+
+  Object.entries(normalized.objects).forEach(([key, obj]) => {
+    if (obj?.type !== "trigger") return;
+
+    const workflowId = obj.fields.workflowId;
+    if (
+      typeof workflowId === "string" &&
+      (workflowIds.has(workflowId) || isPlaceholder(workflowId))
+    ) {
+      return;
+    }
+
+    issues.push({
+      path: `${objectPath(key)}.fields.workflowId`,
+      severity: "warning",
+      message: `Trigger "${
+        obj.nonfunctional_fields?.name || key
+      }" points to a workflow that is not in the bundle`,
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Validates a workflow bundle and reports every problem found
  * @param data The data to validate
- * @returns true if the data is a valid WorkflowBundle, false otherwise
+ * @returns A report listing each issue with its JSON path and severity
  */
-export const isValidWorkflowBundle = (data: unknown): boolean => {
+export const validateWorkflowBundle = (data: unknown): ValidationReport => {
   // Check for required top-level properties
-  if (!data || typeof data !== "object") return false;
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return createValidationReport([
+      {
+        path: "$",
+        severity: "error",
+        message: "The file does not contain a JSON object",
+      },
+    ]);
+  }
 
   const bundle = data as WorkflowBundleForValidation;
+  const issues: ValidationIssue[] = [];
 
   // Check version (support both version 1 and 2)
-  if (
-    typeof bundle.version !== "number" ||
-    (bundle.version !== 1 && bundle.version !== 2)
-  )
-    return false;
+  if (typeof bundle.version !== "number") {
+    issues.push({
+      path: "$.version",
+      severity: "error",
+      message: "Missing bundle version",
+    });
+  } else if (!SUPPORTED_VERSIONS.includes(bundle.version)) {
+    issues.push({
+      path: "$.version",
+      severity: "warning",
+      message: `Unknown bundle version ${
+        bundle.version
+      }, expected ${SUPPORTED_VERSIONS.join(
+        " or "
+      )}. Some parts may not render correctly`,
+    });
+  }
 
   // Check exportedAt
-  if (typeof bundle.exportedAt !== "string") return false;
+  if (typeof bundle.exportedAt !== "string") {
+    issues.push({
+      path: "$.exportedAt",
+      severity: "warning",
+      message: "Missing export timestamp",
+    });
+  }
 
   // Check for objects property
-  if (!bundle.objects || typeof bundle.objects !== "object") return false;
-
-  // Check for at least one workflow object with tasks
-  const hasWorkflow = Object.values(bundle.objects).some(
-    (obj: WorkflowObjectForValidation) =>
-      obj &&
-      typeof obj === "object" &&
-      obj.type === "workflow" &&
-      obj.fields &&
-      Array.isArray(obj.fields.tasks)
+  if (
+    !bundle.objects ||
+    typeof bundle.objects !== "object" ||
+    Array.isArray(bundle.objects)
+  ) {
+    issues.push({
+      path: "$.objects",
+      severity: "error",
+      message: "Missing objects map",
+    });
+    return createValidationReport(issues);
+  }
+
+  // Check references property (version 1 keeps them at the top level)
+  if (
+    bundle.version === 1 &&
+    (!bundle.references || typeof bundle.references !== "object")
+  ) {
+    issues.push({
+      path: "$.references",
+      severity: "error",
+      message: "Version 1 bundles require a references map",
+    });
+  }
+
+  // Check that every entry is an object
+  Object.entries(bundle.objects).forEach(([key, obj]) => {
+    if (!obj || typeof obj !== "object" || Array.isArray(obj)) {
+      issues.push({
+        path: objectPath(key),
+        severity: "error",
+        message: `Object "${key}" is not an object`,
+      });
+    }
+  });
+
+  // Check workflow objects for tasks
+  const workflows = Object.entries(bundle.objects).filter(
+    ([, obj]) => obj && typeof obj === "object" && obj.type === "workflow"
+  );
+
+  if (workflows.length === 0) {
+    issues.push({
+      path: "$.objects",
+      severity: "error",
+      message: "The bundle does not contain any workflows",
+    });
+    return createValidationReport(issues);
+  }
+
+  workflows.forEach(([key, obj]) => {
+    if (!Array.isArray(obj.fields?.tasks)) {
+      issues.push({
+        path: `${objectPath(key)}.fields.tasks`,
+        severity: "warning",
+        message: `Workflow "${key}" has no tasks array`,
+      });
+    } else if (obj.fields.tasks.length === 0) {
+      issues.push({
+        path: `${objectPath(key)}.fields.tasks`,
+        severity: "warning",
+        message: `Workflow "${key}" has no tasks`,
+      });
+    } else {
+      issues.push(...validateTasks(key, obj.fields.tasks));
+    }
+  });
+
+  const hasWorkflowWithTasks = workflows.some(
+    ([, obj]) => Array.isArray(obj.fields?.tasks) && obj.fields.tasks.length > 0
   );
 
-  if (!hasWorkflow) return false;
+  if (!hasWorkflowWithTasks) {
+    issues.push({
+      path: "$.objects",
+      severity: "error",
+      message: "None of the workflows in the bundle have tasks",
+    });
+    return createValidationReport(issues);
+  }
 
-  // Check for references property (version 1) or dependencies (version 2)
-  if (bundle.version === 1) {
-    if (!bundle.references || typeof bundle.references !== "object")
-      return false;
-  } else if (bundle.version === 2) {
-    // Version 2 might have a signing property and different structure
-    // Just check that objects exist and have the right structure
-    return true;
+  if (!createValidationReport(issues).valid) {
+    return createValidationReport(issues);
   }
 
-  return true;
+  return createValidationReport([
+    ...issues,
+    ...validateReferences(data as WorkflowBundle),
+  ]);
 };
+
+/**
+ * Validates if the data is a valid WorkflowBundle
+ * @param data The data to validate
+ * @returns true if the data is a valid WorkflowBundle, false otherwise
+ */
+export const isValidWorkflowBundle = (data: unknown): boolean =>
+  validateWorkflowBundle(data).valid;
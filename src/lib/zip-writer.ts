@@ -0,0 +1,157 @@
+/**
+ * A file written into a zip archive
+ */
+export interface ZipEntry {
+  /** Path of the file in the archive, e.g. `docs/onboard-user.md` */
+  name: string;
+  /** The content, text is written as UTF-8 */
+  data: string | Uint8Array;
+}
+
+/**
+ * CRC-32 of every byte value, for the checksums zip files keep
+ */
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Computes the CRC-32 checksum of bytes
+ * @param data The bytes
+ * @returns The checksum
+ */
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  data.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Converts a date to the MS-DOS time and date zip files keep
+ * @param date The date, in local time
+ * @returns The time and the date
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    (Math.max(date.getFullYear() - 1980, 0) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+/**
+ * Writes the little-endian integers of a zip record
+ * @param fields Each field's byte size and value
+ * @returns The record
+ */
+const writeRecord = (fields: Array<[2 | 4, number]>): Uint8Array => {
+  const size = fields.reduce((total, [bytes]) => total + bytes, 0);
+  const view = new DataView(new ArrayBuffer(size));
+  let offset = 0;
+  fields.forEach(([bytes, value]) => {
+    if (bytes === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += bytes;
+  });
+  return new Uint8Array(view.buffer);
+};
+
+/**
+ * Creates a zip archive
+ * Files are stored without compression, which keeps the writer small. The
+ * text documents it is used for are a few kilobytes each.
+ * @param entries The files
+ * @param modified The date the files are marked as modified
+ * @returns The zip file
+ */
+export const createZip = (
+  entries: ZipEntry[],
+  modified = new Date()
+): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  // Names are UTF-8, flagged by bit 11
+  const flags = 0x0800;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const data =
+      typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const localHeader = writeRecord([
+      [4, 0x04034b50],
+      [2, 20],
+      [2, flags],
+      [2, 0],
+      [2, time],
+      [2, date],
+      [4, crc],
+      [4, data.length],
+      [4, data.length],
+      [2, name.length],
+      [2, 0],
+    ]);
+    centralDirectory.push(
+      writeRecord([
+        [4, 0x02014b50],
+        [2, 20],
+        [2, 20],
+        [2, flags],
+        [2, 0],
+        [2, time],
+        [2, date],
+        [4, crc],
+        [4, data.length],
+        [4, data.length],
+        [2, name.length],
+        [2, 0],
+        [2, 0],
+        [2, 0],
+        [2, 0],
+        [4, 0],
+        [4, offset],
+      ]),
+      name
+    );
+
+    chunks.push(localHeader, name, data);
+    offset += localHeader.length + name.length + data.length;
+  });
+
+  const directorySize = centralDirectory.reduce(
+    (total, chunk) => total + chunk.length,
+    0
+  );
+  const endOfDirectory = writeRecord([
+    [4, 0x06054b50],
+    [2, 0],
+    [2, 0],
+    [2, entries.length],
+    [2, entries.length],
+    [4, directorySize],
+    [4, offset],
+    [2, 0],
+  ]);
+
+  const file = new Uint8Array(offset + directorySize + endOfDirectory.length);
+  let position = 0;
+  [...chunks, ...centralDirectory, endOfDirectory].forEach((chunk) => {
+    file.set(chunk, position);
+    position += chunk.length;
+  });
+  return file;
+};
@@ -1,9 +1,14 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { StandaloneViewer } from './components/StandaloneViewer';
+import { readEmbeddedWorkflow } from './lib/standalone-html';
+
+// Exported HTML files open their embedded workflow instead of the app
+const embeddedWorkflow = readEmbeddedWorkflow(document);
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {embeddedWorkflow ? <StandaloneViewer {...embeddedWorkflow} /> : <App />}
   </StrictMode>
 );
\ No newline at end of file
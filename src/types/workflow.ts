@@ -4,11 +4,35 @@ export interface WorkflowBundle {
   objects: {
     [key: string]: WorkflowObject;
   };
-  references: {
+  references?: {
     [key: string]: Reference;
   };
 }
 
+/**
+ * A workflow bundle whose `@@@type_refN@@@` placeholders have been resolved
+ * against the bundle's reference maps (see `normalizeWorkflowBundle`)
+ */
+export interface NormalizedWorkflowBundle extends WorkflowBundle {
+  normalized: true;
+  /**
+   * Placeholders that could not be matched to a reference or object
+   */
+  unresolvedReferences: UnresolvedReference[];
+}
+
+/**
+ * A placeholder that points at nothing in the bundle
+ */
+export interface UnresolvedReference {
+  /** Key of the object containing the placeholder */
+  objectKey: string;
+  /** Location of the placeholder inside the object, e.g. `tasks[0].action.id` */
+  location: string;
+  /** Placeholder name without the `@@@` markers, e.g. `action_ref1` */
+  placeholder: string;
+}
+
 export interface WorkflowObject {
   type: string;
   content_hash: string;
@@ -28,6 +52,11 @@ export interface WorkflowObject {
     };
     [key: string]: unknown; // Use unknown instead of any
   };
+  // Version 2 bundles scope references to the object that uses them
+  references?: {
+    [key: string]: Reference;
+  };
+  dependencies?: string[];
 }
 
 export interface Reference {
@@ -48,8 +77,9 @@ export interface Task {
   name?: string;
   description?: string;
   action?: {
-    id: string;
+    id?: string;
     ref?: string;
+    workflow_id?: string; // Set instead of id when the task runs a sub-workflow
   };
   next?: {
     id: string;